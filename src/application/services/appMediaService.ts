@@ -0,0 +1,115 @@
+import { App } from '../../domain/models/App';
+import { CatalogCache } from '../../infrastructure/cache/catalogCache';
+import { ImageCache, StoredImage, computeEtag } from '../../infrastructure/images/imageCache';
+import { ImageData, decodeDataUri, isDataUri } from '../../infrastructure/images/imageFetcher';
+import { generateIdenticon } from '../../infrastructure/images/identicon';
+import logger from '../../shared/logger';
+
+// An icon or screenshot, and whether it belongs to a private app
+export interface AppImage extends StoredImage {
+  private: boolean;
+}
+
+// This service serves app icons and screenshots from our own origin, so
+// clients never hot-link the hosts named in image labels.
+export class AppMediaService {
+  private catalogCache: CatalogCache;
+  private imageCache: ImageCache;
+  private fetchImage: (source: string) => Promise<ImageData>;
+  private maxBytes: number;
+  // Downloads in progress, keyed by source URL
+  private pendingDownloads = new Map<string, Promise<StoredImage>>();
+
+  constructor(
+    catalogCache: CatalogCache,
+    imageCache: ImageCache,
+    fetchImage: (source: string) => Promise<ImageData>,
+    maxBytes: number
+  ) {
+    this.catalogCache = catalogCache;
+    this.imageCache = imageCache;
+    this.fetchImage = fetchImage;
+    this.maxBytes = maxBytes;
+  }
+
+  /**
+   * Returns the icon of an app, or null if the app is not in the catalog (or
+   * private, unless `includePrivate` is set). Apps without a (valid) icon get
+   * a generated identicon.
+   */
+  public async getIcon(location: string, includePrivate: boolean): Promise<AppImage | null> {
+    const app = await this.findApp(location, includePrivate);
+    if (!app) return null;
+
+    if (app.pictureUrl) {
+      try {
+        return { ...(await this.loadImage(app.pictureUrl)), private: Boolean(app.private) };
+      } catch (error: any) {
+        logger.warn(`Using an identicon for ${location}, its icon failed`, {
+          error: error.message,
+        });
+      }
+    }
+    return { ...this.toStoredImage(generateIdenticon(location)), private: Boolean(app.private) };
+  }
+
+  /**
+   * Returns a screenshot of an app, or null if the app or the screenshot does
+   * not exist. Unreachable or invalid images throw.
+   */
+  public async getScreenshot(
+    location: string,
+    index: number,
+    includePrivate: boolean
+  ): Promise<AppImage | null> {
+    const app = await this.findApp(location, includePrivate);
+    const source = app?.screenshots[index];
+    if (!source) return null;
+
+    return { ...(await this.loadImage(source)), private: Boolean(app.private) };
+  }
+
+  private async findApp(location: string, includePrivate: boolean): Promise<App | null> {
+    const snapshot = await this.catalogCache.getSnapshot();
+    const app = snapshot.apps.find((candidate) => candidate.location.value === location);
+    return app && (includePrivate || !app.private) ? app : null;
+  }
+
+  /**
+   * Serves remote images from the disk cache while fresh. Expired entries are
+   * downloaded again, but still used if the download fails.
+   */
+  private async loadImage(source: string): Promise<StoredImage> {
+    if (isDataUri(source)) {
+      return this.toStoredImage(decodeDataUri(source, this.maxBytes));
+    }
+
+    const cached = await this.imageCache.get(source);
+    if (cached?.fresh) return cached.image;
+
+    try {
+      return await this.download(source);
+    } catch (error: any) {
+      if (!cached) throw error;
+      logger.warn(`Serving stale cached image ${source}`, { error: error.message });
+      return cached.image;
+    }
+  }
+
+  private download(source: string): Promise<StoredImage> {
+    let pending = this.pendingDownloads.get(source);
+    if (!pending) {
+      pending = this.fetchImage(source)
+        .then((image) => this.imageCache.put(source, image))
+        .finally(() => {
+          this.pendingDownloads.delete(source);
+        });
+      this.pendingDownloads.set(source, pending);
+    }
+    return pending;
+  }
+
+  private toStoredImage(image: ImageData): StoredImage {
+    return { ...image, etag: computeEtag(image.data), storedAt: Date.now() };
+  }
+}
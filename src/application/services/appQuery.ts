@@ -0,0 +1,133 @@
+import { App } from "../../domain/models/App";
+
+export const APP_SORT_FIELDS = ["name", "updated", "stars", "pulls", "weight"] as const;
+export type AppSortField = (typeof APP_SORT_FIELDS)[number];
+export type SortOrder = "asc" | "desc";
+
+export const DEFAULT_APP_LIMIT = 20;
+
+// A validated query over the app catalog
+export interface AppQuery {
+  search?: string;
+  category?: string;
+  vendor?: string;
+  architecture?: string;
+  featured?: boolean;
+  // Id of a catalog source
+  source?: string;
+  sort: AppSortField;
+  order: SortOrder;
+  limit: number;
+  // Either page-based or cursor-based pagination, never both
+  page?: number;
+  cursor?: string;
+}
+
+// One page of query results
+export interface AppPage {
+  items: App[];
+  total: number;
+  limit: number;
+  page?: number;
+  nextCursor: string | null;
+}
+
+// Cursors are opaque to clients; internally they are an encoded offset
+export function encodeCursor(offset: number): string {
+  return Buffer.from(`offset:${offset}`).toString("base64url");
+}
+
+export function decodeCursor(cursor: string): number | null {
+  const match = Buffer.from(cursor, "base64url")
+    .toString()
+    .match(/^offset:(\d+)$/);
+  return match ? parseInt(match[1], 10) : null;
+}
+
+const equalsIgnoreCase = (a: string | undefined, b: string) =>
+  a !== undefined && a.toLowerCase() === b.toLowerCase();
+
+function matches(app: App, query: AppQuery): boolean {
+  if (query.search) {
+    const term = query.search.toLowerCase();
+    const haystack = `${app.name} ${app.location.value} ${app.description}`.toLowerCase();
+    if (!haystack.includes(term)) return false;
+  }
+  if (query.category && !equalsIgnoreCase(app.category, query.category)) {
+    return false;
+  }
+  if (query.vendor && !equalsIgnoreCase(app.vendor, query.vendor)) {
+    return false;
+  }
+  if (query.source && app.source !== query.source) {
+    return false;
+  }
+  if (query.featured !== undefined && (app.featured === true) !== query.featured) {
+    return false;
+  }
+  if (
+    query.architecture &&
+    !app.platforms.some((platform) =>
+      equalsIgnoreCase(platform.architecture, query.architecture!)
+    )
+  ) {
+    return false;
+  }
+  return true;
+}
+
+// Values used for sorting; apps missing a value always sort last
+function getSortValue(app: App, field: AppSortField): string | number | undefined {
+  switch (field) {
+    case "name":
+      return app.name.toLowerCase();
+    case "updated":
+      return app.lastUpdated ? Date.parse(app.lastUpdated) : undefined;
+    case "stars":
+      return app.starCount;
+    case "pulls":
+      return app.pullCount;
+    case "weight":
+      // Uncurated apps have the neutral weight
+      return app.sortWeight ?? 0;
+  }
+}
+
+function compareApps(a: App, b: App, query: AppQuery): number {
+  const aValue = getSortValue(a, query.sort);
+  const bValue = getSortValue(b, query.sort);
+
+  if (aValue === undefined || bValue === undefined) {
+    if (aValue === bValue) return a.location.value.localeCompare(b.location.value);
+    return aValue === undefined ? 1 : -1;
+  }
+
+  const direction = query.order === "asc" ? 1 : -1;
+  if (aValue < bValue) return -1 * direction;
+  if (aValue > bValue) return 1 * direction;
+  // Keep the order stable between requests so cursors stay valid
+  return a.location.value.localeCompare(b.location.value);
+}
+
+/**
+ * Filters, sorts and paginates the catalog according to the query.
+ */
+export function queryApps(apps: App[], query: AppQuery): AppPage {
+  const filtered = apps
+    .filter((app) => matches(app, query))
+    .sort((a, b) => compareApps(a, b, query));
+
+  const offset = query.cursor
+    ? decodeCursor(query.cursor) ?? 0
+    : ((query.page ?? 1) - 1) * query.limit;
+  const items = filtered.slice(offset, offset + query.limit);
+  const nextOffset = offset + items.length;
+
+  return {
+    items,
+    total: filtered.length,
+    limit: query.limit,
+    page: query.cursor ? undefined : query.page ?? 1,
+    nextCursor: nextOffset < filtered.length ? encodeCursor(nextOffset) : null,
+  };
+}
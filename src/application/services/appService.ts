@@ -1,16 +1,97 @@
 import { App } from '../../domain/models/App';
+import { AppDetail } from '../../domain/models/AppDetail';
+import { InstallPlan } from '../../domain/models/InstallPlan';
+import { TagList } from '../../domain/models/Tag';
+import { SupplyChainDocument } from '../../domain/models/SupplyChain';
+import { AppLocation } from '../../domain/valueObjects/AppLocation';
+import { buildInstallPlan } from '../../domain/services/installSnippets';
 import { IAppRepository } from '../../infrastructure/repositories/appRepository';
+import { CatalogCache, CatalogSnapshot } from '../../infrastructure/cache/catalogCache';
+import { AppPage, AppQuery, queryApps } from './appQuery';
 
 // This service orchestrates the use case of fetching all applications.
+// Private apps are left out (and not found) unless `includePrivate` is set.
 export class AppService {
   private appRepository: IAppRepository;
+  private catalogCache: CatalogCache;
 
-  constructor(appRepository: IAppRepository) {
+  constructor(appRepository: IAppRepository, catalogCache: CatalogCache) {
     this.appRepository = appRepository;
+    this.catalogCache = catalogCache;
   }
 
   public async getAllApps(): Promise<App[]> {
-    // This method retrieves all applications from the repository.
-    return this.appRepository.findAll();
+    // This method retrieves all applications from the cached catalog.
+    const snapshot = await this.catalogCache.getSnapshot();
+    return snapshot.apps;
   }
-}
\ No newline at end of file
+
+  public async getCatalog(): Promise<CatalogSnapshot> {
+    // Same as getAllApps, but keeps the snapshot metadata (e.g. its age).
+    return this.catalogCache.getSnapshot();
+  }
+
+  public async searchApps(
+    query: AppQuery,
+    includePrivate: boolean
+  ): Promise<{ page: AppPage; snapshot: CatalogSnapshot }> {
+    // Search, filter, sort and paginate over the cached catalog.
+    const snapshot = await this.catalogCache.getSnapshot();
+    const apps = includePrivate ? snapshot.apps : snapshot.apps.filter((app) => !app.private);
+    return { page: queryApps(apps, query), snapshot };
+  }
+
+  public async getAppDetail(
+    location: string,
+    tag: string | undefined,
+    includePrivate: boolean
+  ): Promise<AppDetail | null> {
+    // Details are always read live from the registry, not from the cache.
+    const app = await this.appRepository.findByLocation(AppLocation.create(location), tag);
+    return app && (includePrivate || !app.private) ? app : null;
+  }
+
+  public async getAppTags(location: string, includePrivate: boolean): Promise<TagList | null> {
+    if (!(await this.isVisible(location, includePrivate))) return null;
+    return this.appRepository.findTags(AppLocation.create(location));
+  }
+
+  public async getInstallPlan(
+    location: string,
+    tag: string | undefined,
+    includePrivate: boolean
+  ): Promise<InstallPlan | null> {
+    if (!(await this.isVisible(location, includePrivate))) return null;
+    // Snippets are generated from the live image config of the tag.
+    const image = await this.appRepository.findImage(AppLocation.create(location), tag);
+    return image ? buildInstallPlan(location, image) : null;
+  }
+
+  public async getSupplyChainDocument(
+    location: string,
+    digest: string,
+    tag: string | undefined,
+    includePrivate: boolean
+  ): Promise<{ document: SupplyChainDocument; content: any } | null> {
+    if (!(await this.isVisible(location, includePrivate))) return null;
+    return this.appRepository.findSupplyChainDocument(
+      AppLocation.create(location),
+      digest,
+      tag
+    );
+  }
+
+  /**
+   * Tag lists and images don't tell whether the repository is private; the
+   * catalog does. Repositories the snapshot doesn't know (yet) are read
+   * live, and only shown if they turn out to be public.
+   */
+  private async isVisible(location: string, includePrivate: boolean): Promise<boolean> {
+    if (includePrivate) return true;
+    const snapshot = await this.catalogCache.getSnapshot();
+    const app =
+      snapshot.apps.find((candidate) => candidate.location.value === location) ||
+      (await this.appRepository.findOne(AppLocation.create(location)));
+    return app !== null && !app.private;
+  }
+}
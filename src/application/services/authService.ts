@@ -0,0 +1,141 @@
+import { createHash, timingSafeEqual } from 'crypto';
+import { ApiKey, ApiKeyInput } from '../../domain/models/ApiKey';
+import { Principal, Scope, isScope } from '../../domain/models/Principal';
+import { IApiKeyStore, isApiKey } from '../../infrastructure/auth/apiKeyStore';
+import { JwtClaims, JwtVerifier } from '../../infrastructure/auth/jwtVerifier';
+import { UnauthorizedError } from '../../shared/errors';
+import logger from '../../shared/logger';
+
+// What a request presents to prove who it is
+export interface Credentials {
+  // The `Authorization` header
+  authorization?: string;
+  // The `X-API-Key` header
+  apiKey?: string;
+  // Names the editor in the audit trail when the admin token is used
+  actor?: string;
+  ip: string;
+}
+
+export interface AuthOptions {
+  // Accepted as a bearer token with the admin scope; ignored when empty
+  adminToken: string;
+  anonymousScopes: Scope[];
+}
+
+const MAX_ACTOR_LENGTH = 100;
+
+// Hash both sides so the comparison takes the same time for any length
+const digest = (value: string) => createHash('sha256').update(value).digest();
+
+// Claims are whatever the issuer put in the token, so check their types
+const scopesOf = (claims: JwtClaims): Scope[] => {
+  const granted: unknown[] = Array.isArray(claims.scp)
+    ? claims.scp
+    : typeof claims.scope === 'string'
+      ? claims.scope.split(' ')
+      : [];
+  return granted.filter((scope): scope is Scope => typeof scope === 'string' && isScope(scope));
+};
+
+// This service decides who a request comes from, and manages API keys.
+export class AuthService {
+  private apiKeyStore: IApiKeyStore;
+  private jwtVerifier: JwtVerifier | null;
+  private options: AuthOptions;
+
+  constructor(apiKeyStore: IApiKeyStore, jwtVerifier: JwtVerifier | null, options: AuthOptions) {
+    this.apiKeyStore = apiKeyStore;
+    this.jwtVerifier = jwtVerifier;
+    this.options = options;
+  }
+
+  /**
+   * Resolves the caller from an API key (`X-API-Key` or bearer), a JWT or
+   * the admin token. Requests without credentials are anonymous; wrong
+   * credentials throw UnauthorizedError rather than falling back to
+   * anonymous, so clients notice.
+   */
+  public async authenticate(credentials: Credentials): Promise<Principal> {
+    if (credentials.apiKey !== undefined) {
+      return this.authenticateApiKey(credentials.apiKey);
+    }
+    if (credentials.authorization === undefined) {
+      return {
+        id: `ip:${credentials.ip}`,
+        name: 'anonymous',
+        kind: 'anonymous',
+        scopes: this.options.anonymousScopes,
+      };
+    }
+
+    const match = credentials.authorization.match(/^Bearer\s+(\S+)$/i);
+    if (!match) {
+      throw new UnauthorizedError('Only bearer tokens are accepted.');
+    }
+    const token = match[1];
+
+    if (isApiKey(token)) {
+      return this.authenticateApiKey(token);
+    }
+    if (this.options.adminToken && timingSafeEqual(digest(token), digest(this.options.adminToken))) {
+      const actor = credentials.actor?.trim().slice(0, MAX_ACTOR_LENGTH);
+      return { id: 'admin-token', name: actor || 'admin', kind: 'admin-token', scopes: ['admin'] };
+    }
+    if (this.jwtVerifier && JwtVerifier.looksLikeJwt(token)) {
+      const claims = this.jwtVerifier.verify(token);
+      if (!claims.sub) {
+        throw new UnauthorizedError('The JWT has no subject.');
+      }
+      return {
+        id: `jwt:${claims.sub}`,
+        name: claims.name || claims.sub,
+        kind: 'jwt',
+        scopes: scopesOf(claims),
+      };
+    }
+
+    logger.warn(`Rejected a bearer token from ${credentials.ip}`);
+    throw new UnauthorizedError('Invalid bearer token.');
+  }
+
+  public async listApiKeys(): Promise<ApiKey[]> {
+    return this.apiKeyStore.getAll();
+  }
+
+  /**
+   * Creates an API key. The returned key is the only copy of the secret.
+   */
+  public async createApiKey(
+    input: ApiKeyInput,
+    actor: string
+  ): Promise<{ apiKey: ApiKey; key: string }> {
+    const created = await this.apiKeyStore.create(input, actor);
+    logger.info(
+      `${actor} created API key ${created.apiKey.id} (${input.name}) with scopes ${input.scopes.join(', ')}`
+    );
+    return created;
+  }
+
+  public async revokeApiKey(id: string, actor: string): Promise<boolean> {
+    const revoked = await this.apiKeyStore.revoke(id);
+    if (revoked) {
+      logger.info(`${actor} revoked API key ${id}`);
+    }
+    return revoked;
+  }
+
+  private async authenticateApiKey(key: string): Promise<Principal> {
+    const apiKey = await this.apiKeyStore.authenticate(key);
+    if (!apiKey) {
+      throw new UnauthorizedError('Invalid API key.');
+    }
+    return {
+      id: `key:${apiKey.id}`,
+      name: apiKey.name,
+      kind: 'api-key',
+      scopes: apiKey.scopes,
+      rateLimit: apiKey.rateLimit,
+    };
+  }
+}
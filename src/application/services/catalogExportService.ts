@@ -0,0 +1,62 @@
+import { ExportFormat } from '../../domain/models/CatalogExport';
+import { toAtomFeed, toCsv, toPortainerTemplates } from '../../domain/services/catalogExport';
+import { CatalogCache, CatalogSnapshot } from '../../infrastructure/cache/catalogCache';
+import { IRegistryBackend } from '../../infrastructure/registry/registryBackend';
+
+export interface CatalogExport {
+  contentType: string;
+  body: string;
+  snapshot: CatalogSnapshot;
+}
+
+// This service renders the cached catalog in the formats other tools read.
+// Private apps are left out unless `includePrivate` is set.
+export class CatalogExportService {
+  private catalogCache: CatalogCache;
+  private backend: IRegistryBackend;
+
+  constructor(catalogCache: CatalogCache, backend: IRegistryBackend) {
+    this.catalogCache = catalogCache;
+    this.backend = backend;
+  }
+
+  /**
+   * Renders the catalog; `baseUrl` is where clients reach the API, for the
+   * logo and feed links.
+   */
+  public async export(
+    format: ExportFormat,
+    baseUrl: string,
+    includePrivate: boolean
+  ): Promise<CatalogExport> {
+    const snapshot = await this.catalogCache.getSnapshot();
+    const apps = includePrivate ? snapshot.apps : snapshot.apps.filter((app) => !app.private);
+    const context = {
+      baseUrl,
+      pullReference: (location: string) => this.backend.getPullReference(location),
+      changedAt: snapshot.changedAt,
+    };
+
+    switch (format) {
+      case 'portainer-v2':
+      case 'portainer-v3':
+        return {
+          contentType: 'application/json',
+          body: JSON.stringify(
+            toPortainerTemplates(apps, format === 'portainer-v2' ? '2' : '3', context),
+            null,
+            2
+          ),
+          snapshot,
+        };
+      case 'csv':
+        return { contentType: 'text/csv; charset=utf-8', body: toCsv(apps, context), snapshot };
+      case 'atom':
+        return {
+          contentType: 'application/atom+xml; charset=utf-8',
+          body: toAtomFeed(apps, context),
+          snapshot,
+        };
+    }
+  }
+}
@@ -0,0 +1,157 @@
+import { CatalogChange, CatalogEntry } from '../../domain/models/CatalogChange';
+import { diffCatalogs, toCatalogEntry } from '../../domain/services/catalogDiff';
+import { CatalogCache, CatalogSnapshot } from '../../infrastructure/cache/catalogCache';
+import { IChangeLog } from '../../infrastructure/changes/changeLog';
+import logger from '../../shared/logger';
+import metrics from '../../shared/metrics';
+
+const changesDetected = metrics.counter(
+  'catalog_changes_total',
+  'Catalog changes detected between snapshots.',
+  ['type']
+);
+
+// Where to start reading the change log: after a change id, or after a point in time
+export type ChangeCursor = { afterId: number } | { after: Date };
+
+export interface ChangePage {
+  changes: CatalogChange[];
+  // The newest change id; pass it as `since` to continue from here
+  latestId: number;
+  hasMore: boolean;
+  // Changes after the cursor were already trimmed from the log
+  truncated: boolean;
+}
+
+export type ChangeListener = (changes: CatalogChange[]) => void;
+
+// This service turns catalog snapshots into a feed of changes.
+export class ChangeFeedService {
+  private changeLog: IChangeLog;
+  private catalogCache: CatalogCache;
+  private listeners = new Set<ChangeListener>();
+  // Snapshots are compared one after another, in the order they arrive
+  private processing: Promise<unknown> = Promise.resolve();
+
+  constructor(changeLog: IChangeLog, catalogCache: CatalogCache) {
+    this.changeLog = changeLog;
+    this.catalogCache = catalogCache;
+  }
+
+  /**
+   * Starts comparing every new catalog snapshot with the previous one.
+   */
+  public start(): void {
+    this.catalogCache.onSnapshot((snapshot) => {
+      this.processing = this.processing
+        .then(() => this.recordSnapshot(snapshot))
+        .catch((error) => {
+          logger.error('Failed to record catalog changes:', error);
+        });
+    });
+  }
+
+  /**
+   * Lists logged changes, oldest first. Without a cursor the most recent
+   * changes are returned. Changes of private apps are left out unless
+   * `includePrivate` is set.
+   */
+  public async getChanges(
+    cursor: ChangeCursor | null,
+    limit: number,
+    includePrivate: boolean
+  ): Promise<ChangePage> {
+    const [logged, latestId] = await Promise.all([
+      this.changeLog.getChanges(),
+      this.changeLog.getLatestId(),
+    ]);
+    // Ids before the oldest retained change have been trimmed
+    const firstRetainedId = logged.length > 0 ? logged[0].id : latestId + 1;
+    const changes = includePrivate ? logged : logged.filter((change) => !change.private);
+
+    if (!cursor) {
+      return {
+        changes: changes.slice(-limit),
+        latestId,
+        hasMore: false,
+        truncated: false,
+      };
+    }
+
+    const matching =
+      'afterId' in cursor
+        ? changes.filter((change) => change.id > cursor.afterId)
+        : changes.filter((change) => new Date(change.detectedAt) > cursor.after);
+    const truncated =
+      firstRetainedId > 1 &&
+      ('afterId' in cursor
+        ? cursor.afterId < firstRetainedId - 1
+        : logged.length === 0 || new Date(logged[0].detectedAt) > cursor.after);
+
+    return {
+      changes: matching.slice(0, limit),
+      latestId,
+      hasMore: matching.length > limit,
+      truncated,
+    };
+  }
+
+  /**
+   * Calls the listener with every batch of changes recorded from now on.
+   * Returns a function that stops the subscription.
+   */
+  public subscribe(listener: ChangeListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private async recordSnapshot(snapshot: CatalogSnapshot): Promise<void> {
+    const baseline = await this.changeLog.getBaseline();
+    const current = snapshot.apps.map(toCatalogEntry);
+
+    if (!baseline) {
+      // The first snapshot ever is the starting point, not a list of new apps
+      await this.changeLog.record([], current);
+      logger.info(`Recorded the first catalog baseline with ${current.length} apps`);
+      return;
+    }
+
+    const drafts = diffCatalogs(baseline, current, snapshot.warnings);
+    const nextBaseline = this.keepUnreadable(baseline, current, drafts.map((draft) => draft.location));
+    if (drafts.length === 0 && JSON.stringify(nextBaseline) === JSON.stringify(baseline)) {
+      return;
+    }
+
+    const recorded = await this.changeLog.record(drafts, nextBaseline);
+    if (recorded.length === 0) return;
+
+    recorded.forEach((change) => changesDetected.inc({ type: change.type }));
+    logger.info(`Detected ${recorded.length} catalog change(s)`);
+    for (const listener of this.listeners) {
+      try {
+        listener(recorded);
+      } catch (error) {
+        logger.error('Catalog change listener failed:', error);
+      }
+    }
+  }
+
+  /**
+   * Apps that could not be read are missing from the snapshot but were not
+   * removed; they stay in the baseline so they don't come back as new.
+   */
+  private keepUnreadable(
+    baseline: CatalogEntry[],
+    current: CatalogEntry[],
+    changedLocations: string[]
+  ): CatalogEntry[] {
+    const present = new Set(current.map((entry) => entry.location));
+    const changed = new Set(changedLocations);
+    return [
+      ...current,
+      ...baseline.filter((entry) => !present.has(entry.location) && !changed.has(entry.location)),
+    ];
+  }
+}
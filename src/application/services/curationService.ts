@@ -0,0 +1,83 @@
+import {
+  AppCuration,
+  CurationAuditEntry,
+  CurationInput,
+} from '../../domain/models/Curation';
+import {
+  CurationPatch,
+  DEFAULT_CURATION,
+  mergeCurationPatch,
+} from '../../domain/services/curation';
+import { AppLocation } from '../../domain/valueObjects/AppLocation';
+import { CatalogCache } from '../../infrastructure/cache/catalogCache';
+import { ICurationStore } from '../../infrastructure/curation/curationStore';
+import logger from '../../shared/logger';
+
+// This service orchestrates the admin use cases around app curation.
+export class CurationService {
+  private curationStore: ICurationStore;
+  private catalogCache: CatalogCache;
+
+  constructor(curationStore: ICurationStore, catalogCache: CatalogCache) {
+    this.curationStore = curationStore;
+    this.catalogCache = catalogCache;
+  }
+
+  public async listCurations(): Promise<AppCuration[]> {
+    return [...(await this.curationStore.getAll()).values()];
+  }
+
+  public async getCuration(
+    location: string
+  ): Promise<{ curation: AppCuration; audit: CurationAuditEntry[] } | null> {
+    const curation = await this.curationStore.get(location);
+    if (!curation) return null;
+
+    return { curation, audit: await this.curationStore.getAuditTrail(location) };
+  }
+
+  public async replaceCuration(
+    location: string,
+    patch: CurationPatch,
+    actor: string
+  ): Promise<AppCuration> {
+    // Anything not given falls back to the defaults
+    return this.save(location, mergeCurationPatch(DEFAULT_CURATION, patch), actor);
+  }
+
+  public async updateCuration(
+    location: string,
+    patch: CurationPatch,
+    actor: string
+  ): Promise<AppCuration> {
+    const current = (await this.curationStore.get(location)) || DEFAULT_CURATION;
+    return this.save(location, mergeCurationPatch(current, patch), actor);
+  }
+
+  public async removeCuration(location: string, actor: string): Promise<boolean> {
+    const removed = await this.curationStore.remove(location, actor);
+    if (removed) this.refreshCatalogEntry(location);
+    return removed;
+  }
+
+  public async getAuditTrail(limit: number): Promise<CurationAuditEntry[]> {
+    return this.curationStore.getAuditTrail(undefined, limit);
+  }
+
+  private async save(
+    location: string,
+    input: CurationInput,
+    actor: string
+  ): Promise<AppCuration> {
+    const curation = await this.curationStore.save(location, input, actor);
+    this.refreshCatalogEntry(location);
+    return curation;
+  }
+
+  // Show the change in the catalog without waiting for the next full refresh
+  private refreshCatalogEntry(location: string): void {
+    this.catalogCache.refreshApp(AppLocation.create(location)).catch((error) => {
+      logger.error(`Failed to refresh ${location} after a curation change:`, error);
+    });
+  }
+}
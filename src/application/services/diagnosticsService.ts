@@ -0,0 +1,111 @@
+import { App } from '../../domain/models/App';
+import { CatalogSource } from '../../domain/models/CatalogSource';
+import { DiagnosticCheck, Diagnosis } from '../../domain/models/Diagnosis';
+import { findCatalogSource } from '../../domain/services/catalogSources';
+import { TagPolicy, selectStableTag } from '../../domain/services/tagPolicy';
+import { AppLocation } from '../../domain/valueObjects/AppLocation';
+import { ICurationStore } from '../../infrastructure/curation/curationStore';
+import { IRegistryBackend } from '../../infrastructure/registry/registryBackend';
+import { testRepositoryAccess } from '../../infrastructure/registry/repositoryAccess';
+import { IAppRepository } from '../../infrastructure/repositories/appRepository';
+
+// This service explains, step by step, what the catalog sees of a repository.
+export class DiagnosticsService {
+  private backend: IRegistryBackend;
+  private appRepository: IAppRepository;
+  private sources: CatalogSource[];
+  private tagPolicy: TagPolicy;
+  private curationStore: ICurationStore;
+
+  // `appRepository` must be the uncurated one, so hidden apps can be read
+  constructor(
+    backend: IRegistryBackend,
+    appRepository: IAppRepository,
+    sources: CatalogSource[],
+    tagPolicy: TagPolicy,
+    curationStore: ICurationStore
+  ) {
+    this.backend = backend;
+    this.appRepository = appRepository;
+    this.sources = sources;
+    this.tagPolicy = tagPolicy;
+    this.curationStore = curationStore;
+  }
+
+  /**
+   * Runs the checks in the order a catalog refresh depends on them. Checks
+   * after a failed registry check are skipped, since they would only fail
+   * for the same reason.
+   */
+  public async diagnose(location: string): Promise<Diagnosis> {
+    const checks: DiagnosticCheck[] = [];
+    const add = (name: string, status: DiagnosticCheck['status'], detail: string) =>
+      checks.push({ name, status, detail });
+    const done = (): Diagnosis => ({
+      location,
+      checks,
+      ok: checks.every((check) => check.status !== 'fail'),
+    });
+
+    const source = findCatalogSource(this.sources, location);
+    if (source) {
+      add('catalog-source', 'pass', `Part of catalog source '${source.id}'.`);
+    } else {
+      add('catalog-source', 'fail', 'Not part of any catalog source, so the API does not serve it.');
+    }
+
+    const curation = await this.curationStore.get(location);
+    if (curation?.hidden) {
+      add('curation', 'warn', `Hidden by ${curation.updatedBy} on ${curation.updatedAt}.`);
+    } else {
+      add('curation', 'pass', curation ? 'Curated, not hidden.' : 'Not curated.');
+    }
+
+    const access = await testRepositoryAccess(this.backend, location);
+    if (access.error) {
+      add('registry-access', 'fail', access.error);
+      return done();
+    }
+    add(
+      'registry-access',
+      'pass',
+      `${access.tags.length} tag(s); the manifest of '${access.testedTag}' is readable.`
+    );
+
+    const stableTag = selectStableTag(access.tags, this.tagPolicy);
+    if (!stableTag) {
+      add('stable-tag', 'fail', 'No tag matches the stable tag policy.');
+      return done();
+    }
+    add('stable-tag', 'pass', `The catalog reads '${stableTag}'.`);
+
+    let app: App | null;
+    try {
+      app = await this.appRepository.findOne(AppLocation.create(location));
+    } catch (error: any) {
+      add('metadata', 'fail', error.message);
+      return done();
+    }
+    if (!app) {
+      add('metadata', 'fail', 'The app could not be read.');
+      return done();
+    }
+    if (app.warnings.length > 0) {
+      add('metadata', 'warn', app.warnings.join(' '));
+    } else {
+      add('metadata', 'pass', `'${app.name}'${app.version ? ` ${app.version}` : ''}, labels valid.`);
+    }
+
+    // Only checked when trusted signing keys are configured
+    if (app.signature) {
+      const { status, keyId, reason } = app.signature;
+      add(
+        'signature',
+        status === 'verified' ? 'pass' : status === 'unsigned' ? 'warn' : 'fail',
+        status === 'verified' ? `Signed with '${keyId}'.` : reason || status
+      );
+    }
+
+    return done();
+  }
+}
@@ -0,0 +1,78 @@
+import { CatalogCache } from '../../infrastructure/cache/catalogCache';
+import { IRegistryBackend } from '../../infrastructure/registry/registryBackend';
+
+export interface HealthCheck {
+  ok: boolean;
+  detail?: string;
+}
+
+export interface Readiness {
+  ready: boolean;
+  checks: { catalog: HealthCheck; registry: HealthCheck };
+}
+
+// This service answers readiness probes.
+export class HealthService {
+  private catalogCache: CatalogCache;
+  private registryClient: IRegistryBackend;
+  private registryCheckTtlMs: number;
+  // Probes arrive every few seconds; the registry is only pinged once per TTL
+  private lastRegistryCheck: { result: HealthCheck; checkedAt: number } | null = null;
+  private pendingRegistryCheck: Promise<HealthCheck> | null = null;
+
+  constructor(
+    catalogCache: CatalogCache,
+    registryClient: IRegistryBackend,
+    registryCheckTtlMs: number
+  ) {
+    this.catalogCache = catalogCache;
+    this.registryClient = registryClient;
+    this.registryCheckTtlMs = registryCheckTtlMs;
+  }
+
+  /**
+   * Ready means the last catalog refresh succeeded and the registry answers.
+   */
+  public async getReadiness(): Promise<Readiness> {
+    const catalog = this.checkCatalog();
+    const registry = await this.checkRegistry();
+    return { ready: catalog.ok && registry.ok, checks: { catalog, registry } };
+  }
+
+  private checkCatalog(): HealthCheck {
+    const status = this.catalogCache.getStatus();
+    if (!status.loaded) {
+      return { ok: false, detail: status.lastError || "The catalog has not been loaded yet." };
+    }
+    if (status.lastError) {
+      return { ok: false, detail: `The last refresh failed: ${status.lastError}` };
+    }
+    return { ok: true, detail: `Refreshed at ${status.refreshedAt?.toISOString()}.` };
+  }
+
+  private checkRegistry(): Promise<HealthCheck> {
+    if (
+      this.lastRegistryCheck &&
+      Date.now() - this.lastRegistryCheck.checkedAt < this.registryCheckTtlMs
+    ) {
+      return Promise.resolve(this.lastRegistryCheck.result);
+    }
+
+    if (!this.pendingRegistryCheck) {
+      this.pendingRegistryCheck = this.registryClient
+        .ping()
+        .then(
+          (): HealthCheck => ({ ok: true }),
+          (error: any): HealthCheck => ({ ok: false, detail: error.message })
+        )
+        .then((result) => {
+          this.lastRegistryCheck = { result, checkedAt: Date.now() };
+          return result;
+        })
+        .finally(() => {
+          this.pendingRegistryCheck = null;
+        });
+    }
+    return this.pendingRegistryCheck;
+  }
+}
@@ -0,0 +1,34 @@
+import { RegistryEvent } from '../../domain/models/RegistryEvent';
+import { AppLocation } from '../../domain/valueObjects/AppLocation';
+import { CatalogCache } from '../../infrastructure/cache/catalogCache';
+import { RegistryEventLog } from '../../infrastructure/webhooks/registryEventLog';
+import logger from '../../shared/logger';
+
+// This service applies registry push/delete notifications to the catalog.
+export class WebhookService {
+  private catalogCache: CatalogCache;
+  private eventLog: RegistryEventLog;
+
+  constructor(catalogCache: CatalogCache, eventLog: RegistryEventLog) {
+    this.catalogCache = catalogCache;
+    this.eventLog = eventLog;
+  }
+
+  public async handleEvents(events: RegistryEvent[]): Promise<void> {
+    this.eventLog.record(events);
+
+    // One notification often carries several events for the same repository
+    const repositories = [...new Set(events.map((event) => event.repository))];
+
+    await Promise.all(
+      repositories.map(async (repository) => {
+        try {
+          // Refreshing also evicts repositories that were deleted
+          await this.catalogCache.refreshApp(AppLocation.create(repository));
+        } catch (error) {
+          logger.error(`Failed to apply webhook event for ${repository}:`, error);
+        }
+      })
+    );
+  }
+}
@@ -0,0 +1,12 @@
+#!/usr/bin/env node
+// Must come first, so nothing logs to stdout before it is redirected
+import "./interfaces/cli/logging";
+import { runCli } from "./interfaces/cli/cli";
+
+runCli(process.argv.slice(2), {
+  out: (text) => process.stdout.write(`${text}\n`),
+  err: (text) => process.stderr.write(`${text}\n`),
+}).then((code) => {
+  // Let stdout drain instead of calling process.exit()
+  process.exitCode = code;
+});
@@ -0,0 +1,112 @@
+import { AppMediaService } from "./application/services/appMediaService";
+import { AppService } from "./application/services/appService";
+import { AuthService } from "./application/services/authService";
+import { CatalogExportService } from "./application/services/catalogExportService";
+import { ChangeFeedService } from "./application/services/changeFeedService";
+import { CurationService } from "./application/services/curationService";
+import { DiagnosticsService } from "./application/services/diagnosticsService";
+import { HealthService } from "./application/services/healthService";
+import { WebhookService } from "./application/services/webhookService";
+import { Scope, isScope } from "./domain/models/Principal";
+import { FileApiKeyStore } from "./infrastructure/auth/apiKeyStore";
+import { JwtVerifier, loadJwks } from "./infrastructure/auth/jwtVerifier";
+import { TokenBucketRateLimiter } from "./infrastructure/auth/rateLimiter";
+import { CatalogCache } from "./infrastructure/cache/catalogCache";
+import { FileDigestIndex } from "./infrastructure/cache/digestIndex";
+import { FileChangeLog } from "./infrastructure/changes/changeLog";
+import { AppRepository } from "./infrastructure/repositories/appRepository";
+import { CuratedAppRepository } from "./infrastructure/repositories/curatedAppRepository";
+import { FileCurationStore } from "./infrastructure/curation/curationStore";
+import {
+  createCatalogSources,
+  createRegistryBackend,
+} from "./infrastructure/registry/registryBackendFactory";
+import { ImageCache } from "./infrastructure/images/imageCache";
+import { fetchRemoteImage } from "./infrastructure/images/imageFetcher";
+import { SupplyChainInspector } from "./infrastructure/supplyChain/supplyChainInspector";
+import { loadTrustedKeys } from "./infrastructure/supplyChain/cosignVerifier";
+import { RegistryEventLog } from "./infrastructure/webhooks/registryEventLog";
+import { createSpanExporter } from "./infrastructure/tracing/spanExporters";
+import { config } from "./shared/config";
+import tracer from "./shared/tracing";
+
+// Instantiate dependencies. In a real app, you would use a Dependency Injection container.
+tracer.setExporter(createSpanExporter());
+export const registryClient = createRegistryBackend();
+export const supplyChainInspector = new SupplyChainInspector(
+  registryClient,
+  loadTrustedKeys(config.supplyChain.trustedKeyPaths)
+);
+export const curationStore = new FileCurationStore(config.curation.directory);
+const catalogSources = createCatalogSources();
+const tagPolicy = {
+  includePrerelease: config.tags.includePrerelease,
+  channel: config.tags.channel || undefined,
+};
+// Registry data as it is, and with the admin curations merged in
+export const registryAppRepository = new AppRepository(
+  registryClient,
+  catalogSources,
+  tagPolicy,
+  supplyChainInspector,
+  new FileDigestIndex(config.catalog.digestIndexDir)
+);
+export const appRepository = new CuratedAppRepository(registryAppRepository, curationStore);
+export const catalogCache = new CatalogCache(
+  appRepository,
+  config.catalog.refreshIntervalSeconds * 1000
+);
+export const appService = new AppService(appRepository, catalogCache);
+export const catalogExportService = new CatalogExportService(catalogCache, registryClient);
+export const changeFeedService = new ChangeFeedService(
+  new FileChangeLog(config.changes.directory, config.changes.maxEntries),
+  catalogCache
+);
+export const appMediaService = new AppMediaService(
+  catalogCache,
+  new ImageCache(config.images.cacheDir, config.images.cacheTtlSeconds * 1000),
+  (source) =>
+    fetchRemoteImage(source, {
+      maxBytes: config.images.maxBytes,
+      timeoutMs: config.images.fetchTimeoutMs,
+    }),
+  config.images.maxBytes
+);
+export const curationService = new CurationService(curationStore, catalogCache);
+export const healthService = new HealthService(
+  catalogCache,
+  registryClient,
+  config.health.registryCheckTtlSeconds * 1000
+);
+export const diagnosticsService = new DiagnosticsService(
+  registryClient,
+  registryAppRepository,
+  catalogSources,
+  tagPolicy,
+  curationStore
+);
+export const registryEventLog = new RegistryEventLog(config.webhooks.maxRecordedEvents);
+export const webhookService = new WebhookService(catalogCache, registryEventLog);
+
+// Misconfigured scopes fail at startup rather than locking clients out
+const anonymousScopes = config.auth.anonymousScopes.map((scope): Scope => {
+  if (!isScope(scope)) {
+    throw new Error(`Unknown scope '${scope}' in AUTH_ANONYMOUS_SCOPES.`);
+  }
+  return scope;
+});
+const { jwt } = config.auth;
+export const authService = new AuthService(
+  new FileApiKeyStore(config.auth.directory),
+  jwt.secret || jwt.jwksPath
+    ? new JwtVerifier({
+        secret: jwt.secret || undefined,
+        keys: jwt.jwksPath ? loadJwks(jwt.jwksPath) : [],
+        issuer: jwt.issuer || undefined,
+        audience: jwt.audience || undefined,
+        allowMissingExpiry: jwt.allowMissingExpiry,
+      })
+    : null,
+  { adminToken: config.admin.apiToken, anonymousScopes }
+);
+export const rateLimiter = new TokenBucketRateLimiter();
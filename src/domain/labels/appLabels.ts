@@ -0,0 +1,179 @@
+import { ResourceRequirements } from "../models/App";
+import {
+  LabelValidator,
+  isDateTime,
+  isEnvNameList,
+  isImageSource,
+  isMemorySize,
+  isPortMappingList,
+  isPositiveNumber,
+  isSlug,
+  isSlugList,
+  isSpdxExpression,
+  isUrl,
+  isUrlList,
+  isVersion,
+  maxLength,
+  parseMemoryMb,
+  parsePortMapping,
+  splitList,
+} from "./labelValidators";
+
+// The image labels/annotations we understand
+export const LABELS = {
+  title: "org.opencontainers.image.title",
+  description: "org.opencontainers.image.description",
+  version: "org.opencontainers.image.version",
+  vendor: "org.opencontainers.image.vendor",
+  licenses: "org.opencontainers.image.licenses",
+  source: "org.opencontainers.image.source",
+  documentation: "org.opencontainers.image.documentation",
+  url: "org.opencontainers.image.url",
+  authors: "org.opencontainers.image.authors",
+  created: "org.opencontainers.image.created",
+  pictureUrl: "com.app-store.picture-url",
+  screenshots: "com.app-store.screenshots",
+  category: "com.app-store.category",
+  tags: "com.app-store.tags",
+  homepage: "com.app-store.homepage",
+  minCpus: "com.app-store.min-cpus",
+  minMemory: "com.app-store.min-memory",
+  requiredEnv: "com.app-store.required-env",
+  ports: "com.app-store.ports",
+};
+
+// The app metadata that can be read from labels
+export interface AppLabelMetadata {
+  title?: string;
+  description?: string;
+  pictureUrl?: string;
+  version?: string;
+  vendor?: string;
+  licenses?: string;
+  sourceUrl?: string;
+  documentationUrl?: string;
+  homepage?: string;
+  authors?: string;
+  created?: string;
+  category?: string;
+  keywords: string[];
+  screenshots: string[];
+  minimumResources?: ResourceRequirements;
+}
+
+export interface LabelParseResult {
+  metadata: AppLabelMetadata;
+  // One human-readable entry per label that was present but invalid
+  warnings: string[];
+}
+
+// Hints for generating install snippets
+export interface InstallHints {
+  // Environment variables the user has to set
+  requiredEnv: string[];
+  // Preferred host ports for container ports
+  ports: { hostPort: number; containerPort: number; protocol: "tcp" | "udp" }[];
+}
+
+type StringField = Exclude<
+  keyof AppLabelMetadata,
+  "keywords" | "screenshots" | "minimumResources"
+>;
+
+// Which label feeds which field, and how its value is validated
+const STRING_FIELDS: { field: StringField; label: string; validators: LabelValidator[] }[] = [
+  { field: "title", label: LABELS.title, validators: [maxLength(100)] },
+  { field: "description", label: LABELS.description, validators: [maxLength(2000)] },
+  { field: "pictureUrl", label: LABELS.pictureUrl, validators: [isImageSource] },
+  { field: "version", label: LABELS.version, validators: [isVersion] },
+  { field: "vendor", label: LABELS.vendor, validators: [maxLength(100)] },
+  { field: "licenses", label: LABELS.licenses, validators: [isSpdxExpression] },
+  { field: "sourceUrl", label: LABELS.source, validators: [isUrl] },
+  { field: "documentationUrl", label: LABELS.documentation, validators: [isUrl] },
+  { field: "authors", label: LABELS.authors, validators: [maxLength(500)] },
+  { field: "created", label: LABELS.created, validators: [isDateTime] },
+  { field: "category", label: LABELS.category, validators: [isSlug] },
+];
+
+/**
+ * Reads and validates a label. Returns undefined (and records a warning) if
+ * the label is present but invalid.
+ */
+function readLabel(
+  labels: Record<string, string>,
+  label: string,
+  validators: LabelValidator[],
+  warnings: string[]
+): string | undefined {
+  const raw = labels[label];
+  if (typeof raw !== "string" || raw.trim().length === 0) return undefined;
+
+  const value = raw.trim();
+  for (const validator of validators) {
+    const error = validator(value);
+    if (error) {
+      // Keep warnings readable when the value is e.g. a data URI
+      const shown = value.length > 100 ? `${value.slice(0, 97)}...` : value;
+      warnings.push(`Label '${label}' ${error} (got "${shown}").`);
+      return undefined;
+    }
+  }
+  return value;
+}
+
+/**
+ * Maps image labels to app metadata. Invalid values are left out and reported
+ * as warnings instead of being passed through.
+ */
+export function parseAppLabels(labels: Record<string, string>): LabelParseResult {
+  const warnings: string[] = [];
+  const metadata: AppLabelMetadata = { keywords: [], screenshots: [] };
+
+  for (const { field, label, validators } of STRING_FIELDS) {
+    metadata[field] = readLabel(labels, label, validators, warnings);
+  }
+
+  // Our own homepage label wins over the generic OCI url annotation
+  metadata.homepage =
+    readLabel(labels, LABELS.homepage, [isUrl], warnings) ??
+    readLabel(labels, LABELS.url, [isUrl], warnings);
+
+  const tags = readLabel(labels, LABELS.tags, [isSlugList], warnings);
+  metadata.keywords = tags ? splitList(tags) : [];
+
+  const screenshots = readLabel(labels, LABELS.screenshots, [isUrlList], warnings);
+  metadata.screenshots = screenshots ? splitList(screenshots) : [];
+
+  const minCpus = readLabel(labels, LABELS.minCpus, [isPositiveNumber], warnings);
+  const minMemory = readLabel(labels, LABELS.minMemory, [isMemorySize], warnings);
+  if (minCpus || minMemory) {
+    metadata.minimumResources = {
+      cpus: minCpus ? parseFloat(minCpus) : undefined,
+      memoryMb: minMemory ? parseMemoryMb(minMemory) ?? undefined : undefined,
+    };
+  }
+
+  return { metadata, warnings };
+}
+
+/**
+ * Reads the install hints from image labels. Like parseAppLabels, invalid
+ * values are left out and reported as warnings.
+ */
+export function parseInstallHints(labels: Record<string, string>): {
+  hints: InstallHints;
+  warnings: string[];
+} {
+  const warnings: string[] = [];
+
+  const requiredEnv = readLabel(labels, LABELS.requiredEnv, [isEnvNameList], warnings);
+  const ports = readLabel(labels, LABELS.ports, [isPortMappingList], warnings);
+
+  return {
+    hints: {
+      requiredEnv: requiredEnv ? splitList(requiredEnv) : [],
+      ports: ports ? splitList(ports).map((mapping) => parsePortMapping(mapping)!) : [],
+    },
+    warnings,
+  };
+}
@@ -0,0 +1,142 @@
+// Each validator returns an error description, or null if the value is valid.
+export type LabelValidator = (value: string) => string | null;
+
+const MEMORY_UNITS_IN_MB: Record<string, number> = {
+  "": 1 / (1024 * 1024),
+  b: 1 / (1024 * 1024),
+  k: 1 / 1024,
+  ki: 1 / 1024,
+  kb: 1 / 1024,
+  m: 1,
+  mi: 1,
+  mb: 1,
+  g: 1024,
+  gi: 1024,
+  gb: 1024,
+};
+
+export const maxLength =
+  (limit: number): LabelValidator =>
+  (value) =>
+    value.length > limit ? `must be at most ${limit} characters` : null;
+
+export const isUrl: LabelValidator = (value) => {
+  try {
+    const url = new URL(value);
+    return url.protocol === "http:" || url.protocol === "https:"
+      ? null
+      : "must be an http(s) URL";
+  } catch {
+    return "must be an http(s) URL";
+  }
+};
+
+// Icons may be embedded as base64 or URL-encoded data URIs
+export const isImageSource: LabelValidator = (value) => {
+  if (!value.startsWith("data:")) return isUrl(value);
+  return /^data:image\/(png|jpeg|gif|webp|svg\+xml)[;,]/i.test(value)
+    ? null
+    : "must be an http(s) URL or an image data URI";
+};
+
+export const isUrlList: LabelValidator = (value) => {
+  const invalid = splitList(value).filter((item) => isUrl(item) !== null);
+  return invalid.length > 0
+    ? `contains invalid entries (${invalid.join(", ")}); must be comma-separated http(s) URLs`
+    : null;
+};
+
+// OCI annotations use RFC 3339 date-times
+export const isDateTime: LabelValidator = (value) =>
+  /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/i.test(value) &&
+  !isNaN(Date.parse(value))
+    ? null
+    : "must be an RFC 3339 date-time";
+
+export const isVersion: LabelValidator = (value) =>
+  /^\S{1,128}$/.test(value) ? null : "must be a version without whitespace";
+
+// A simplified SPDX license expression check (identifiers, AND/OR/WITH, parentheses)
+export const isSpdxExpression: LabelValidator = (value) =>
+  /^[A-Za-z0-9.+\-:() ]{1,256}$/.test(value) &&
+  value.trim().length > 0
+    ? null
+    : "must be an SPDX license expression";
+
+export const isSlug: LabelValidator = (value) =>
+  /^[a-z0-9][a-z0-9-]{0,49}$/.test(value)
+    ? null
+    : "must be a lowercase slug (a-z, 0-9, -)";
+
+export const isSlugList: LabelValidator = (value) => {
+  const invalid = splitList(value).filter((item) => isSlug(item) !== null);
+  return invalid.length > 0
+    ? `contains invalid entries (${invalid.join(", ")}); must be comma-separated lowercase slugs`
+    : null;
+};
+
+export const isPositiveNumber: LabelValidator = (value) =>
+  /^\d+(\.\d+)?$/.test(value) && parseFloat(value) > 0
+    ? null
+    : "must be a positive number";
+
+export const isMemorySize: LabelValidator = (value) =>
+  parseMemoryMb(value) !== null ? null : "must be a memory size like 512Mi or 2G";
+
+// Names a shell and Compose accept without quoting
+export const isEnvName = (name: string): boolean => /^[A-Za-z_][A-Za-z0-9_]*$/.test(name);
+
+export const isEnvNameList: LabelValidator = (value) => {
+  const invalid = splitList(value).filter((item) => !isEnvName(item));
+  return invalid.length > 0
+    ? `contains invalid entries (${invalid.join(", ")}); must be comma-separated environment variable names`
+    : null;
+};
+
+// Port mappings look like `8080:80` or `5353:53/udp`
+export const isPortMappingList: LabelValidator = (value) => {
+  const invalid = splitList(value).filter((item) => parsePortMapping(item) === null);
+  return invalid.length > 0
+    ? `contains invalid entries (${invalid.join(", ")}); must be comma-separated host:container[/protocol] mappings`
+    : null;
+};
+
+export function parsePortMapping(
+  value: string
+): { hostPort: number; containerPort: number; protocol: "tcp" | "udp" } | null {
+  const match = value.trim().match(/^(\d{1,5}):(\d{1,5})(?:\/(tcp|udp))?$/i);
+  if (!match) return null;
+
+  const hostPort = parseInt(match[1], 10);
+  const containerPort = parseInt(match[2], 10);
+  if (hostPort < 1 || hostPort > 65535 || containerPort < 1 || containerPort > 65535) {
+    return null;
+  }
+  return {
+    hostPort,
+    containerPort,
+    protocol: (match[3]?.toLowerCase() as "tcp" | "udp") || "tcp",
+  };
+}
+
+export function splitList(value: string): string[] {
+  return value
+    .split(",")
+    .map((item) => item.trim())
+    .filter((item) => item.length > 0);
+}
+
+/**
+ * Parses a memory size (e.g. `512Mi`, `2G`, `1024`) into megabytes.
+ * Plain numbers are bytes, like in Kubernetes resource quantities.
+ */
+export function parseMemoryMb(value: string): number | null {
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)\s*([a-z]*)$/i);
+  if (!match) return null;
+
+  const factor = MEMORY_UNITS_IN_MB[match[2].toLowerCase()];
+  if (factor === undefined) return null;
+
+  const megabytes = parseFloat(match[1]) * factor;
+  return megabytes > 0 ? Math.ceil(megabytes) : null;
+}
@@ -0,0 +1,15 @@
+import { RateLimitPolicy, Scope } from "./Principal";
+
+// What an admin chooses when creating an API key
+export interface ApiKeyInput {
+  name: string;
+  scopes: Scope[];
+  rateLimit?: RateLimitPolicy;
+}
+
+// An API key as the API shows it; the secret itself is never stored
+export interface ApiKey extends ApiKeyInput {
+  id: string;
+  createdAt: string;
+  createdBy: string;
+}
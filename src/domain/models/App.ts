@@ -1,9 +1,67 @@
 import { AppLocation } from "../valueObjects/AppLocation";
+import { InstallEnvVar, InstallPortMapping } from "./InstallPlan";
+import { Platform } from "./Platform";
+import { SignatureVerification } from "./SupplyChain";
+
+// The minimum resources an app needs to run, declared via `com.app-store.*` labels
+export interface ResourceRequirements {
+  cpus?: number;
+  memoryMb?: number;
+}
+
+// How the image of the stable tag runs: its config blob, refined by the
+// `com.app-store.*` install hint labels
+export interface AppRuntime {
+  ports: InstallPortMapping[];
+  // Mount paths of the image's volumes
+  volumes: string[];
+  env: InstallEnvVar[];
+}
 
 // The core business entity for an Application
 export interface App {
   name: string;
   location: AppLocation;
   description: string;
-  pictureUrl: string;
+  // Icon source from the labels (http(s) URL or data URI); served through
+  // the icon proxy, which falls back to a generated identicon
+  pictureUrl?: string;
+  // The tag the metadata was read from, picked by the stable tag policy
+  tag?: string;
+  // Every tag of the repository and the digest it points at (null where the
+  // registry doesn't list digests); left out when the tags could not be read
+  tagDigests?: Record<string, string | null>;
+  // Every OS/architecture the image is published for
+  platforms: Platform[];
+  version?: string;
+  vendor?: string;
+  licenses?: string;
+  sourceUrl?: string;
+  documentationUrl?: string;
+  homepage?: string;
+  authors?: string;
+  created?: string;
+  category?: string;
+  // Id of the catalog source the app was found through
+  source?: string;
+  // Free-form keywords from `com.app-store.tags` (not to be confused with image tags)
+  keywords: string[];
+  // Screenshot URLs from `com.app-store.screenshots`
+  screenshots: string[];
+  minimumResources?: ResourceRequirements;
+  // Left out when the image config could not be read
+  runtime?: AppRuntime;
+  starCount?: number;
+  pullCount?: number;
+  lastUpdated?: string;
+  // The repository is private (Docker Hub); only callers with the
+  // `catalog:read-private` scope see the app
+  private?: boolean;
+  // Set by the admin curation layer
+  featured?: boolean;
+  sortWeight?: number;
+  // Only checked when trusted signing keys are configured
+  signature?: SignatureVerification;
+  // Problems found while reading the app's labels
+  warnings: string[];
 }
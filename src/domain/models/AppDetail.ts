@@ -0,0 +1,45 @@
+import { App } from "./App";
+import { Platform } from "./Platform";
+import { SupplyChainDetails } from "./SupplyChain";
+
+// The image's HEALTHCHECK, with durations in seconds
+export interface ImageHealthcheck {
+  test: string[];
+  intervalSeconds?: number;
+  timeoutSeconds?: number;
+  retries?: number;
+  startPeriodSeconds?: number;
+}
+
+// Everything we know about the image behind one tag of an app
+export interface AppImageDetails {
+  // The name to pull the image by, without tag (e.g. `registry:5000/my-app`)
+  reference: string;
+  tag: string;
+  digest: string | null;
+  // The platform these details were read from
+  platform: Platform | null;
+  labels: Record<string, string>;
+  exposedPorts: string[];
+  volumes: string[];
+  env: Record<string, string>;
+  entrypoint: string[];
+  cmd: string[];
+  user?: string;
+  healthcheck?: ImageHealthcheck;
+  architecture?: string;
+  os?: string;
+  created?: string;
+  compressedSize: number;
+}
+
+// The parts of the image config that running the image depends on
+export type ImageRuntimeConfig = Pick<AppImageDetails, "exposedPorts" | "volumes" | "env">;
+
+// The detailed view of an app, including all tags and the selected image.
+// `image` and `supplyChain` are null when the repository has no tags yet.
+export interface AppDetail extends App {
+  tags: string[];
+  image: AppImageDetails | null;
+  supplyChain: SupplyChainDetails | null;
+}
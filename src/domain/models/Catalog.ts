@@ -0,0 +1,18 @@
+import { App } from "./App";
+
+// A catalog source or repository that could not be read while building the catalog
+export interface CatalogWarning {
+  // Set when a whole catalog source failed to list
+  source?: string;
+  // Set when a single repository failed
+  location?: string;
+  // Problem type of the failure, e.g. "registry-unavailable"
+  type: string;
+  reason: string;
+}
+
+// The catalog as far as it could be read; warnings name what is missing
+export interface CatalogResult {
+  apps: App[];
+  warnings: CatalogWarning[];
+}
@@ -0,0 +1,47 @@
+export type CatalogChangeType =
+  | "app_added"
+  | "app_removed"
+  | "tag_added"
+  | "tag_digest_changed"
+  | "metadata_changed";
+
+export interface CatalogFieldChange {
+  field: string;
+  from: unknown;
+  to: unknown;
+}
+
+// A change found by comparing two catalog snapshots, before it is logged
+export interface CatalogChangeDraft {
+  type: CatalogChangeType;
+  location: string;
+  // Display name of the app, so notifications don't need another lookup
+  name: string;
+  source?: string;
+  // Changes of private apps are only shown to callers who may see them
+  private?: boolean;
+  // Set for tag changes
+  tag?: string;
+  digest?: string;
+  // Set for tag_digest_changed
+  previousDigest?: string;
+  // Set for metadata_changed
+  fields?: CatalogFieldChange[];
+}
+
+// One entry of the change log; ids increase with every change
+export interface CatalogChange extends CatalogChangeDraft {
+  id: number;
+  detectedAt: string;
+}
+
+// What the change log remembers about an app to compare the next snapshot with
+export interface CatalogEntry {
+  location: string;
+  name: string;
+  source?: string;
+  private?: boolean;
+  metadata: Record<string, unknown>;
+  // Absent when the tags could not be read
+  tagDigests?: Record<string, string | null>;
+}
@@ -0,0 +1,48 @@
+export const EXPORT_FORMATS = ["portainer-v2", "portainer-v3", "csv", "atom"] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+// A variable the user fills in when deploying a template
+export interface PortainerTemplateEnv {
+  name: string;
+  label: string;
+  default?: string;
+  description?: string;
+}
+
+// A container template of a Portainer app template file (also read by Yacht)
+export interface PortainerTemplate {
+  // Only version 3 files number their templates
+  id?: number;
+  // 1 is a container; stacks are never exported
+  type: 1;
+  title: string;
+  // Name of the container
+  name: string;
+  description: string;
+  categories: string[];
+  // "linux" or "windows", when every platform of the image agrees
+  platform?: string;
+  logo: string;
+  image: string;
+  maintainer?: string;
+  restart_policy: string;
+  ports: string[];
+  volumes: { container: string }[];
+  env: PortainerTemplateEnv[];
+}
+
+export interface PortainerTemplateFile {
+  version: "2" | "3";
+  templates: PortainerTemplate[];
+}
+
+// What rendering the catalog needs besides the apps
+export interface ExportContext {
+  // Where the API is reached, e.g. `https://apps.example.com`, for absolute links
+  baseUrl: string;
+  // The name to pull an app's image by, without tag
+  pullReference(location: string): string;
+  // When the catalog content last changed
+  changedAt: Date;
+}
@@ -0,0 +1,15 @@
+// One place the catalog is built from, e.g. a Docker Hub organization
+export interface CatalogSource {
+  // Recorded on every app found through this source
+  id: string;
+  // Docker Hub user/organization, or a repository prefix on a V2 registry
+  // (empty for the whole registry)
+  namespace: string;
+  // Rules for the repository name below the namespace: globs (`*`, `**`, `?`)
+  // or regular expressions written as `/pattern/flags`. An empty include
+  // list includes everything; excludes always win.
+  include: string[];
+  exclude: string[];
+  // Category for apps that do not declare one in their labels
+  defaultCategory?: string;
+}
@@ -0,0 +1,44 @@
+// App fields an admin can override without rebuilding the image
+export interface CurationOverrides {
+  name?: string;
+  description?: string;
+  pictureUrl?: string;
+  homepage?: string;
+  documentationUrl?: string;
+  vendor?: string;
+  keywords?: string[];
+}
+
+// The editable part of a curation
+export interface CurationInput {
+  // Hidden apps are left out of the catalog and all public endpoints
+  hidden: boolean;
+  featured: boolean;
+  // Replaces the category from the image labels
+  category?: string;
+  // Higher weights come first when sorting by weight
+  sortWeight: number;
+  overrides: CurationOverrides;
+}
+
+// Admin decisions about one app, stored outside the registry
+export interface AppCuration extends CurationInput {
+  location: string;
+  updatedAt: string;
+  updatedBy: string;
+}
+
+export interface CurationChange {
+  field: string;
+  from: unknown;
+  to: unknown;
+}
+
+// One entry of the audit trail: who changed what, and when
+export interface CurationAuditEntry {
+  location: string;
+  action: "create" | "update" | "delete";
+  actor: string;
+  changes: CurationChange[];
+  timestamp: string;
+}
@@ -0,0 +1,16 @@
+export type DiagnosticStatus = "pass" | "warn" | "fail";
+
+// One step of what the catalog does with a repository, and how it went
+export interface DiagnosticCheck {
+  name: string;
+  status: DiagnosticStatus;
+  detail: string;
+}
+
+// Why an app does (or doesn't) show up in the catalog the way it should
+export interface Diagnosis {
+  location: string;
+  checks: DiagnosticCheck[];
+  // No check failed; warnings are allowed
+  ok: boolean;
+}
@@ -0,0 +1,38 @@
+import { ImageHealthcheck } from "./AppDetail";
+
+export interface InstallEnvVar {
+  name: string;
+  // The value baked into the image, if any
+  defaultValue?: string;
+  // Required variables have no usable default and must be set by the user
+  required: boolean;
+}
+
+export interface InstallPortMapping {
+  hostPort: number;
+  containerPort: number;
+  protocol: "tcp" | "udp";
+}
+
+export interface InstallVolume {
+  // Generated named volume, e.g. `postgres-var-lib-postgresql-data`
+  name: string;
+  mountPath: string;
+}
+
+// Everything needed to run one tag of an app, plus ready-made snippets
+export interface InstallPlan {
+  serviceName: string;
+  // Full image reference including the tag
+  image: string;
+  digest: string | null;
+  env: InstallEnvVar[];
+  ports: InstallPortMapping[];
+  volumes: InstallVolume[];
+  user?: string;
+  healthcheck?: ImageHealthcheck;
+  dockerRun: string;
+  compose: string;
+  // Problems found while reading the install hint labels
+  warnings: string[];
+}
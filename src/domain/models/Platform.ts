@@ -0,0 +1,26 @@
+// An OS/architecture combination an image is available for
+export interface Platform {
+  os: string;
+  architecture: string;
+  variant?: string;
+}
+
+/**
+ * Formats a platform the way Docker does, e.g. `linux/arm64/v8`.
+ */
+export function formatPlatform(platform: Platform): string {
+  return [platform.os, platform.architecture, platform.variant]
+    .filter(Boolean)
+    .join("/");
+}
+
+/**
+ * Parses a platform string like `linux/amd64` or `linux/arm/v7`.
+ */
+export function parsePlatform(value: string): Platform {
+  const [os, architecture, variant] = value.split("/");
+  if (!os || !architecture) {
+    throw new Error(`Invalid platform '${value}'. Expected os/architecture[/variant].`);
+  }
+  return variant ? { os, architecture, variant } : { os, architecture };
+}
@@ -0,0 +1,28 @@
+// What a caller may do. `admin` includes every other scope.
+export const SCOPES = ["catalog:read", "catalog:read-private", "admin"] as const;
+
+export type Scope = (typeof SCOPES)[number];
+
+// How many requests a caller may burst, and how fast the allowance refills
+export interface RateLimitPolicy {
+  capacity: number;
+  refillPerSecond: number;
+}
+
+// Who is making a request, once their credentials have been checked
+export interface Principal {
+  // Stable identifier, e.g. `key:3f9a…` or `jwt:alice`; rate limits are kept per id
+  id: string;
+  // Shown in logs and in the curation audit trail
+  name: string;
+  kind: "anonymous" | "api-key" | "jwt" | "admin-token";
+  scopes: Scope[];
+  // Overrides the default rate limit (set on some API keys)
+  rateLimit?: RateLimitPolicy;
+}
+
+export const isScope = (value: string): value is Scope =>
+  (SCOPES as readonly string[]).includes(value);
+
+export const hasScope = (principal: Principal, scope: Scope): boolean =>
+  principal.scopes.includes(scope) || principal.scopes.includes("admin");
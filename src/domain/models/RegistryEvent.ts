@@ -0,0 +1,9 @@
+// A push or delete reported by a registry webhook, normalized across formats
+export interface RegistryEvent {
+  source: "dockerhub" | "registry";
+  action: "push" | "delete";
+  repository: string;
+  tag?: string;
+  digest?: string;
+  timestamp: string;
+}
@@ -0,0 +1,31 @@
+// Whether an image carries a signature made with one of our trusted keys
+export type SignatureStatus = "verified" | "unverified" | "unsigned";
+
+export interface SignatureVerification {
+  status: SignatureStatus;
+  // The trusted key that produced the verified signature
+  keyId?: string;
+  // Why signatures that were found could not be verified
+  reason?: string;
+}
+
+// An SBOM or provenance document attached to an image
+export interface SupplyChainDocument {
+  kind: "sbom" | "provenance";
+  // The in-toto predicate type, or the artifact type for plain artifacts
+  type: string;
+  mediaType: string;
+  digest: string;
+  size?: number;
+  // Found via the OCI referrers API or a BuildKit attestation manifest
+  source: "referrers" | "attestation";
+}
+
+// Supply-chain metadata of the image behind one tag
+export interface SupplyChainDetails {
+  // The manifest digest the signature and referrers belong to
+  subjectDigest: string;
+  signature: SignatureVerification;
+  sboms: SupplyChainDocument[];
+  provenance: SupplyChainDocument[];
+}
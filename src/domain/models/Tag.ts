@@ -0,0 +1,18 @@
+import { Platform } from "./Platform";
+
+// One tag of an app's repository
+export interface Tag {
+  name: string;
+  digest?: string;
+  // Compressed size in bytes (for multi-platform tags: of all platforms)
+  size?: number;
+  lastPushed?: string;
+  platforms: Platform[];
+}
+
+// All tags of a repository, in display order
+export interface TagList {
+  tags: Tag[];
+  // The tag the stable tag policy picks to represent the app
+  stableTag?: string;
+}
@@ -0,0 +1,135 @@
+import { App } from "../models/App";
+import { CatalogWarning } from "../models/Catalog";
+import {
+  CatalogChangeDraft,
+  CatalogEntry,
+  CatalogFieldChange,
+} from "../models/CatalogChange";
+
+// App fields whose changes are worth telling users about. Counters and
+// timestamps move all the time; tags are compared separately.
+const TRACKED_FIELDS = [
+  "name",
+  "description",
+  "pictureUrl",
+  "version",
+  "vendor",
+  "licenses",
+  "sourceUrl",
+  "documentationUrl",
+  "homepage",
+  "authors",
+  "category",
+  "keywords",
+  "screenshots",
+  "minimumResources",
+  "platforms",
+  "featured",
+] as const;
+
+/**
+ * Reduces an app to the fields the change log compares.
+ */
+export function toCatalogEntry(app: App): CatalogEntry {
+  const metadata: Record<string, unknown> = {};
+  for (const field of TRACKED_FIELDS) {
+    if (app[field] !== undefined) metadata[field] = app[field];
+  }
+
+  return {
+    location: app.location.value,
+    name: app.name,
+    source: app.source,
+    ...(app.private ? { private: true } : {}),
+    metadata,
+    tagDigests: app.tagDigests,
+  };
+}
+
+// What every change says about its app
+const describeApp = (entry: CatalogEntry) => ({
+  location: entry.location,
+  name: entry.name,
+  source: entry.source,
+  ...(entry.private ? { private: true } : {}),
+});
+
+function diffMetadata(before: CatalogEntry, after: CatalogEntry): CatalogFieldChange[] {
+  const fields = new Set([...Object.keys(before.metadata), ...Object.keys(after.metadata)]);
+  return [...fields]
+    .filter(
+      (field) =>
+        JSON.stringify(before.metadata[field]) !== JSON.stringify(after.metadata[field])
+    )
+    .sort()
+    .map((field) => ({ field, from: before.metadata[field], to: after.metadata[field] }));
+}
+
+function diffTags(before: CatalogEntry, after: CatalogEntry): CatalogChangeDraft[] {
+  // Tags that could not be read on either side are not compared, or a
+  // registry hiccup would look like a burst of new tags
+  if (!before.tagDigests || !after.tagDigests) return [];
+
+  const app = describeApp(after);
+  const changes: CatalogChangeDraft[] = [];
+  for (const [tag, digest] of Object.entries(after.tagDigests).sort(([a], [b]) =>
+    a.localeCompare(b)
+  )) {
+    if (!(tag in before.tagDigests)) {
+      changes.push({ ...app, type: "tag_added", tag, digest: digest ?? undefined });
+      continue;
+    }
+
+    const previousDigest = before.tagDigests[tag];
+    // Registries that don't list digests can only report new tags
+    if (previousDigest && digest && previousDigest !== digest) {
+      changes.push({ ...app, type: "tag_digest_changed", tag, digest, previousDigest });
+    }
+  }
+  return changes;
+}
+
+/**
+ * Lists what changed between two catalog snapshots: apps added and removed,
+ * tags added or moved to another digest, and changed metadata. Apps that
+ * could not be read (alone or with their whole source) are missing from the
+ * newer snapshot without having been removed, so they are never reported as
+ * removed.
+ */
+export function diffCatalogs(
+  previous: CatalogEntry[],
+  current: CatalogEntry[],
+  warnings: CatalogWarning[] = []
+): CatalogChangeDraft[] {
+  const before = new Map(previous.map((entry) => [entry.location, entry]));
+  const after = new Map(current.map((entry) => [entry.location, entry]));
+  const changes: CatalogChangeDraft[] = [];
+
+  for (const entry of current) {
+    const app = describeApp(entry);
+    const old = before.get(entry.location);
+    if (!old) {
+      changes.push({ ...app, type: "app_added" });
+      continue;
+    }
+
+    changes.push(...diffTags(old, entry));
+    const fields = diffMetadata(old, entry);
+    if (fields.length > 0) {
+      changes.push({ ...app, type: "metadata_changed", fields });
+    }
+  }
+
+  for (const entry of previous) {
+    if (after.has(entry.location)) continue;
+    const unreadable = warnings.some(
+      (warning) =>
+        warning.location === entry.location ||
+        (warning.source !== undefined && warning.source === entry.source)
+    );
+    if (unreadable) continue;
+    changes.push({ ...describeApp(entry), type: "app_removed" });
+  }
+
+  return changes;
+}
@@ -0,0 +1,164 @@
+import { App } from "../models/App";
+import {
+  ExportContext,
+  PortainerTemplate,
+  PortainerTemplateFile,
+} from "../models/CatalogExport";
+import { formatPlatform } from "../models/Platform";
+import { getServiceName } from "./installSnippets";
+
+const RESTART_POLICY = "unless-stopped";
+
+// How many of the most recently updated apps the Atom feed lists
+export const FEED_SIZE = 50;
+
+const appUrl = (app: App, context: ExportContext) =>
+  `${context.baseUrl}/api/apps/${encodeURIComponent(app.location.value)}`;
+
+const imageOf = (app: App, context: ExportContext) =>
+  `${context.pullReference(app.location.value)}:${app.tag}`;
+
+function toTemplate(app: App, context: ExportContext): PortainerTemplate {
+  const systems = new Set(app.platforms.map((platform) => platform.os));
+  const runtime = app.runtime;
+
+  return {
+    type: 1,
+    title: app.name,
+    name: getServiceName(app.location.value),
+    description: app.description,
+    categories: app.category ? [app.category] : [],
+    ...(systems.size === 1 ? { platform: [...systems][0] } : {}),
+    // The icon proxy validates icons and falls back to an identicon
+    logo: `${appUrl(app, context)}/icon`,
+    image: imageOf(app, context),
+    ...(app.vendor ? { maintainer: app.vendor } : {}),
+    restart_policy: RESTART_POLICY,
+    ports: (runtime?.ports || []).map(
+      (mapping) => `${mapping.hostPort}:${mapping.containerPort}/${mapping.protocol}`
+    ),
+    volumes: (runtime?.volumes || []).map((container) => ({ container })),
+    env: (runtime?.env || []).map((variable) => ({
+      name: variable.name,
+      label: variable.name,
+      ...(variable.defaultValue !== undefined ? { default: variable.defaultValue } : {}),
+      ...(variable.required ? { description: "Required." } : {}),
+    })),
+  };
+}
+
+/**
+ * Renders the catalog as a Portainer app template file. Version 3 files
+ * differ only in numbering their templates. Apps without tags can't be
+ * deployed and are left out.
+ */
+export function toPortainerTemplates(
+  apps: App[],
+  version: "2" | "3",
+  context: ExportContext
+): PortainerTemplateFile {
+  const templates = apps
+    .filter((app) => app.tag)
+    .map((app, index) => ({
+      ...(version === "3" ? { id: index + 1 } : {}),
+      ...toTemplate(app, context),
+    }));
+  return { version, templates };
+}
+
+const CSV_COLUMNS = [
+  "location",
+  "name",
+  "version",
+  "tag",
+  "image",
+  "category",
+  "vendor",
+  "licenses",
+  "platforms",
+  "homepage",
+  "last_updated",
+  "description",
+];
+
+/**
+ * Quotes a CSV field (RFC 4180). Fields a spreadsheet would evaluate as a
+ * formula are prefixed with `'`, since labels are written by image authors.
+ */
+function csvField(value: string | undefined): string {
+  let field = value ?? "";
+  if (/^[=+\-@\t\r]/.test(field)) field = `'${field}`;
+  return /[",\r\n]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field;
+}
+
+/**
+ * Renders the catalog as CSV, one app per row under a header row.
+ */
+export function toCsv(apps: App[], context: ExportContext): string {
+  const rows = apps.map((app) => [
+    app.location.value,
+    app.name,
+    app.version,
+    app.tag,
+    app.tag && imageOf(app, context),
+    app.category,
+    app.vendor,
+    app.licenses,
+    app.platforms.map(formatPlatform).join(" "),
+    app.homepage,
+    app.lastUpdated,
+    app.description,
+  ]);
+  return [CSV_COLUMNS, ...rows].map((row) => `${row.map(csvField).join(",")}\r\n`).join("");
+}
+
+// Control characters are not allowed in XML 1.0, not even escaped
+const escapeXml = (value: string) =>
+  value
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, "")
+    .replace(/[<>&'"]/g, (char) => `&#${char.charCodeAt(0)};`);
+
+// When an app was last pushed, or else built; null when neither is known
+function updatedAt(app: App): Date | null {
+  const date = new Date(app.lastUpdated || app.created || "");
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Renders the most recently updated apps as an Atom feed, newest first.
+ * Apps the registry gives no push date for, and whose labels carry no
+ * creation date, are left out.
+ */
+export function toAtomFeed(apps: App[], context: ExportContext): string {
+  const entries = apps
+    .flatMap((app) => {
+      const updated = updatedAt(app);
+      return updated ? [{ app, updated }] : [];
+    })
+    .sort((a, b) => b.updated.getTime() - a.updated.getTime())
+    .slice(0, FEED_SIZE);
+  const feedUrl = `${context.baseUrl}/api/catalog/export?format=atom`;
+  const updated = entries[0]?.updated ?? context.changedAt;
+
+  const lines = [
+    '<?xml version="1.0" encoding="utf-8"?>',
+    '<feed xmlns="http://www.w3.org/2005/Atom">',
+    `  <id>${escapeXml(feedUrl)}</id>`,
+    "  <title>Recently updated apps</title>",
+    `  <updated>${updated.toISOString()}</updated>`,
+    `  <link rel="self" type="application/atom+xml" href="${escapeXml(feedUrl)}"/>`,
+    "  <author><name>App Store</name></author>",
+    ...entries.flatMap(({ app, updated }) => [
+      "  <entry>",
+      `    <id>${escapeXml(appUrl(app, context))}</id>`,
+      `    <title>${escapeXml(app.version ? `${app.name} ${app.version}` : app.name)}</title>`,
+      `    <updated>${updated.toISOString()}</updated>`,
+      `    <link href="${escapeXml(appUrl(app, context))}"/>`,
+      `    <summary>${escapeXml(app.description)}</summary>`,
+      ...(app.category ? [`    <category term="${escapeXml(app.category)}"/>`] : []),
+      "  </entry>",
+    ]),
+    "</feed>",
+  ];
+  return `${lines.join("\n")}\n`;
+}
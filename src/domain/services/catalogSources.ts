@@ -0,0 +1,142 @@
+import { CatalogSource } from "../models/CatalogSource";
+import { isSlug } from "../labels/labelValidators";
+
+const REGEX_RULE = /^\/(.+)\/([a-z]*)$/;
+
+/**
+ * Turns an include/exclude rule into a regular expression. Rules written as
+ * `/pattern/flags` are used as they are; anything else is a glob where `*`
+ * and `?` stay within one path segment and `**` crosses segments.
+ */
+export function compileRepositoryRule(rule: string): RegExp {
+  const regex = rule.match(REGEX_RULE);
+  if (regex) return new RegExp(regex[1], regex[2]);
+
+  let pattern = "";
+  for (let i = 0; i < rule.length; i++) {
+    const char = rule[i];
+    if (char === "*" && rule[i + 1] === "*") {
+      pattern += ".*";
+      i++;
+    } else if (char === "*") {
+      pattern += "[^/]*";
+    } else if (char === "?") {
+      pattern += "[^/]";
+    } else {
+      pattern += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${pattern}$`);
+}
+
+/**
+ * Returns the repository name below the namespace of a source, or null if
+ * the repository lives outside of it.
+ */
+export function getSourceRelativeName(source: CatalogSource, repo: string): string | null {
+  if (!source.namespace) return repo;
+  const prefix = `${source.namespace}/`;
+  return repo.startsWith(prefix) && repo.length > prefix.length
+    ? repo.slice(prefix.length)
+    : null;
+}
+
+/**
+ * Whether a repository belongs to the catalog through the given source.
+ */
+export function matchesSource(source: CatalogSource, repo: string): boolean {
+  const name = getSourceRelativeName(source, repo);
+  if (name === null) return false;
+
+  const test = (rule: string) => compileRepositoryRule(rule).test(name);
+  if (source.include.length > 0 && !source.include.some(test)) return false;
+  return !source.exclude.some(test);
+}
+
+/**
+ * Finds the source a repository is listed through. When sources overlap,
+ * the first one configured wins.
+ */
+export function findCatalogSource(
+  sources: CatalogSource[],
+  repo: string
+): CatalogSource | null {
+  return sources.find((source) => matchesSource(source, repo)) || null;
+}
+
+function toRuleList(value: unknown, field: string, errors: string[]): string[] {
+  if (value === undefined) return [];
+  if (!Array.isArray(value) || value.some((rule) => typeof rule !== "string" || !rule)) {
+    errors.push(`${field} must be a list of non-empty strings.`);
+    return [];
+  }
+  for (const rule of value as string[]) {
+    try {
+      compileRepositoryRule(rule);
+    } catch {
+      errors.push(`${field} contains an invalid regular expression: ${rule}`);
+    }
+  }
+  return value as string[];
+}
+
+/**
+ * Parses the `CATALOG_SOURCES` setting, a JSON list of sources. Collects every
+ * problem and throws them together, so a broken setting fails at startup
+ * instead of silently shrinking the catalog.
+ */
+export function parseCatalogSources(json: string): CatalogSource[] {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch (error: any) {
+    throw new Error(`CATALOG_SOURCES is not valid JSON: ${error.message}`);
+  }
+  if (!Array.isArray(raw) || raw.length === 0) {
+    throw new Error("CATALOG_SOURCES must be a non-empty JSON list of sources.");
+  }
+
+  const errors: string[] = [];
+  const sources = raw.map((entry, index): CatalogSource => {
+    const field = `CATALOG_SOURCES[${index}]`;
+    if (typeof entry !== "object" || entry === null || Array.isArray(entry)) {
+      errors.push(`${field} must be an object.`);
+      return { id: "", namespace: "", include: [], exclude: [] };
+    }
+
+    if (entry.namespace !== undefined && typeof entry.namespace !== "string") {
+      errors.push(`${field}.namespace must be a string.`);
+    }
+    const namespace =
+      typeof entry.namespace === "string" ? entry.namespace.replace(/\/+$/, "") : "";
+    const id = entry.id ?? (namespace || "default");
+    if (typeof id !== "string" || id.trim().length === 0) {
+      errors.push(`${field}.id must be a non-empty string.`);
+    }
+    if (
+      entry.defaultCategory !== undefined &&
+      (typeof entry.defaultCategory !== "string" || isSlug(entry.defaultCategory) !== null)
+    ) {
+      errors.push(`${field}.defaultCategory must be a lowercase slug (a-z, 0-9, -).`);
+    }
+
+    return {
+      id: String(id),
+      namespace,
+      include: toRuleList(entry.include, `${field}.include`, errors),
+      exclude: toRuleList(entry.exclude, `${field}.exclude`, errors),
+      defaultCategory: entry.defaultCategory,
+    };
+  });
+
+  const ids = sources.map((source) => source.id);
+  const duplicates = ids.filter((id, index) => id && ids.indexOf(id) !== index);
+  if (duplicates.length > 0) {
+    errors.push(`Catalog source ids must be unique: ${[...new Set(duplicates)].join(", ")}.`);
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid CATALOG_SOURCES:\n${errors.join("\n")}`);
+  }
+  return sources;
+}
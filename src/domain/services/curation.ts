@@ -0,0 +1,93 @@
+import { App } from "../models/App";
+import {
+  AppCuration,
+  CurationChange,
+  CurationInput,
+  CurationOverrides,
+} from "../models/Curation";
+
+export const DEFAULT_CURATION: CurationInput = {
+  hidden: false,
+  featured: false,
+  sortWeight: 0,
+  overrides: {},
+};
+
+/**
+ * Applies an admin curation on top of the registry data of an app.
+ */
+export function applyCuration<T extends App>(app: T, curation: AppCuration | undefined): T {
+  if (!curation) return app;
+
+  const overrides = Object.fromEntries(
+    Object.entries(curation.overrides).filter(([, value]) => value !== undefined)
+  ) as CurationOverrides;
+
+  return {
+    ...app,
+    ...overrides,
+    category: curation.category ?? app.category,
+    featured: curation.featured,
+    sortWeight: curation.sortWeight,
+  };
+}
+
+/**
+ * Lists the fields that differ between two curations, with overrides
+ * compared one by one (e.g. `overrides.description`).
+ */
+export function diffCuration(
+  before: CurationInput | null,
+  after: CurationInput | null
+): CurationChange[] {
+  const flatten = (curation: CurationInput | null): Record<string, unknown> => {
+    if (!curation) return {};
+    const { hidden, featured, category, sortWeight, overrides } = curation;
+    const flat: Record<string, unknown> = { hidden, featured, category, sortWeight };
+    for (const [key, value] of Object.entries(overrides)) {
+      flat[`overrides.${key}`] = value;
+    }
+    return flat;
+  };
+
+  const from = flatten(before);
+  const to = flatten(after);
+  const fields = new Set([...Object.keys(from), ...Object.keys(to)]);
+
+  return [...fields]
+    .filter((field) => JSON.stringify(from[field]) !== JSON.stringify(to[field]))
+    .sort()
+    .map((field) => ({ field, from: from[field], to: to[field] }));
+}
+
+// A partial edit; `null` clears the category or an override
+export interface CurationPatch {
+  hidden?: boolean;
+  featured?: boolean;
+  category?: string | null;
+  sortWeight?: number;
+  overrides?: { [K in keyof CurationOverrides]?: CurationOverrides[K] | null };
+}
+
+/**
+ * Applies a partial edit to a curation. Overrides are merged key by key.
+ */
+export function mergeCurationPatch(current: CurationInput, patch: CurationPatch): CurationInput {
+  const overrides: CurationOverrides = { ...current.overrides };
+  for (const [key, value] of Object.entries(patch.overrides || {})) {
+    if (value === null) {
+      delete overrides[key as keyof CurationOverrides];
+    } else if (value !== undefined) {
+      (overrides as Record<string, unknown>)[key] = value;
+    }
+  }
+
+  const category = patch.category === undefined ? current.category : patch.category;
+  return {
+    hidden: patch.hidden ?? current.hidden,
+    featured: patch.featured ?? current.featured,
+    ...(category ? { category } : {}),
+    sortWeight: patch.sortWeight ?? current.sortWeight,
+    overrides,
+  };
+}
@@ -0,0 +1,229 @@
+import { parseAppLabels, parseInstallHints } from "../labels/appLabels";
+import { isEnvName } from "../labels/labelValidators";
+import { AppImageDetails, ImageRuntimeConfig } from "../models/AppDetail";
+import { AppRuntime, ResourceRequirements } from "../models/App";
+import {
+  InstallEnvVar,
+  InstallPlan,
+  InstallPortMapping,
+  InstallVolume,
+} from "../models/InstallPlan";
+
+const RESTART_POLICY = "unless-stopped";
+
+// Characters that never need quoting in a POSIX shell word
+const SHELL_SAFE = /^[A-Za-z0-9_\/.:@%+=,-]+$/;
+
+function shellQuote(value: string): string {
+  return SHELL_SAFE.test(value) ? value : `'${value.replace(/'/g, "'\\''")}'`;
+}
+
+// Double-quoted YAML scalars are JSON strings
+function yamlQuote(value: string): string {
+  return JSON.stringify(value);
+}
+
+function toSlug(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+/**
+ * Derives a container/service name from the last segment of the location,
+ * e.g. `acme/My_App` becomes `my-app`.
+ */
+export function getServiceName(location: string): string {
+  return toSlug(location.split("/").pop() || "") || "app";
+}
+
+/**
+ * Required variables are those declared empty in the image (`ENV KEY=`) and
+ * those listed in `com.app-store.required-env`. Names from the image config
+ * end up unquoted in the snippets, so invalid ones are left out with a
+ * warning.
+ */
+function getEnvVars(
+  image: ImageRuntimeConfig,
+  requiredEnv: string[],
+  warnings: string[]
+): InstallEnvVar[] {
+  const invalid = Object.keys(image.env).filter((name) => !isEnvName(name));
+  if (invalid.length > 0) {
+    warnings.push(
+      `Left out environment variables with invalid names: ${invalid.map((name) => JSON.stringify(name)).join(", ")}.`
+    );
+  }
+
+  const env: InstallEnvVar[] = Object.entries(image.env)
+    .filter(([name]) => isEnvName(name))
+    .map(([name, value]) => ({
+      name,
+      defaultValue: value === "" ? undefined : value,
+      required: value === "" || requiredEnv.includes(name),
+    }));
+
+  for (const name of requiredEnv) {
+    if (!(name in image.env)) env.push({ name, required: true });
+  }
+  return env;
+}
+
+/**
+ * Publishes every exposed port on the same host port unless a
+ * `com.app-store.ports` hint says otherwise.
+ */
+function getPorts(
+  image: ImageRuntimeConfig,
+  hintedPorts: InstallPortMapping[]
+): InstallPortMapping[] {
+  const ports: InstallPortMapping[] = image.exposedPorts.flatMap((exposed) => {
+    const [port, protocol = "tcp"] = exposed.split("/");
+    const containerPort = parseInt(port, 10);
+    if (isNaN(containerPort) || (protocol !== "tcp" && protocol !== "udp")) return [];
+
+    const hint = hintedPorts.find(
+      (mapping) => mapping.containerPort === containerPort && mapping.protocol === protocol
+    );
+    return [{ hostPort: hint?.hostPort ?? containerPort, containerPort, protocol }];
+  });
+
+  for (const hint of hintedPorts) {
+    const exposed = ports.some(
+      (mapping) =>
+        mapping.containerPort === hint.containerPort && mapping.protocol === hint.protocol
+    );
+    if (!exposed) ports.push(hint);
+  }
+  return ports;
+}
+
+function getVolumes(image: AppImageDetails, serviceName: string): InstallVolume[] {
+  return image.volumes.map((mountPath) => ({
+    name: `${serviceName}-${toSlug(mountPath) || "data"}`,
+    mountPath,
+  }));
+}
+
+/**
+ * Reads how an image runs (ports, volumes, variables) from its config and
+ * install hint labels, for catalogs that store it alongside the app.
+ * Problems with the config are added to `warnings`.
+ */
+export function getAppRuntime(
+  image: ImageRuntimeConfig,
+  labels: Record<string, string>,
+  warnings: string[]
+): AppRuntime {
+  const { hints } = parseInstallHints(labels);
+  return {
+    ports: getPorts(image, hints.ports),
+    volumes: image.volumes,
+    env: getEnvVars(image, hints.requiredEnv, warnings),
+  };
+}
+
+function formatPort(mapping: InstallPortMapping): string {
+  return `${mapping.hostPort}:${mapping.containerPort}/${mapping.protocol}`;
+}
+
+/**
+ * Builds a `docker run` command. Required variables are passed as `-e NAME`,
+ * which takes their value from the caller's shell environment.
+ */
+function buildDockerRun(
+  plan: Omit<InstallPlan, "dockerRun" | "compose" | "warnings">,
+  resources: ResourceRequirements | undefined
+): string {
+  const args = [
+    "docker run -d",
+    `--name ${plan.serviceName}`,
+    `--restart ${RESTART_POLICY}`,
+    ...plan.ports.map((mapping) => `-p ${formatPort(mapping)}`),
+    ...plan.env
+      .filter((variable) => variable.required)
+      .map((variable) => `-e ${variable.name}`),
+    ...plan.volumes.map((volume) => `-v ${shellQuote(`${volume.name}:${volume.mountPath}`)}`),
+    ...(resources?.memoryMb ? [`--memory-reservation ${resources.memoryMb}m`] : []),
+    shellQuote(plan.image),
+  ];
+  return args.join(" \\\n  ");
+}
+
+/**
+ * Builds a docker-compose file with a single service. Required variables use
+ * `${NAME:?...}` so Compose refuses to start while they are unset.
+ */
+function buildCompose(
+  plan: Omit<InstallPlan, "dockerRun" | "compose" | "warnings">,
+  resources: ResourceRequirements | undefined
+): string {
+  const lines = [
+    "services:",
+    `  ${plan.serviceName}:`,
+    `    image: ${yamlQuote(plan.image)}`,
+    `    restart: ${RESTART_POLICY}`,
+  ];
+
+  if (plan.ports.length > 0) {
+    lines.push("    ports:");
+    plan.ports.forEach((mapping) => lines.push(`      - ${yamlQuote(formatPort(mapping))}`));
+  }
+
+  const requiredEnv = plan.env.filter((variable) => variable.required);
+  if (requiredEnv.length > 0) {
+    lines.push("    environment:");
+    requiredEnv.forEach(({ name }) =>
+      lines.push(`      ${name}: ${yamlQuote(`\${${name}:?${name} is required}`)}`)
+    );
+  }
+
+  if (plan.volumes.length > 0) {
+    lines.push("    volumes:");
+    plan.volumes.forEach((volume) =>
+      lines.push(`      - ${yamlQuote(`${volume.name}:${volume.mountPath}`)}`)
+    );
+  }
+
+  if (resources?.cpus || resources?.memoryMb) {
+    lines.push("    deploy:", "      resources:", "        reservations:");
+    if (resources.cpus) lines.push(`          cpus: ${yamlQuote(String(resources.cpus))}`);
+    if (resources.memoryMb) lines.push(`          memory: ${resources.memoryMb}M`);
+  }
+
+  if (plan.volumes.length > 0) {
+    lines.push("volumes:");
+    plan.volumes.forEach((volume) => lines.push(`  ${volume.name}: {}`));
+  }
+
+  return `${lines.join("\n")}\n`;
+}
+
+/**
+ * Turns the image details of a tag into an install plan with a ready
+ * `docker run` command and docker-compose service definition.
+ */
+export function buildInstallPlan(location: string, image: AppImageDetails): InstallPlan {
+  const { hints, warnings } = parseInstallHints(image.labels);
+  const { metadata } = parseAppLabels(image.labels);
+  const serviceName = getServiceName(location);
+
+  const plan = {
+    serviceName,
+    image: `${image.reference}:${image.tag}`,
+    digest: image.digest,
+    env: getEnvVars(image, hints.requiredEnv, warnings),
+    ports: getPorts(image, hints.ports),
+    volumes: getVolumes(image, serviceName),
+    user: image.user,
+    healthcheck: image.healthcheck,
+  };
+
+  return {
+    ...plan,
+    dockerRun: buildDockerRun(plan, metadata.minimumResources),
+    compose: buildCompose(plan, metadata.minimumResources),
+    warnings,
+  };
+}
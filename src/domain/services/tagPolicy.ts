@@ -0,0 +1,114 @@
+import { Tag } from "../models/Tag";
+
+// Rules for picking the tag that represents an app
+export interface TagPolicy {
+  // Whether tags like `2.0.0-rc.1` (or `1.25-alpine`) can be selected
+  includePrerelease: boolean;
+  // Only consider versions in this channel, e.g. `2` or `2.4`
+  channel?: string;
+}
+
+export interface SemanticVersion {
+  major: number;
+  minor: number;
+  patch: number;
+  prerelease: string[];
+}
+
+const SEMVER_PATTERN =
+  /^v?(\d+)(?:\.(\d+))?(?:\.(\d+))?(?:-([0-9A-Za-z.-]+))?(?:\+[0-9A-Za-z.-]+)?$/;
+
+/**
+ * Parses a tag as a (possibly partial) semantic version. Docker tags often
+ * omit the minor or patch part (`1`, `1.25`), which are treated as `.0`.
+ */
+export function parseSemver(tag: string): SemanticVersion | null {
+  const match = tag.match(SEMVER_PATTERN);
+  if (!match) return null;
+
+  return {
+    major: parseInt(match[1], 10),
+    minor: match[2] ? parseInt(match[2], 10) : 0,
+    patch: match[3] ? parseInt(match[3], 10) : 0,
+    prerelease: match[4] ? match[4].split(".") : [],
+  };
+}
+
+function comparePrerelease(a: string[], b: string[]): number {
+  // A release ranks above any of its pre-releases
+  if (a.length === 0 || b.length === 0) return b.length - a.length;
+
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    const aNumeric = /^\d+$/.test(a[i]);
+    const bNumeric = /^\d+$/.test(b[i]);
+    if (aNumeric && bNumeric) {
+      const diff = parseInt(a[i], 10) - parseInt(b[i], 10);
+      if (diff !== 0) return diff;
+    } else if (aNumeric !== bNumeric) {
+      // Numeric identifiers have lower precedence than alphanumeric ones
+      return aNumeric ? -1 : 1;
+    } else if (a[i] !== b[i]) {
+      return a[i] < b[i] ? -1 : 1;
+    }
+  }
+  return a.length - b.length;
+}
+
+/**
+ * Compares two versions by semver precedence (ascending).
+ */
+export function compareSemver(a: SemanticVersion, b: SemanticVersion): number {
+  return (
+    a.major - b.major ||
+    a.minor - b.minor ||
+    a.patch - b.patch ||
+    comparePrerelease(a.prerelease, b.prerelease)
+  );
+}
+
+function isInChannel(version: SemanticVersion, channel: string): boolean {
+  const [major, minor] = channel.split(".").map((part) => parseInt(part, 10));
+  return (
+    version.major === major && (minor === undefined || isNaN(minor) || version.minor === minor)
+  );
+}
+
+/**
+ * Orders tags for display: semantic versions first (highest first), then
+ * other tags by last push date (newest first), then by name.
+ */
+export function sortTags(tags: Tag[]): Tag[] {
+  return [...tags].sort((a, b) => {
+    const aVersion = parseSemver(a.name);
+    const bVersion = parseSemver(b.name);
+
+    if (aVersion && bVersion) {
+      return compareSemver(bVersion, aVersion) || a.name.localeCompare(b.name);
+    }
+    if (aVersion || bVersion) return aVersion ? -1 : 1;
+
+    const aPushed = a.lastPushed ? Date.parse(a.lastPushed) : 0;
+    const bPushed = b.lastPushed ? Date.parse(b.lastPushed) : 0;
+    return bPushed - aPushed || a.name.localeCompare(b.name);
+  });
+}
+
+/**
+ * Picks the tag that represents the app: the highest version allowed by the
+ * policy, else `latest`, else the first tag. Returns undefined if there are
+ * no tags at all.
+ */
+export function selectStableTag(tags: string[], policy: TagPolicy): string | undefined {
+  const candidates = tags
+    .map((name) => ({ name, version: parseSemver(name) }))
+    .filter(
+      (tag): tag is { name: string; version: SemanticVersion } =>
+        tag.version !== null &&
+        (policy.includePrerelease || tag.version.prerelease.length === 0) &&
+        (!policy.channel || isInChannel(tag.version, policy.channel))
+    )
+    .sort((a, b) => compareSemver(b.version, a.version));
+
+  if (candidates.length > 0) return candidates[0].name;
+  return tags.includes("latest") ? "latest" : tags[0];
+}
@@ -1,3 +1,11 @@
+// Docker's repository name grammar: lowercase path components separated by
+// slashes. Empty, `.` and `..` components can't occur, so a location never
+// points outside of the repository it names once it is part of a URL.
+const PATH_COMPONENT = "[a-z0-9]+(?:(?:\\.|_|__|-+)[a-z0-9]+)*";
+export const APP_LOCATION_PATTERN = `^${PATH_COMPONENT}(?:/${PATH_COMPONENT})*$`;
+const APP_LOCATION = new RegExp(APP_LOCATION_PATTERN);
+export const APP_LOCATION_MAX_LENGTH = 255;
+
 // A Value Object representing the unique location of the app in the registry.
 export class AppLocation {
   public readonly value: string;
@@ -6,10 +14,17 @@ export class AppLocation {
     if (!location || location.trim().length === 0) {
       throw new Error("App location cannot be empty.");
     }
+    if (!AppLocation.isValid(location)) {
+      throw new Error(`App location '${location}' is not a valid repository name.`);
+    }
     this.value = location;
   }
 
   public static create(location: string): AppLocation {
     return new AppLocation(location);
   }
+
+  public static isValid(location: string): boolean {
+    return location.length <= APP_LOCATION_MAX_LENGTH && APP_LOCATION.test(location);
+  }
 }
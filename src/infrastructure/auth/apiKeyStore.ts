@@ -0,0 +1,107 @@
+import { createHash, randomBytes, timingSafeEqual } from "crypto";
+import { ApiKey, ApiKeyInput } from "../../domain/models/ApiKey";
+import { JsonFile } from "../storage/jsonFile";
+
+// The contract for wherever API keys are persisted.
+export interface IApiKeyStore {
+  getAll(): Promise<ApiKey[]>;
+  // The key with this secret, or null if there is none
+  authenticate(key: string): Promise<ApiKey | null>;
+  // The secret is only ever returned here
+  create(input: ApiKeyInput, actor: string): Promise<{ apiKey: ApiKey; key: string }>;
+  revoke(id: string): Promise<boolean>;
+}
+
+interface StoredApiKey extends ApiKey {
+  // SHA-256 of the secret, hex-encoded
+  hash: string;
+}
+
+const API_KEYS_FILE = "api-keys.json";
+
+// Keys look like `asp_<id>_<secret>`; the id finds the record to compare with
+const KEY_PATTERN = /^asp_([0-9a-f]{12})_([A-Za-z0-9_-]{32,})$/;
+
+export const isApiKey = (value: string): boolean => KEY_PATTERN.test(value);
+
+// Secrets are random, so a fast hash is enough (no password stretching needed)
+const hashSecret = (secret: string) => createHash("sha256").update(secret).digest("hex");
+
+/**
+ * Keeps API keys in a JSON file. Only a hash of each secret is written, so
+ * the file doesn't give away working keys.
+ */
+export class FileApiKeyStore implements IApiKeyStore {
+  private file: JsonFile<Map<string, StoredApiKey>>;
+
+  constructor(directory: string) {
+    this.file = new JsonFile({
+      directory,
+      fileName: API_KEYS_FILE,
+      description: "API keys",
+      empty: () => new Map(),
+      fromJson: (keys: StoredApiKey[]) => new Map(keys.map((key) => [key.id, key])),
+      toJson: (keys) => [...keys.values()],
+      summarize: (keys) => `${keys.size} API key(s)`,
+      // Failing loudly beats locking every client out without a reason
+      ignoreUnreadable: false,
+      indent: 2,
+      // Hashes aren't secrets, but nobody else needs to read them
+      mode: 0o600,
+    });
+  }
+
+  public async getAll(): Promise<ApiKey[]> {
+    return [...(await this.file.load()).values()].map(({ hash: _hash, ...apiKey }) => apiKey);
+  }
+
+  public async authenticate(key: string): Promise<ApiKey | null> {
+    const match = key.match(KEY_PATTERN);
+    if (!match) return null;
+
+    const stored = (await this.file.load()).get(match[1]);
+    if (!stored) return null;
+
+    const expected = Buffer.from(stored.hash, "hex");
+    const actual = Buffer.from(hashSecret(match[2]), "hex");
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+      return null;
+    }
+    const { hash: _hash, ...apiKey } = stored;
+    return apiKey;
+  }
+
+  public create(input: ApiKeyInput, actor: string): Promise<{ apiKey: ApiKey; key: string }> {
+    return this.file.enqueue(async () => {
+      const keys = await this.file.load();
+
+      const id = randomBytes(6).toString("hex");
+      const secret = randomBytes(32).toString("base64url");
+      const apiKey: ApiKey = {
+        id,
+        ...input,
+        createdAt: new Date().toISOString(),
+        createdBy: actor,
+      };
+
+      await this.file.write(new Map(keys).set(id, { ...apiKey, hash: hashSecret(secret) }));
+      return { apiKey, key: `asp_${id}_${secret}` };
+    });
+  }
+
+  /**
+   * Deletes an API key; it stops working at once. Returns false if there was
+   * no such key.
+   */
+  public revoke(id: string): Promise<boolean> {
+    return this.file.enqueue(async () => {
+      const keys = await this.file.load();
+      if (!keys.has(id)) return false;
+
+      const updated = new Map(keys);
+      updated.delete(id);
+      await this.file.write(updated);
+      return true;
+    });
+  }
+}
@@ -0,0 +1,205 @@
+import {
+  JsonWebKey,
+  KeyObject,
+  constants,
+  createHmac,
+  createPublicKey,
+  timingSafeEqual,
+  verify,
+} from "crypto";
+import { readFileSync } from "fs";
+import { UnauthorizedError } from "../../shared/errors";
+
+// The claims we look at; anything else in the token is ignored
+export interface JwtClaims {
+  sub?: string;
+  iss?: string;
+  aud?: string | string[];
+  exp?: number;
+  nbf?: number;
+  // Space-separated scopes (RFC 8693), or a list of them (`scp`)
+  scope?: string;
+  scp?: string[];
+  name?: string;
+}
+
+export interface JwtVerifierOptions {
+  // Shared secret for HS256/384/512
+  secret?: string;
+  // Public keys (a JWKS document) for RS*, PS*, ES* and EdDSA
+  keys?: JsonWebKey[];
+  issuer?: string;
+  audience?: string;
+  // Accept tokens without an `exp` claim, which would otherwise never expire
+  allowMissingExpiry?: boolean;
+}
+
+interface VerificationKey {
+  kid?: string;
+  key: KeyObject;
+}
+
+// Clocks of the issuer and this service may disagree a little
+const CLOCK_TOLERANCE_SECONDS = 30;
+
+const DIGESTS: Record<string, string> = { "256": "sha256", "384": "sha384", "512": "sha512" };
+
+// The header and the claims are JSON objects; anything else is not a JWT
+const decodeSegment = (segment: string): Record<string, unknown> => {
+  const value = JSON.parse(Buffer.from(segment, "base64url").toString("utf8"));
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    throw new TypeError("Not a JSON object");
+  }
+  return value;
+};
+
+/**
+ * Reads a JWKS file (`{"keys": [...]}`). Throws on unreadable files or
+ * invalid keys so misconfiguration shows up at startup.
+ */
+export function loadJwks(jwksPath: string): JsonWebKey[] {
+  const document = JSON.parse(readFileSync(jwksPath, "utf8"));
+  if (!Array.isArray(document.keys)) {
+    throw new Error(`${jwksPath} is not a JWKS document (no "keys" array).`);
+  }
+  return document.keys;
+}
+
+/**
+ * Checks the signature and the time, issuer and audience claims of JWT
+ * bearer tokens. Only the algorithms a configured key can verify are
+ * accepted, so `alg: none` or an HMAC signed with a public key never pass.
+ */
+export class JwtVerifier {
+  private secret: Buffer | null;
+  private keys: VerificationKey[];
+  private issuer?: string;
+  private audience?: string;
+  private allowMissingExpiry: boolean;
+
+  constructor(options: JwtVerifierOptions) {
+    this.secret = options.secret ? Buffer.from(options.secret) : null;
+    this.keys = (options.keys || []).map((jwk) => ({
+      kid: typeof jwk.kid === "string" ? jwk.kid : undefined,
+      key: createPublicKey({ key: jwk, format: "jwk" }),
+    }));
+    this.issuer = options.issuer;
+    this.audience = options.audience;
+    this.allowMissingExpiry = options.allowMissingExpiry ?? false;
+  }
+
+  // JWTs have three base64url segments; API keys and plain tokens don't
+  public static looksLikeJwt(token: string): boolean {
+    return /^[\w-]+\.[\w-]+\.[\w-]*$/.test(token);
+  }
+
+  /**
+   * Returns the claims of a valid token; throws UnauthorizedError otherwise.
+   */
+  public verify(token: string, now = Date.now()): JwtClaims {
+    const [headerSegment, payloadSegment, signatureSegment] = token.split(".");
+    let header: { alg?: unknown; kid?: unknown };
+    let claims: JwtClaims;
+    try {
+      header = decodeSegment(headerSegment);
+      claims = decodeSegment(payloadSegment);
+    } catch {
+      throw new UnauthorizedError("The bearer token is not a valid JWT.");
+    }
+
+    const signed = Buffer.from(`${headerSegment}.${payloadSegment}`);
+    const signature = Buffer.from(signatureSegment, "base64url");
+    let valid = false;
+    try {
+      valid = typeof header.alg === "string" && this.checkSignature(header, signed, signature);
+    } catch {
+      // Signatures of the wrong size or shape make crypto throw
+    }
+    if (!valid) {
+      throw new UnauthorizedError("The JWT signature is invalid.");
+    }
+
+    const seconds = now / 1000;
+    if (typeof claims.exp !== "number" && !this.allowMissingExpiry) {
+      throw new UnauthorizedError("The JWT has no expiry.");
+    }
+    if (typeof claims.exp === "number" && seconds > claims.exp + CLOCK_TOLERANCE_SECONDS) {
+      throw new UnauthorizedError("The JWT has expired.");
+    }
+    if (typeof claims.nbf === "number" && seconds < claims.nbf - CLOCK_TOLERANCE_SECONDS) {
+      throw new UnauthorizedError("The JWT is not valid yet.");
+    }
+    if (this.issuer && claims.iss !== this.issuer) {
+      throw new UnauthorizedError("The JWT was issued by someone else.");
+    }
+    const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+    if (this.audience && !audiences.includes(this.audience)) {
+      throw new UnauthorizedError("The JWT is meant for another audience.");
+    }
+    return claims;
+  }
+
+  private checkSignature(
+    header: { alg?: unknown; kid?: unknown },
+    signed: Buffer,
+    signature: Buffer
+  ): boolean {
+    const alg = header.alg as string;
+    const family = alg.slice(0, 2);
+    const digest = DIGESTS[alg.slice(2)];
+
+    if (family === "HS" && digest) {
+      if (!this.secret) return false;
+      const expected = createHmac(digest, this.secret).update(signed).digest();
+      return expected.length === signature.length && timingSafeEqual(expected, signature);
+    }
+
+    const candidates = this.keys.filter(
+      ({ kid, key }) =>
+        (header.kid === undefined || kid === header.kid) && this.canVerify(key, alg)
+    );
+    return candidates.some(({ key }) => {
+      switch (family) {
+        case "RS":
+          return digest !== undefined && verify(digest, signed, key, signature);
+        case "PS":
+          return (
+            digest !== undefined &&
+            verify(
+              digest,
+              signed,
+              {
+                key,
+                padding: constants.RSA_PKCS1_PSS_PADDING,
+                saltLength: constants.RSA_PSS_SALTLEN_DIGEST,
+              },
+              signature
+            )
+          );
+        case "ES":
+          // JWS ECDSA signatures are r || s, not DER
+          return (
+            digest !== undefined &&
+            verify(digest, signed, { key, dsaEncoding: "ieee-p1363" }, signature)
+          );
+        default:
+          // EdDSA signs the message itself
+          return verify(null, signed, key, signature);
+      }
+    });
+  }
+
+  private canVerify(key: KeyObject, alg: string): boolean {
+    switch (key.asymmetricKeyType) {
+      case "rsa":
+        return /^(RS|PS)(256|384|512)$/.test(alg);
+      case "ec":
+        return /^ES(256|384|512)$/.test(alg);
+      case "ed25519":
+      case "ed448":
+        return alg === "EdDSA";
+      default:
+        return false;
+    }
+  }
+}
@@ -0,0 +1,89 @@
+import { RateLimitPolicy } from "../../domain/models/Principal";
+
+// The outcome of one request, in the terms of the `RateLimit-*` headers
+export interface RateLimitDecision {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  // Seconds until the bucket is full again
+  resetSeconds: number;
+  // Seconds until the next request is allowed (0 when it is now)
+  retryAfterSeconds: number;
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+  policy: RateLimitPolicy;
+}
+
+// Full buckets are forgotten once this many callers are tracked
+const PRUNE_THRESHOLD = 10_000;
+
+const toDecision = (
+  allowed: boolean,
+  remaining: number,
+  policy: RateLimitPolicy
+): RateLimitDecision => ({
+  allowed,
+  limit: policy.capacity,
+  remaining: Math.floor(remaining),
+  resetSeconds: Math.ceil((policy.capacity - remaining) / policy.refillPerSecond),
+  retryAfterSeconds: allowed ? 0 : Math.ceil((1 - remaining) / policy.refillPerSecond),
+});
+
+/**
+ * Token buckets kept in memory, one per caller: every request takes a token,
+ * and tokens come back at a steady rate up to the bucket's capacity. Callers
+ * may burst up to the capacity, then get the refill rate.
+ */
+export class TokenBucketRateLimiter {
+  private buckets = new Map<string, Bucket>();
+
+  public take(key: string, policy: RateLimitPolicy, now = Date.now()): RateLimitDecision {
+    if (this.buckets.size >= PRUNE_THRESHOLD && !this.buckets.has(key)) {
+      this.prune(now);
+    }
+
+    const tokens = this.getTokens(key, policy, now);
+    const allowed = tokens >= 1;
+    const remaining = allowed ? tokens - 1 : tokens;
+    this.buckets.set(key, { tokens: remaining, updatedAt: now, policy });
+    return toDecision(allowed, remaining, policy);
+  }
+
+  /**
+   * Whether a token could be taken right now, without taking it.
+   */
+  public peek(key: string, policy: RateLimitPolicy, now = Date.now()): RateLimitDecision {
+    const tokens = this.getTokens(key, policy, now);
+    return toDecision(tokens >= 1, tokens, policy);
+  }
+
+  private getTokens(key: string, policy: RateLimitPolicy, now: number): number {
+    const bucket = this.buckets.get(key);
+    // A changed policy (e.g. a re-created key) starts over with a full bucket
+    return bucket &&
+      bucket.policy.capacity === policy.capacity &&
+      bucket.policy.refillPerSecond === policy.refillPerSecond
+      ? this.refill(bucket, now)
+      : policy.capacity;
+  }
+
+  private refill(bucket: Bucket, now: number): number {
+    const elapsedSeconds = Math.max(0, now - bucket.updatedAt) / 1000;
+    return Math.min(
+      bucket.policy.capacity,
+      bucket.tokens + elapsedSeconds * bucket.policy.refillPerSecond
+    );
+  }
+
+  // A full bucket is the same as no bucket
+  private prune(now: number): void {
+    for (const [key, bucket] of this.buckets) {
+      if (this.refill(bucket, now) >= bucket.policy.capacity) {
+        this.buckets.delete(key);
+      }
+    }
+  }
+}
@@ -0,0 +1,277 @@
+import { createHash } from "crypto";
+import { App } from "../../domain/models/App";
+import { CatalogWarning } from "../../domain/models/Catalog";
+import { AppLocation } from "../../domain/valueObjects/AppLocation";
+import { IAppRepository } from "../repositories/appRepository";
+import logger from "../../shared/logger";
+import metrics from "../../shared/metrics";
+import { runWithoutContext } from "../../shared/requestContext";
+import tracer from "../../shared/tracing";
+
+const catalogApps = metrics.gauge("catalog_apps", "Apps in the current catalog snapshot.");
+const catalogWarnings = metrics.gauge(
+  "catalog_warnings",
+  "Catalog sources and apps that could not be read in the last refresh."
+);
+const lastSuccessfulRefresh = metrics.gauge(
+  "catalog_last_successful_refresh_timestamp_seconds",
+  "Unix time of the last successful catalog refresh."
+);
+const refreshFailures = metrics.counter(
+  "catalog_refresh_failures_total",
+  "Catalog refreshes that failed entirely."
+);
+
+// A point-in-time copy of the full app catalog
+export interface CatalogSnapshot {
+  apps: App[];
+  // What could not be read; an empty list means the snapshot is complete
+  warnings: CatalogWarning[];
+  refreshedAt: Date;
+  // When the content last changed; refreshes that find nothing new keep it
+  changedAt: Date;
+}
+
+// Called whenever the snapshot is replaced, including single-app updates
+export type SnapshotListener = (snapshot: CatalogSnapshot) => void;
+
+// What readiness checks need to know about the cache
+export interface CatalogStatus {
+  loaded: boolean;
+  refreshedAt?: Date;
+  // The error of the last refresh, if it failed
+  lastError?: string;
+}
+
+// Identifies the content of a snapshot, regardless of the order apps loaded in
+function fingerprint(apps: App[], warnings: CatalogWarning[]): string {
+  const sorted = [...apps].sort((a, b) => a.location.value.localeCompare(b.location.value));
+  return createHash("sha256").update(JSON.stringify({ apps: sorted, warnings })).digest("hex");
+}
+
+/**
+ * Keeps the last good catalog snapshot in memory and serves it immediately
+ * (stale-while-revalidate). The snapshot is refreshed in the background on a
+ * fixed interval, and a failed refresh keeps the previous snapshot. Single
+ * apps that fail to load keep their previous entry and are listed in the
+ * snapshot's warnings.
+ */
+export class CatalogCache {
+  private appRepository: IAppRepository;
+  private refreshIntervalMs: number;
+  private snapshot: CatalogSnapshot | null = null;
+  private snapshotFingerprint: string | null = null;
+  private inFlightRefresh: Promise<CatalogSnapshot> | null = null;
+  private lastRefreshError: Error | null = null;
+  private timer: NodeJS.Timeout | null = null;
+  private listeners: SnapshotListener[] = [];
+
+  constructor(appRepository: IAppRepository, refreshIntervalMs: number) {
+    this.appRepository = appRepository;
+    this.refreshIntervalMs = refreshIntervalMs;
+  }
+
+  /**
+   * Returns the current snapshot. Only the very first call waits for the
+   * registry; afterwards a stale snapshot triggers a background refresh.
+   */
+  public async getSnapshot(): Promise<CatalogSnapshot> {
+    if (!this.snapshot) {
+      return this.refresh();
+    }
+
+    if (this.getAgeMs(this.snapshot) >= this.refreshIntervalMs) {
+      this.refreshInBackground();
+    }
+
+    return this.snapshot;
+  }
+
+  /**
+   * Reloads the catalog from the repository. Concurrent callers share the
+   * same in-flight refresh so the registry is only hit once. The refresh
+   * belongs to none of them: its logs and spans get their own trace.
+   */
+  public refresh(): Promise<CatalogSnapshot> {
+    if (!this.inFlightRefresh) {
+      this.inFlightRefresh = runWithoutContext(() => this.loadSnapshot())
+        .catch((error) => {
+          this.lastRefreshError = error;
+          refreshFailures.inc();
+          throw error;
+        })
+        .finally(() => {
+          this.inFlightRefresh = null;
+        });
+    }
+    return this.inFlightRefresh;
+  }
+
+  /**
+   * Re-reads a single repository and swaps its entry into the snapshot, so a
+   * push shows up without waiting for the next full refresh. Repositories
+   * that no longer exist are evicted. Registry failures throw and leave the
+   * snapshot as it is.
+   */
+  public async refreshApp(location: AppLocation): Promise<void> {
+    const app = await this.appRepository.findOne(location);
+    if (!app) {
+      this.evictApp(location);
+      return;
+    }
+    if (!this.snapshot) return;
+
+    const apps = this.snapshot.apps.filter(
+      (existing) => existing.location.value !== location.value
+    );
+    this.replaceSnapshot({
+      ...this.snapshot,
+      apps: [...apps, app],
+      warnings: this.snapshot.warnings.filter(
+        (warning) => warning.location !== location.value
+      ),
+    });
+    catalogApps.set(this.snapshot.apps.length);
+    logger.info(`Refreshed ${location.value} in the app catalog snapshot`);
+    this.notify(this.snapshot);
+  }
+
+  /**
+   * Removes a repository from the snapshot.
+   */
+  public evictApp(location: AppLocation): void {
+    if (!this.snapshot) return;
+
+    this.replaceSnapshot({
+      ...this.snapshot,
+      apps: this.snapshot.apps.filter(
+        (existing) => existing.location.value !== location.value
+      ),
+      warnings: this.snapshot.warnings.filter(
+        (warning) => warning.location !== location.value
+      ),
+    });
+    catalogApps.set(this.snapshot.apps.length);
+    logger.info(`Evicted ${location.value} from the app catalog snapshot`);
+    this.notify(this.snapshot);
+  }
+
+  /**
+   * Starts the periodic background refresh and warms the cache.
+   */
+  public start(): void {
+    if (this.timer) return;
+
+    this.refreshInBackground();
+    this.timer = setInterval(
+      () => this.refreshInBackground(),
+      this.refreshIntervalMs
+    );
+    // Don't keep the process alive just for the refresh timer
+    this.timer.unref();
+  }
+
+  public stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  public onSnapshot(listener: SnapshotListener): void {
+    this.listeners.push(listener);
+  }
+
+  public getStatus(): CatalogStatus {
+    return {
+      loaded: this.snapshot !== null,
+      refreshedAt: this.snapshot?.refreshedAt,
+      lastError: this.lastRefreshError?.message,
+    };
+  }
+
+  /**
+   * Age of a snapshot in whole seconds, suitable for the HTTP `Age` header.
+   */
+  public static getAgeSeconds(snapshot: CatalogSnapshot): number {
+    return Math.floor((Date.now() - snapshot.refreshedAt.getTime()) / 1000);
+  }
+
+  private getAgeMs(snapshot: CatalogSnapshot): number {
+    return Date.now() - snapshot.refreshedAt.getTime();
+  }
+
+  private notify(snapshot: CatalogSnapshot): void {
+    for (const listener of this.listeners) {
+      try {
+        listener(snapshot);
+      } catch (error) {
+        // A broken listener must not fail the refresh that triggered it
+        logger.error("Catalog snapshot listener failed:", error);
+      }
+    }
+  }
+
+  private refreshInBackground(): void {
+    this.refresh().catch((error) => {
+      // The previous snapshot (if any) stays in place
+      logger.error("Background catalog refresh failed:", error);
+    });
+  }
+
+  private async loadSnapshot(): Promise<CatalogSnapshot> {
+    logger.info("Refreshing app catalog snapshot");
+    const { apps, warnings } = await tracer.startActiveSpan(
+      "catalog.refresh",
+      {},
+      async (span) => {
+        const result = await this.appRepository.findAll();
+        span.setAttributes({
+          "catalog.apps": result.apps.length,
+          "catalog.warnings": result.warnings.length,
+        });
+        return result;
+      }
+    );
+
+    // Apps that failed this time keep their entry from the previous snapshot,
+    // as do all apps of a source that failed to list
+    const failedLocations = new Set(warnings.map((warning) => warning.location));
+    const failedSources = new Set(
+      warnings.filter((warning) => !warning.location).map((warning) => warning.source)
+    );
+    const loaded = new Set(apps.map((app) => app.location.value));
+    const carriedOver = (this.snapshot?.apps || []).filter(
+      (app) =>
+        !loaded.has(app.location.value) &&
+        (failedLocations.has(app.location.value) ||
+          (app.source !== undefined && failedSources.has(app.source)))
+    );
+
+    const snapshot = this.replaceSnapshot({
+      apps: [...apps, ...carriedOver],
+      warnings,
+      refreshedAt: new Date(),
+    });
+    this.lastRefreshError = null;
+    lastSuccessfulRefresh.set(snapshot.refreshedAt.getTime() / 1000);
+    catalogWarnings.set(warnings.length);
+    catalogApps.set(snapshot.apps.length);
+    logger.info(`App catalog snapshot refreshed with ${apps.length} apps`);
+    this.notify(snapshot);
+    return snapshot;
+  }
+
+  /**
+   * Swaps in a new snapshot, keeping `changedAt` if its content is the same
+   * as before, so clients revalidating with `If-Modified-Since` get a 304.
+   */
+  private replaceSnapshot(snapshot: Omit<CatalogSnapshot, "changedAt">): CatalogSnapshot {
+    const next = fingerprint(snapshot.apps, snapshot.warnings);
+    const changedAt =
+      this.snapshot && next === this.snapshotFingerprint ? this.snapshot.changedAt : new Date();
+    this.snapshot = { ...snapshot, changedAt };
+    this.snapshotFingerprint = next;
+    return this.snapshot;
+  }
+}
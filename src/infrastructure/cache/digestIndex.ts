@@ -0,0 +1,79 @@
+import { ImageRuntimeConfig } from "../../domain/models/AppDetail";
+import { Platform } from "../../domain/models/Platform";
+import { SignatureVerification } from "../../domain/models/SupplyChain";
+import { JsonFile } from "../storage/jsonFile";
+
+// What was read from the image behind a repository's stable tag
+export interface DigestIndexEntry {
+  tag: string;
+  // The manifest (or image index) digest the tag pointed at
+  digest: string;
+  labels: Record<string, string>;
+  platforms: Platform[];
+  // Missing from entries written before it was recorded
+  runtime?: ImageRuntimeConfig;
+  // Only recorded when trusted keys are configured
+  signature?: SignatureVerification;
+}
+
+// The contract for wherever the digest index is persisted.
+export interface IDigestIndex {
+  get(repo: string): Promise<DigestIndexEntry | null>;
+  set(repo: string, entry: DigestIndexEntry): Promise<void>;
+  // Writes changes to disk; given the listed repositories, forgets all others
+  save(listedRepos?: string[]): Promise<void>;
+}
+
+const DIGEST_INDEX_FILE = "digest-index.json";
+
+/**
+ * Remembers, per repository, the manifest digest of the stable tag and what
+ * was read from its image. Manifests and config blobs are content-addressed,
+ * so as long as the digest is the same the image doesn't need to be read
+ * again. `set` only changes the index in memory; `save` writes it, once per
+ * refresh rather than once per repository.
+ */
+export class FileDigestIndex implements IDigestIndex {
+  private file: JsonFile<Map<string, DigestIndexEntry>>;
+  private dirty = false;
+
+  constructor(directory: string) {
+    this.file = new JsonFile({
+      directory,
+      fileName: DIGEST_INDEX_FILE,
+      description: "digest index",
+      empty: () => new Map(),
+      fromJson: (entries: Record<string, DigestIndexEntry>) => new Map(Object.entries(entries)),
+      toJson: (entries) => Object.fromEntries(entries),
+      summarize: (entries) => `the digests of ${entries.size} app(s)`,
+      // The index only saves registry requests; without it every image is read again
+      ignoreUnreadable: true,
+    });
+  }
+
+  public async get(repo: string): Promise<DigestIndexEntry | null> {
+    return (await this.file.load()).get(repo) || null;
+  }
+
+  public async set(repo: string, entry: DigestIndexEntry): Promise<void> {
+    (await this.file.load()).set(repo, entry);
+    this.dirty = true;
+  }
+
+  public save(listedRepos?: string[]): Promise<void> {
+    return this.file.enqueue(async () => {
+      const entries = await this.file.load();
+      const listed = listedRepos && new Set(listedRepos);
+      for (const repo of entries.keys()) {
+        if (listed && !listed.has(repo)) {
+          entries.delete(repo);
+          this.dirty = true;
+        }
+      }
+      if (!this.dirty) return;
+
+      this.dirty = false;
+      await this.file.write(entries);
+    });
+  }
+}
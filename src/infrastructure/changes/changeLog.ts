@@ -0,0 +1,89 @@
+import {
+  CatalogChange,
+  CatalogChangeDraft,
+  CatalogEntry,
+} from "../../domain/models/CatalogChange";
+import { JsonFile } from "../storage/jsonFile";
+
+// The contract for wherever catalog changes are persisted.
+export interface IChangeLog {
+  // The catalog as of the last recorded snapshot; null before the first one
+  getBaseline(): Promise<CatalogEntry[] | null>;
+  // The retained changes, oldest first
+  getChanges(): Promise<CatalogChange[]>;
+  // The id of the newest change ever recorded (0 if there was none)
+  getLatestId(): Promise<number>;
+  // Logs the changes found in a snapshot and makes it the new baseline
+  record(drafts: CatalogChangeDraft[], baseline: CatalogEntry[]): Promise<CatalogChange[]>;
+}
+
+// Everything the change log keeps on disk
+interface ChangeLogState {
+  latestId: number;
+  baseline: CatalogEntry[] | null;
+  changes: CatalogChange[];
+}
+
+const CHANGE_LOG_FILE = "catalog-changes.json";
+
+/**
+ * Keeps the catalog change log and the snapshot it was last compared with
+ * in a JSON file. Only the most recent changes are kept; ids keep counting
+ * across trimming and restarts, so clients can resume from the last id they
+ * saw.
+ */
+export class FileChangeLog implements IChangeLog {
+  private maxChanges: number;
+  private file: JsonFile<ChangeLogState>;
+
+  constructor(directory: string, maxChanges: number) {
+    this.maxChanges = maxChanges;
+    this.file = new JsonFile({
+      directory,
+      fileName: CHANGE_LOG_FILE,
+      description: "the catalog change log",
+      empty: () => ({ latestId: 0, baseline: null, changes: [] }),
+      fromJson: (state: ChangeLogState) => state,
+      toJson: (state) => state,
+      summarize: (state) => `${state.changes.length} catalog change(s)`,
+      // Starting over would hand out change ids that clients have already seen
+      ignoreUnreadable: false,
+    });
+  }
+
+  public async getBaseline(): Promise<CatalogEntry[] | null> {
+    return (await this.file.load()).baseline;
+  }
+
+  public async getChanges(): Promise<CatalogChange[]> {
+    return [...(await this.file.load()).changes];
+  }
+
+  public async getLatestId(): Promise<number> {
+    return (await this.file.load()).latestId;
+  }
+
+  public record(
+    drafts: CatalogChangeDraft[],
+    baseline: CatalogEntry[]
+  ): Promise<CatalogChange[]> {
+    return this.file.enqueue(async () => {
+      const state = await this.file.load();
+      const detectedAt = new Date().toISOString();
+      const recorded = drafts.map(
+        (draft, index): CatalogChange => ({
+          id: state.latestId + index + 1,
+          ...draft,
+          detectedAt,
+        })
+      );
+
+      await this.file.write({
+        latestId: state.latestId + recorded.length,
+        baseline,
+        changes: [...state.changes, ...recorded].slice(-this.maxChanges),
+      });
+      return recorded;
+    });
+  }
+}
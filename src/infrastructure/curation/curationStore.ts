@@ -0,0 +1,133 @@
+import { appendFile, readFile } from "fs/promises";
+import path from "path";
+import {
+  AppCuration,
+  CurationAuditEntry,
+  CurationInput,
+} from "../../domain/models/Curation";
+import { diffCuration } from "../../domain/services/curation";
+import { JsonFile } from "../storage/jsonFile";
+
+// The contract for wherever curations are persisted.
+export interface ICurationStore {
+  getAll(): Promise<Map<string, AppCuration>>;
+  get(location: string): Promise<AppCuration | null>;
+  save(location: string, input: CurationInput, actor: string): Promise<AppCuration>;
+  remove(location: string, actor: string): Promise<boolean>;
+  getAuditTrail(location?: string, limit?: number): Promise<CurationAuditEntry[]>;
+}
+
+const CURATIONS_FILE = "curations.json";
+const AUDIT_FILE = "curation-audit.jsonl";
+
+/**
+ * Keeps curations in a JSON file and the audit trail in an append-only JSON
+ * Lines file, both in one directory.
+ */
+export class FileCurationStore implements ICurationStore {
+  private directory: string;
+  private file: JsonFile<Map<string, AppCuration>>;
+
+  constructor(directory: string) {
+    this.directory = directory;
+    this.file = new JsonFile({
+      directory,
+      fileName: CURATIONS_FILE,
+      description: "app curations",
+      empty: () => new Map(),
+      fromJson: (curations: AppCuration[]) =>
+        new Map(curations.map((curation) => [curation.location, curation])),
+      toJson: (curations) => [...curations.values()],
+      summarize: (curations) => `${curations.size} app curation(s)`,
+      // A corrupt file must not silently turn into an empty catalog curation
+      ignoreUnreadable: false,
+      indent: 2,
+    });
+  }
+
+  public async getAll(): Promise<Map<string, AppCuration>> {
+    return new Map(await this.file.load());
+  }
+
+  public async get(location: string): Promise<AppCuration | null> {
+    return (await this.file.load()).get(location) || null;
+  }
+
+  /**
+   * Creates or replaces the curation of an app and records the changed
+   * fields in the audit trail.
+   */
+  public save(location: string, input: CurationInput, actor: string): Promise<AppCuration> {
+    return this.file.enqueue(async () => {
+      const curations = await this.file.load();
+      const previous = curations.get(location) || null;
+
+      const curation: AppCuration = {
+        ...input,
+        location,
+        updatedAt: new Date().toISOString(),
+        updatedBy: actor,
+      };
+      const changes = diffCuration(previous, input);
+
+      await this.file.write(new Map(curations).set(location, curation));
+      await this.appendAudit({
+        location,
+        action: previous ? "update" : "create",
+        actor,
+        changes,
+        timestamp: curation.updatedAt,
+      });
+      return curation;
+    });
+  }
+
+  /**
+   * Deletes the curation of an app. Returns false if there was none.
+   */
+  public remove(location: string, actor: string): Promise<boolean> {
+    return this.file.enqueue(async () => {
+      const curations = await this.file.load();
+      const previous = curations.get(location);
+      if (!previous) return false;
+
+      const updated = new Map(curations);
+      updated.delete(location);
+      await this.file.write(updated);
+      await this.appendAudit({
+        location,
+        action: "delete",
+        actor,
+        changes: diffCuration(previous, null),
+        timestamp: new Date().toISOString(),
+      });
+      return true;
+    });
+  }
+
+  /**
+   * Returns the most recent audit entries, newest first, optionally only
+   * those of one app.
+   */
+  public async getAuditTrail(location?: string, limit = 100): Promise<CurationAuditEntry[]> {
+    let content: string;
+    try {
+      content = await readFile(path.join(this.directory, AUDIT_FILE), "utf8");
+    } catch (error: any) {
+      if (error.code === "ENOENT") return [];
+      throw error;
+    }
+
+    return content
+      .split("\n")
+      .filter((line) => line.trim().length > 0)
+      .map((line) => JSON.parse(line) as CurationAuditEntry)
+      .filter((entry) => !location || entry.location === location)
+      .reverse()
+      .slice(0, limit);
+  }
+
+  private async appendAudit(entry: CurationAuditEntry): Promise<void> {
+    await appendFile(path.join(this.directory, AUDIT_FILE), `${JSON.stringify(entry)}\n`);
+  }
+}
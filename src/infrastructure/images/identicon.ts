@@ -0,0 +1,41 @@
+import { createHash } from "crypto";
+import { ImageData } from "./imageFetcher";
+
+const GRID_SIZE = 5;
+const CELL_SIZE = 30;
+const PADDING = 15;
+
+/**
+ * Generates a GitHub-style identicon: a horizontally symmetric 5x5 pattern
+ * whose cells and color are derived from a hash of the seed. The same seed
+ * always yields the same image.
+ */
+export function generateIdenticon(seed: string): ImageData {
+  const hash = createHash("sha256").update(seed).digest();
+  const hue = Math.round((hash.readUInt16BE(0) / 0xffff) * 360);
+  const color = `hsl(${hue}, 55%, 50%)`;
+
+  const cells: string[] = [];
+  const half = Math.ceil(GRID_SIZE / 2);
+  for (let row = 0; row < GRID_SIZE; row++) {
+    for (let column = 0; column < half; column++) {
+      // One bit per cell of the left half, mirrored to the right
+      const bitIndex = row * half + column;
+      if (((hash[2 + (bitIndex >> 3)] >> (bitIndex & 7)) & 1) === 0) continue;
+
+      for (const x of new Set([column, GRID_SIZE - 1 - column])) {
+        cells.push(
+          `<rect x="${PADDING + x * CELL_SIZE}" y="${PADDING + row * CELL_SIZE}" width="${CELL_SIZE}" height="${CELL_SIZE}"/>`
+        );
+      }
+    }
+  }
+
+  const size = GRID_SIZE * CELL_SIZE + PADDING * 2;
+  const svg =
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${size}" height="${size}" viewBox="0 0 ${size} ${size}">` +
+    `<rect width="${size}" height="${size}" fill="#f0f0f0"/>` +
+    `<g fill="${color}">${cells.join("")}</g></svg>`;
+
+  return { data: Buffer.from(svg, "utf8"), contentType: "image/svg+xml" };
+}
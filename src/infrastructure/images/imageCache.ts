@@ -0,0 +1,104 @@
+import { createHash } from "crypto";
+import { mkdir, readFile, rename, writeFile } from "fs/promises";
+import path from "path";
+import { ImageData } from "./imageFetcher";
+import logger from "../../shared/logger";
+
+// An image as we serve it, with a strong ETag derived from its content
+export interface StoredImage extends ImageData {
+  etag: string;
+  storedAt: number;
+}
+
+interface ImageMetadata {
+  source: string;
+  contentType: string;
+  etag: string;
+  storedAt: number;
+}
+
+export function computeEtag(data: Buffer): string {
+  return `"${createHash("sha256").update(data).digest("hex").slice(0, 32)}"`;
+}
+
+/**
+ * Caches downloaded images on disk, keyed by their source URL. Each entry is
+ * a content file plus a small JSON file with the content type and ETag.
+ * Entries older than the TTL are still returned, marked stale, so callers can
+ * fall back to them when the source is unreachable.
+ */
+export class ImageCache {
+  private cacheDir: string;
+  private ttlMs: number;
+
+  constructor(cacheDir: string, ttlMs: number) {
+    this.cacheDir = cacheDir;
+    this.ttlMs = ttlMs;
+  }
+
+  public async get(source: string): Promise<{ image: StoredImage; fresh: boolean } | null> {
+    const basePath = this.getBasePath(source);
+
+    try {
+      const metadata: ImageMetadata = JSON.parse(
+        await readFile(`${basePath}.json`, "utf8")
+      );
+      // Guard against (extremely unlikely) hash collisions
+      if (metadata.source !== source) return null;
+
+      const data = await readFile(`${basePath}.img`);
+      return {
+        image: {
+          data,
+          contentType: metadata.contentType,
+          etag: metadata.etag,
+          storedAt: metadata.storedAt,
+        },
+        fresh: Date.now() - metadata.storedAt < this.ttlMs,
+      };
+    } catch (error: any) {
+      if (error.code !== "ENOENT") {
+        logger.warn(`Ignoring unreadable image cache entry for ${source}`, {
+          error: error.message,
+        });
+      }
+      return null;
+    }
+  }
+
+  public async put(source: string, image: ImageData): Promise<StoredImage> {
+    const stored: StoredImage = {
+      ...image,
+      etag: computeEtag(image.data),
+      storedAt: Date.now(),
+    };
+    const metadata: ImageMetadata = {
+      source,
+      contentType: stored.contentType,
+      etag: stored.etag,
+      storedAt: stored.storedAt,
+    };
+
+    try {
+      await mkdir(this.cacheDir, { recursive: true });
+      const basePath = this.getBasePath(source);
+      // Write the content first so metadata never points at a partial file
+      await this.writeAtomically(`${basePath}.img`, image.data);
+      await this.writeAtomically(`${basePath}.json`, JSON.stringify(metadata));
+    } catch (error: any) {
+      // Serving the image matters more than caching it
+      logger.error(`Failed to cache image ${source}`, { error: error.message });
+    }
+    return stored;
+  }
+
+  private getBasePath(source: string): string {
+    return path.join(this.cacheDir, createHash("sha256").update(source).digest("hex"));
+  }
+
+  private async writeAtomically(filePath: string, content: Buffer | string): Promise<void> {
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    await writeFile(tempPath, content);
+    await rename(tempPath, filePath);
+  }
+}
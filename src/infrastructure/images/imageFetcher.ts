@@ -0,0 +1,196 @@
+import axios from "axios";
+import { LookupAddress } from "dns";
+import { lookup } from "dns/promises";
+import http from "http";
+import https from "https";
+import { LookupFunction, isIP } from "net";
+
+// Raw image bytes with their (verified) content type
+export interface ImageData {
+  data: Buffer;
+  contentType: string;
+}
+
+export interface ImageFetchOptions {
+  maxBytes: number;
+  timeoutMs: number;
+}
+
+// Image formats we are willing to serve
+export const ALLOWED_IMAGE_TYPES = [
+  "image/png",
+  "image/jpeg",
+  "image/gif",
+  "image/webp",
+  "image/svg+xml",
+];
+
+const MAX_REDIRECTS = 3;
+
+/**
+ * Detects the image format from the first bytes of the content, so a
+ * mislabelled response (e.g. an HTML error page) is never served as an image.
+ */
+export function sniffImageType(data: Buffer): string | null {
+  if (data.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) {
+    return "image/png";
+  }
+  if (data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff) return "image/jpeg";
+  if (data.subarray(0, 4).toString("latin1") === "GIF8") return "image/gif";
+  if (
+    data.subarray(0, 4).toString("latin1") === "RIFF" &&
+    data.subarray(8, 12).toString("latin1") === "WEBP"
+  ) {
+    return "image/webp";
+  }
+
+  const head = data.subarray(0, 1024).toString("utf8").replace(/^\uFEFF/, "").trimStart();
+  if (head.startsWith("<") && /<svg[\s>]/i.test(head)) return "image/svg+xml";
+
+  return null;
+}
+
+/**
+ * Checks size and format of an image. The declared content type must be an
+ * allowed image type and agree with the actual content.
+ */
+export function validateImage(data: Buffer, declaredType: string, maxBytes: number): ImageData {
+  if (data.length === 0) {
+    throw new Error("Image is empty");
+  }
+  if (data.length > maxBytes) {
+    throw new Error(`Image is larger than ${maxBytes} bytes`);
+  }
+
+  let contentType = declaredType.split(";")[0].trim().toLowerCase();
+  if (contentType === "image/jpg") contentType = "image/jpeg";
+  if (!ALLOWED_IMAGE_TYPES.includes(contentType)) {
+    throw new Error(`Unsupported image type '${contentType || "none"}'`);
+  }
+
+  const actualType = sniffImageType(data);
+  if (actualType !== contentType) {
+    throw new Error(`Image content does not match its type '${contentType}'`);
+  }
+
+  return { data, contentType };
+}
+
+export function isDataUri(source: string): boolean {
+  return source.startsWith("data:");
+}
+
+/**
+ * Decodes an image embedded as a data URI, e.g. `data:image/png;base64,...`.
+ */
+export function decodeDataUri(source: string, maxBytes: number): ImageData {
+  const match = source.match(/^data:([^;,]*)((?:;[^;,]*)*),(.*)$/s);
+  if (!match) {
+    throw new Error("Invalid data URI");
+  }
+
+  const isBase64 = match[2].split(";").includes("base64");
+  const data = isBase64
+    ? Buffer.from(match[3], "base64")
+    : Buffer.from(decodeURIComponent(match[3]), "utf8");
+
+  return validateImage(data, match[1], maxBytes);
+}
+
+// Loopback, private, link-local and unique-local addresses
+function isPrivateAddress(address: string): boolean {
+  if (isIP(address) === 4) {
+    const [a, b] = address.split(".").map(Number);
+    return (
+      a === 0 ||
+      a === 10 ||
+      a === 127 ||
+      (a === 100 && b >= 64 && b <= 127) ||
+      (a === 169 && b === 254) ||
+      (a === 172 && b >= 16 && b <= 31) ||
+      (a === 192 && b === 168)
+    );
+  }
+
+  const lower = address.toLowerCase();
+  if (lower.startsWith("::ffff:")) return isPrivateAddress(lower.slice(7));
+  return (
+    lower === "::" ||
+    lower === "::1" ||
+    lower.startsWith("fc") ||
+    lower.startsWith("fd") ||
+    lower.startsWith("fe80")
+  );
+}
+
+/**
+ * Image URLs come from image labels, so they must not be usable to reach
+ * services on our own network. Returns the checked addresses of the host.
+ */
+async function resolvePublicUrl(url: URL): Promise<LookupAddress[]> {
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    throw new Error(`Unsupported image URL protocol '${url.protocol}'`);
+  }
+
+  const addresses = await lookup(url.hostname, { all: true });
+  if (addresses.some(({ address }) => isPrivateAddress(address))) {
+    throw new Error(`Image host ${url.hostname} is not publicly reachable`);
+  }
+  return addresses;
+}
+
+// Connects to the given addresses only. Resolving the host again could give
+// another answer than the one that was checked (DNS rebinding).
+const pinnedLookup =
+  (addresses: LookupAddress[]): LookupFunction =>
+  (_hostname, options, callback) => {
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  };
+
+/**
+ * Downloads and validates a remote image. Redirects are followed manually so
+ * every hop is checked against private addresses, and each request connects
+ * to the addresses that were checked.
+ */
+export async function fetchRemoteImage(
+  source: string,
+  options: ImageFetchOptions
+): Promise<ImageData> {
+  let url = new URL(source);
+
+  for (let redirects = 0; ; redirects++) {
+    const pinned = pinnedLookup(await resolvePublicUrl(url));
+
+    const response = await axios.get(url.toString(), {
+      httpAgent: new http.Agent({ lookup: pinned }),
+      httpsAgent: new https.Agent({ lookup: pinned }),
+      // A proxy from the environment would resolve the host on its own
+      proxy: false,
+      responseType: "arraybuffer",
+      timeout: options.timeoutMs,
+      maxRedirects: 0,
+      maxContentLength: options.maxBytes,
+      headers: { Accept: ALLOWED_IMAGE_TYPES.join(", ") },
+      validateStatus: (status) => status >= 200 && status < 400,
+    });
+
+    if (response.status >= 300) {
+      const location = response.headers["location"];
+      if (!location || redirects >= MAX_REDIRECTS) {
+        throw new Error(`Too many or invalid redirects for image ${source}`);
+      }
+      url = new URL(location, url);
+      continue;
+    }
+
+    return validateImage(
+      Buffer.from(response.data),
+      String(response.headers["content-type"] || ""),
+      options.maxBytes
+    );
+  }
+}
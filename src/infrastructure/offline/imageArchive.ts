@@ -0,0 +1,272 @@
+import { createHash } from "crypto";
+import { readFile, readdir, stat } from "fs/promises";
+import path from "path";
+import { TarEntry, readTarEntries } from "./tarArchive";
+
+// Manifests, configs and attestations are small; layers are never read
+const MAX_BUFFERED_BLOB_BYTES = 4 * 1024 * 1024;
+
+const DOCKER_MANIFEST_MEDIA_TYPE = "application/vnd.docker.distribution.manifest.v2+json";
+const DOCKER_CONFIG_MEDIA_TYPE = "application/vnd.docker.container.image.v1+json";
+const DOCKER_LAYER_MEDIA_TYPE = "application/vnd.docker.image.rootfs.diff.tar";
+
+// Annotations naming the image a manifest in an `index.json` belongs to
+const REF_NAME_ANNOTATION = "org.opencontainers.image.ref.name";
+const CONTAINERD_NAME_ANNOTATION = "io.containerd.image.name";
+
+const DIGEST_PATTERN = /^([a-z0-9]+):([a-f0-9]{32,})$/;
+
+// A tagged image found in an archive
+export interface ArchivedImage {
+  repo: string;
+  tag: string;
+  // The manifest (or image index) the tag points at
+  digest: string;
+}
+
+/**
+ * The images of one OCI image layout or `docker save` tarball, with access
+ * to their blobs by digest.
+ */
+export interface ImageArchive {
+  location: string;
+  images: ArchivedImage[];
+  // Every manifest listed in the archive's index, tagged or not (e.g. referrers)
+  manifestDigests: string[];
+  readBlob(digest: string): Promise<Buffer | null>;
+}
+
+const sha256 = (content: Buffer | string) =>
+  `sha256:${createHash("sha256").update(content).digest("hex")}`;
+
+/**
+ * Splits an image reference into repository and tag. A registry host is
+ * dropped; references without a repository (OCI layouts usually name only
+ * the tag) belong to the fallback repository.
+ */
+export function parseImageReference(
+  reference: string,
+  fallbackRepo: string
+): { repo: string; tag: string } {
+  const withoutDigest = reference.split("@")[0];
+  const lastSlash = withoutDigest.lastIndexOf("/");
+  const lastColon = withoutDigest.lastIndexOf(":");
+  if (lastSlash === -1 && lastColon === -1) {
+    // A bare tag, as `org.opencontainers.image.ref.name` usually is
+    return { repo: fallbackRepo, tag: withoutDigest };
+  }
+
+  const hasTag = lastColon > lastSlash;
+  let repo = hasTag ? withoutDigest.slice(0, lastColon) : withoutDigest;
+  const tag = hasTag ? withoutDigest.slice(lastColon + 1) : "latest";
+
+  const [first, ...rest] = repo.split("/");
+  if (rest.length > 0 && (first.includes(".") || first.includes(":") || first === "localhost")) {
+    repo = rest.join("/");
+  }
+  return { repo: repo || fallbackRepo, tag };
+}
+
+/**
+ * Names the repository of images that carry no name, after the archive
+ * (`my-app.tar.gz` and `my-app/` both become `my-app`).
+ */
+function getFallbackRepo(location: string): string {
+  return path
+    .basename(location)
+    .replace(/\.(tar\.gz|tgz|tar)$/i, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9._/-]+/g, "-");
+}
+
+function blobPath(digest: string): string | null {
+  const match = digest.match(DIGEST_PATTERN);
+  return match ? `blobs/${match[1]}/${match[2]}` : null;
+}
+
+/**
+ * Lists the tagged images of an OCI `index.json`. Manifests without a name
+ * are kept as untagged manifests only.
+ */
+function readOciIndex(
+  index: any,
+  fallbackRepo: string
+): { images: ArchivedImage[]; manifestDigests: string[] } {
+  const descriptors: any[] = index?.manifests || [];
+  const images: ArchivedImage[] = [];
+  for (const descriptor of descriptors) {
+    const name =
+      descriptor.annotations?.[CONTAINERD_NAME_ANNOTATION] ||
+      descriptor.annotations?.[REF_NAME_ANNOTATION];
+    if (!name) continue;
+    images.push({ ...parseImageReference(name, fallbackRepo), digest: descriptor.digest });
+  }
+  return { images, manifestDigests: descriptors.map((descriptor) => descriptor.digest) };
+}
+
+/**
+ * Reads an OCI image layout directory (`oci-layout`, `index.json` and
+ * `blobs/<algorithm>/<hex>`). Blobs are read from disk when asked for.
+ */
+async function openLayoutDirectory(directory: string): Promise<ImageArchive> {
+  const index = JSON.parse(await readFile(path.join(directory, "index.json"), "utf8"));
+  return {
+    location: directory,
+    ...readOciIndex(index, getFallbackRepo(directory)),
+    readBlob: async (digest) => {
+      const relativePath = blobPath(digest);
+      if (!relativePath) return null;
+      try {
+        return await readFile(path.join(directory, relativePath));
+      } catch (error: any) {
+        if (error.code === "ENOENT") return null;
+        throw error;
+      }
+    },
+  };
+}
+
+/**
+ * Builds a registry manifest for an image of a legacy `docker save` archive,
+ * which only lists the config and layer files in its `manifest.json`.
+ */
+function toDockerManifest(
+  item: any,
+  config: Buffer,
+  entries: Map<string, TarEntry>
+): any {
+  const diffIds: string[] = JSON.parse(config.toString("utf8")).rootfs?.diff_ids || [];
+  return {
+    schemaVersion: 2,
+    mediaType: DOCKER_MANIFEST_MEDIA_TYPE,
+    config: { mediaType: DOCKER_CONFIG_MEDIA_TYPE, digest: sha256(config), size: config.length },
+    layers: ((item.Layers || []) as string[]).map((layer, index) => ({
+      mediaType: DOCKER_LAYER_MEDIA_TYPE,
+      // Layers stored as blobs are named by digest; older archives name them by
+      // layer id, and their uncompressed digest is in the config
+      digest: layer.startsWith("blobs/") ? layer.slice(6).replace("/", ":") : diffIds[index],
+      size: entries.get(layer)?.size ?? 0,
+    })),
+  };
+}
+
+/**
+ * Reads a `docker save` tarball or a tarred OCI layout. Newer Docker
+ * versions write both an `index.json` and the legacy `manifest.json`; the
+ * index is preferred, older archives get their manifests built from
+ * `manifest.json`.
+ */
+async function openTarball(filePath: string): Promise<ImageArchive> {
+  const entries = await readTarEntries(
+    filePath,
+    (name, size) =>
+      size <= MAX_BUFFERED_BLOB_BYTES && (name.startsWith("blobs/") || name.endsWith(".json"))
+  );
+  const blobs = new Map<string, Buffer>();
+  for (const [name, entry] of entries) {
+    const match = name.match(/^blobs\/([a-z0-9]+)\/([a-f0-9]+)$/);
+    if (match && entry.content) blobs.set(`${match[1]}:${match[2]}`, entry.content);
+  }
+
+  const fallbackRepo = getFallbackRepo(filePath);
+  const readJson = (name: string) => {
+    const content = entries.get(name)?.content;
+    return content ? JSON.parse(content.toString("utf8")) : null;
+  };
+
+  let listing: { images: ArchivedImage[]; manifestDigests: string[] };
+  const index = readJson("index.json");
+  const ociListing = index ? readOciIndex(index, fallbackRepo) : null;
+  const legacyManifest = readJson("manifest.json");
+  if (ociListing && ociListing.images.length > 0) {
+    listing = ociListing;
+  } else if (Array.isArray(legacyManifest)) {
+    listing = { images: [], manifestDigests: [] };
+    for (const item of legacyManifest) {
+      const config = entries.get(item.Config)?.content;
+      if (!config) {
+        throw new Error(`Image config ${item.Config} is missing from ${filePath}`);
+      }
+      blobs.set(sha256(config), config);
+
+      const manifest = Buffer.from(JSON.stringify(toDockerManifest(item, config, entries)));
+      const digest = sha256(manifest);
+      blobs.set(digest, manifest);
+      listing.manifestDigests.push(digest);
+      for (const reference of (item.RepoTags || []) as string[]) {
+        listing.images.push({ ...parseImageReference(reference, fallbackRepo), digest });
+      }
+    }
+  } else {
+    throw new Error(`${filePath} contains neither an index.json nor a manifest.json`);
+  }
+
+  return {
+    location: filePath,
+    ...listing,
+    readBlob: async (digest) => blobs.get(digest) ?? null,
+  };
+}
+
+/**
+ * Opens every image archive at a path: an OCI layout directory, a tarball,
+ * or a directory holding several of them.
+ */
+export async function openImageArchives(location: string): Promise<ImageArchive[]> {
+  const stats = await stat(location);
+  if (stats.isFile()) {
+    return [await openTarball(location)];
+  }
+
+  const children = await readdir(location);
+  if (children.includes("index.json")) {
+    return [await openLayoutDirectory(location)];
+  }
+
+  const archives: ImageArchive[] = [];
+  for (const child of children.sort()) {
+    const childPath = path.join(location, child);
+    const childStats = await stat(childPath);
+    if (
+      (childStats.isDirectory() && (await readdir(childPath)).includes("index.json")) ||
+      (childStats.isFile() && /\.(tar|tar\.gz|tgz)$/i.test(child))
+    ) {
+      archives.push(...(await openImageArchives(childPath)));
+    }
+  }
+  return archives;
+}
+
+/**
+ * Describes the archives at a path by the modification times of what
+ * `openImageArchives` looks at, so changes are noticed without reading the
+ * archives again.
+ */
+export async function getArchivesVersion(location: string): Promise<string> {
+  const describe = async (filePath: string) => {
+    try {
+      const stats = await stat(filePath);
+      return `${filePath}@${stats.mtimeMs}:${stats.size}`;
+    } catch {
+      return `${filePath}@missing`;
+    }
+  };
+
+  let children: string[] = [];
+  try {
+    children = await readdir(location);
+  } catch {
+    // A tarball, or a path that doesn't exist (yet)
+  }
+
+  // Adding or removing archives changes a directory, and writing an OCI
+  // layout replaces its index.json
+  const layouts = children.includes("index.json")
+    ? []
+    : children.sort().map((child) => path.join(location, child));
+  const entries = [location, ...layouts].flatMap((entry) => [
+    entry,
+    path.join(entry, "index.json"),
+  ]);
+  return (await Promise.all(entries.map(describe))).join(" ");
+}
@@ -0,0 +1,299 @@
+import { parsePlatform } from "../../domain/models/Platform";
+import { Tag } from "../../domain/models/Tag";
+import { config } from "../../shared/config";
+import logger from "../../shared/logger";
+import {
+  ResolvedManifest,
+  getPlatformDescriptors,
+  isImageIndex,
+  resolvePlatformManifest,
+  toPlatform,
+} from "../registry/manifestIndex";
+import { IRegistryBackend, RepositoryInfo } from "../registry/registryBackend";
+import { discoverReferrers } from "../registry/referrers";
+import { ImageArchive, getArchivesVersion, openImageArchives } from "./imageArchive";
+
+const DIGEST_REFERENCE = /^[a-z0-9]+:[a-f0-9]+$/;
+
+// The tags of one repository and the archives its blobs are in
+interface LocalRepository {
+  tags: Map<string, string>;
+  archives: ImageArchive[];
+}
+
+// This class serves images from OCI image layouts and `docker save` tarballs
+// on disk, for air-gapped installs and tests. It answers like a registry, so
+// the catalog is built exactly as for Docker Hub or a V2 registry.
+export class OfflineRegistryBackend implements IRegistryBackend {
+  private paths: string[];
+  private repositories: Map<string, LocalRepository> | null = null;
+  private loading: Promise<Map<string, LocalRepository>> | null = null;
+  // What the archives looked like when they were read
+  private version: string | null = null;
+
+  constructor(paths: string[] = config.offline.imagePaths) {
+    this.paths = paths;
+  }
+
+  /**
+   * Lists the repositories found in the archives. A namespace keeps only the
+   * repositories below that prefix. Each catalog refresh starts here, so
+   * archives that changed since they were read are read again.
+   */
+  public async listRepositories(namespace = ""): Promise<string[]> {
+    if (this.repositories && (await this.getVersion()) !== this.version) {
+      logger.info("Image archives changed, reading them again");
+      this.repositories = null;
+    }
+    const repositories = [...(await this.load()).keys()].sort();
+    return namespace
+      ? repositories.filter((repo) => repo.startsWith(`${namespace}/`))
+      : repositories;
+  }
+
+  /**
+   * Builds repository information from the tags. The digest of every tag is
+   * known, so changes to tags are detected like on Docker Hub.
+   */
+  public async getRepositoryInfo(repo: string): Promise<RepositoryInfo | null> {
+    const repository = (await this.load()).get(repo);
+    if (!repository) return null;
+
+    return {
+      name: repo,
+      has_tags: repository.tags.size > 0,
+      available_tags: [...repository.tags.keys()],
+      tag_digests: Object.fromEntries(repository.tags),
+    };
+  }
+
+  public async getRepositoryTags(repo: string): Promise<string[]> {
+    return [...((await this.load()).get(repo)?.tags.keys() || [])];
+  }
+
+  /**
+   * Lists every tag with its digest and platforms (image indexes) or size
+   * (single-platform manifests). Archives carry no push dates.
+   */
+  public async listTags(repo: string): Promise<Tag[]> {
+    const repository = (await this.load()).get(repo);
+    if (!repository) return [];
+
+    return Promise.all(
+      [...repository.tags].map(async ([name, digest]): Promise<Tag> => {
+        const manifest = await this.getManifest(repo, digest);
+        if (isImageIndex(manifest)) {
+          return {
+            name,
+            digest,
+            platforms: getPlatformDescriptors(manifest).map((descriptor) =>
+              toPlatform(descriptor.platform)
+            ),
+          };
+        }
+
+        const layers: { size?: number }[] = manifest.layers || [];
+        return {
+          name,
+          digest,
+          size: layers.reduce((total, layer) => total + (layer.size || 0), 0),
+          platforms: [],
+        };
+      })
+    );
+  }
+
+  /**
+   * Reads the manifest of a tag or digest. Without a tag, 'latest' is used
+   * if it exists, otherwise the first tag.
+   */
+  public async getManifest(repo: string, tag?: string): Promise<any> {
+    if (!tag) {
+      const tags = await this.getRepositoryTags(repo);
+      if (tags.length === 0) {
+        logger.warn(`No tags found for repository ${repo}, cannot read manifest`);
+        return null;
+      }
+      tag = tags.includes("latest") ? "latest" : tags[0];
+    }
+
+    const manifest = await this.findManifest(repo, tag);
+    if (!manifest) {
+      throw new Error(`Manifest ${repo}:${tag} not found in the image archives`);
+    }
+    return manifest;
+  }
+
+  public async getPlatformManifest(
+    repo: string,
+    tag?: string
+  ): Promise<ResolvedManifest | null> {
+    return resolvePlatformManifest(
+      (name, reference) => this.getManifest(name, reference),
+      repo,
+      tag,
+      parsePlatform(config.dockerRegistry.platform)
+    );
+  }
+
+  public async getManifestDigest(repo: string, tag: string): Promise<string | null> {
+    return (await this.load()).get(repo)?.tags.get(tag) ?? null;
+  }
+
+  public async getConfig(repo: string, digest: string): Promise<any> {
+    return JSON.parse((await this.getBlob(repo, digest)).toString("utf8"));
+  }
+
+  /**
+   * Reads a manifest by tag or digest. Returns null if the archives don't
+   * contain it.
+   */
+  public async findManifest(repo: string, reference: string): Promise<any | null> {
+    const repository = (await this.load()).get(repo);
+    if (!repository) return null;
+
+    const digest = DIGEST_REFERENCE.test(reference)
+      ? reference
+      : repository.tags.get(reference);
+    if (!digest) return null;
+
+    const blob = await this.findBlob(repository, digest);
+    return blob ? JSON.parse(blob.toString("utf8")) : null;
+  }
+
+  /**
+   * Lists the manifests in the repository's archives whose `subject` is the
+   * given manifest, as the referrers API would. Cosign's tag schema is
+   * checked as a fallback.
+   */
+  public async getReferrers(repo: string, digest: string): Promise<any[]> {
+    const repository = (await this.load()).get(repo);
+    if (!repository) return [];
+
+    return discoverReferrers(
+      async () => {
+        const descriptors: any[] = [];
+        for (const archive of repository.archives) {
+          for (const manifestDigest of archive.manifestDigests) {
+            const blob = await archive.readBlob(manifestDigest);
+            const manifest = blob ? JSON.parse(blob.toString("utf8")) : null;
+            if (manifest?.subject?.digest !== digest) continue;
+            descriptors.push({
+              mediaType: manifest.mediaType,
+              digest: manifestDigest,
+              size: blob!.length,
+              artifactType: manifest.artifactType || manifest.config?.mediaType,
+              annotations: manifest.annotations,
+            });
+          }
+        }
+        return descriptors.length > 0 ? { manifests: descriptors } : null;
+      },
+      (reference) => this.findManifest(repo, reference),
+      digest
+    );
+  }
+
+  public async getBlob(repo: string, digest: string): Promise<Buffer> {
+    const repository = (await this.load()).get(repo);
+    const blob = repository ? await this.findBlob(repository, digest) : null;
+    if (!blob) {
+      throw new Error(`Blob ${digest} of ${repo} not found in the image archives`);
+    }
+    return blob;
+  }
+
+  public async checkRepositoryExists(repo: string): Promise<boolean> {
+    return (await this.load()).has(repo);
+  }
+
+  /**
+   * Succeeds once the archives could be read.
+   */
+  public async ping(): Promise<void> {
+    await this.load();
+  }
+
+  /**
+   * Offline images are pulled by their plain name after `docker load`.
+   */
+  public getPullReference(repo: string): string {
+    return repo;
+  }
+
+  private async findBlob(repository: LocalRepository, digest: string): Promise<Buffer | null> {
+    for (const archive of repository.archives) {
+      const blob = await archive.readBlob(digest);
+      if (blob) return blob;
+    }
+    return null;
+  }
+
+  /**
+   * Reads the archives and keeps them until they change (see
+   * `listRepositories`). A failed read is retried on the next call, so
+   * archives that appear later (e.g. a mounted volume) are picked up.
+   */
+  private load(): Promise<Map<string, LocalRepository>> {
+    if (this.repositories) return Promise.resolve(this.repositories);
+
+    if (!this.loading) {
+      this.loading = this.getVersion()
+        .then(async (version) => {
+          // Taken before reading, so changes made meanwhile are read next time
+          const repositories = await this.readArchives();
+          this.repositories = repositories;
+          this.version = version;
+          return repositories;
+        })
+        .finally(() => {
+          this.loading = null;
+        });
+    }
+    return this.loading;
+  }
+
+  private async getVersion(): Promise<string> {
+    const versions = await Promise.all(this.paths.map(getArchivesVersion));
+    return versions.join("\n");
+  }
+
+  private async readArchives(): Promise<Map<string, LocalRepository>> {
+    const repositories = new Map<string, LocalRepository>();
+
+    for (const location of this.paths) {
+      let archives: ImageArchive[];
+      try {
+        archives = await openImageArchives(location);
+      } catch (error: any) {
+        logger.error(`Failed to read image archives at ${location}`, { error: error.message });
+        throw new Error(`Could not read image archives at ${location}: ${error.message}`);
+      }
+
+      for (const archive of archives) {
+        for (const image of archive.images) {
+          const repository: LocalRepository = repositories.get(image.repo) || {
+            tags: new Map(),
+            archives: [],
+          };
+          repositories.set(image.repo, repository);
+          if (!repository.archives.includes(archive)) repository.archives.push(archive);
+
+          if (repository.tags.has(image.tag)) {
+            // The first archive wins, as configured
+            logger.warn(
+              `${image.repo}:${image.tag} in ${archive.location} is shadowed by an earlier archive`
+            );
+            continue;
+          }
+          repository.tags.set(image.tag, image.digest);
+        }
+      }
+    }
+
+    logger.info(
+      `Loaded ${repositories.size} repositories from ${this.paths.length} image archive path(s)`
+    );
+    return repositories;
+  }
+}
@@ -0,0 +1,131 @@
+import { createReadStream } from "fs";
+import { createGunzip } from "zlib";
+
+const BLOCK_SIZE = 512;
+
+// One file of a tar archive; the content is only kept if it was asked for
+export interface TarEntry {
+  size: number;
+  content?: Buffer;
+}
+
+function readString(block: Buffer, offset: number, length: number): string {
+  const field = block.subarray(offset, offset + length);
+  const end = field.indexOf(0);
+  return field.subarray(0, end === -1 ? length : end).toString("utf8");
+}
+
+function readSize(block: Buffer): number {
+  // GNU tar stores sizes beyond 8 GiB in base-256, flagged by the high bit
+  if (block[124] & 0x80) {
+    return block.subarray(125, 136).reduce((size, byte) => size * 256 + byte, 0);
+  }
+  return parseInt(readString(block, 124, 12).trim() || "0", 8);
+}
+
+/**
+ * Reads the `path` record of a PAX extended header, which replaces the name
+ * of the next entry when it is too long for the ustar header.
+ */
+function readPaxPath(content: Buffer): string | undefined {
+  const match = content.toString("utf8").match(/(?:^|\n)\d+ path=([^\n]*)\n/);
+  return match?.[1];
+}
+
+/**
+ * Lists the files of a tar archive (gzip-compressed if the name says so) in
+ * a single streaming pass. Only the content of the files `keep` accepts is
+ * buffered, so image layers are skipped without being held in memory.
+ */
+export async function readTarEntries(
+  filePath: string,
+  keep: (name: string, size: number) => boolean
+): Promise<Map<string, TarEntry>> {
+  const entries = new Map<string, TarEntry>();
+  const input = createReadStream(filePath);
+  const stream = /\.(tar\.gz|tgz)$/i.test(filePath) ? input.pipe(createGunzip()) : input;
+
+  let pending: Buffer = Buffer.alloc(0);
+  // The entry whose content is being read, and how many bytes of it are left
+  let current: { name: string; type: string; size: number; chunks: Buffer[] | null } | null =
+    null;
+  let remaining = 0;
+  let padding = 0;
+  let longName: string | undefined;
+  let finished = false;
+
+  const completeEntry = () => {
+    const entry = current!;
+    const content = entry.chunks ? Buffer.concat(entry.chunks) : undefined;
+    current = null;
+
+    if (entry.type === "x" || entry.type === "L") {
+      longName =
+        entry.type === "x"
+          ? readPaxPath(content!)
+          : content!.toString("utf8").replace(/\0+$/, "");
+    } else if (entry.type === "0" || entry.type === "" || entry.type === "7") {
+      entries.set(entry.name.replace(/^\.\//, ""), { size: entry.size, content });
+    }
+  };
+
+  for await (const chunk of stream as AsyncIterable<Buffer>) {
+    pending = pending.length > 0 ? Buffer.concat([pending, chunk]) : chunk;
+
+    while (!finished) {
+      if (current) {
+        const take = Math.min(remaining, pending.length);
+        if (current.chunks) current.chunks.push(pending.subarray(0, take));
+        pending = pending.subarray(take);
+        remaining -= take;
+        if (remaining > 0) break;
+        completeEntry();
+        continue;
+      }
+
+      if (padding > 0) {
+        const skip = Math.min(padding, pending.length);
+        pending = pending.subarray(skip);
+        padding -= skip;
+        if (padding > 0) break;
+      }
+
+      if (pending.length < BLOCK_SIZE) break;
+      const header = pending.subarray(0, BLOCK_SIZE);
+      pending = pending.subarray(BLOCK_SIZE);
+
+      // Two zero blocks end the archive; one is enough to know
+      if (header.every((byte) => byte === 0)) {
+        finished = true;
+        break;
+      }
+
+      const type = String.fromCharCode(header[156] || 0x30);
+      const prefix = readString(header, 345, 155);
+      const headerName = prefix
+        ? `${prefix}/${readString(header, 0, 100)}`
+        : readString(header, 0, 100);
+      const name = type === "x" || type === "L" ? headerName : longName ?? headerName;
+      if (type !== "x" && type !== "L") longName = undefined;
+
+      const size = readSize(header);
+      const isMeta = type === "x" || type === "L";
+      current = {
+        name,
+        type,
+        size,
+        chunks: isMeta || keep(name.replace(/^\.\//, ""), size) ? [] : null,
+      };
+      remaining = size;
+      padding = (BLOCK_SIZE - (size % BLOCK_SIZE)) % BLOCK_SIZE;
+      if (size === 0) completeEntry();
+    }
+    if (finished) break;
+  }
+
+  input.destroy();
+  if (current) {
+    throw new Error(`Tar archive ${filePath} ends in the middle of ${current.name}`);
+  }
+  return entries;
+}
@@ -1,46 +1,82 @@
-import axios from "axios";
+import { AxiosResponse } from "axios";
 import { config } from "../../shared/config";
 import logger from "../../shared/logger";
-
-// This is the specific user or organization on Docker Hub
-const DOCKER_HUB_NAMESPACE = "abdelrahmanelbadawy1";
+import { IRegistryBackend, RepositoryInfo } from "./registryBackend";
+import { RegistryAuthenticator, RegistryCredentials } from "./registryAuth";
+import { RequestScheduler, RequestSchedulerOptions } from "./requestScheduler";
+import { ResolvedManifest, resolvePlatformManifest, toPlatform } from "./manifestIndex";
+import { parsePlatform } from "../../domain/models/Platform";
+import { Tag } from "../../domain/models/Tag";
+import { REFERRERS_ACCEPT_HEADER, discoverReferrers } from "./referrers";
+import { RepositoryAccess, testRepositoryAccess } from "./repositoryAccess";
+import { toRegistryError } from "./registryErrors";
 
 // Base URL for the Docker Registry V2 API (for manifests and configs)
 const REGISTRY_API_BASE_URL = "https://registry-1.docker.io/v2";
 
-// Interface for repository information
-interface RepositoryInfo {
-  name: string;
-  description?: string;
-  star_count?: number;
-  pull_count?: number;
-  last_updated?: string;
-  is_private?: boolean;
-  has_tags?: boolean;
-  available_tags?: string[];
-}
+// Base URL for the Docker Hub API (for listings, repository info and tags)
+const DOCKER_HUB_API_BASE_URL = "https://hub.docker.com/v2";
+
+// Docker Hub JWTs are renewed a minute before they expire
+const HUB_TOKEN_MARGIN_MS = 60_000;
+const HUB_TOKEN_DEFAULT_LIFETIME_MS = 5 * 60_000;
+
+// Media types we accept when fetching manifests
+const MANIFEST_ACCEPT_HEADER =
+  "application/vnd.docker.distribution.manifest.v2+json, application/vnd.docker.distribution.manifest.list.v2+json, application/vnd.oci.image.manifest.v1+json, application/vnd.oci.image.index.v1+json";
 
 // This class handles both Docker Hub's API and the standard V2 Registry API
-export class DockerRegistryClient {
+export class DockerRegistryClient implements IRegistryBackend {
+  private credentials: RegistryCredentials | null;
+  private scheduler: RequestScheduler;
+  private auth: RegistryAuthenticator;
+  private hubToken: { token: string; expiresAt: number } | null = null;
+  private pendingHubLogin: Promise<void> | null = null;
+
+  constructor(
+    credentials: RegistryCredentials | null = null,
+    schedulerOptions: RequestSchedulerOptions = config.registryRequests
+  ) {
+    this.credentials = credentials;
+    // All Hub API and registry calls share one concurrency/retry budget
+    this.scheduler = new RequestScheduler(schedulerOptions);
+    // Docker Hub access tokens work for both the Hub API and registry pulls
+    this.auth = new RegistryAuthenticator(credentials, (requestConfig) =>
+      this.scheduler.request(requestConfig)
+    );
+  }
+
+  public async listRepositories(namespace: string): Promise<string[]> {
+    // Docker Hub can only be listed one user/organization at a time
+    if (!namespace) {
+      throw new Error("Docker Hub catalog sources need a namespace.");
+    }
+    return this.getRepositoriesFromDockerHub(namespace);
+  }
+
   /**
    * Fetches repositories specifically from Docker Hub for a given user/organization.
    * It handles pagination to get all results.
    */
-  public async getRepositoriesFromDockerHub(): Promise<string[]> {
+  public async getRepositoriesFromDockerHub(namespace: string): Promise<string[]> {
     logger.info(
-      `Fetching repositories for namespace [${DOCKER_HUB_NAMESPACE}] from Docker Hub`
+      `Fetching repositories for namespace [${namespace}] from Docker Hub`
     );
 
     let repositories: { name: string }[] = [];
     let nextUrl:
       | string
-      | null = `https://hub.docker.com/v2/repositories/${DOCKER_HUB_NAMESPACE}/?page_size=100`;
+      | null = `${DOCKER_HUB_API_BASE_URL}/repositories/${namespace}/?page_size=100`;
 
     try {
       // Loop until there are no more pages
       while (nextUrl) {
         logger.info(`Fetching page: ${nextUrl}`);
-        const response = await axios.get(nextUrl);
+        const response = await this.scheduler.request({
+          method: "GET",
+          url: nextUrl,
+          headers: await this.getHubHeaders(),
+        });
         const data = response.data as any;
 
         repositories = repositories.concat(data.results);
@@ -48,13 +84,13 @@ export class DockerRegistryClient {
       }
 
       // We need to return an array of full repository names
-      return repositories.map((repo) => `${DOCKER_HUB_NAMESPACE}/${repo.name}`);
+      return repositories.map((repo) => `${namespace}/${repo.name}`);
     } catch (error) {
       logger.error(
-        `Failed to fetch repositories from Docker Hub for namespace ${DOCKER_HUB_NAMESPACE}`,
+        `Failed to fetch repositories from Docker Hub for namespace ${namespace}`,
         error
       );
-      return [];
+      throw error;
     }
   }
 
@@ -65,14 +101,17 @@ export class DockerRegistryClient {
     logger.info(`Fetching repository info for ${repo} from Docker Hub`);
 
     try {
-      const response = await axios.get(
-        `https://hub.docker.com/v2/repositories/${repo}/`
-      );
+      const response = await this.scheduler.request({
+        method: "GET",
+        url: `${DOCKER_HUB_API_BASE_URL}/repositories/${repo}/`,
+        headers: await this.getHubHeaders(),
+      });
 
       const data = response.data;
 
-      // Get available tags (but don't fail if there are none)
-      const tags = await this.getRepositoryTags(repo);
+      // Get available tags with their digests. A tag list that can't be read
+      // fails the lookup, rather than passing the repository off as tag-less.
+      const tags = await this.listTags(repo);
 
       return {
         name: data.name,
@@ -82,18 +121,20 @@ export class DockerRegistryClient {
         last_updated: data.last_updated,
         is_private: data.is_private,
         has_tags: tags.length > 0,
-        available_tags: tags,
+        available_tags: tags.map((tag) => tag.name),
+        tag_digests: Object.fromEntries(
+          tags.filter((tag) => tag.digest).map((tag) => [tag.name, tag.digest!])
+        ),
       };
     } catch (error: any) {
       if (error.response?.status === 404) {
         logger.warn(`Repository ${repo} does not exist on Docker Hub`);
         return null;
       }
-      logger.error(
-        `Failed to fetch repository info for ${repo}:`,
-        error.message
-      );
-      return null;
+      logger.error(`Failed to fetch repository info for ${repo}`, { error: error.message });
+      // Only a 404 means the repository is gone; anything else must not
+      // look like it, or the catalog would drop the app
+      throw toRegistryError(error);
     }
   }
 
@@ -120,37 +161,18 @@ export class DockerRegistryClient {
     logger.info(`Fetching manifest for ${repo}:${tag} from Docker Registry`);
 
     try {
-      // First, try without authentication for public repositories
       try {
-        const response = await axios.get(
-          `${REGISTRY_API_BASE_URL}/${repo}/manifests/${tag}`,
+        const response = await this.auth.request(
           {
-            headers: {
-              Accept:
-                "application/vnd.docker.distribution.manifest.v2+json, application/vnd.docker.distribution.manifest.list.v2+json, application/vnd.oci.image.manifest.v1+json",
-            },
-          }
+            method: "GET",
+            url: `${REGISTRY_API_BASE_URL}/${repo}/manifests/${tag}`,
+            headers: { Accept: MANIFEST_ACCEPT_HEADER },
+          },
+          `repository:${repo}:pull`
         );
         return response.data;
       } catch (error: any) {
-        // If we get a 401, try with authentication
-        if (error.response?.status === 401) {
-          logger.info(
-            `Repository ${repo} requires authentication, attempting with token...`
-          );
-          const token = await this.getDockerHubAuthToken(repo);
-          const response = await axios.get(
-            `${REGISTRY_API_BASE_URL}/${repo}/manifests/${tag}`,
-            {
-              headers: {
-                Authorization: `Bearer ${token}`,
-                Accept:
-                  "application/vnd.docker.distribution.manifest.v2+json, application/vnd.docker.distribution.manifest.list.v2+json, application/vnd.oci.image.manifest.v1+json",
-              },
-            }
-          );
-          return response.data;
-        } else if (error.response?.status === 404) {
+        if (error.response?.status === 404) {
           // If tag not found, suggest available tags
           const availableTags = await this.getRepositoryTags(repo);
           throw new Error(
@@ -173,6 +195,52 @@ export class DockerRegistryClient {
     }
   }
 
+  /**
+   * Fetches the image manifest for the configured platform. Manifest lists and
+   * OCI image indexes are resolved to the matching platform manifest.
+   */
+  public async getPlatformManifest(
+    repo: string,
+    tag?: string
+  ): Promise<ResolvedManifest | null> {
+    return resolvePlatformManifest(
+      (name, reference) => this.getManifest(name, reference),
+      repo,
+      tag,
+      parsePlatform(config.dockerRegistry.platform)
+    );
+  }
+
+  /**
+   * Resolves a tag to its manifest digest with a HEAD request, reading the
+   * `Docker-Content-Digest` header. Returns null if the registry omits it.
+   */
+  public async getManifestDigest(
+    repo: string,
+    tag: string
+  ): Promise<string | null> {
+    logger.info(`Resolving manifest digest for ${repo}:${tag}`);
+
+    try {
+      const response = await this.auth.request(
+        {
+          method: "HEAD",
+          url: `${REGISTRY_API_BASE_URL}/${repo}/manifests/${tag}`,
+          headers: { Accept: MANIFEST_ACCEPT_HEADER },
+        },
+        `repository:${repo}:pull`
+      );
+      return response.headers["docker-content-digest"] || null;
+    } catch (error: any) {
+      logger.error(`Failed to resolve manifest digest for ${repo}:${tag}:`, {
+        status: error.response?.status,
+        statusText: error.response?.statusText,
+        message: error.message,
+      });
+      throw error;
+    }
+  }
+
   /**
    * Fetches the config blob for a given repository digest.
    */
@@ -182,37 +250,15 @@ export class DockerRegistryClient {
     );
 
     try {
-      // First, try without authentication for public repositories
-      try {
-        const response = await axios.get(
-          `${REGISTRY_API_BASE_URL}/${repo}/blobs/${digest}`,
-          {
-            headers: {
-              Accept: "application/vnd.docker.container.image.v1+json",
-            },
-          }
-        );
-        return response.data;
-      } catch (error: any) {
-        // If we get a 401, try with authentication
-        if (error.response?.status === 401) {
-          logger.info(
-            `Repository ${repo} requires authentication for blob access, attempting with token...`
-          );
-          const token = await this.getDockerHubAuthToken(repo);
-          const response = await axios.get(
-            `${REGISTRY_API_BASE_URL}/${repo}/blobs/${digest}`,
-            {
-              headers: {
-                Authorization: `Bearer ${token}`,
-                Accept: "application/vnd.docker.container.image.v1+json",
-              },
-            }
-          );
-          return response.data;
-        }
-        throw error;
-      }
+      const response = await this.auth.request(
+        {
+          method: "GET",
+          url: `${REGISTRY_API_BASE_URL}/${repo}/blobs/${digest}`,
+          headers: { Accept: "application/vnd.docker.container.image.v1+json" },
+        },
+        `repository:${repo}:pull`
+      );
+      return response.data;
     } catch (error: any) {
       logger.error(`Failed to fetch config blob for ${repo}:`, {
         status: error.response?.status,
@@ -224,81 +270,241 @@ export class DockerRegistryClient {
   }
 
   /**
-   * Helper function to get a temporary public auth token for a repository.
-   * This handles the Docker Hub authentication flow properly.
+   * Fetches a manifest by tag or digest. Returns null if the registry does
+   * not know the reference.
    */
-  private async getDockerHubAuthToken(repo: string): Promise<string> {
+  public async findManifest(repo: string, reference: string): Promise<any | null> {
+    const response = await this.requestOptional(
+      repo,
+      `${REGISTRY_API_BASE_URL}/${repo}/manifests/${reference}`,
+      MANIFEST_ACCEPT_HEADER
+    );
+    return response?.data ?? null;
+  }
+
+  /**
+   * Lists the artifacts (signatures, SBOMs, attestations) attached to a
+   * manifest through the OCI referrers API or its tag schema fallback.
+   */
+  public async getReferrers(repo: string, digest: string): Promise<any[]> {
+    logger.info(`Looking up referrers of ${repo}@${digest}`);
+
+    return discoverReferrers(
+      async () =>
+        (
+          await this.requestOptional(
+            repo,
+            `${REGISTRY_API_BASE_URL}/${repo}/referrers/${digest}`,
+            REFERRERS_ACCEPT_HEADER
+          )
+        )?.data ?? null,
+      (reference) => this.findManifest(repo, reference),
+      digest
+    );
+  }
+
+  /**
+   * Fetches a blob as raw bytes, so signatures can be checked against its
+   * exact content.
+   */
+  public async getBlob(repo: string, digest: string): Promise<Buffer> {
+    logger.info(`Fetching blob ${digest} for ${repo} from Docker Registry`);
+
     try {
-      // The correct Docker Hub auth endpoint with proper scope
-      const authUrl = `https://auth.docker.io/token?service=registry.docker.io&scope=repository:${repo}:pull`;
+      const response = await this.auth.request(
+        {
+          method: "GET",
+          url: `${REGISTRY_API_BASE_URL}/${repo}/blobs/${digest}`,
+          responseType: "arraybuffer",
+        },
+        `repository:${repo}:pull`
+      );
+      return Buffer.from(response.data);
+    } catch (error: any) {
+      logger.error(`Failed to fetch blob ${digest} for ${repo}:`, {
+        status: error.response?.status,
+        statusText: error.response?.statusText,
+        message: error.message,
+      });
+      throw error;
+    }
+  }
 
-      logger.info(`Requesting auth token for ${repo} from: ${authUrl}`);
+  // A GET for something that may legitimately not exist
+  private async requestOptional(
+    repo: string,
+    url: string,
+    accept: string
+  ): Promise<AxiosResponse | null> {
+    try {
+      return await this.auth.request(
+        { method: "GET", url, headers: { Accept: accept } },
+        `repository:${repo}:pull`
+      );
+    } catch (error: any) {
+      if (error.response?.status === 404) return null;
+      throw error;
+    }
+  }
+
+  /**
+   * Headers for the Docker Hub API. With credentials we log in for a JWT,
+   * which also makes private repositories visible. The JWT is reused until
+   * it expires.
+   */
+  private async getHubHeaders(): Promise<Record<string, string>> {
+    if (!this.credentials) return {};
+
+    if (!this.hubToken || this.hubToken.expiresAt - HUB_TOKEN_MARGIN_MS <= Date.now()) {
+      if (!this.pendingHubLogin) {
+        this.pendingHubLogin = this.loginToDockerHub().finally(() => {
+          this.pendingHubLogin = null;
+        });
+      }
+      await this.pendingHubLogin;
+    }
 
-      const response = await axios.get(authUrl, {
-        headers: {
-          "User-Agent": "Docker Registry Client",
+    return { Authorization: `Bearer ${this.hubToken!.token}` };
+  }
+
+  private async loginToDockerHub(): Promise<void> {
+    logger.info(`Logging in to Docker Hub as ${this.credentials!.username}`);
+
+    try {
+      const response = await this.scheduler.request({
+        method: "POST",
+        url: `${DOCKER_HUB_API_BASE_URL}/users/login/`,
+        data: {
+          username: this.credentials!.username,
+          password: this.credentials!.password,
         },
       });
+      const token: string = response.data.token;
+      if (!token) {
+        throw new Error("No token received from Docker Hub login");
+      }
 
-      if (!response.data.token) {
-        throw new Error("No token received from Docker Hub auth service");
+      // Read the expiry from the JWT payload, defaulting to a short lifetime
+      let expiresAt = Date.now() + HUB_TOKEN_DEFAULT_LIFETIME_MS;
+      try {
+        const payload = JSON.parse(
+          Buffer.from(token.split(".")[1], "base64url").toString()
+        );
+        if (typeof payload.exp === "number") expiresAt = payload.exp * 1000;
+      } catch {
+        logger.warn("Could not read the expiry of the Docker Hub token");
       }
 
-      logger.info(`Successfully obtained auth token for ${repo}`);
-      return response.data.token;
+      this.hubToken = { token, expiresAt };
     } catch (error: any) {
-      logger.error(`Failed to get auth token for ${repo}:`, {
+      logger.error("Failed to log in to Docker Hub:", {
         status: error.response?.status,
         statusText: error.response?.statusText,
         message: error.message,
-        url: error.config?.url,
       });
       throw error;
     }
   }
 
   /**
-   * Get available tags for a repository using Docker Hub API
-   * Returns empty array if no tags found (doesn't throw error)
+   * Get available tags for a repository using Docker Hub API. Unknown
+   * repositories have no tags; any other failure is thrown.
    */
   public async getRepositoryTags(repo: string): Promise<string[]> {
     try {
-      const response = await axios.get(
-        `https://hub.docker.com/v2/repositories/${repo}/tags/?page_size=100`
-      );
-      return response.data.results.map((tag: any) => tag.name);
+      const tags = await this.listTags(repo);
+      return tags.map((tag) => tag.name);
+    } catch (error: any) {
+      logger.error(`Failed to get tags for repository ${repo}`, { error: error.message });
+      throw toRegistryError(error);
+    }
+  }
+
+  /**
+   * Lists every tag of a repository with its digest, size, push date and
+   * platforms, following the Docker Hub pagination until the last page.
+   */
+  public async listTags(repo: string): Promise<Tag[]> {
+    let tags: Tag[] = [];
+    let nextUrl: string | null = `${DOCKER_HUB_API_BASE_URL}/repositories/${repo}/tags/?page_size=100`;
+
+    try {
+      while (nextUrl) {
+        const response = await this.scheduler.request({
+          method: "GET",
+          url: nextUrl,
+          headers: await this.getHubHeaders(),
+        });
+        const data = response.data as any;
+
+        tags = tags.concat(
+          (data.results || []).map((tag: any) => ({
+            name: tag.name,
+            digest: tag.digest || undefined,
+            size: tag.full_size ?? undefined,
+            lastPushed: tag.tag_last_pushed || tag.last_updated || undefined,
+            platforms: ((tag.images || []) as any[])
+              // Attestations show up as images with an unknown platform
+              .filter((image) => image.os && image.architecture && image.architecture !== "unknown")
+              .map((image) => toPlatform(image)),
+          }))
+        );
+        nextUrl = data.next;
+      }
+      return tags;
     } catch (error: any) {
       if (error.response?.status === 404) {
         logger.info(`No tags found for repository ${repo}`);
         return [];
       }
-      logger.error(`Failed to get tags for repository ${repo}:`, error.message);
-      return [];
+      throw error;
     }
   }
 
+  /**
+   * Checks that the registry answers its version check. Without a token it
+   * responds 401, which still proves it is reachable.
+   */
+  public async ping(): Promise<void> {
+    await this.scheduler.request(
+      {
+        method: "GET",
+        url: `${REGISTRY_API_BASE_URL}/`,
+        validateStatus: (status) => status < 500,
+      },
+      { retry: false }
+    );
+  }
+
   /**
    * Check if a repository exists by trying to fetch its information
    */
   public async checkRepositoryExists(repo: string): Promise<boolean> {
     try {
-      const response = await axios.get(
-        `https://hub.docker.com/v2/repositories/${repo}/`
-      );
+      const response = await this.scheduler.request({
+        method: "GET",
+        url: `${DOCKER_HUB_API_BASE_URL}/repositories/${repo}/`,
+        headers: await this.getHubHeaders(),
+      });
       return response.status === 200;
     } catch (error: any) {
       if (error.response?.status === 404) {
         logger.warn(`Repository ${repo} does not exist on Docker Hub`);
         return false;
       }
-      logger.error(
-        `Error checking repository existence for ${repo}:`,
-        error.message
-      );
-      return false;
+      logger.error(`Error checking repository existence for ${repo}`, { error: error.message });
+      // Anything but a 404 means we can't tell, so let the caller handle it
+      throw error;
     }
   }
 
+  /**
+   * Docker Hub images are pulled by their repository name alone.
+   */
+  public getPullReference(repo: string): string {
+    return repo;
+  }
+
   /**
    * Gets the manifest using the first available tag if no specific tag is provided
    * Returns null if no tags are available
@@ -330,36 +536,8 @@ export class DockerRegistryClient {
     return { manifest, tag: selectedTag };
   }
 
-  public async testRepositoryAccess(
-    repo: string
-  ): Promise<{ exists: boolean; tags: string[]; error?: string }> {
-    try {
-      // First check if the repository exists
-      const exists = await this.checkRepositoryExists(repo);
-      if (!exists) {
-        return { exists: false, tags: [], error: "Repository does not exist" };
-      }
-
-      // Get available tags
-      const tags = await this.getRepositoryTags(repo);
-      if (tags.length === 0) {
-        return { exists: true, tags: [], error: "No tags found" };
-      }
-
-      // Try to get manifest for the first available tag (or 'latest' if it exists)
-      const tagToTest = tags.includes("latest") ? "latest" : tags[0];
-      try {
-        await this.getManifest(repo, tagToTest);
-        return { exists: true, tags };
-      } catch (error: any) {
-        return {
-          exists: true,
-          tags,
-          error: `Failed to access manifest: ${error.message}`,
-        };
-      }
-    } catch (error: any) {
-      return { exists: false, tags: [], error: error.message };
-    }
+  // The same check for any backend lives in repositoryAccess.ts
+  public async testRepositoryAccess(repo: string): Promise<RepositoryAccess> {
+    return testRepositoryAccess(this, repo);
   }
 }
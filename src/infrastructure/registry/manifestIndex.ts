@@ -0,0 +1,125 @@
+import { Platform, formatPlatform } from "../../domain/models/Platform";
+import logger from "../../shared/logger";
+
+// Media types of multi-platform manifests (Docker manifest list / OCI image index)
+const INDEX_MEDIA_TYPES = [
+  "application/vnd.docker.distribution.manifest.list.v2+json",
+  "application/vnd.oci.image.index.v1+json",
+];
+
+// A platform-specific image manifest, resolved from an index if necessary
+export interface ResolvedManifest {
+  manifest: any;
+  // Digest of the platform manifest when it was picked from an index
+  digest: string | null;
+  platform: Platform | null;
+  platforms: Platform[];
+  // The image index the manifest was picked from, if any
+  index: any | null;
+}
+
+export function isImageIndex(manifest: any): boolean {
+  return (
+    INDEX_MEDIA_TYPES.includes(manifest?.mediaType) ||
+    (!manifest?.config && Array.isArray(manifest?.manifests))
+  );
+}
+
+/**
+ * Returns the image manifests of an index, skipping BuildKit attestation
+ * manifests (reported as `unknown/unknown`).
+ */
+export function getPlatformDescriptors(index: any): any[] {
+  return ((index?.manifests || []) as any[]).filter(
+    (descriptor) =>
+      descriptor.platform &&
+      descriptor.platform.os !== "unknown" &&
+      descriptor.platform.architecture !== "unknown" &&
+      descriptor.annotations?.["vnd.docker.reference.type"] !==
+        "attestation-manifest"
+  );
+}
+
+export function toPlatform(descriptorPlatform: any): Platform {
+  return descriptorPlatform.variant
+    ? {
+        os: descriptorPlatform.os,
+        architecture: descriptorPlatform.architecture,
+        variant: descriptorPlatform.variant,
+      }
+    : { os: descriptorPlatform.os, architecture: descriptorPlatform.architecture };
+}
+
+/**
+ * Returns the BuildKit attestation manifests of an index that describe the
+ * given platform manifest.
+ */
+export function getAttestationDescriptors(index: any, manifestDigest: string): any[] {
+  return ((index?.manifests || []) as any[]).filter(
+    (descriptor) =>
+      descriptor.annotations?.["vnd.docker.reference.type"] ===
+        "attestation-manifest" &&
+      descriptor.annotations?.["vnd.docker.reference.digest"] === manifestDigest
+  );
+}
+
+/**
+ * Picks the descriptor matching the preferred platform. The variant only has
+ * to match if the preferred platform specifies one. Falls back to the first
+ * platform so we always get labels if there is anything to read.
+ */
+export function selectPlatformDescriptor(
+  descriptors: any[],
+  preferred: Platform
+): any | null {
+  const match = descriptors.find(
+    (descriptor) =>
+      descriptor.platform.os === preferred.os &&
+      descriptor.platform.architecture === preferred.architecture &&
+      (!preferred.variant || descriptor.platform.variant === preferred.variant)
+  );
+
+  if (!match && descriptors.length > 0) {
+    logger.info(
+      `No manifest for platform ${formatPlatform(preferred)}, using ${formatPlatform(
+        toPlatform(descriptors[0].platform)
+      )}`
+    );
+  }
+  return match || descriptors[0] || null;
+}
+
+/**
+ * Resolves a tag to a single-platform image manifest. Indexes are resolved to
+ * the preferred platform; plain manifests are returned as they are.
+ */
+export async function resolvePlatformManifest(
+  getManifest: (repo: string, reference?: string) => Promise<any>,
+  repo: string,
+  tag: string | undefined,
+  preferred: Platform
+): Promise<ResolvedManifest | null> {
+  const manifest = await getManifest(repo, tag);
+  if (!manifest) return null;
+
+  if (!isImageIndex(manifest)) {
+    return { manifest, digest: null, platform: null, platforms: [], index: null };
+  }
+
+  const descriptors = getPlatformDescriptors(manifest);
+  const platforms = descriptors.map((descriptor) => toPlatform(descriptor.platform));
+  const selected = selectPlatformDescriptor(descriptors, preferred);
+  if (!selected) {
+    logger.warn(`Image index for ${repo} contains no platform manifests`);
+    return { manifest: null, digest: null, platform: null, platforms, index: manifest };
+  }
+
+  const platformManifest = await getManifest(repo, selected.digest);
+  return {
+    manifest: platformManifest,
+    digest: selected.digest,
+    platform: toPlatform(selected.platform),
+    platforms,
+    index: manifest,
+  };
+}
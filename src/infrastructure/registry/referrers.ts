@@ -0,0 +1,32 @@
+// The referrers API (and its tag fallback) answers with an OCI image index
+export const REFERRERS_ACCEPT_HEADER = "application/vnd.oci.image.index.v1+json";
+
+/**
+ * Tag under which registries without the referrers API keep the referrers
+ * index of a manifest, e.g. `sha256-abc...` for `sha256:abc...`.
+ */
+export function getReferrersTag(digest: string): string {
+  return digest.replace(":", "-");
+}
+
+/**
+ * Tag under which cosign stores the signatures of a manifest.
+ */
+export function getSignatureTag(digest: string): string {
+  return `${getReferrersTag(digest)}.sig`;
+}
+
+/**
+ * Lists the descriptors of the artifacts referring to a manifest. The
+ * referrers API is asked first; registries that don't implement it (404) are
+ * checked for a referrers index under the tag schema instead.
+ */
+export async function discoverReferrers(
+  fetchReferrersIndex: () => Promise<any | null>,
+  findManifest: (reference: string) => Promise<any | null>,
+  digest: string
+): Promise<any[]> {
+  const index =
+    (await fetchReferrersIndex()) ?? (await findManifest(getReferrersTag(digest)));
+  return index?.manifests || [];
+}
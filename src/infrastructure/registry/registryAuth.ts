@@ -0,0 +1,222 @@
+import axios, { AxiosRequestConfig, AxiosResponse } from "axios";
+import logger from "../../shared/logger";
+
+// Username plus password or access token
+export interface RegistryCredentials {
+  username: string;
+  password: string;
+}
+
+// A parsed `WWW-Authenticate` header
+export interface AuthChallenge {
+  scheme: "basic" | "bearer";
+  realm?: string;
+  service?: string;
+}
+
+// Sends a single HTTP request (e.g. through a RequestScheduler)
+export type HttpSender = (
+  requestConfig: AxiosRequestConfig & { url: string }
+) => Promise<AxiosResponse>;
+
+interface CachedToken {
+  token: string;
+  expiresAt: number;
+}
+
+// The distribution spec says tokens without `expires_in` last 60 seconds
+const DEFAULT_TOKEN_LIFETIME_SECONDS = 60;
+
+// Renew tokens a little before they actually expire
+const EXPIRY_MARGIN_MS = 10_000;
+
+/**
+ * Parses a `WWW-Authenticate` header such as
+ * `Bearer realm="https://auth.docker.io/token",service="registry.docker.io"`.
+ */
+export function parseAuthChallenge(header: string | undefined): AuthChallenge | null {
+  const match = header?.match(/^\s*(\w+)\s*(.*)$/);
+  if (!match) return null;
+
+  const scheme = match[1].toLowerCase();
+  if (scheme !== "basic" && scheme !== "bearer") return null;
+
+  const params: Record<string, string> = {};
+  for (const [, key, value] of match[2].matchAll(/(\w+)="([^"]*)"/g)) {
+    params[key.toLowerCase()] = value;
+  }
+
+  return { scheme, realm: params.realm, service: params.service };
+}
+
+/**
+ * Performs registry requests, discovering the authentication scheme from the
+ * registry's 401 challenge. Bearer tokens are cached per scope until they
+ * expire, and once a registry's challenge is known, later requests are sent
+ * with credentials right away instead of waiting for another 401.
+ */
+export class RegistryAuthenticator {
+  private credentials: RegistryCredentials | null;
+  // Known challenges, keyed by registry origin
+  private challenges = new Map<string, AuthChallenge>();
+  // Cached bearer tokens, keyed by realm, service and scope
+  private tokens = new Map<string, CachedToken>();
+  private pendingTokens = new Map<string, Promise<string>>();
+  private sendRequest: HttpSender;
+
+  constructor(
+    credentials: RegistryCredentials | null = null,
+    sendRequest: HttpSender = (requestConfig) => axios.request(requestConfig)
+  ) {
+    this.credentials = credentials;
+    this.sendRequest = sendRequest;
+  }
+
+  /**
+   * Sends a request that needs the given scope (e.g. `repository:foo:pull`),
+   * authenticating as the registry demands.
+   */
+  public async request<T = any>(
+    requestConfig: AxiosRequestConfig & { url: string },
+    scope: string
+  ): Promise<AxiosResponse<T>> {
+    const origin = new URL(requestConfig.url).origin;
+    const knownChallenge = this.challenges.get(origin);
+
+    try {
+      const headers = knownChallenge
+        ? await this.getAuthHeaders(knownChallenge, scope)
+        : {};
+      return await this.send<T>(requestConfig, headers);
+    } catch (error: any) {
+      if (error.response?.status !== 401) throw error;
+
+      const challenge = parseAuthChallenge(
+        error.response.headers?.["www-authenticate"]
+      );
+      if (!challenge) throw error;
+
+      // Either this is the first request to the registry, or our cached
+      // token was rejected; in both cases retry once with fresh credentials.
+      this.challenges.set(origin, challenge);
+      this.tokens.delete(this.getTokenKey(challenge, scope));
+
+      logger.info(
+        `Registry ${origin} requires ${challenge.scheme} authentication for ${scope}`
+      );
+      return this.send<T>(
+        requestConfig,
+        await this.getAuthHeaders(challenge, scope)
+      );
+    }
+  }
+
+  private send<T>(
+    requestConfig: AxiosRequestConfig & { url: string },
+    authHeaders: Record<string, string>
+  ): Promise<AxiosResponse<T>> {
+    return this.sendRequest({
+      ...requestConfig,
+      headers: { ...(requestConfig.headers as any), ...authHeaders },
+    });
+  }
+
+  private async getAuthHeaders(
+    challenge: AuthChallenge,
+    scope: string
+  ): Promise<Record<string, string>> {
+    if (challenge.scheme === "basic") {
+      return this.credentials
+        ? { Authorization: `Basic ${this.encodeCredentials()}` }
+        : {};
+    }
+
+    const token = await this.getBearerToken(challenge, scope);
+    return { Authorization: `Bearer ${token}` };
+  }
+
+  private encodeCredentials(): string {
+    const { username, password } = this.credentials!;
+    return Buffer.from(`${username}:${password}`).toString("base64");
+  }
+
+  private getTokenKey(challenge: AuthChallenge, scope: string): string {
+    return `${challenge.realm}|${challenge.service}|${scope}`;
+  }
+
+  /**
+   * Returns a cached token for the scope, or fetches one from the realm.
+   * Concurrent callers share the same token request.
+   */
+  private async getBearerToken(
+    challenge: AuthChallenge,
+    scope: string
+  ): Promise<string> {
+    const key = this.getTokenKey(challenge, scope);
+
+    const cached = this.tokens.get(key);
+    if (cached && cached.expiresAt - EXPIRY_MARGIN_MS > Date.now()) {
+      return cached.token;
+    }
+
+    let pending = this.pendingTokens.get(key);
+    if (!pending) {
+      pending = this.fetchBearerToken(challenge, scope, key).finally(() => {
+        this.pendingTokens.delete(key);
+      });
+      this.pendingTokens.set(key, pending);
+    }
+    return pending;
+  }
+
+  private async fetchBearerToken(
+    challenge: AuthChallenge,
+    scope: string,
+    key: string
+  ): Promise<string> {
+    if (!challenge.realm) {
+      throw new Error("Registry bearer challenge has no realm");
+    }
+
+    logger.info(`Requesting auth token for ${scope} from ${challenge.realm}`);
+
+    try {
+      const response = await this.sendRequest({
+        method: "GET",
+        url: challenge.realm,
+        params: { service: challenge.service, scope },
+        headers: {
+          "User-Agent": "Docker Registry Client",
+          ...(this.credentials
+            ? { Authorization: `Basic ${this.encodeCredentials()}` }
+            : {}),
+        },
+      });
+
+      const token = response.data.token || response.data.access_token;
+      if (!token) {
+        throw new Error(`No token received from ${challenge.realm}`);
+      }
+
+      const issuedAt = response.data.issued_at
+        ? Date.parse(response.data.issued_at)
+        : Date.now();
+      const lifetimeSeconds =
+        response.data.expires_in || DEFAULT_TOKEN_LIFETIME_SECONDS;
+      this.tokens.set(key, {
+        token,
+        expiresAt: (isNaN(issuedAt) ? Date.now() : issuedAt) + lifetimeSeconds * 1000,
+      });
+
+      return token;
+    } catch (error: any) {
+      logger.error(`Failed to get auth token for ${scope}:`, {
+        status: error.response?.status,
+        statusText: error.response?.statusText,
+        message: error.message,
+        url: error.config?.url,
+      });
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,39 @@
+import { Tag } from "../../domain/models/Tag";
+import { ResolvedManifest } from "./manifestIndex";
+
+// Interface for repository information
+export interface RepositoryInfo {
+  name: string;
+  description?: string;
+  star_count?: number;
+  pull_count?: number;
+  last_updated?: string;
+  is_private?: boolean;
+  has_tags?: boolean;
+  available_tags?: string[];
+  // Digest each tag points at, where the tag listing reports it
+  tag_digests?: Record<string, string>;
+}
+
+// The contract every registry backend (Docker Hub, generic V2 registry, ...)
+// has to fulfil so the repository layer can stay registry-agnostic.
+export interface IRegistryBackend {
+  // Repositories below a namespace (user, organization or path prefix)
+  listRepositories(namespace: string): Promise<string[]>;
+  getRepositoryInfo(repo: string): Promise<RepositoryInfo | null>;
+  getRepositoryTags(repo: string): Promise<string[]>;
+  listTags(repo: string): Promise<Tag[]>;
+  getManifest(repo: string, tag?: string): Promise<any>;
+  getPlatformManifest(repo: string, tag?: string): Promise<ResolvedManifest | null>;
+  getManifestDigest(repo: string, tag: string): Promise<string | null>;
+  getConfig(repo: string, digest: string): Promise<any>;
+  // Like getManifest, but null instead of an error when the reference is unknown
+  findManifest(repo: string, reference: string): Promise<any | null>;
+  getReferrers(repo: string, digest: string): Promise<any[]>;
+  getBlob(repo: string, digest: string): Promise<Buffer>;
+  checkRepositoryExists(repo: string): Promise<boolean>;
+  // Resolves if the registry answers at all (an auth challenge counts)
+  ping(): Promise<void>;
+  // The image name `docker pull` needs for a repository
+  getPullReference(repo: string): string;
+}
@@ -0,0 +1,71 @@
+import { CatalogSource } from "../../domain/models/CatalogSource";
+import { parseCatalogSources } from "../../domain/services/catalogSources";
+import { config } from "../../shared/config";
+import logger from "../../shared/logger";
+import { OfflineRegistryBackend } from "../offline/offlineRegistryBackend";
+import { DockerRegistryClient } from "./dockerRegistryClient";
+import { IRegistryBackend } from "./registryBackend";
+import { V2RegistryClient } from "./v2RegistryClient";
+import { RegistryCredentials } from "./registryAuth";
+
+// Anonymous access unless both parts of the credentials are configured
+function toCredentials(username: string, password: string): RegistryCredentials | null {
+  return username && password ? { username, password } : null;
+}
+
+/**
+ * Creates the registry backend selected by `DOCKER_REGISTRY_BACKEND`.
+ * - `dockerhub` (default): Docker Hub listing API + registry-1.docker.io
+ * - `v2`: any Registry V2 implementation at `DOCKER_REGISTRY_URL`
+ * - `offline`: image archives on disk at `OFFLINE_IMAGE_PATHS`
+ */
+export function createRegistryBackend(): IRegistryBackend {
+  switch (config.dockerRegistry.backend) {
+    case "v2":
+      logger.info(`Using V2 registry backend at ${config.dockerRegistry.url}`);
+      return new V2RegistryClient(
+        config.dockerRegistry.url,
+        toCredentials(config.dockerRegistry.username, config.dockerRegistry.password)
+      );
+    case "offline":
+      if (config.offline.imagePaths.length === 0) {
+        throw new Error("The offline registry backend needs OFFLINE_IMAGE_PATHS.");
+      }
+      logger.info(`Using offline image archives at ${config.offline.imagePaths.join(", ")}`);
+      return new OfflineRegistryBackend(config.offline.imagePaths);
+    case "dockerhub":
+      logger.info("Using Docker Hub registry backend");
+      return new DockerRegistryClient(
+        toCredentials(config.dockerHub.username, config.dockerHub.accessToken)
+      );
+    default:
+      throw new Error(
+        `Unknown registry backend '${config.dockerRegistry.backend}'. Expected 'dockerhub', 'v2' or 'offline'.`
+      );
+  }
+}
+
+/**
+ * Reads the catalog sources from `CATALOG_SOURCES`. Without it the catalog
+ * is `DOCKER_HUB_NAMESPACE` on Docker Hub, or everything on a V2 registry
+ * or in the offline archives.
+ */
+export function createCatalogSources(): CatalogSource[] {
+  const isDockerHub = config.dockerRegistry.backend === "dockerhub";
+  if (!config.catalog.sources) {
+    const namespace = isDockerHub ? config.dockerHub.namespace : "";
+    return [{ id: namespace || "registry", namespace, include: [], exclude: [] }];
+  }
+
+  const sources = parseCatalogSources(config.catalog.sources);
+  const withoutNamespace = sources.filter((source) => !source.namespace);
+  if (isDockerHub && withoutNamespace.length > 0) {
+    throw new Error(
+      `Docker Hub catalog sources need a namespace: ${withoutNamespace
+        .map((source) => source.id)
+        .join(", ")}.`
+    );
+  }
+  logger.info(`Building the catalog from ${sources.length} source(s)`);
+  return sources;
+}
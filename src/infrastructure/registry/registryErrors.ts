@@ -0,0 +1,40 @@
+import {
+  AppError,
+  RegistryAuthError,
+  RegistryRateLimitedError,
+  RegistryUnavailableError,
+} from "../../shared/errors";
+import { parseRetryAfter } from "./requestScheduler";
+
+/**
+ * Translates a failed registry call (an axios error, after the scheduler's
+ * retries) into a typed error. Errors that are already typed pass through;
+ * anything that isn't an HTTP failure is left alone so bugs stay visible.
+ */
+export function toRegistryError(error: any): unknown {
+  if (error instanceof AppError) return error;
+  if (!error?.isAxiosError) return error;
+
+  const status: number | undefined = error.response?.status;
+  const url: string | undefined = error.config?.url;
+  const host = url ? new URL(url).host : "the registry";
+
+  if (status === 401 || status === 403) {
+    return new RegistryAuthError(`${host} rejected our credentials (${status}).`, error);
+  }
+  if (status === 429) {
+    const retryAfterMs = parseRetryAfter(error.response.headers?.["retry-after"]);
+    return new RegistryRateLimitedError(
+      `${host} is rate limiting our requests.`,
+      retryAfterMs === null ? undefined : Math.ceil(retryAfterMs / 1000),
+      error
+    );
+  }
+  if (status !== undefined) {
+    return new RegistryUnavailableError(`${host} answered with status ${status}.`, error);
+  }
+  return new RegistryUnavailableError(
+    `${host} could not be reached (${error.code || error.message}).`,
+    error
+  );
+}
@@ -0,0 +1,59 @@
+import metrics from "../../shared/metrics";
+
+const registryRequests = metrics.counter(
+  "registry_requests_total",
+  "Outbound registry requests by endpoint type and status.",
+  ["endpoint", "status"]
+);
+
+const registryRequestDuration = metrics.histogram(
+  "registry_request_duration_seconds",
+  "Latency of outbound registry requests by endpoint type and status.",
+  ["endpoint", "status"]
+);
+
+/**
+ * Groups a registry URL into a low-cardinality endpoint type, so metrics
+ * don't get one series per repository.
+ */
+export function classifyRegistryEndpoint(url: string): string {
+  const { pathname, searchParams } = new URL(url);
+
+  // Docker Hub login and bearer-token realms
+  if (
+    pathname.includes("/users/login") ||
+    pathname.endsWith("/token") ||
+    searchParams.has("service")
+  ) {
+    return "auth";
+  }
+  if (/^\/v2\/?$/.test(pathname)) return "ping";
+  if (pathname.endsWith("/_catalog")) return "catalog";
+
+  // Docker Hub API: /v2/repositories/<namespace>/[<name>/[tags/]]
+  const hub = pathname.match(/\/v2\/repositories\/([^/]+)\/(?:([^/]+)\/)?(tags)?/);
+  if (hub) {
+    if (hub[3]) return "tags";
+    return hub[2] ? "hub_repository" : "hub_listing";
+  }
+
+  if (pathname.endsWith("/tags/list")) return "tags";
+  if (pathname.includes("/manifests/")) return "manifest";
+  if (pathname.includes("/blobs/")) return "blob";
+  if (pathname.includes("/referrers/")) return "referrers";
+  return "other";
+}
+
+/**
+ * Records one registry request attempt. `status` is the HTTP status, or the
+ * error code when no response arrived (e.g. `ETIMEDOUT`).
+ */
+export function recordRegistryRequest(
+  url: string,
+  status: number | string,
+  durationSeconds: number
+): void {
+  const labels = { endpoint: classifyRegistryEndpoint(url), status: String(status) };
+  registryRequests.inc(labels);
+  registryRequestDuration.observe(durationSeconds, labels);
+}
@@ -0,0 +1,50 @@
+import { IRegistryBackend } from "./registryBackend";
+
+// What a registry let us see of a repository
+export interface RepositoryAccess {
+  exists: boolean;
+  tags: string[];
+  // The tag whose manifest was read
+  testedTag?: string;
+  error?: string;
+}
+
+/**
+ * Walks the calls a catalog refresh makes for one repository (existence,
+ * tags, one manifest) and reports the first that fails, instead of
+ * throwing. Works with any backend.
+ */
+export async function testRepositoryAccess(
+  backend: IRegistryBackend,
+  repo: string
+): Promise<RepositoryAccess> {
+  try {
+    // First check if the repository exists
+    const exists = await backend.checkRepositoryExists(repo);
+    if (!exists) {
+      return { exists: false, tags: [], error: "Repository does not exist" };
+    }
+
+    // Get available tags
+    const tags = await backend.getRepositoryTags(repo);
+    if (tags.length === 0) {
+      return { exists: true, tags: [], error: "No tags found" };
+    }
+
+    // Try to get manifest for the first available tag (or 'latest' if it exists)
+    const testedTag = tags.includes("latest") ? "latest" : tags[0];
+    try {
+      await backend.getManifest(repo, testedTag);
+      return { exists: true, tags, testedTag };
+    } catch (error: any) {
+      return {
+        exists: true,
+        tags,
+        testedTag,
+        error: `Failed to access manifest: ${error.message}`,
+      };
+    }
+  } catch (error: any) {
+    return { exists: false, tags: [], error: error.message };
+  }
+}
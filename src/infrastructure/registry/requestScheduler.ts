@@ -0,0 +1,259 @@
+import axios, { AxiosRequestConfig, AxiosResponse } from "axios";
+import logger from "../../shared/logger";
+import tracer from "../../shared/tracing";
+import { classifyRegistryEndpoint, recordRegistryRequest } from "./registryMetrics";
+
+export interface RequestSchedulerOptions {
+  maxConcurrentRequests: number;
+  requestTimeoutMs: number;
+  maxRetries: number;
+  retryBaseDelayMs: number;
+  retryMaxDelayMs: number;
+}
+
+// What a registry last told us about our rate limit
+export interface RateLimitState {
+  limit?: number;
+  remaining?: number;
+  resetAt?: number;
+}
+
+// Transient network failures worth retrying
+const RETRYABLE_ERROR_CODES = ["ECONNABORTED", "ECONNRESET", "ETIMEDOUT", "EAI_AGAIN"];
+
+// Only idempotent requests are retried
+const RETRYABLE_METHODS = ["GET", "HEAD"];
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Reads a rate limit header value. Docker Hub sends `76;w=21600`, other
+ * registries plain numbers.
+ */
+function parseRateLimitValue(value: unknown): number | undefined {
+  if (typeof value !== "string" && typeof value !== "number") return undefined;
+  const parsed = parseInt(String(value).split(";")[0], 10);
+  return isNaN(parsed) ? undefined : parsed;
+}
+
+/**
+ * Parses a `Retry-After` header (delay in seconds or an HTTP date) into ms.
+ */
+export function parseRetryAfter(value: unknown, now = Date.now()): number | null {
+  if (typeof value !== "string" || value.trim().length === 0) return null;
+
+  if (/^\d+$/.test(value.trim())) {
+    return parseInt(value, 10) * 1000;
+  }
+  const date = Date.parse(value);
+  return isNaN(date) ? null : Math.max(0, date - now);
+}
+
+/**
+ * Sends registry HTTP requests with bounded concurrency, a per-request
+ * timeout, and retries with exponential backoff and full jitter on 429, 5xx
+ * and network errors. It honors `Retry-After` and pauses requests to a host
+ * whose `RateLimit-Remaining` reached zero until the limit resets.
+ */
+export class RequestScheduler {
+  private options: RequestSchedulerOptions;
+  private activeRequests = 0;
+  private waiting: (() => void)[] = [];
+  // Rate limit state, keyed by host
+  private rateLimits = new Map<string, RateLimitState>();
+
+  constructor(options: RequestSchedulerOptions) {
+    this.options = options;
+  }
+
+  public async request<T = any>(
+    requestConfig: AxiosRequestConfig & { url: string },
+    // Health checks want a quick answer rather than retries
+    { retry = true }: { retry?: boolean } = {}
+  ): Promise<AxiosResponse<T>> {
+    const method = (requestConfig.method || "GET").toUpperCase();
+    const host = new URL(requestConfig.url).host;
+
+    for (let attempt = 0; ; attempt++) {
+      await this.waitForRateLimit(host);
+
+      try {
+        const response = await this.runWithSlot(() => this.send<T>(requestConfig));
+        this.updateRateLimit(host, response.headers);
+        return response;
+      } catch (error: any) {
+        if (error.response) {
+          this.updateRateLimit(host, error.response.headers);
+        }
+
+        const delayMs = retry ? this.getRetryDelay(error, attempt, method) : null;
+        if (delayMs === null) throw error;
+
+        logger.warn(
+          `Registry request ${method} ${requestConfig.url} failed (${
+            error.response?.status || error.code || error.message
+          }), retrying in ${delayMs}ms (attempt ${attempt + 1}/${this.options.maxRetries})`
+        );
+        await sleep(delayMs);
+      }
+    }
+  }
+
+  public getRateLimitState(host: string): RateLimitState | undefined {
+    return this.rateLimits.get(host);
+  }
+
+  /**
+   * Sends a single attempt in its own client span and records its latency
+   * and outcome.
+   */
+  private send<T>(
+    requestConfig: AxiosRequestConfig & { url: string }
+  ): Promise<AxiosResponse<T>> {
+    const method = (requestConfig.method || "GET").toUpperCase();
+    const endpoint = classifyRegistryEndpoint(requestConfig.url);
+    const { origin, pathname } = new URL(requestConfig.url);
+
+    return tracer.startActiveSpan(
+      `registry ${method} ${endpoint}`,
+      {
+        kind: "client",
+        // The query string may carry tokens or scopes; keep it out of traces
+        attributes: {
+          "http.method": method,
+          "http.url": `${origin}${pathname}`,
+          "registry.endpoint": endpoint,
+        },
+      },
+      async (span) => {
+        const start = process.hrtime.bigint();
+        const elapsedSeconds = () => Number(process.hrtime.bigint() - start) / 1e9;
+
+        try {
+          const response = await axios.request<T>({
+            timeout: this.options.requestTimeoutMs,
+            ...requestConfig,
+          });
+          span.setAttributes({ "http.status_code": response.status });
+          recordRegistryRequest(requestConfig.url, response.status, elapsedSeconds());
+          return response;
+        } catch (error: any) {
+          span.setAttributes({ "http.status_code": error.response?.status });
+          recordRegistryRequest(
+            requestConfig.url,
+            error.response?.status || error.code || "error",
+            elapsedSeconds()
+          );
+          throw error;
+        }
+      }
+    );
+  }
+
+  /**
+   * Returns how long to wait before retrying, or null if the request should
+   * not be retried.
+   */
+  private getRetryDelay(error: any, attempt: number, method: string): number | null {
+    if (attempt >= this.options.maxRetries || !RETRYABLE_METHODS.includes(method)) {
+      return null;
+    }
+
+    const status: number | undefined = error.response?.status;
+    const retryable =
+      status === 429 ||
+      (status !== undefined && status >= 500) ||
+      (status === undefined && RETRYABLE_ERROR_CODES.includes(error.code));
+    if (!retryable) return null;
+
+    const retryAfter = parseRetryAfter(error.response?.headers?.["retry-after"]);
+    if (retryAfter !== null) {
+      // Don't hang for minutes on a long server-imposed wait
+      return retryAfter <= this.options.retryMaxDelayMs ? retryAfter : null;
+    }
+
+    // Exponential backoff with full jitter
+    const ceiling = Math.min(
+      this.options.retryMaxDelayMs,
+      this.options.retryBaseDelayMs * 2 ** attempt
+    );
+    return Math.round(Math.random() * ceiling);
+  }
+
+  private updateRateLimit(host: string, headers: any): void {
+    if (!headers) return;
+
+    const remaining = parseRateLimitValue(
+      headers["ratelimit-remaining"] ?? headers["x-ratelimit-remaining"]
+    );
+    if (remaining === undefined) return;
+
+    const limit = parseRateLimitValue(
+      headers["ratelimit-limit"] ?? headers["x-ratelimit-limit"]
+    );
+    // X-RateLimit-Reset is a unix timestamp, RateLimit-Reset a delay in seconds
+    const resetTimestamp = parseRateLimitValue(headers["x-ratelimit-reset"]);
+    const resetSeconds = parseRateLimitValue(headers["ratelimit-reset"]);
+    const resetAt =
+      resetTimestamp !== undefined
+        ? resetTimestamp * 1000
+        : resetSeconds !== undefined
+        ? Date.now() + resetSeconds * 1000
+        : undefined;
+
+    const previous = this.rateLimits.get(host);
+    this.rateLimits.set(host, { limit, remaining, resetAt });
+
+    if (previous?.remaining === remaining) return;
+
+    const state = {
+      host,
+      limit,
+      remaining,
+      resetAt: resetAt ? new Date(resetAt).toISOString() : undefined,
+    };
+    if (remaining === 0) {
+      logger.warn("Registry rate limit exhausted", state);
+    } else if (limit && remaining < limit * 0.1) {
+      logger.warn("Registry rate limit running low", state);
+    } else {
+      logger.info("Registry rate limit state", state);
+    }
+  }
+
+  private async waitForRateLimit(host: string): Promise<void> {
+    const state = this.rateLimits.get(host);
+    if (state?.remaining !== 0 || !state.resetAt) return;
+
+    const waitMs = state.resetAt - Date.now();
+    if (waitMs <= 0) {
+      this.rateLimits.delete(host);
+      return;
+    }
+    // A reset hours away can't be waited out; let the request fail instead
+    if (waitMs > this.options.retryMaxDelayMs) return;
+
+    logger.info(`Waiting ${waitMs}ms for the ${host} rate limit to reset`);
+    await sleep(waitMs);
+  }
+
+  private async runWithSlot<T>(task: () => Promise<T>): Promise<T> {
+    if (this.activeRequests >= this.options.maxConcurrentRequests) {
+      // The finishing request hands its slot over directly
+      await new Promise<void>((resolve) => this.waiting.push(resolve));
+    } else {
+      this.activeRequests++;
+    }
+
+    try {
+      return await task();
+    } finally {
+      const next = this.waiting.shift();
+      if (next) {
+        next();
+      } else {
+        this.activeRequests--;
+      }
+    }
+  }
+}
@@ -0,0 +1,443 @@
+import { AxiosResponse } from "axios";
+import { config } from "../../shared/config";
+import logger from "../../shared/logger";
+import { IRegistryBackend, RepositoryInfo } from "./registryBackend";
+import { RegistryAuthenticator, RegistryCredentials } from "./registryAuth";
+import { RequestScheduler, RequestSchedulerOptions } from "./requestScheduler";
+import {
+  ResolvedManifest,
+  getPlatformDescriptors,
+  isImageIndex,
+  resolvePlatformManifest,
+  toPlatform,
+} from "./manifestIndex";
+import { parsePlatform } from "../../domain/models/Platform";
+import { Tag } from "../../domain/models/Tag";
+import { REFERRERS_ACCEPT_HEADER, discoverReferrers } from "./referrers";
+import { toRegistryError } from "./registryErrors";
+
+const MANIFEST_ACCEPT_HEADER =
+  "application/vnd.docker.distribution.manifest.v2+json, application/vnd.docker.distribution.manifest.list.v2+json, application/vnd.oci.image.manifest.v1+json, application/vnd.oci.image.index.v1+json";
+
+// How many tag manifests of one repository are read at once, so a
+// repository with thousands of tags doesn't take every scheduler slot
+const TAG_MANIFEST_CONCURRENCY = 4;
+
+/**
+ * Maps items with at most `concurrency` calls running at once, keeping the
+ * order of the results.
+ */
+async function mapWithConcurrency<T, R>(
+  items: T[],
+  concurrency: number,
+  fn: (item: T) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, worker));
+  return results;
+}
+
+/**
+ * Resolves the `rel="next"` target of a registry `Link` header against the
+ * registry base URL. Returns null when there is no next page.
+ */
+function getNextPageUrl(linkHeader: string | undefined, baseUrl: string): string | null {
+  if (!linkHeader) return null;
+
+  const match = linkHeader.match(/<([^>]+)>\s*;\s*rel="?next"?/);
+  if (!match) return null;
+
+  return new URL(match[1], baseUrl).toString();
+}
+
+// This class talks to any registry implementing the Docker Registry HTTP API V2
+// (e.g. the self-hosted `registry:2` from docker-compose).
+export class V2RegistryClient implements IRegistryBackend {
+  private baseUrl: string;
+  private scheduler: RequestScheduler;
+  private auth: RegistryAuthenticator;
+
+  constructor(
+    baseUrl: string = config.dockerRegistry.url,
+    credentials: RegistryCredentials | null = null,
+    schedulerOptions: RequestSchedulerOptions = config.registryRequests
+  ) {
+    // Strip trailing slashes so we can safely append paths
+    this.baseUrl = baseUrl.replace(/\/+$/, "");
+    this.scheduler = new RequestScheduler(schedulerOptions);
+    // Handles both basic auth and bearer-token realms announced by the registry
+    this.auth = new RegistryAuthenticator(credentials, (requestConfig) =>
+      this.scheduler.request(requestConfig)
+    );
+  }
+
+  /**
+   * Lists all repositories via the `/v2/_catalog` endpoint, following the
+   * `Link` header until the last page. A namespace keeps only the
+   * repositories below that prefix.
+   */
+  public async listRepositories(namespace = ""): Promise<string[]> {
+    logger.info(`Fetching repository catalog from ${this.baseUrl}`);
+
+    let repositories: string[] = [];
+    let nextUrl: string | null = `${this.baseUrl}/v2/_catalog?n=100`;
+
+    try {
+      while (nextUrl) {
+        logger.info(`Fetching page: ${nextUrl}`);
+        const response = await this.auth.request(
+          { method: "GET", url: nextUrl },
+          "registry:catalog:*"
+        );
+
+        repositories = repositories.concat(response.data.repositories || []);
+        nextUrl = getNextPageUrl(response.headers["link"], this.baseUrl);
+      }
+
+      return namespace
+        ? repositories.filter((repo) => repo.startsWith(`${namespace}/`))
+        : repositories;
+    } catch (error: any) {
+      logger.error(`Failed to fetch repository catalog from ${this.baseUrl}`, {
+        status: error.response?.status,
+        message: error.message,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Builds repository information from the tag list. A plain V2 registry has no
+   * description, star or pull counts, so only the name and tags are filled in.
+   */
+  public async getRepositoryInfo(repo: string): Promise<RepositoryInfo | null> {
+    const exists = await this.checkRepositoryExists(repo);
+    if (!exists) return null;
+
+    const tags = await this.getRepositoryTags(repo);
+    return {
+      name: repo,
+      has_tags: tags.length > 0,
+      available_tags: tags,
+    };
+  }
+
+  /**
+   * Get available tags for a repository via `/v2/<name>/tags/list`.
+   * Unknown repositories have no tags; any other failure is thrown, so a
+   * failed tag list doesn't pass for a repository without tags.
+   */
+  public async getRepositoryTags(repo: string): Promise<string[]> {
+    try {
+      return await this.fetchTagNames(repo);
+    } catch (error: any) {
+      logger.error(`Failed to get tags for repository ${repo}`, { error: error.message });
+      throw toRegistryError(error);
+    }
+  }
+
+  /**
+   * Follows the tag list pagination. Unknown repositories have no tags;
+   * any other failure is thrown.
+   */
+  private async fetchTagNames(repo: string): Promise<string[]> {
+    let tags: string[] = [];
+    let nextUrl: string | null = `${this.baseUrl}/v2/${repo}/tags/list?n=100`;
+
+    try {
+      while (nextUrl) {
+        const response = await this.auth.request(
+          { method: "GET", url: nextUrl },
+          `repository:${repo}:pull`
+        );
+
+        // The registry returns `tags: null` for repositories without tags
+        tags = tags.concat(response.data.tags || []);
+        nextUrl = getNextPageUrl(response.headers["link"], this.baseUrl);
+      }
+      return tags;
+    } catch (error: any) {
+      if (error.response?.status === 404) {
+        logger.info(`No tags found for repository ${repo}`);
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Lists every tag with the digest, size and platforms read from its
+   * manifest. The V2 API has no push dates, so `lastPushed` stays empty.
+   */
+  public async listTags(repo: string): Promise<Tag[]> {
+    const names = await this.fetchTagNames(repo);
+
+    return mapWithConcurrency(names, TAG_MANIFEST_CONCURRENCY, async (name): Promise<Tag> => {
+      const response = await this.fetchManifest(repo, name);
+      const manifest = response.data;
+
+      if (isImageIndex(manifest)) {
+        return {
+          name,
+          digest: response.headers["docker-content-digest"] || undefined,
+          platforms: getPlatformDescriptors(manifest).map((descriptor) =>
+            toPlatform(descriptor.platform)
+          ),
+        };
+      }
+
+      const layers: { size?: number }[] = manifest.layers || [];
+      return {
+        name,
+        digest: response.headers["docker-content-digest"] || undefined,
+        size: layers.reduce((total, layer) => total + (layer.size || 0), 0),
+        platforms: [],
+      };
+    });
+  }
+
+  private fetchManifest(repo: string, reference: string) {
+    return this.auth.request(
+      {
+        method: "GET",
+        url: `${this.baseUrl}/v2/${repo}/manifests/${reference}`,
+        headers: { Accept: MANIFEST_ACCEPT_HEADER },
+      },
+      `repository:${repo}:pull`
+    );
+  }
+
+  /**
+   * Fetches the manifest for a given repository from the configured registry.
+   * If no tag is specified, it will try to find an available tag.
+   */
+  public async getManifest(repo: string, tag?: string): Promise<any> {
+    if (!tag) {
+      const tags = await this.getRepositoryTags(repo);
+      if (tags.length === 0) {
+        logger.warn(
+          `No tags found for repository ${repo}, cannot fetch manifest`
+        );
+        return null;
+      }
+      // Prefer 'latest' if it exists, otherwise use the first tag
+      tag = tags.includes("latest") ? "latest" : tags[0];
+      logger.info(`No tag specified for ${repo}, using: ${tag}`);
+    }
+
+    logger.info(`Fetching manifest for ${repo}:${tag} from ${this.baseUrl}`);
+
+    try {
+      const response = await this.fetchManifest(repo, tag);
+      return response.data;
+    } catch (error: any) {
+      logger.error(`Failed to fetch manifest for ${repo}:`, {
+        status: error.response?.status,
+        statusText: error.response?.statusText,
+        message: error.message,
+        url: error.config?.url,
+        tag: tag,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Fetches the image manifest for the configured platform. Manifest lists and
+   * OCI image indexes are resolved to the matching platform manifest.
+   */
+  public async getPlatformManifest(
+    repo: string,
+    tag?: string
+  ): Promise<ResolvedManifest | null> {
+    return resolvePlatformManifest(
+      (name, reference) => this.getManifest(name, reference),
+      repo,
+      tag,
+      parsePlatform(config.dockerRegistry.platform)
+    );
+  }
+
+  /**
+   * Resolves a tag to its manifest digest with a HEAD request, reading the
+   * `Docker-Content-Digest` header. Returns null if the registry omits it.
+   */
+  public async getManifestDigest(
+    repo: string,
+    tag: string
+  ): Promise<string | null> {
+    try {
+      const response = await this.auth.request(
+        {
+          method: "HEAD",
+          url: `${this.baseUrl}/v2/${repo}/manifests/${tag}`,
+          headers: { Accept: MANIFEST_ACCEPT_HEADER },
+        },
+        `repository:${repo}:pull`
+      );
+      return response.headers["docker-content-digest"] || null;
+    } catch (error: any) {
+      logger.error(`Failed to resolve manifest digest for ${repo}:${tag}:`, {
+        status: error.response?.status,
+        statusText: error.response?.statusText,
+        message: error.message,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Fetches the config blob for a given repository digest.
+   */
+  public async getConfig(repo: string, digest: string): Promise<any> {
+    logger.info(`Fetching config blob ${digest} for ${repo} from ${this.baseUrl}`);
+
+    try {
+      const response = await this.auth.request(
+        {
+          method: "GET",
+          url: `${this.baseUrl}/v2/${repo}/blobs/${digest}`,
+          headers: { Accept: "application/vnd.docker.container.image.v1+json" },
+        },
+        `repository:${repo}:pull`
+      );
+      return response.data;
+    } catch (error: any) {
+      logger.error(`Failed to fetch config blob for ${repo}:`, {
+        status: error.response?.status,
+        statusText: error.response?.statusText,
+        message: error.message,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Fetches a manifest by tag or digest. Returns null if the registry does
+   * not know the reference.
+   */
+  public async findManifest(repo: string, reference: string): Promise<any | null> {
+    const response = await this.requestOptional(
+      repo,
+      `${this.baseUrl}/v2/${repo}/manifests/${reference}`,
+      MANIFEST_ACCEPT_HEADER
+    );
+    return response?.data ?? null;
+  }
+
+  /**
+   * Lists the artifacts (signatures, SBOMs, attestations) attached to a
+   * manifest through the OCI referrers API or its tag schema fallback.
+   */
+  public async getReferrers(repo: string, digest: string): Promise<any[]> {
+    logger.info(`Looking up referrers of ${repo}@${digest}`);
+
+    return discoverReferrers(
+      async () =>
+        (
+          await this.requestOptional(
+            repo,
+            `${this.baseUrl}/v2/${repo}/referrers/${digest}`,
+            REFERRERS_ACCEPT_HEADER
+          )
+        )?.data ?? null,
+      (reference) => this.findManifest(repo, reference),
+      digest
+    );
+  }
+
+  /**
+   * Fetches a blob as raw bytes, so signatures can be checked against its
+   * exact content.
+   */
+  public async getBlob(repo: string, digest: string): Promise<Buffer> {
+    logger.info(`Fetching blob ${digest} for ${repo} from ${this.baseUrl}`);
+
+    try {
+      const response = await this.auth.request(
+        {
+          method: "GET",
+          url: `${this.baseUrl}/v2/${repo}/blobs/${digest}`,
+          responseType: "arraybuffer",
+        },
+        `repository:${repo}:pull`
+      );
+      return Buffer.from(response.data);
+    } catch (error: any) {
+      logger.error(`Failed to fetch blob ${digest} for ${repo}:`, {
+        status: error.response?.status,
+        statusText: error.response?.statusText,
+        message: error.message,
+      });
+      throw error;
+    }
+  }
+
+  // A GET for something that may legitimately not exist
+  private async requestOptional(
+    repo: string,
+    url: string,
+    accept: string
+  ): Promise<AxiosResponse | null> {
+    try {
+      return await this.auth.request(
+        { method: "GET", url, headers: { Accept: accept } },
+        `repository:${repo}:pull`
+      );
+    } catch (error: any) {
+      if (error.response?.status === 404) return null;
+      throw error;
+    }
+  }
+
+  /**
+   * Checks that the registry answers its `/v2/` version check. An auth
+   * challenge (401) still proves it is reachable.
+   */
+  public async ping(): Promise<void> {
+    await this.scheduler.request(
+      {
+        method: "GET",
+        url: `${this.baseUrl}/v2/`,
+        validateStatus: (status) => status < 500,
+      },
+      { retry: false }
+    );
+  }
+
+  /**
+   * Check if a repository exists. The registry answers NAME_UNKNOWN (404) on
+   * the tag list for repositories it does not know about.
+   */
+  public async checkRepositoryExists(repo: string): Promise<boolean> {
+    try {
+      const response = await this.auth.request(
+        { method: "GET", url: `${this.baseUrl}/v2/${repo}/tags/list` },
+        `repository:${repo}:pull`
+      );
+      return response.status === 200;
+    } catch (error: any) {
+      if (error.response?.status === 404) {
+        logger.warn(`Repository ${repo} does not exist on ${this.baseUrl}`);
+        return false;
+      }
+      logger.error(`Error checking repository existence for ${repo}`, { error: error.message });
+      // Anything but a 404 means we can't tell, so let the caller handle it
+      throw error;
+    }
+  }
+
+  /**
+   * Images of a self-hosted registry are pulled with its host as prefix.
+   */
+  public getPullReference(repo: string): string {
+    return `${new URL(this.baseUrl).host}/${repo}`;
+  }
+}
@@ -1,150 +1,648 @@
 import { App } from "../../domain/models/App";
+import { CatalogResult, CatalogWarning } from "../../domain/models/Catalog";
+import {
+  AppDetail,
+  AppImageDetails,
+  ImageHealthcheck,
+  ImageRuntimeConfig,
+} from "../../domain/models/AppDetail";
 import { AppLocation } from "../../domain/valueObjects/AppLocation";
-import { DockerRegistryClient } from "../registry/dockerRegistryClient";
+import { CatalogSource } from "../../domain/models/CatalogSource";
+import { Platform } from "../../domain/models/Platform";
+import { parseAppLabels } from "../../domain/labels/appLabels";
+import { TagList } from "../../domain/models/Tag";
+import {
+  SignatureVerification,
+  SupplyChainDocument,
+} from "../../domain/models/SupplyChain";
+import { TagPolicy, selectStableTag, sortTags } from "../../domain/services/tagPolicy";
+import { findCatalogSource } from "../../domain/services/catalogSources";
+import { getAppRuntime } from "../../domain/services/installSnippets";
+import { IRegistryBackend, RepositoryInfo } from "../registry/registryBackend";
+import { toRegistryError } from "../registry/registryErrors";
+import { ResolvedManifest } from "../registry/manifestIndex";
+import { SupplyChainInspector } from "../supplyChain/supplyChainInspector";
+import { IDigestIndex } from "../cache/digestIndex";
+import { AppError } from "../../shared/errors";
 import logger from "../../shared/logger";
+import { runWithContext } from "../../shared/requestContext";
+import tracer from "../../shared/tracing";
+
+/**
+ * Reads the platform of a single-platform image from its config blob.
+ */
+function getConfigPlatforms(imageConfig: any): Platform[] {
+  if (!imageConfig?.os || !imageConfig?.architecture) return [];
+  return [
+    imageConfig.variant
+      ? {
+          os: imageConfig.os,
+          architecture: imageConfig.architecture,
+          variant: imageConfig.variant,
+        }
+      : { os: imageConfig.os, architecture: imageConfig.architecture },
+  ];
+}
+
+// Docker stores HEALTHCHECK durations in nanoseconds
+const NANOSECONDS_PER_SECOND = 1_000_000_000;
+
+function getHealthcheck(runtimeConfig: any): ImageHealthcheck | undefined {
+  const healthcheck = runtimeConfig.Healthcheck;
+  // `NONE` disables a healthcheck inherited from the base image
+  if (!healthcheck?.Test?.length || healthcheck.Test[0] === "NONE") return undefined;
+
+  const toSeconds = (nanoseconds?: number) =>
+    nanoseconds ? nanoseconds / NANOSECONDS_PER_SECOND : undefined;
+  return {
+    test: healthcheck.Test,
+    intervalSeconds: toSeconds(healthcheck.Interval),
+    timeoutSeconds: toSeconds(healthcheck.Timeout),
+    retries: healthcheck.Retries || undefined,
+    startPeriodSeconds: toSeconds(healthcheck.StartPeriod),
+  };
+}
+
+function getRuntimeConfig(runtimeConfig: any): ImageRuntimeConfig {
+  // Env is a list of KEY=value strings
+  const env: Record<string, string> = {};
+  for (const entry of (runtimeConfig.Env || []) as string[]) {
+    const separator = entry.indexOf("=");
+    if (separator === -1) {
+      env[entry] = "";
+    } else {
+      env[entry.slice(0, separator)] = entry.slice(separator + 1);
+    }
+  }
+
+  return {
+    exposedPorts: Object.keys(runtimeConfig.ExposedPorts || {}),
+    volumes: Object.keys(runtimeConfig.Volumes || {}),
+    env,
+  };
+}
+
+// A failed signature lookup is retried on the next read instead of indexed
+const SIGNATURES_UNREADABLE = "Signatures could not be read from the registry.";
+
+/**
+ * Describes a failed read for the catalog warnings.
+ */
+function toCatalogWarning(
+  error: unknown,
+  subject: { source: string } | { location: string }
+): CatalogWarning {
+  const typed = toRegistryError(error);
+  return {
+    ...subject,
+    type: typed instanceof AppError ? typed.type : "internal-error",
+    reason: typed instanceof Error ? typed.message : String(typed),
+  };
+}
+
+/**
+ * Parses a JSON SBOM or provenance document. Other formats (e.g. SPDX
+ * tag-value) are returned as text.
+ */
+function parseDocumentContent(blob: Buffer): unknown {
+  const text = blob.toString("utf8");
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
 
 // The repository interface defines the contract for what our application needs.
 export interface IAppRepository {
-  findAll(): Promise<App[]>;
+  // Throws only if no catalog source could be listed at all
+  findAll(): Promise<CatalogResult>;
+  findOne(location: AppLocation): Promise<App | null>;
+  findByLocation(location: AppLocation, tag?: string): Promise<AppDetail | null>;
+  findTags(location: AppLocation): Promise<TagList | null>;
+  findImage(location: AppLocation, tag?: string): Promise<AppImageDetails | null>;
+  findSupplyChainDocument(
+    location: AppLocation,
+    digest: string,
+    tag?: string
+  ): Promise<{ document: SupplyChainDocument; content: any } | null>;
 }
 
-// The concrete implementation of the repository for the Docker Hub use case.
+// The concrete implementation of the repository, backed by any registry backend.
 export class AppRepository implements IAppRepository {
-  private client: DockerRegistryClient;
+  private client: IRegistryBackend;
+  private sources: CatalogSource[];
+  private tagPolicy: TagPolicy;
+  private supplyChain: SupplyChainInspector;
+  private digestIndex: IDigestIndex;
 
-  constructor(client: DockerRegistryClient) {
+  constructor(
+    client: IRegistryBackend,
+    sources: CatalogSource[],
+    tagPolicy: TagPolicy,
+    supplyChain: SupplyChainInspector,
+    digestIndex: IDigestIndex
+  ) {
     this.client = client;
+    this.sources = sources;
+    this.tagPolicy = tagPolicy;
+    this.supplyChain = supplyChain;
+    this.digestIndex = digestIndex;
   }
 
   /**
-   * Finds all application by fetching repository names from Docker Hub and then
-   * getting the metadata for each one.
+   * Finds all application by fetching repository names from the registry and then
+   * getting the metadata for each one. Every catalog source is listed and its
+   * include/exclude rules applied; a repository matched by several sources
+   * is only listed once. Sources and repositories that fail are left out and
+   * reported as warnings.
    */
-  public async findAll(): Promise<App[]> {
+  public async findAll(): Promise<CatalogResult> {
+    const warnings: CatalogWarning[] = [];
+
+    const listings = await Promise.allSettled(
+      this.sources.map((source) =>
+        tracer.startActiveSpan(
+          "catalog.list_source",
+          { attributes: { "catalog.source": source.id } },
+          () => this.client.listRepositories(source.namespace)
+        )
+      )
+    );
+    const repositories = new Set<string>();
+    listings.forEach((listing, index) => {
+      if (listing.status === "fulfilled") {
+        listing.value.forEach((repoName) => repositories.add(repoName));
+      } else {
+        warnings.push(toCatalogWarning(listing.reason, { source: this.sources[index].id }));
+      }
+    });
+
+    if (warnings.length === this.sources.length) {
+      logger.error("Failed to fetch the entire app catalog:", { warnings });
+      // Let the caller decide what to do (e.g. keep serving a cached snapshot)
+      const rejected = listings[0] as PromiseRejectedResult;
+      throw toRegistryError(rejected.reason);
+    }
+
+    const locations = [...repositories]
+      .filter((repoName) => repoName.trim().length > 0)
+      .filter((repoName) => findCatalogSource(this.sources, repoName) !== null);
+    // One span per repository, and its log lines tagged with the repository,
+    // so a slow refresh can be broken down
+    const results = await Promise.allSettled(
+      locations.map((repoName) =>
+        runWithContext({ repository: repoName }, () =>
+          tracer.startActiveSpan(
+            "catalog.load_app",
+            { attributes: { "app.location": repoName } },
+            () => this.findOne(AppLocation.create(repoName))
+          )
+        )
+      )
+    );
+
+    const apps: App[] = [];
+    results.forEach((result, index) => {
+      if (result.status === "rejected") {
+        warnings.push(toCatalogWarning(result.reason, { location: locations[index] }));
+      } else if (result.value) {
+        apps.push(result.value);
+      }
+    });
+
+    if (warnings.length > 0) {
+      logger.warn(`App catalog is incomplete, ${warnings.length} failure(s)`, { warnings });
+    }
+
+    // Repositories of sources that failed to list are kept for the next refresh
+    const complete = !warnings.some((warning) => warning.source);
+    await this.digestIndex.save(complete ? locations : undefined).catch((error) => {
+      logger.warn("Failed to save the digest index", { error: error.message });
+    });
+    return { apps, warnings };
+  }
+
+  /**
+   * Gets the catalog entry of a single repository. Returns null if the
+   * repository does not exist or is not part of any catalog source; registry
+   * failures throw typed errors. The manifest, config blob and signatures are
+   * only read when the stable tag's digest differs from the one in the digest
+   * index.
+   */
+  public async findOne(location: AppLocation): Promise<App | null> {
+    const repoName = location.value;
+    const source = findCatalogSource(this.sources, repoName);
+    if (!source) return null;
+
     try {
-      // This is the key change: calling the specific method for Docker Hub
-      const repositories = await this.client.getRepositoriesFromDockerHub();
-      if (!repositories) return [];
-
-      const appPromises = repositories.map(
-        async (repoName): Promise<App | null> => {
-          try {
-            // First, get basic repository info (which doesn't require tags)
-            const repoInfo = await this.client.getRepositoryInfo(repoName);
-            if (!repoInfo) {
-              logger.warn(`Repository ${repoName} not found, skipping`);
-              return null;
-            }
-
-            // Check if the repository has tags before trying to get manifest
-            if (!repoInfo.has_tags || repoInfo.available_tags?.length === 0) {
-              logger.info(
-                `Repository ${repoName} has no tags, creating basic app info`
-              );
-
-              // Create a basic app with just repository information
-              return {
-                name: repoInfo.name || repoName,
-                location: AppLocation.create(repoName),
-                description: repoInfo.description || "No description provided.",
-                pictureUrl: "https://via.placeholder.com/150",
-              };
-            }
-
-            // Try to get manifest and config only if tags exist
-            const manifest = await this.client.getManifest(repoName);
-            if (!manifest) {
-              logger.warn(
-                `Could not get manifest for ${repoName}, using basic info`
-              );
-
-              // Fallback to basic app info
-              return {
-                name: repoInfo.name || repoName,
-                location: AppLocation.create(repoName),
-                description: repoInfo.description || "No description provided.",
-                pictureUrl: "https://via.placeholder.com/150",
-              };
-            }
-
-            // Check if manifest has config before trying to access it
-            if (!manifest.config || !manifest.config.digest) {
-              logger.warn(
-                `Manifest for ${repoName} has no config, using basic info`
-              );
-
-              return {
-                name: repoInfo.name || repoName,
-                location: AppLocation.create(repoName),
-                description: repoInfo.description || "No description provided.",
-                pictureUrl: "https://via.placeholder.com/150",
-              };
-            }
-
-            const config = await this.client.getConfig(
-              repoName,
-              manifest.config.digest
-            );
-
-            if (!config) {
-              logger.warn(
-                `Could not get config for ${repoName}, using basic info`
-              );
-
-              return {
-                name: repoInfo.name || repoName,
-                location: AppLocation.create(repoName),
-                description: repoInfo.description || "No description provided.",
-                pictureUrl: "https://via.placeholder.com/150",
-              };
-            }
-
-            const labels = config.config?.Labels || {};
-
-            // Map the data from labels to our structured App domain model
-            // Prefer Docker labels, but fallback to repository info
-            return {
-              name:
-                labels["org.opencontainers.image.title"] ||
-                repoInfo.name ||
-                repoName,
-              location: AppLocation.create(repoName),
-              description:
-                labels["org.opencontainers.image.description"] ||
-                repoInfo.description ||
-                "No description provided.",
-              pictureUrl:
-                labels["com.app-store.picture-url"] ||
-                "https://via.placeholder.com/150",
-            };
-          } catch (error) {
-            logger.error(`Failed to process repository ${repoName}:`, error);
-
-            // Try to create a basic app with just the repository name as a last resort
-            try {
-              return {
-                name: repoName,
-                location: AppLocation.create(repoName),
-                description: "Repository information unavailable.",
-                pictureUrl: "https://via.placeholder.com/150",
-              };
-            } catch (locationError) {
-              logger.error(
-                `Failed to create basic app for ${repoName}:`,
-                locationError
-              );
-              return null; // Return null only if we can't even create a basic app
-            }
-          }
+      // First, get basic repository info (which doesn't require tags)
+      const repoInfo = await this.client.getRepositoryInfo(repoName);
+      if (!repoInfo) {
+        logger.warn(`Repository ${repoName} not found, skipping`);
+        return null;
+      }
+
+      // Check if the repository has tags before trying to get manifest
+      if (!repoInfo.has_tags || repoInfo.available_tags?.length === 0) {
+        logger.info(
+          `Repository ${repoName} has no tags, creating basic app info`
+        );
+
+        // Create a basic app with just repository information
+        return this.buildApp(repoName, source, repoInfo, {}, []);
+      }
+
+      // Try to get manifest and config only if tags exist. Multi-platform
+      // images are resolved to the configured platform's manifest.
+      const tag = selectStableTag(repoInfo.available_tags || [], this.tagPolicy);
+      // Tag listings of some registries carry the digest; otherwise a HEAD
+      // request finds it without downloading the manifest
+      const digest = tag
+        ? repoInfo.tag_digests?.[tag] ?? (await this.client.getManifestDigest(repoName, tag))
+        : null;
+
+      // An unchanged digest means an unchanged image: reuse what was read
+      // before, its signature included (entries from before the runtime
+      // config or the signature were kept are read again)
+      const known = await this.digestIndex.get(repoName);
+      const unchanged =
+        tag && digest && known?.tag === tag && known.digest === digest ? known : null;
+      const signature =
+        (this.supplyChain.checksSignatures && unchanged?.signature) ||
+        (tag ? await this.checkSignature(repoName, digest) : undefined);
+      const storedSignature = signature?.reason === SIGNATURES_UNREADABLE ? undefined : signature;
+
+      if (unchanged?.runtime) {
+        if (storedSignature && !unchanged.signature) {
+          await this.digestIndex.set(repoName, { ...unchanged, signature: storedSignature });
         }
+        return {
+          ...this.buildApp(
+            repoName,
+            source,
+            repoInfo,
+            unchanged.labels,
+            unchanged.platforms,
+            unchanged.runtime
+          ),
+          tag,
+          signature,
+        };
+      }
+
+      const resolved = await this.client.getPlatformManifest(repoName, tag);
+      const manifest = resolved?.manifest;
+      if (!manifest) {
+        logger.warn(
+          `Could not get manifest for ${repoName}, using basic info`
+        );
+
+        // Fallback to basic app info
+        return {
+          ...this.buildApp(repoName, source, repoInfo, {}, resolved?.platforms || []),
+          signature,
+        };
+      }
+
+      // Check if manifest has config before trying to access it
+      if (!manifest.config || !manifest.config.digest) {
+        logger.warn(
+          `Manifest for ${repoName} has no config, using basic info`
+        );
+
+        return {
+          ...this.buildApp(repoName, source, repoInfo, {}, resolved.platforms),
+          signature,
+        };
+      }
+
+      const config = await this.client.getConfig(
+        repoName,
+        manifest.config.digest
       );
 
-      const apps = await Promise.all(appPromises);
-      // Filter out any nulls from failed repositories to return a clean list
-      return apps.filter((app): app is App => app !== null);
+      if (!config) {
+        logger.warn(
+          `Could not get config for ${repoName}, using basic info`
+        );
+
+        return {
+          ...this.buildApp(repoName, source, repoInfo, {}, resolved.platforms),
+          signature,
+        };
+      }
+
+      const labels = config.config?.Labels || {};
+      const runtime = getRuntimeConfig(config.config || {});
+
+      // Single-platform images only tell us their platform in the config
+      const platforms =
+        resolved.platforms.length > 0
+          ? resolved.platforms
+          : getConfigPlatforms(config);
+      if (tag && digest) {
+        await this.digestIndex.set(repoName, {
+          tag,
+          digest,
+          labels,
+          platforms,
+          runtime,
+          signature: storedSignature,
+        });
+      }
+
+      return {
+        ...this.buildApp(repoName, source, repoInfo, labels, platforms, runtime),
+        tag,
+        signature,
+      };
+    } catch (error: any) {
+      logger.error(`Failed to process repository ${repoName}`, { error: error.message });
+      throw toRegistryError(error);
+    }
+  }
+
+  /**
+   * Finds a single application with all its tags and the image details of the
+   * requested tag (or 'latest', else the first tag). Returns null if the
+   * repository or the requested tag does not exist, or the repository is not
+   * part of any catalog source; registry failures throw.
+   */
+  public async findByLocation(
+    location: AppLocation,
+    tag?: string
+  ): Promise<AppDetail | null> {
+    return this.withRegistryErrors(async () => {
+      const repoName = location.value;
+      const source = findCatalogSource(this.sources, repoName);
+      if (!source) return null;
+
+      const exists = await this.client.checkRepositoryExists(repoName);
+      if (!exists) {
+        logger.info(`Repository ${repoName} not found`);
+        return null;
+      }
+
+      const repoInfo = await this.client.getRepositoryInfo(repoName);
+      const tags =
+        repoInfo?.available_tags ??
+        (await this.client.getRepositoryTags(repoName));
+
+      if (tag && !tags.includes(tag)) {
+        logger.info(`Tag ${tag} not found for repository ${repoName}`);
+        return null;
+      }
+
+      const selectedTag = tag || selectStableTag(tags, this.tagPolicy);
+      const details = selectedTag
+        ? await this.getImageDetails(repoName, selectedTag)
+        : null;
+      const image = details?.image || null;
+      const platforms = details?.platforms || [];
+      const supplyChain = details?.tagDigest
+        ? await this.supplyChain.inspect(repoName, details.tagDigest, details.resolved)
+        : null;
+
+      return {
+        ...this.buildApp(
+          repoName,
+          source,
+          repoInfo,
+          image?.labels || {},
+          platforms,
+          image || undefined
+        ),
+        tag: selectedTag,
+        tags: sortTags(tags.map((name) => ({ name, platforms: [] }))).map(
+          (sorted) => sorted.name
+        ),
+        image,
+        supplyChain,
+      };
+    });
+  }
+
+  /**
+   * Lists the tags of a repository with their metadata, ordered for display
+   * (semantic versions first). Returns null if the repository does not exist
+   * or is outside the catalog.
+   */
+  public async findTags(location: AppLocation): Promise<TagList | null> {
+    return this.withRegistryErrors(async () => {
+      if (!findCatalogSource(this.sources, location.value)) return null;
+
+      const exists = await this.client.checkRepositoryExists(location.value);
+      if (!exists) return null;
+
+      const tags = sortTags(await this.client.listTags(location.value));
+      return {
+        tags,
+        stableTag: selectStableTag(
+          tags.map((tag) => tag.name),
+          this.tagPolicy
+        ),
+      };
+    });
+  }
+
+  /**
+   * Reads the image details of one tag (by default the stable tag) without
+   * the rest of the app detail. Returns null if the repository or tag does
+   * not exist, the repository has no tags or is outside the catalog.
+   */
+  public async findImage(
+    location: AppLocation,
+    tag?: string
+  ): Promise<AppImageDetails | null> {
+    return this.withRegistryErrors(async () => {
+      const repoName = location.value;
+      if (!findCatalogSource(this.sources, repoName)) return null;
+
+      const exists = await this.client.checkRepositoryExists(repoName);
+      if (!exists) return null;
+
+      const tags = await this.client.getRepositoryTags(repoName);
+      if (tag && !tags.includes(tag)) return null;
+
+      const selectedTag = tag || selectStableTag(tags, this.tagPolicy);
+      if (!selectedTag) return null;
+
+      return (await this.getImageDetails(repoName, selectedTag)).image;
+    });
+  }
+
+  /**
+   * Reads one of the SBOM or provenance documents found on the image of a
+   * tag. Returns null unless the digest belongs to one of those documents,
+   * so arbitrary blobs can't be fetched through the API.
+   */
+  public async findSupplyChainDocument(
+    location: AppLocation,
+    digest: string,
+    tag?: string
+  ): Promise<{ document: SupplyChainDocument; content: any } | null> {
+    return this.withRegistryErrors(async () => {
+      const detail = await this.findByLocation(location, tag);
+      const document = detail?.supplyChain
+        ? [...detail.supplyChain.sboms, ...detail.supplyChain.provenance].find(
+            (candidate) => candidate.digest === digest
+          )
+        : undefined;
+      if (!document) return null;
+
+      const blob = await this.client.getBlob(location.value, digest);
+      return { document, content: parseDocumentContent(blob) };
+    });
+  }
+
+  // Registry failures leave the repository as typed errors
+  private async withRegistryErrors<T>(task: () => Promise<T>): Promise<T> {
+    try {
+      return await task();
     } catch (error) {
-      logger.error("Failed to fetch the entire app catalog:", error);
-      return []; // Return an empty array if the initial fetch fails
+      throw toRegistryError(error);
+    }
+  }
+
+  /**
+   * Verifies the signature of the manifest a tag points at when trusted keys
+   * are configured. Without keys the lookup is skipped to spare the registry
+   * a few requests per app.
+   */
+  private async checkSignature(
+    repoName: string,
+    digest: string | null
+  ): Promise<SignatureVerification | undefined> {
+    if (!this.supplyChain.checksSignatures) return undefined;
+
+    try {
+      if (!digest) {
+        return {
+          status: "unverified",
+          reason: "The registry did not report the manifest digest.",
+        };
+      }
+      return await this.supplyChain.verifySignature(repoName, digest);
+    } catch (error: any) {
+      logger.error(`Failed to check the signature of ${repoName}@${digest}`, {
+        error: error.message,
+      });
+      return {
+        status: "unverified",
+        reason: SIGNATURES_UNREADABLE,
+      };
+    }
+  }
+
+  /**
+   * Maps the data from labels to our structured App domain model.
+   * Prefer Docker labels, but fallback to repository info.
+   */
+  private buildApp(
+    repoName: string,
+    source: CatalogSource,
+    repoInfo: RepositoryInfo | null,
+    labels: Record<string, string>,
+    platforms: Platform[],
+    runtime?: ImageRuntimeConfig
+  ): App {
+    const { metadata, warnings } = parseAppLabels(labels);
+    const appRuntime = runtime && getAppRuntime(runtime, labels, warnings);
+    if (warnings.length > 0) {
+      logger.warn(`Invalid labels or image config on ${repoName}:`, { warnings });
     }
+
+    return {
+      name: metadata.title || repoInfo?.name || repoName,
+      location: AppLocation.create(repoName),
+      description:
+        metadata.description ||
+        repoInfo?.description ||
+        "No description provided.",
+      pictureUrl: metadata.pictureUrl,
+      tagDigests: repoInfo?.available_tags
+        ? Object.fromEntries(
+            repoInfo.available_tags.map((name) => [name, repoInfo.tag_digests?.[name] ?? null])
+          )
+        : undefined,
+      platforms,
+      version: metadata.version,
+      vendor: metadata.vendor,
+      licenses: metadata.licenses,
+      sourceUrl: metadata.sourceUrl,
+      documentationUrl: metadata.documentationUrl,
+      homepage: metadata.homepage,
+      authors: metadata.authors,
+      created: metadata.created,
+      category: metadata.category || source.defaultCategory,
+      source: source.id,
+      keywords: metadata.keywords,
+      screenshots: metadata.screenshots,
+      minimumResources: metadata.minimumResources,
+      runtime: appRuntime,
+      starCount: repoInfo?.star_count,
+      pullCount: repoInfo?.pull_count,
+      lastUpdated: repoInfo?.last_updated,
+      private: repoInfo?.is_private || undefined,
+      warnings,
+    };
+  }
+
+  /**
+   * Reads the manifest and config blob of one tag and extracts the runtime
+   * configuration of the image, along with every platform it is built for.
+   */
+  private async getImageDetails(
+    repoName: string,
+    tag: string
+  ): Promise<{
+    image: AppImageDetails;
+    platforms: Platform[];
+    resolved: ResolvedManifest | null;
+    tagDigest: string | null;
+  }> {
+    const resolved = await this.client.getPlatformManifest(repoName, tag);
+    const manifest = resolved?.manifest;
+    // Signatures and referrers belong to the digest the tag points at
+    const tagDigest = await this.client.getManifestDigest(repoName, tag);
+    // For indexes the platform manifest's digest is the one that gets pulled
+    const digest = resolved?.digest ?? tagDigest;
+
+    const imageConfig = manifest?.config?.digest
+      ? await this.client.getConfig(repoName, manifest.config.digest)
+      : null;
+    const runtimeConfig = imageConfig?.config || {};
+
+    const layers: { size?: number }[] = manifest?.layers || [];
+    const platforms =
+      resolved && resolved.platforms.length > 0
+        ? resolved.platforms
+        : getConfigPlatforms(imageConfig);
+
+    return {
+      image: {
+        reference: this.client.getPullReference(repoName),
+        tag,
+        digest,
+        platform: resolved?.platform || platforms[0] || null,
+        labels: runtimeConfig.Labels || {},
+        ...getRuntimeConfig(runtimeConfig),
+        entrypoint: runtimeConfig.Entrypoint || [],
+        cmd: runtimeConfig.Cmd || [],
+        user: runtimeConfig.User || undefined,
+        healthcheck: getHealthcheck(runtimeConfig),
+        architecture: imageConfig?.architecture,
+        os: imageConfig?.os,
+        created: imageConfig?.created,
+        compressedSize: layers.reduce(
+          (total, layer) => total + (layer.size || 0),
+          0
+        ),
+      },
+      platforms,
+      resolved,
+      tagDigest,
+    };
   }
 }
@@ -0,0 +1,90 @@
+import { App } from "../../domain/models/App";
+import { CatalogResult } from "../../domain/models/Catalog";
+import { AppDetail, AppImageDetails } from "../../domain/models/AppDetail";
+import { SupplyChainDocument } from "../../domain/models/SupplyChain";
+import { TagList } from "../../domain/models/Tag";
+import { AppLocation } from "../../domain/valueObjects/AppLocation";
+import { applyCuration } from "../../domain/services/curation";
+import { ICurationStore } from "../curation/curationStore";
+import { IAppRepository } from "./appRepository";
+
+/**
+ * Merges the admin curations into the results of another repository. Hidden
+ * apps behave as if they did not exist; everything else gets its overrides,
+ * category, featured flag and sort weight applied.
+ */
+export class CuratedAppRepository implements IAppRepository {
+  private repository: IAppRepository;
+  private curationStore: ICurationStore;
+
+  constructor(repository: IAppRepository, curationStore: ICurationStore) {
+    this.repository = repository;
+    this.curationStore = curationStore;
+  }
+
+  public async findAll(): Promise<CatalogResult> {
+    const [{ apps, warnings }, curations] = await Promise.all([
+      this.repository.findAll(),
+      this.curationStore.getAll(),
+    ]);
+
+    const isHidden = (location?: string) =>
+      location !== undefined && curations.get(location)?.hidden === true;
+    return {
+      apps: apps
+        .filter((app) => !isHidden(app.location.value))
+        .map((app) => applyCuration(app, curations.get(app.location.value))),
+      // Failures of hidden apps are nobody's concern
+      warnings: warnings.filter((warning) => !isHidden(warning.location)),
+    };
+  }
+
+  public async findOne(location: AppLocation): Promise<App | null> {
+    return this.curate(location, () => this.repository.findOne(location));
+  }
+
+  public async findByLocation(
+    location: AppLocation,
+    tag?: string
+  ): Promise<AppDetail | null> {
+    return this.curate(location, () => this.repository.findByLocation(location, tag));
+  }
+
+  public async findTags(location: AppLocation): Promise<TagList | null> {
+    if (await this.isHidden(location)) return null;
+    return this.repository.findTags(location);
+  }
+
+  public async findImage(
+    location: AppLocation,
+    tag?: string
+  ): Promise<AppImageDetails | null> {
+    if (await this.isHidden(location)) return null;
+    return this.repository.findImage(location, tag);
+  }
+
+  public async findSupplyChainDocument(
+    location: AppLocation,
+    digest: string,
+    tag?: string
+  ): Promise<{ document: SupplyChainDocument; content: any } | null> {
+    if (await this.isHidden(location)) return null;
+    return this.repository.findSupplyChainDocument(location, digest, tag);
+  }
+
+  private async isHidden(location: AppLocation): Promise<boolean> {
+    return (await this.curationStore.get(location.value))?.hidden === true;
+  }
+
+  // Hidden apps are not even looked up in the registry
+  private async curate<T extends App>(
+    location: AppLocation,
+    find: () => Promise<T | null>
+  ): Promise<T | null> {
+    const curation = await this.curationStore.get(location.value);
+    if (curation?.hidden) return null;
+
+    const app = await find();
+    return app && applyCuration(app, curation || undefined);
+  }
+}
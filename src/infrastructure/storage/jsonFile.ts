@@ -0,0 +1,103 @@
+import { mkdir, readFile, rename, writeFile } from "fs/promises";
+import path from "path";
+import logger from "../../shared/logger";
+
+export interface JsonFileOptions<T> {
+  directory: string;
+  fileName: string;
+  // What the file holds, for log lines, e.g. "API keys"
+  description: string;
+  // The value before the file was ever written
+  empty: () => T;
+  // Convert between the value kept in memory and what is written
+  fromJson: (json: any) => T;
+  toJson: (value: T) => unknown;
+  // Summarizes a loaded value for the log, e.g. "3 API key(s)"
+  summarize: (value: T) => string;
+  // Start over with an empty value instead of failing when the file is corrupt
+  ignoreUnreadable?: boolean;
+  // Indentation of the written JSON; compact if unset
+  indent?: number;
+  // File mode of the written file
+  mode?: number;
+}
+
+/**
+ * A value kept in a JSON file, for the file-backed stores. The file is read
+ * once and the value kept in memory; writes go through a queue, so each one
+ * sees the result of the previous, and replace the file atomically.
+ */
+export class JsonFile<T> {
+  private options: JsonFileOptions<T>;
+  private value: T | null = null;
+  private loading: Promise<T> | null = null;
+  // Each write waits for the previous one
+  private writeQueue: Promise<unknown> = Promise.resolve();
+
+  constructor(options: JsonFileOptions<T>) {
+    this.options = options;
+  }
+
+  /**
+   * Returns the value, reading the file on first use. Concurrent callers
+   * share the same read.
+   */
+  public load(): Promise<T> {
+    if (this.value !== null) return Promise.resolve(this.value);
+
+    if (!this.loading) {
+      this.loading = this.read()
+        .then((value) => {
+          this.value = value;
+          return value;
+        })
+        .finally(() => {
+          this.loading = null;
+        });
+    }
+    return this.loading;
+  }
+
+  /**
+   * Runs a task after all writes queued before it. A failed task doesn't
+   * block the ones after it.
+   */
+  public enqueue<R>(task: () => Promise<R>): Promise<R> {
+    const result = this.writeQueue.then(task);
+    this.writeQueue = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * Replaces the file with the given value, which becomes the loaded one.
+   * Call it from a queued task.
+   */
+  public async write(value: T): Promise<void> {
+    const { directory, fileName, toJson, indent, mode } = this.options;
+    await mkdir(directory, { recursive: true });
+
+    const filePath = path.join(directory, fileName);
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    await writeFile(tempPath, JSON.stringify(toJson(value), null, indent), { mode });
+    await rename(tempPath, filePath);
+    this.value = value;
+  }
+
+  private async read(): Promise<T> {
+    const { directory, fileName, description, empty, fromJson, summarize } = this.options;
+    try {
+      const content = await readFile(path.join(directory, fileName), "utf8");
+      const value = fromJson(JSON.parse(content));
+      logger.info(`Loaded ${summarize(value)} from ${directory}`);
+      return value;
+    } catch (error: any) {
+      if (error.code === "ENOENT") return empty();
+      if (this.options.ignoreUnreadable) {
+        logger.warn(`Ignoring unreadable ${description} in ${directory}`, { error: error.message });
+        return empty();
+      }
+      logger.error(`Failed to read ${description} from ${directory}`, { error: error.message });
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,71 @@
+import { KeyObject, createHash, createPublicKey, verify } from "crypto";
+import { readFileSync } from "fs";
+import path from "path";
+
+// A trusted signing key, identified by its file name
+export interface TrustedKey {
+  id: string;
+  key: KeyObject;
+}
+
+// Annotation holding the base64 signature on a cosign signature layer
+export const COSIGN_SIGNATURE_ANNOTATION = "dev.cosignproject.cosign/signature";
+
+export type PayloadVerification =
+  | { verified: true; keyId: string }
+  | { verified: false; reason: string };
+
+/**
+ * Reads PEM-encoded public keys (e.g. `cosign.pub`). Throws on unreadable or
+ * invalid keys so misconfiguration shows up at startup.
+ */
+export function loadTrustedKeys(keyPaths: string[]): TrustedKey[] {
+  return keyPaths.map((keyPath) => ({
+    id: path.basename(keyPath, path.extname(keyPath)),
+    key: createPublicKey(readFileSync(keyPath)),
+  }));
+}
+
+/**
+ * Checks a cosign "simple signing" payload: the blob must match its digest,
+ * name the expected image digest, and be signed by one of the trusted keys.
+ */
+export function verifySignaturePayload(
+  payload: Buffer,
+  payloadDigest: string,
+  signature: string,
+  expectedImageDigest: string,
+  trustedKeys: TrustedKey[]
+): PayloadVerification {
+  const actualDigest = `sha256:${createHash("sha256").update(payload).digest("hex")}`;
+  if (actualDigest !== payloadDigest) {
+    return { verified: false, reason: "Signature payload does not match its digest." };
+  }
+
+  let signedDigest: unknown;
+  try {
+    signedDigest = JSON.parse(payload.toString("utf8")).critical?.image?.[
+      "docker-manifest-digest"
+    ];
+  } catch {
+    return { verified: false, reason: "Signature payload is not valid JSON." };
+  }
+  if (signedDigest !== expectedImageDigest) {
+    return { verified: false, reason: "Signature was made for a different image." };
+  }
+
+  const signatureBytes = Buffer.from(signature, "base64");
+  for (const trustedKey of trustedKeys) {
+    // Ed25519 signs the message itself; RSA and ECDSA keys use SHA-256
+    const algorithm = trustedKey.key.asymmetricKeyType === "ed25519" ? null : "sha256";
+    try {
+      if (verify(algorithm, payload, trustedKey.key, signatureBytes)) {
+        return { verified: true, keyId: trustedKey.id };
+      }
+    } catch {
+      // A malformed signature for this key type; try the next key
+    }
+  }
+
+  return { verified: false, reason: "No trusted key matches the signature." };
+}
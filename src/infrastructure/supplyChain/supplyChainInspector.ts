@@ -0,0 +1,238 @@
+import {
+  SignatureVerification,
+  SupplyChainDetails,
+  SupplyChainDocument,
+} from "../../domain/models/SupplyChain";
+import { IRegistryBackend } from "../registry/registryBackend";
+import { ResolvedManifest, getAttestationDescriptors } from "../registry/manifestIndex";
+import { getSignatureTag } from "../registry/referrers";
+import {
+  COSIGN_SIGNATURE_ANNOTATION,
+  TrustedKey,
+  verifySignaturePayload,
+} from "./cosignVerifier";
+import logger from "../../shared/logger";
+
+// Artifact type of cosign signatures stored as OCI 1.1 referrers
+const SIGNATURE_ARTIFACT_TYPE = "application/vnd.dev.cosign.artifact.sig.v1+json";
+
+// Annotation naming the predicate of an in-toto attestation layer
+const PREDICATE_TYPE_ANNOTATION = "in-toto.io/predicate-type";
+
+// Artifact and predicate types of SBOMs (SPDX, CycloneDX, Syft)
+const SBOM_TYPES = [
+  "application/spdx+json",
+  "application/vnd.cyclonedx+json",
+  "application/vnd.syft+json",
+  "https://spdx.dev/Document",
+  "https://cyclonedx.org/bom",
+];
+
+// SLSA provenance predicates, e.g. `https://slsa.dev/provenance/v0.2`
+const PROVENANCE_TYPE_PREFIX = "https://slsa.dev/provenance/";
+
+function classifyDocument(type: string | undefined): SupplyChainDocument["kind"] | null {
+  if (!type) return null;
+  if (SBOM_TYPES.some((sbomType) => type.startsWith(sbomType))) return "sbom";
+  if (type.startsWith(PROVENANCE_TYPE_PREFIX)) return "provenance";
+  return null;
+}
+
+/**
+ * Finds the signatures, SBOMs and provenance attached to an image, both as
+ * OCI referrers and as BuildKit attestation manifests inside the image index,
+ * and verifies cosign signatures against the trusted keys.
+ */
+export class SupplyChainInspector {
+  private client: IRegistryBackend;
+  private trustedKeys: TrustedKey[];
+
+  constructor(client: IRegistryBackend, trustedKeys: TrustedKey[]) {
+    this.client = client;
+    this.trustedKeys = trustedKeys;
+  }
+
+  // Without trusted keys no signature can ever be verified
+  public get checksSignatures(): boolean {
+    return this.trustedKeys.length > 0;
+  }
+
+  /**
+   * Collects the supply-chain metadata of the manifest with the given digest.
+   * `resolved` is the platform manifest picked for it, whose index may carry
+   * attestation manifests.
+   */
+  public async inspect(
+    repo: string,
+    subjectDigest: string,
+    resolved: ResolvedManifest | null
+  ): Promise<SupplyChainDetails> {
+    const referrers = await this.getReferrers(repo, subjectDigest);
+    const documents = [
+      ...(await this.getReferrerDocuments(repo, referrers)),
+      ...(await this.getAttestationDocuments(repo, resolved)),
+    ];
+
+    return {
+      subjectDigest,
+      signature: await this.verifySignature(repo, subjectDigest, referrers),
+      sboms: documents.filter((document) => document.kind === "sbom"),
+      provenance: documents.filter((document) => document.kind === "provenance"),
+    };
+  }
+
+  /**
+   * Looks for cosign signatures of a manifest, under the `.sig` tag first and
+   * then among its referrers, and checks them against the trusted keys.
+   * Registry failures are reported as unverified rather than thrown.
+   */
+  public async verifySignature(
+    repo: string,
+    digest: string,
+    referrers?: any[]
+  ): Promise<SignatureVerification> {
+    try {
+      let layers = this.getSignatureLayers(
+        await this.client.findManifest(repo, getSignatureTag(digest))
+      );
+
+      if (layers.length === 0) {
+        const signatureReferrers = (
+          referrers ?? (await this.client.getReferrers(repo, digest))
+        ).filter((descriptor) => descriptor.artifactType === SIGNATURE_ARTIFACT_TYPE);
+
+        for (const descriptor of signatureReferrers) {
+          layers = layers.concat(
+            this.getSignatureLayers(
+              await this.client.findManifest(repo, descriptor.digest)
+            )
+          );
+        }
+      }
+
+      if (layers.length === 0) return { status: "unsigned" };
+      if (!this.checksSignatures) {
+        return { status: "unverified", reason: "No trusted keys are configured." };
+      }
+
+      let reason = "";
+      for (const layer of layers) {
+        const payload = await this.client.getBlob(repo, layer.digest);
+        const result = verifySignaturePayload(
+          payload,
+          layer.digest,
+          layer.annotations[COSIGN_SIGNATURE_ANNOTATION],
+          digest,
+          this.trustedKeys
+        );
+        if (result.verified) {
+          return { status: "verified", keyId: result.keyId };
+        }
+        reason = result.reason;
+      }
+
+      logger.warn(`No valid signature for ${repo}@${digest}: ${reason}`);
+      return { status: "unverified", reason };
+    } catch (error: any) {
+      logger.error(`Failed to check signatures of ${repo}@${digest}`, { error: error.message });
+      return {
+        status: "unverified",
+        reason: "Signatures could not be read from the registry.",
+      };
+    }
+  }
+
+  private getSignatureLayers(manifest: any | null): any[] {
+    return ((manifest?.layers || []) as any[]).filter(
+      (layer) => layer.digest && layer.annotations?.[COSIGN_SIGNATURE_ANNOTATION]
+    );
+  }
+
+  private async getReferrers(repo: string, digest: string): Promise<any[]> {
+    try {
+      return await this.client.getReferrers(repo, digest);
+    } catch (error: any) {
+      logger.error(`Failed to look up referrers of ${repo}@${digest}`, { error: error.message });
+      return [];
+    }
+  }
+
+  /**
+   * Reads the SBOM and provenance artifacts among the referrers. Their kind
+   * comes from the in-toto predicate type if there is one, else from the
+   * artifact type.
+   */
+  private async getReferrerDocuments(
+    repo: string,
+    referrers: any[]
+  ): Promise<SupplyChainDocument[]> {
+    const documents: SupplyChainDocument[] = [];
+
+    for (const descriptor of referrers) {
+      if (descriptor.artifactType === SIGNATURE_ARTIFACT_TYPE) continue;
+
+      const manifest = await this.findManifest(repo, descriptor.digest);
+      for (const layer of (manifest?.layers || []) as any[]) {
+        const type =
+          layer.annotations?.[PREDICATE_TYPE_ANNOTATION] ??
+          descriptor.annotations?.[PREDICATE_TYPE_ANNOTATION] ??
+          descriptor.artifactType ??
+          manifest.artifactType ??
+          layer.mediaType;
+        const kind = classifyDocument(type);
+        if (kind) {
+          documents.push({
+            kind,
+            type,
+            mediaType: layer.mediaType,
+            digest: layer.digest,
+            size: layer.size,
+            source: "referrers",
+          });
+        }
+      }
+    }
+    return documents;
+  }
+
+  /**
+   * Reads the in-toto statements of the BuildKit attestation manifest that
+   * belongs to the resolved platform manifest.
+   */
+  private async getAttestationDocuments(
+    repo: string,
+    resolved: ResolvedManifest | null
+  ): Promise<SupplyChainDocument[]> {
+    if (!resolved?.index || !resolved.digest) return [];
+
+    const documents: SupplyChainDocument[] = [];
+    for (const descriptor of getAttestationDescriptors(resolved.index, resolved.digest)) {
+      const manifest = await this.findManifest(repo, descriptor.digest);
+      for (const layer of (manifest?.layers || []) as any[]) {
+        const type = layer.annotations?.[PREDICATE_TYPE_ANNOTATION];
+        const kind = classifyDocument(type);
+        if (kind) {
+          documents.push({
+            kind,
+            type,
+            mediaType: layer.mediaType,
+            digest: layer.digest,
+            size: layer.size,
+            source: "attestation",
+          });
+        }
+      }
+    }
+    return documents;
+  }
+
+  // One unreadable artifact shouldn't hide the others
+  private async findManifest(repo: string, digest: string): Promise<any | null> {
+    try {
+      return await this.client.findManifest(repo, digest);
+    } catch (error: any) {
+      logger.error(`Failed to read artifact ${repo}@${digest}`, { error: error.message });
+      return null;
+    }
+  }
+}
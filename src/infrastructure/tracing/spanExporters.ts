@@ -0,0 +1,110 @@
+import axios from "axios";
+import { config } from "../../shared/config";
+import logger from "../../shared/logger";
+import { AttributeValue, SpanData, SpanExporter } from "../../shared/tracing";
+
+/**
+ * Writes every finished span to the log, for local debugging.
+ */
+export class ConsoleSpanExporter implements SpanExporter {
+  public async export(spans: SpanData[]): Promise<void> {
+    for (const span of spans) {
+      logger.info(`Span ${span.name}`, {
+        traceId: span.traceId,
+        spanId: span.spanId,
+        parentSpanId: span.parentSpanId,
+        kind: span.kind,
+        durationMs: Number(span.endTimeUnixNano - span.startTimeUnixNano) / 1e6,
+        attributes: span.attributes,
+        status: span.status,
+      });
+    }
+  }
+}
+
+// OTLP enums: SpanKind and StatusCode
+const OTLP_SPAN_KINDS = { internal: 1, server: 2, client: 3 };
+const OTLP_STATUS_CODES = { unset: 0, ok: 1, error: 2 };
+
+function toOtlpValue(value: AttributeValue) {
+  if (typeof value === "boolean") return { boolValue: value };
+  if (typeof value === "number") {
+    return Number.isInteger(value) ? { intValue: value } : { doubleValue: value };
+  }
+  return { stringValue: value };
+}
+
+const toOtlpAttributes = (attributes: Record<string, AttributeValue>) =>
+  Object.entries(attributes).map(([key, value]) => ({ key, value: toOtlpValue(value) }));
+
+/**
+ * Sends spans to an OpenTelemetry collector using OTLP/HTTP with JSON
+ * encoding (`POST <endpoint>/v1/traces`).
+ */
+export class OtlpHttpSpanExporter implements SpanExporter {
+  private url: string;
+  private serviceName: string;
+  private timeoutMs: number;
+
+  constructor(endpoint: string, serviceName: string, timeoutMs = 10_000) {
+    this.url = `${endpoint.replace(/\/+$/, "")}/v1/traces`;
+    this.serviceName = serviceName;
+    this.timeoutMs = timeoutMs;
+  }
+
+  public async export(spans: SpanData[]): Promise<void> {
+    await axios.post(
+      this.url,
+      {
+        resourceSpans: [
+          {
+            resource: {
+              attributes: toOtlpAttributes({ "service.name": this.serviceName }),
+            },
+            scopeSpans: [
+              {
+                scope: { name: this.serviceName },
+                spans: spans.map((span) => ({
+                  traceId: span.traceId,
+                  spanId: span.spanId,
+                  parentSpanId: span.parentSpanId,
+                  name: span.name,
+                  kind: OTLP_SPAN_KINDS[span.kind],
+                  // 64-bit integers are sent as strings in OTLP/JSON
+                  startTimeUnixNano: span.startTimeUnixNano.toString(),
+                  endTimeUnixNano: span.endTimeUnixNano.toString(),
+                  attributes: toOtlpAttributes(span.attributes),
+                  status: {
+                    code: OTLP_STATUS_CODES[span.status.code],
+                    message: span.status.message,
+                  },
+                })),
+              },
+            ],
+          },
+        ],
+      },
+      { timeout: this.timeoutMs }
+    );
+  }
+}
+
+/**
+ * Creates the exporter selected by `TRACING_EXPORTER`: `otlp`, `console`,
+ * or `none` (the default).
+ */
+export function createSpanExporter(): SpanExporter | null {
+  switch (config.tracing.exporter) {
+    case "otlp":
+      logger.info(`Exporting traces to ${config.tracing.otlpEndpoint}`);
+      return new OtlpHttpSpanExporter(config.tracing.otlpEndpoint, config.tracing.serviceName);
+    case "console":
+      return new ConsoleSpanExporter();
+    case "none":
+      return null;
+    default:
+      throw new Error(
+        `Unknown tracing exporter '${config.tracing.exporter}'. Expected 'otlp', 'console' or 'none'.`
+      );
+  }
+}
@@ -0,0 +1,24 @@
+import { RegistryEvent } from "../../domain/models/RegistryEvent";
+
+/**
+ * Keeps the most recent registry events in memory (newest first).
+ */
+export class RegistryEventLog {
+  private events: RegistryEvent[] = [];
+  private maxEvents: number;
+
+  constructor(maxEvents: number) {
+    this.maxEvents = maxEvents;
+  }
+
+  public record(events: RegistryEvent[]): void {
+    this.events = [...events.slice().reverse(), ...this.events].slice(
+      0,
+      this.maxEvents
+    );
+  }
+
+  public getRecent(): RegistryEvent[] {
+    return [...this.events];
+  }
+}
@@ -0,0 +1,75 @@
+import { RegistryEvent } from "../../domain/models/RegistryEvent";
+
+// registry:2 also notifies about layer blobs; we only care about manifests
+const MANIFEST_MEDIA_TYPE_PATTERN = /manifest|image\.index/;
+
+/**
+ * Parses a Docker Hub webhook payload
+ * (https://docs.docker.com/docker-hub/repos/manage/webhooks/).
+ */
+function parseDockerHubPayload(body: any): RegistryEvent[] {
+  const repository = body.repository?.repo_name;
+  if (typeof repository !== "string" || repository.length === 0) return [];
+
+  const pushedAt = body.push_data?.pushed_at;
+  return [
+    {
+      source: "dockerhub",
+      action: "push",
+      repository,
+      tag: body.push_data?.tag || undefined,
+      timestamp:
+        typeof pushedAt === "number"
+          ? new Date(pushedAt * 1000).toISOString()
+          : new Date().toISOString(),
+    },
+  ];
+}
+
+/**
+ * Parses a registry:2 notification envelope
+ * (https://distribution.github.io/distribution/about/notifications/).
+ * Pulls, mounts and blob events are ignored.
+ */
+function parseRegistryEnvelope(body: any): RegistryEvent[] {
+  const events: RegistryEvent[] = [];
+
+  for (const event of body.events as any[]) {
+    const target = event?.target;
+    if (!target || typeof target.repository !== "string") continue;
+    if (event.action !== "push" && event.action !== "delete") continue;
+
+    // Delete events may only carry the repository and digest
+    if (
+      event.action === "push" &&
+      !MANIFEST_MEDIA_TYPE_PATTERN.test(target.mediaType || "")
+    ) {
+      continue;
+    }
+
+    events.push({
+      source: "registry",
+      action: event.action,
+      repository: target.repository,
+      tag: target.tag || undefined,
+      digest: target.digest || undefined,
+      timestamp: event.timestamp || new Date().toISOString(),
+    });
+  }
+
+  return events;
+}
+
+/**
+ * Detects the payload format and returns the normalized events, or null if
+ * the body is neither a Docker Hub webhook nor a registry notification.
+ */
+export function parseRegistryWebhook(body: any): RegistryEvent[] | null {
+  if (body && Array.isArray(body.events)) {
+    return parseRegistryEnvelope(body);
+  }
+  if (body && body.repository && body.push_data) {
+    return parseDockerHubPayload(body);
+  }
+  return null;
+}
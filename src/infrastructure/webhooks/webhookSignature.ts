@@ -0,0 +1,43 @@
+import crypto from "crypto";
+
+function safeEqual(a: string, b: string): boolean {
+  const bufferA = Buffer.from(a);
+  const bufferB = Buffer.from(b);
+  return bufferA.length === bufferB.length && crypto.timingSafeEqual(bufferA, bufferB);
+}
+
+// What a webhook request presented to prove it knows the shared secret
+export interface WebhookCredentials {
+  rawBody?: Buffer;
+  // `sha256=<hex>` HMAC of the raw body (X-Hub-Signature-256 style)
+  signature?: string;
+  // `Authorization: Bearer <secret>`, configurable in registry:2 notifications
+  authorization?: string;
+  // `?token=<secret>`, since Docker Hub webhooks cannot send custom headers
+  token?: string;
+}
+
+/**
+ * Checks a webhook request against the shared secret. Any one of an HMAC
+ * signature, a bearer secret or a token query parameter is accepted.
+ */
+export function verifyWebhook(secret: string, credentials: WebhookCredentials): boolean {
+  if (!secret) return false;
+
+  if (credentials.signature && credentials.rawBody) {
+    const expected =
+      "sha256=" +
+      crypto.createHmac("sha256", secret).update(credentials.rawBody).digest("hex");
+    return safeEqual(credentials.signature, expected);
+  }
+
+  if (credentials.authorization?.startsWith("Bearer ")) {
+    return safeEqual(credentials.authorization.slice("Bearer ".length), secret);
+  }
+
+  if (credentials.token) {
+    return safeEqual(credentials.token, secret);
+  }
+
+  return false;
+}
@@ -0,0 +1,97 @@
+import { parseArgs } from "util";
+import logger from "../../shared/logger";
+import { NotFoundError, UpstreamError, ValidationError } from "../../shared/errors";
+import { CliCommand, commands } from "./commands";
+import { CliOutput, ExitCode } from "./output";
+
+const usage = (command: CliCommand) =>
+  ["app-store", command.name, ...command.arguments.map((name) => `<${name}>`)].join(" ");
+
+function formatHelp(): string {
+  const width = Math.max(...commands.map((command) => command.name.length));
+  return [
+    "Usage: app-store <command> [options]",
+    "",
+    "Commands:",
+    ...commands.map((command) => `  ${command.name.padEnd(width)}  ${command.summary}`),
+    "",
+    "Options:",
+    "  --verbose  log at debug level (to stderr)",
+    "  --help     show the help of a command",
+  ].join("\n");
+}
+
+function formatCommandHelp(command: CliCommand): string {
+  return [
+    `Usage: ${usage(command)} [options]`,
+    "",
+    command.summary,
+    "",
+    "Options:",
+    ...command.optionHelp.map((line) => `  ${line}`),
+  ].join("\n");
+}
+
+// The exit code for an error a command didn't handle itself
+function exitCodeOf(error: unknown): ExitCode {
+  if (error instanceof ValidationError) return ExitCode.USAGE;
+  if (error instanceof NotFoundError) return ExitCode.NOT_FOUND;
+  if (error instanceof UpstreamError) return ExitCode.REGISTRY;
+  return ExitCode.INTERNAL;
+}
+
+/**
+ * Runs one command of the `app-store` CLI against the same services the API
+ * uses, and returns the process exit code instead of exiting, so it can run
+ * in tests.
+ */
+export async function runCli(argv: string[], output: CliOutput): Promise<ExitCode> {
+  const [name, ...rest] = argv;
+  if (!name || name === "help" || name === "--help" || name === "-h") {
+    output.out(formatHelp());
+    return name ? ExitCode.OK : ExitCode.USAGE;
+  }
+
+  const command = commands.find((candidate) => candidate.name === name);
+  if (!command) {
+    output.err(`app-store: unknown command '${name}'\n\n${formatHelp()}`);
+    return ExitCode.USAGE;
+  }
+
+  let parsed: ReturnType<typeof parseArgs>;
+  try {
+    parsed = parseArgs({
+      args: rest,
+      options: {
+        ...command.options,
+        verbose: { type: "boolean" },
+        help: { type: "boolean", short: "h" },
+      },
+      allowPositionals: true,
+      strict: true,
+    });
+  } catch (error: any) {
+    output.err(`app-store: ${error.message}\n\n${formatCommandHelp(command)}`);
+    return ExitCode.USAGE;
+  }
+
+  const { values, positionals } = parsed;
+  if (values.help) {
+    output.out(formatCommandHelp(command));
+    return ExitCode.OK;
+  }
+  if (positionals.length !== command.arguments.length) {
+    output.err(`app-store: expected ${usage(command)}`);
+    return ExitCode.USAGE;
+  }
+  if (values.verbose) {
+    logger.level = "debug";
+  }
+
+  try {
+    return await command.run({ args: positionals, options: values, output });
+  } catch (error: any) {
+    output.err(`app-store: ${error.message}`);
+    return exitCodeOf(error);
+  }
+}
@@ -0,0 +1,242 @@
+import { writeFile } from "fs/promises";
+import { ParseArgsConfig, parseArgs } from "util";
+import { appService, diagnosticsService } from "../../container";
+import { App } from "../../domain/models/App";
+import { formatPlatform } from "../../domain/models/Platform";
+import { CliOutput, ExitCode, formatFields, formatTable, toJson } from "./output";
+
+export interface CommandContext {
+  // The command's arguments, in the order of `CliCommand.arguments`
+  args: string[];
+  options: ReturnType<typeof parseArgs>["values"];
+  output: CliOutput;
+}
+
+export interface CliCommand {
+  name: string;
+  summary: string;
+  // Names of the required arguments, e.g. `location`
+  arguments: string[];
+  options: NonNullable<ParseArgsConfig["options"]>;
+  // Shown in the help, e.g. `--tag <tag>`
+  optionHelp: string[];
+  run(context: CommandContext): Promise<ExitCode>;
+}
+
+// Operators see the whole catalog, private apps included
+const INCLUDE_PRIVATE = true;
+
+const jsonOption = { json: { type: "boolean" as const } };
+const JSON_HELP = "--json  print JSON instead of a table";
+
+// Apps as plain JSON: the location as a string, platforms like `linux/arm64`
+const toPlainApp = <T extends App>(app: T) => ({
+  ...app,
+  location: app.location.value,
+  platforms: app.platforms.map(formatPlatform),
+});
+
+const optionalString = (value: unknown) =>
+  typeof value === "string" ? value : undefined;
+
+const formatSize = (bytes?: number) =>
+  bytes === undefined ? "" : bytes < 1024 * 1024 ? `${Math.ceil(bytes / 1024)} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+const list: CliCommand = {
+  name: "list",
+  summary: "List the apps of the catalog",
+  arguments: [],
+  options: {
+    ...jsonOption,
+    search: { type: "string" },
+    category: { type: "string" },
+    source: { type: "string" },
+  },
+  optionHelp: [
+    "--search <text>     only apps whose name, location or description contain it",
+    "--category <name>   only apps of this category",
+    "--source <id>       only apps of this catalog source",
+    JSON_HELP,
+  ],
+  async run({ options, output }) {
+    const { page, snapshot } = await appService.searchApps(
+      {
+        search: optionalString(options.search),
+        category: optionalString(options.category),
+        source: optionalString(options.source),
+        sort: "name",
+        order: "asc",
+        limit: Number.MAX_SAFE_INTEGER,
+      },
+      INCLUDE_PRIVATE
+    );
+
+    if (options.json) {
+      output.out(toJson({ items: page.items.map(toPlainApp), warnings: snapshot.warnings }));
+    } else {
+      output.out(
+        formatTable(
+          ["location", "name", "version", "tag", "category", "platforms"],
+          page.items.map((app) => [
+            app.location.value,
+            app.name,
+            app.version || "",
+            app.tag || "",
+            app.category || "",
+            app.platforms.map(formatPlatform).join(", "),
+          ])
+        )
+      );
+      for (const warning of snapshot.warnings) {
+        output.err(`warning: ${warning.location || warning.source}: ${warning.reason}`);
+      }
+    }
+    // A partial catalog fails CI jobs that check the registry
+    return snapshot.warnings.length > 0 ? ExitCode.PROBLEMS : ExitCode.OK;
+  },
+};
+
+const inspect: CliCommand = {
+  name: "inspect",
+  summary: "Show an app with its image details",
+  arguments: ["location"],
+  options: { ...jsonOption, tag: { type: "string" } },
+  optionHelp: ["--tag <tag>  read this tag instead of the stable one", JSON_HELP],
+  async run({ args: [location], options, output }) {
+    const tag = optionalString(options.tag);
+    const app = await appService.getAppDetail(location, tag, INCLUDE_PRIVATE);
+    if (!app) {
+      output.err(tag ? `App '${location}' with tag '${tag}' not found.` : `App '${location}' not found.`);
+      return ExitCode.NOT_FOUND;
+    }
+
+    if (options.json) {
+      output.out(
+        toJson({
+          ...toPlainApp(app),
+          image: app.image && {
+            ...app.image,
+            platform: app.image.platform && formatPlatform(app.image.platform),
+          },
+        })
+      );
+      return ExitCode.OK;
+    }
+
+    output.out(
+      formatFields([
+        ["Name", app.name],
+        ["Location", app.location.value],
+        ["Description", app.description],
+        ["Version", app.version],
+        ["Tag", app.tag],
+        ["Digest", app.image?.digest],
+        ["Pull", app.image && `${app.image.reference}:${app.image.tag}`],
+        ["Platforms", app.platforms.map(formatPlatform).join(", ")],
+        ["Category", app.category],
+        ["Vendor", app.vendor],
+        ["Licenses", app.licenses],
+        ["Homepage", app.homepage],
+        ["Source", app.source],
+        ["Private", app.private ? "yes" : undefined],
+        ["Ports", app.image?.exposedPorts.join(", ")],
+        ["Volumes", app.image?.volumes.join(", ")],
+        ["Signature", app.supplyChain?.signature.status],
+        ["Tags", app.tags.join(", ")],
+        ["Warnings", app.warnings.join(" ")],
+      ])
+    );
+    return ExitCode.OK;
+  },
+};
+
+const tags: CliCommand = {
+  name: "tags",
+  summary: "List the tags of an app",
+  arguments: ["location"],
+  options: jsonOption,
+  optionHelp: [JSON_HELP],
+  async run({ args: [location], options, output }) {
+    const tagList = await appService.getAppTags(location, INCLUDE_PRIVATE);
+    if (!tagList) {
+      output.err(`App '${location}' not found.`);
+      return ExitCode.NOT_FOUND;
+    }
+
+    if (options.json) {
+      output.out(
+        toJson({
+          stableTag: tagList.stableTag ?? null,
+          tags: tagList.tags.map((tag) => ({ ...tag, platforms: tag.platforms.map(formatPlatform) })),
+        })
+      );
+      return ExitCode.OK;
+    }
+
+    output.out(
+      formatTable(
+        ["tag", "digest", "size", "pushed", "platforms"],
+        tagList.tags.map((tag) => [
+          // The stable tag is the one the catalog shows
+          tag.name === tagList.stableTag ? `${tag.name} *` : tag.name,
+          tag.digest || "",
+          formatSize(tag.size),
+          tag.lastPushed || "",
+          tag.platforms.map(formatPlatform).join(", "),
+        ])
+      )
+    );
+    return ExitCode.OK;
+  },
+};
+
+const diagnose: CliCommand = {
+  name: "diagnose",
+  summary: "Check why an app does or doesn't show up in the catalog",
+  arguments: ["location"],
+  options: jsonOption,
+  optionHelp: [JSON_HELP],
+  async run({ args: [location], options, output }) {
+    const diagnosis = await diagnosticsService.diagnose(location);
+
+    if (options.json) {
+      output.out(toJson(diagnosis));
+    } else {
+      output.out(
+        formatTable(
+          ["status", "check", "detail"],
+          diagnosis.checks.map((check) => [check.status, check.name, check.detail])
+        )
+      );
+    }
+    return diagnosis.ok ? ExitCode.OK : ExitCode.PROBLEMS;
+  },
+};
+
+const exportCatalog: CliCommand = {
+  name: "export",
+  summary: "Write the whole catalog as JSON",
+  arguments: [],
+  options: { output: { type: "string", short: "o" } },
+  optionHelp: ["-o, --output <file>  write to a file instead of stdout"],
+  async run({ options, output }) {
+    const snapshot = await appService.getCatalog();
+    const document = toJson({
+      exportedAt: new Date().toISOString(),
+      refreshedAt: snapshot.refreshedAt.toISOString(),
+      apps: snapshot.apps.map(toPlainApp),
+      warnings: snapshot.warnings,
+    });
+
+    const file = optionalString(options.output);
+    if (file) {
+      await writeFile(file, `${document}\n`);
+      output.err(`Exported ${snapshot.apps.length} app(s) to ${file}`);
+    } else {
+      output.out(document);
+    }
+    return snapshot.warnings.length > 0 ? ExitCode.PROBLEMS : ExitCode.OK;
+  },
+};
+
+export const commands: CliCommand[] = [list, inspect, tags, diagnose, exportCatalog];
@@ -0,0 +1,9 @@
+import winston from "winston";
+import logger from "../../shared/logger";
+
+// Command output goes to stdout, so log lines go to stderr instead, and only
+// warnings and errors unless LOG_LEVEL (or --verbose) asks for more
+logger.clear().add(
+  new winston.transports.Console({ stderrLevels: Object.keys(winston.config.npm.levels) })
+);
+logger.level = process.env.LOG_LEVEL || "warn";
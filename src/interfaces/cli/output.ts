@@ -0,0 +1,51 @@
+// Where a command writes; the entry point passes stdout and stderr
+export interface CliOutput {
+  out(text: string): void;
+  err(text: string): void;
+}
+
+// Exit codes scripts and CI jobs can branch on
+export const ExitCode = {
+  OK: 0,
+  // The command ran, but found problems (failed checks, a partial catalog)
+  PROBLEMS: 1,
+  USAGE: 2,
+  NOT_FOUND: 3,
+  // The registry could not be reached or refused us
+  REGISTRY: 4,
+  INTERNAL: 5,
+} as const;
+
+export type ExitCode = (typeof ExitCode)[keyof typeof ExitCode];
+
+/**
+ * Lays rows out in columns padded to their widest cell, under an upper-case
+ * header. The last column is not padded, so lines don't end in spaces.
+ */
+export function formatTable(headers: string[], rows: string[][]): string {
+  const widths = headers.map((header, column) =>
+    Math.max(header.length, ...rows.map((row) => (row[column] ?? "").length))
+  );
+  const formatRow = (cells: string[]) =>
+    cells
+      .map((cell, column) => (column === cells.length - 1 ? cell : cell.padEnd(widths[column])))
+      .join("  ");
+
+  return [formatRow(headers.map((header) => header.toUpperCase())), ...rows.map(formatRow)].join(
+    "\n"
+  );
+}
+
+/**
+ * Lays out labelled values, one per line, skipping empty ones.
+ */
+export function formatFields(fields: [string, string | number | undefined | null][]): string {
+  const present = fields.filter(
+    (field): field is [string, string | number] =>
+      field[1] !== undefined && field[1] !== null && field[1] !== ""
+  );
+  const width = Math.max(...present.map(([label]) => label.length));
+  return present.map(([label, value]) => `${`${label}:`.padEnd(width + 2)}${value}`).join("\n");
+}
+
+export const toJson = (value: unknown): string => JSON.stringify(value, null, 2);
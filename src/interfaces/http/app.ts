@@ -1,38 +1,63 @@
 import express from "express";
 import swaggerUi from "swagger-ui-express";
-import swaggerJsdoc from "swagger-jsdoc";
+import { config } from "../../shared/config";
 import appRoutes from "./routes/appRoutes";
-import logger from "../../shared/logger";
+import webhookRoutes from "./routes/webhookRoutes";
+import adminRoutes from "./routes/adminRoutes";
+import changeRoutes from "./routes/changeRoutes";
+import catalogRoutes from "./routes/catalogRoutes";
+import healthRoutes from "./routes/healthRoutes";
+import { errorHandler, notFoundHandler } from "./middleware/errorHandler";
+import { buildOpenApiDocument } from "./openapi/openApiDocument";
+import { requestContext } from "./middleware/requestContext";
+import { requestMetrics } from "./middleware/requestMetrics";
 
 const app = express();
+// JSON responses get a strong ETag (a hash of the body), and Express answers a
+// matching If-None-Match with 304, so polling clients skip unchanged payloads
+app.set("etag", "strong");
+app.set("trust proxy", config.api.trustProxyHops);
 
 // Middleware
-app.use(express.json());
-
-// Swagger Documentation Setup
-const swaggerOptions = {
-  swaggerDefinition: {
-    openapi: "3.0.0",
-    info: {
-      title: "App Store Service API",
-      version: "1.0.0",
-      description: "API for fetching app info from a Docker Registry",
+app.use(requestContext);
+app.use(requestMetrics);
+app.use(
+  express.json({
+    // registry:2 notifications use application/vnd.docker.distribution.events.v1+json
+    type: ["application/json", "application/*+json"],
+    // Keep the raw body so webhook signatures can be verified
+    verify: (req, _res, buf) => {
+      (req as express.Request & { rawBody?: Buffer }).rawBody = buf;
     },
-    servers: [{ url: `/` }],
-  },
-  apis: ["./src/interfaces/http/routes/*.ts"],
-};
-const swaggerDocs = swaggerJsdoc(swaggerOptions);
-app.use("/api-docs", swaggerUi.serve, swaggerUi.setup(swaggerDocs));
-
-// API Routes
-app.use("/api", appRoutes);
+  })
+);
 
-// Centralized error handling could be added here
+// Routes are declared by contracts, which also make up the API documentation
+const routers = [
+  healthRoutes,
+  appRoutes,
+  catalogRoutes,
+  changeRoutes,
+  webhookRoutes,
+  adminRoutes,
+];
+routers.forEach((routes) => app.use(routes.router));
 
-app.use((req, res) => {
-  logger.warn(`404 - Not Found - ${req.originalUrl}`);
-  res.status(404).send("Not Found");
+const openApiDocument = buildOpenApiDocument(
+  {
+    title: "App Store Service API",
+    version: "1.0.0",
+    description: "API for fetching app info from a Docker Registry",
+  },
+  routers
+);
+app.get("/api-docs/openapi.json", (_req, res) => {
+  res.json(openApiDocument);
 });
+app.use("/api-docs", swaggerUi.serve, swaggerUi.setup(openApiDocument));
+
+// Centralized error handling: every error is answered with problem+json
+app.use(notFoundHandler);
+app.use(errorHandler);
 
 export default app;
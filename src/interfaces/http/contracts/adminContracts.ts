@@ -0,0 +1,238 @@
+import { Type } from "@sinclair/typebox";
+import { defineContract } from "../openapi/routeContract";
+import { SCOPES } from "../../../domain/models/Principal";
+import { LimitParam, LocationParams, problemResponse } from "./common";
+
+export const DEFAULT_AUDIT_LIMIT = 100;
+
+const overrideProperty = Type.Optional(Type.Union([Type.String(), Type.Null()]));
+
+const overrideProperties = {
+  name: overrideProperty,
+  description: overrideProperty,
+  pictureUrl: overrideProperty,
+  homepage: overrideProperty,
+  documentationUrl: overrideProperty,
+  vendor: overrideProperty,
+};
+
+const Curation = Type.Object(
+  {
+    location: Type.String(),
+    hidden: Type.Boolean({ description: "Hidden apps are left out of every public endpoint." }),
+    featured: Type.Boolean(),
+    category: Type.Optional(Type.String({ description: "Replaces the category label." })),
+    sortWeight: Type.Integer({ description: "Higher weights come first when sorting by weight." }),
+    overrides: Type.Object({
+      name: Type.Optional(Type.String()),
+      description: Type.Optional(Type.String()),
+      pictureUrl: Type.Optional(Type.String()),
+      homepage: Type.Optional(Type.String()),
+      documentationUrl: Type.Optional(Type.String()),
+      vendor: Type.Optional(Type.String()),
+      keywords: Type.Optional(Type.Array(Type.String())),
+    }),
+    updatedAt: Type.String(),
+    updatedBy: Type.String(),
+  },
+  { $id: "Curation" }
+);
+
+const AuditEntry = Type.Object(
+  {
+    location: Type.String(),
+    action: Type.Union([Type.Literal("create"), Type.Literal("update"), Type.Literal("delete")]),
+    actor: Type.String(),
+    changes: Type.Array(
+      Type.Object({ field: Type.String(), from: Type.Unknown(), to: Type.Unknown() })
+    ),
+    timestamp: Type.String(),
+  },
+  { $id: "CurationAuditEntry" }
+);
+
+// The rules beyond types (URLs, lengths, slugs) are checked by curationValidator
+const CurationBody = Type.Object(
+  {
+    hidden: Type.Optional(Type.Boolean()),
+    featured: Type.Optional(Type.Boolean()),
+    category: Type.Optional(Type.Union([Type.String(), Type.Null()])),
+    sortWeight: Type.Optional(Type.Integer({ minimum: -1000, maximum: 1000 })),
+    overrides: Type.Optional(
+      Type.Object(
+        {
+          ...overrideProperties,
+          keywords: Type.Optional(Type.Union([Type.Array(Type.String()), Type.Null()])),
+        },
+        {
+          additionalProperties: false,
+          description: "`null` clears an override.",
+        }
+      )
+    ),
+  },
+  { $id: "CurationInput", additionalProperties: false }
+);
+
+const noCuration = problemResponse("The app has no curation.");
+const invalidCuration = problemResponse("The curation is invalid.");
+
+export const listCurationsContract = defineContract({
+  method: "get",
+  path: "/admin/apps",
+  summary: "List all app curations",
+  tags: ["Admin"],
+  scope: "admin",
+  responses: {
+    200: {
+      description: "Every stored curation.",
+      schema: Type.Object({ items: Type.Array(Curation) }),
+    },
+  },
+});
+
+export const getCurationContract = defineContract({
+  method: "get",
+  path: "/admin/apps/:location",
+  summary: "Read the curation of an app with its audit trail",
+  tags: ["Admin"],
+  scope: "admin",
+  params: LocationParams,
+  responses: {
+    200: {
+      description: "The curation and its audit trail, newest first.",
+      schema: Type.Composite([Curation, Type.Object({ audit: Type.Array(AuditEntry) })]),
+    },
+    404: noCuration,
+  },
+});
+
+export const replaceCurationContract = defineContract({
+  method: "put",
+  path: "/admin/apps/:location",
+  summary: "Create or replace the curation of an app",
+  description:
+    "Fields left out fall back to their defaults (not hidden, not featured, weight 0, no overrides).",
+  tags: ["Admin"],
+  scope: "admin",
+  params: LocationParams,
+  body: CurationBody,
+  responses: {
+    200: { description: "The saved curation.", schema: Curation },
+    400: invalidCuration,
+  },
+});
+
+export const updateCurationContract = defineContract({
+  ...replaceCurationContract,
+  method: "patch",
+  summary: "Change some fields of the curation of an app",
+  description: "Only the given fields change; overrides are merged key by key.",
+});
+
+export const deleteCurationContract = defineContract({
+  method: "delete",
+  path: "/admin/apps/:location",
+  summary: "Remove the curation of an app",
+  tags: ["Admin"],
+  scope: "admin",
+  params: LocationParams,
+  responses: {
+    204: { description: "The curation was removed." },
+    404: noCuration,
+  },
+});
+
+export const getAuditTrailContract = defineContract({
+  method: "get",
+  path: "/admin/audit",
+  summary: "Read the curation audit trail",
+  description: "Who changed which curation fields and when, newest first.",
+  tags: ["Admin"],
+  scope: "admin",
+  query: Type.Object(
+    { limit: Type.Optional(LimitParam(1000, DEFAULT_AUDIT_LIMIT)) },
+    { additionalProperties: false }
+  ),
+  responses: {
+    200: {
+      description: "The most recent audit entries.",
+      schema: Type.Object({ items: Type.Array(AuditEntry) }),
+    },
+  },
+});
+
+const RateLimitPolicy = Type.Object(
+  {
+    capacity: Type.Integer({ minimum: 1, description: "The largest burst of requests." }),
+    refillPerSecond: Type.Number({
+      exclusiveMinimum: 0,
+      description: "How many requests per second the allowance grows by.",
+    }),
+  },
+  { additionalProperties: false }
+);
+
+const apiKeyProperties = {
+  name: Type.String({ minLength: 1, maxLength: 100, examples: ["storefront"] }),
+  scopes: Type.Array(Type.Union(SCOPES.map((scope) => Type.Literal(scope))), {
+    minItems: 1,
+    uniqueItems: true,
+  }),
+  rateLimit: Type.Optional(RateLimitPolicy),
+};
+
+const ApiKeySchema = Type.Object(
+  {
+    id: Type.String(),
+    ...apiKeyProperties,
+    createdAt: Type.String(),
+    createdBy: Type.String(),
+  },
+  { $id: "ApiKey" }
+);
+
+export const listApiKeysContract = defineContract({
+  method: "get",
+  path: "/admin/api-keys",
+  summary: "List the API keys",
+  description: "Secrets are never shown again after a key was created.",
+  tags: ["Admin"],
+  scope: "admin",
+  responses: {
+    200: {
+      description: "Every API key.",
+      schema: Type.Object({ items: Type.Array(ApiKeySchema) }),
+    },
+  },
+});
+
+export const createApiKeyContract = defineContract({
+  method: "post",
+  path: "/admin/api-keys",
+  summary: "Create an API key",
+  description:
+    "Send the key as `X-API-Key` or as a bearer token. Without `rateLimit`, the key gets the default rate limit.",
+  tags: ["Admin"],
+  scope: "admin",
+  body: Type.Object(apiKeyProperties, { $id: "ApiKeyInput", additionalProperties: false }),
+  responses: {
+    201: {
+      description: "The new key, with its secret. Store it now; it can't be read again.",
+      schema: Type.Composite([ApiKeySchema, Type.Object({ key: Type.String() })]),
+    },
+  },
+});
+
+export const revokeApiKeyContract = defineContract({
+  method: "delete",
+  path: "/admin/api-keys/:id",
+  summary: "Revoke an API key",
+  tags: ["Admin"],
+  scope: "admin",
+  params: Type.Object({ id: Type.String() }),
+  responses: {
+    204: { description: "The key was deleted and no longer works." },
+    404: problemResponse("There is no such API key."),
+  },
+});
@@ -0,0 +1,358 @@
+import { Static, Type } from "@sinclair/typebox";
+import { APP_SORT_FIELDS, DEFAULT_APP_LIMIT } from "../../../application/services/appQuery";
+import { defineContract } from "../openapi/routeContract";
+import {
+  LocationParam,
+  LocationParams,
+  TagQuery,
+  notModifiedResponse,
+  problemResponse,
+} from "./common";
+
+const Platform = Type.String({ examples: ["linux/arm64/v8"] });
+
+const Signature = Type.Object(
+  {
+    status: Type.Union([
+      Type.Literal("verified"),
+      Type.Literal("unverified"),
+      Type.Literal("unsigned"),
+    ]),
+    keyId: Type.Optional(Type.String()),
+    reason: Type.Optional(Type.String()),
+  },
+  { $id: "SignatureVerification" }
+);
+
+export const CatalogWarningSchema = Type.Object(
+  {
+    source: Type.Optional(Type.String()),
+    location: Type.Optional(Type.String()),
+    type: Type.String({ examples: ["registry-unavailable"] }),
+    reason: Type.String(),
+  },
+  { $id: "CatalogWarning", description: "An app or catalog source that could not be read." }
+);
+
+const appProperties = {
+  name: Type.String({ examples: ["My Awesome App"] }),
+  location: Type.String({ examples: ["abdelrahmanelbadawy1/my-app"] }),
+  description: Type.String(),
+  pictureUrl: Type.String({ description: "The icon, served by this API." }),
+  screenshots: Type.Array(Type.String(), { description: "Screenshots, served by this API." }),
+  tag: Type.Optional(Type.String({ description: "The tag the metadata was read from." })),
+  platforms: Type.Array(Platform),
+  version: Type.Optional(Type.String()),
+  vendor: Type.Optional(Type.String()),
+  licenses: Type.Optional(Type.String()),
+  sourceUrl: Type.Optional(Type.String()),
+  documentationUrl: Type.Optional(Type.String()),
+  homepage: Type.Optional(Type.String()),
+  authors: Type.Optional(Type.String()),
+  created: Type.Optional(Type.String()),
+  category: Type.Optional(Type.String()),
+  source: Type.Optional(Type.String({ description: "The catalog source the app was found through." })),
+  keywords: Type.Array(Type.String()),
+  minimumResources: Type.Optional(
+    Type.Object({ cpus: Type.Optional(Type.Number()), memoryMb: Type.Optional(Type.Number()) })
+  ),
+  starCount: Type.Optional(Type.Integer()),
+  pullCount: Type.Optional(Type.Integer()),
+  lastUpdated: Type.Optional(Type.String()),
+  private: Type.Optional(
+    Type.Boolean({ description: "Only shown to callers with the `catalog:read-private` scope." })
+  ),
+  signature: Type.Optional(Signature),
+  warnings: Type.Array(Type.String(), { description: "Problems found in the app's labels." }),
+};
+
+export const AppSchema = Type.Object(appProperties, { $id: "App" });
+export type AppDTO = Static<typeof AppSchema>;
+
+const Healthcheck = Type.Object({
+  test: Type.Array(Type.String()),
+  intervalSeconds: Type.Optional(Type.Number()),
+  timeoutSeconds: Type.Optional(Type.Number()),
+  retries: Type.Optional(Type.Integer()),
+  startPeriodSeconds: Type.Optional(Type.Number()),
+});
+
+const ImageDetails = Type.Object(
+  {
+    reference: Type.String({ description: "The name to pull the image by, without tag." }),
+    tag: Type.String(),
+    digest: Type.Union([Type.String(), Type.Null()]),
+    platform: Type.Union([Platform, Type.Null()]),
+    labels: Type.Record(Type.String(), Type.String()),
+    exposedPorts: Type.Array(Type.String()),
+    volumes: Type.Array(Type.String()),
+    env: Type.Record(Type.String(), Type.String()),
+    entrypoint: Type.Array(Type.String()),
+    cmd: Type.Array(Type.String()),
+    user: Type.Optional(Type.String()),
+    healthcheck: Type.Optional(Healthcheck),
+    architecture: Type.Optional(Type.String()),
+    os: Type.Optional(Type.String()),
+    created: Type.Optional(Type.String()),
+    compressedSize: Type.Integer(),
+  },
+  { $id: "ImageDetails" }
+);
+
+const supplyChainDocumentProperties = {
+  kind: Type.Union([Type.Literal("sbom"), Type.Literal("provenance")]),
+  type: Type.String({ description: "The in-toto predicate type or artifact type." }),
+  mediaType: Type.String(),
+  digest: Type.String(),
+  size: Type.Optional(Type.Integer()),
+  source: Type.Union([Type.Literal("referrers"), Type.Literal("attestation")]),
+};
+
+const SupplyChainDocument = Type.Object(supplyChainDocumentProperties, {
+  $id: "SupplyChainDocument",
+});
+
+const SupplyChainDetails = Type.Object(
+  {
+    subjectDigest: Type.String(),
+    signature: Signature,
+    sboms: Type.Array(SupplyChainDocument),
+    provenance: Type.Array(SupplyChainDocument),
+  },
+  { $id: "SupplyChainDetails" }
+);
+
+const registryUnavailable = problemResponse("The registry could not be reached.");
+
+// Only sha256 digests are used for SBOM and provenance blobs
+const Digest = Type.String({
+  pattern: "^sha256:[a-f0-9]{64}$",
+  examples: ["sha256:4f53cda18c2baa0c0354bb5f9a3ecbe5ed12ab4d8e11ba873c2f11161202b945"],
+});
+
+export const listAppsContract = defineContract({
+  method: "get",
+  path: "/apps",
+  summary: "Search the app catalog",
+  description:
+    "Serves the cached catalog, filtered, sorted and paginated (`page` or `cursor`, not both). `partial` is true when some apps or catalog sources could not be read; `warnings` says which. The `Age` header tells how old the catalog snapshot is, `Last-Modified` when its content last changed.",
+  tags: ["Apps"],
+  scope: "catalog:read",
+  query: Type.Object(
+    {
+      search: Type.Optional(
+        Type.String({ maxLength: 200, description: "Matches name, location and description." })
+      ),
+      category: Type.Optional(Type.String({ maxLength: 200 })),
+      vendor: Type.Optional(Type.String({ maxLength: 200 })),
+      architecture: Type.Optional(Type.String({ maxLength: 200, examples: ["arm64"] })),
+      featured: Type.Optional(Type.Boolean()),
+      source: Type.Optional(Type.String({ maxLength: 200, description: "Id of a catalog source." })),
+      sort: Type.Optional(
+        Type.Union(
+          APP_SORT_FIELDS.map((field) => Type.Literal(field)),
+          { default: "name" }
+        )
+      ),
+      order: Type.Optional(
+        Type.Union([Type.Literal("asc"), Type.Literal("desc")], {
+          description: "Defaults to `asc` for names and `desc` otherwise.",
+        })
+      ),
+      page: Type.Optional(Type.Integer({ minimum: 1 })),
+      limit: Type.Optional(Type.Integer({ minimum: 1, maximum: 100, default: DEFAULT_APP_LIMIT })),
+      cursor: Type.Optional(
+        Type.String({ maxLength: 200, description: "`nextCursor` of the previous page." })
+      ),
+    },
+    { additionalProperties: false }
+  ),
+  responses: {
+    200: {
+      description: "One page of apps.",
+      schema: Type.Object({
+        items: Type.Array(AppSchema),
+        total: Type.Integer(),
+        limit: Type.Integer(),
+        page: Type.Optional(Type.Integer()),
+        nextCursor: Type.Union([Type.String(), Type.Null()]),
+        partial: Type.Boolean(),
+        warnings: Type.Array(CatalogWarningSchema),
+      }),
+    },
+    304: notModifiedResponse,
+    502: problemResponse("The catalog has never been loaded and the registry could not be reached."),
+  },
+});
+
+export const getAppContract = defineContract({
+  method: "get",
+  path: "/apps/:location",
+  summary: "Retrieve the details of one application",
+  description:
+    "Fetches tags, manifest digest and image configuration live from the registry.",
+  tags: ["Apps"],
+  scope: "catalog:read",
+  params: LocationParams,
+  query: TagQuery("Tag to inspect. Defaults to `latest`, else the first tag."),
+  responses: {
+    200: {
+      description: "The application details.",
+      schema: Type.Object(
+        {
+          ...appProperties,
+          tags: Type.Array(Type.String()),
+          image: Type.Union([ImageDetails, Type.Null()]),
+          supplyChain: Type.Union([SupplyChainDetails, Type.Null()]),
+        },
+        { $id: "AppDetail" }
+      ),
+    },
+    304: notModifiedResponse,
+    404: problemResponse("The repository (or the requested tag) does not exist."),
+    502: registryUnavailable,
+  },
+});
+
+export const getAppTagsContract = defineContract({
+  method: "get",
+  path: "/apps/:location/tags",
+  summary: "List all tags of an application",
+  description:
+    "Returns every tag with digest, size, last push date and platforms. Semantic versions come first (highest first); `stableTag` is the tag picked by the configured stable tag policy.",
+  tags: ["Apps"],
+  scope: "catalog:read",
+  params: LocationParams,
+  responses: {
+    200: {
+      description: "The tags of the application.",
+      schema: Type.Object({
+        stableTag: Type.Union([Type.String(), Type.Null()]),
+        tags: Type.Array(
+          Type.Object(
+            {
+              name: Type.String(),
+              digest: Type.Optional(Type.String()),
+              size: Type.Optional(Type.Integer()),
+              lastPushed: Type.Optional(Type.String()),
+              platforms: Type.Array(Platform),
+              semver: Type.Boolean(),
+              prerelease: Type.Boolean(),
+            },
+            { $id: "Tag" }
+          )
+        ),
+      }),
+    },
+    304: notModifiedResponse,
+    404: problemResponse("The repository does not exist."),
+    502: registryUnavailable,
+  },
+});
+
+const installPortProtocol = Type.Union([Type.Literal("tcp"), Type.Literal("udp")]);
+
+export const getAppInstallContract = defineContract({
+  method: "get",
+  path: "/apps/:location/install",
+  summary: "Generate install snippets for an application",
+  description:
+    "Builds a `docker run` command and a docker-compose service from the image configuration (ports, volumes, environment, user, healthcheck) and the `com.app-store.required-env` / `com.app-store.ports` hints. Required environment variables are flagged, and every volume gets a generated named volume.",
+  tags: ["Apps"],
+  scope: "catalog:read",
+  params: LocationParams,
+  query: TagQuery("Tag to install. Defaults to the stable tag."),
+  responses: {
+    200: {
+      description: "The install plan with `dockerRun` and `compose` snippets.",
+      schema: Type.Object(
+        {
+          serviceName: Type.String(),
+          image: Type.String({ description: "Full image reference including the tag." }),
+          digest: Type.Union([Type.String(), Type.Null()]),
+          env: Type.Array(
+            Type.Object({
+              name: Type.String(),
+              defaultValue: Type.Optional(Type.String()),
+              required: Type.Boolean(),
+            })
+          ),
+          ports: Type.Array(
+            Type.Object({
+              hostPort: Type.Integer(),
+              containerPort: Type.Integer(),
+              protocol: installPortProtocol,
+            })
+          ),
+          volumes: Type.Array(Type.Object({ name: Type.String(), mountPath: Type.String() })),
+          user: Type.Optional(Type.String()),
+          healthcheck: Type.Optional(Healthcheck),
+          dockerRun: Type.String(),
+          compose: Type.String(),
+          warnings: Type.Array(Type.String()),
+        },
+        { $id: "InstallPlan" }
+      ),
+    },
+    304: notModifiedResponse,
+    404: problemResponse("The repository or tag does not exist, or there are no tags."),
+    502: registryUnavailable,
+  },
+});
+
+export const getSupplyChainDocumentContract = defineContract({
+  method: "get",
+  path: "/apps/:location/supply-chain/:digest",
+  summary: "Read an SBOM or provenance document of an application",
+  description:
+    "Returns the content of one of the documents listed under `supplyChain` in the app details. Only digests of those documents are served.",
+  tags: ["Apps"],
+  scope: "catalog:read",
+  params: Type.Object({ location: LocationParam, digest: Digest }),
+  query: TagQuery("Tag whose image the document belongs to. Defaults to the stable tag."),
+  responses: {
+    200: {
+      description:
+        "The document metadata and its content: parsed if the document is JSON, as text otherwise.",
+      schema: Type.Object({ ...supplyChainDocumentProperties, content: Type.Unknown() }),
+    },
+    404: problemResponse("The app, tag or document does not exist."),
+    502: registryUnavailable,
+  },
+});
+
+const imageResponses = (subject: string) => ({
+  200: { description: `The ${subject}.`, contentType: "image/*" },
+  304: { description: `The ${subject} has not changed.` },
+});
+
+export const getAppIconContract = defineContract({
+  method: "get",
+  path: "/apps/:location/icon",
+  summary: "Retrieve the icon of an application",
+  description:
+    "Serves the icon from `com.app-store.picture-url` (a URL or data URI) after validating its type and size, cached on disk. Apps without a valid icon get a generated identicon. Supports `If-None-Match`.",
+  tags: ["Apps"],
+  scope: "catalog:read",
+  params: LocationParams,
+  responses: {
+    ...imageResponses("icon (PNG, JPEG, GIF, WebP or SVG)"),
+    404: problemResponse("The app is not in the catalog."),
+  },
+});
+
+export const getAppScreenshotContract = defineContract({
+  method: "get",
+  path: "/apps/:location/screenshots/:index",
+  summary: "Retrieve a screenshot of an application",
+  description:
+    "Serves the screenshot at the given position in `com.app-store.screenshots`, validated and cached on disk like icons. Supports `If-None-Match`.",
+  tags: ["Apps"],
+  scope: "catalog:read",
+  params: Type.Object({ location: LocationParam, index: Type.Integer({ minimum: 0 }) }),
+  responses: {
+    ...imageResponses("screenshot"),
+    404: problemResponse("The app or screenshot does not exist."),
+    502: problemResponse("The screenshot could not be fetched or is not a valid image."),
+  },
+});
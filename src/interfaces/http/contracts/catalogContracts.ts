@@ -0,0 +1,38 @@
+import { Type } from "@sinclair/typebox";
+import { EXPORT_FORMATS } from "../../../domain/models/CatalogExport";
+import { FEED_SIZE } from "../../../domain/services/catalogExport";
+import { defineContract } from "../openapi/routeContract";
+import { notModifiedResponse } from "./common";
+
+export const exportCatalogContract = defineContract({
+  method: "get",
+  path: "/catalog/export",
+  summary: "Export the catalog for other tools",
+  description: [
+    "Renders the cached catalog in the format given by `format`:",
+    "",
+    "- `portainer-v2`, `portainer-v3`: a Portainer app template file (also read by Yacht) with one container template per app. Image, ports, volumes and variables come from the image config and install hint labels; title, description, categories and maintainer from the labels. Logos point at the icon proxy.",
+    "- `csv`: one row per app.",
+    `- \`atom\`: an Atom feed of the ${FEED_SIZE} most recently updated apps. Apps without a push date or \`org.opencontainers.image.created\` label are left out.`,
+    "",
+    "`Last-Modified` tells when the catalog content last changed.",
+  ].join("\n"),
+  tags: ["Catalog"],
+  scope: "catalog:read",
+  query: Type.Object(
+    {
+      format: Type.Union(
+        EXPORT_FORMATS.map((format) => Type.Literal(format)),
+        { description: "The format to render." }
+      ),
+    },
+    { additionalProperties: false }
+  ),
+  responses: {
+    200: {
+      description: "The catalog in the requested format.",
+      contentType: ["application/json", "text/csv", "application/atom+xml"],
+    },
+    304: notModifiedResponse,
+  },
+});
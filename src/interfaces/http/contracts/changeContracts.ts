@@ -0,0 +1,82 @@
+import { Type } from "@sinclair/typebox";
+import { defineContract } from "../openapi/routeContract";
+import { LimitParam, problemResponse } from "./common";
+
+export const DEFAULT_CHANGE_LIMIT = 100;
+
+const Since = (description: string) =>
+  Type.Optional(Type.String({ description, examples: ["42"] }));
+
+const CatalogChangeSchema = Type.Object(
+  {
+    id: Type.Integer({ description: "Increases with every change." }),
+    detectedAt: Type.String(),
+    type: Type.Union([
+      Type.Literal("app_added"),
+      Type.Literal("app_removed"),
+      Type.Literal("tag_added"),
+      Type.Literal("tag_digest_changed"),
+      Type.Literal("metadata_changed"),
+    ]),
+    location: Type.String(),
+    name: Type.String(),
+    source: Type.Optional(Type.String()),
+    private: Type.Optional(Type.Boolean()),
+    tag: Type.Optional(Type.String()),
+    digest: Type.Optional(Type.String()),
+    previousDigest: Type.Optional(Type.String()),
+    fields: Type.Optional(
+      Type.Array(Type.Object({ field: Type.String(), from: Type.Unknown(), to: Type.Unknown() }))
+    ),
+  },
+  { $id: "CatalogChange" }
+);
+
+export const listChangesContract = defineContract({
+  method: "get",
+  path: "/changes",
+  summary: "List catalog changes",
+  description:
+    "Changes found by comparing successive catalog snapshots - apps added or removed, tags added, tags moved to another digest and changed metadata. Oldest first; only the most recent changes are kept.",
+  tags: ["Changes"],
+  scope: "catalog:read",
+  query: Type.Object(
+    {
+      since: Since(
+        "Id of the last change seen, or an ISO 8601 timestamp. Without it the most recent changes are returned."
+      ),
+      limit: Type.Optional(LimitParam(1000, DEFAULT_CHANGE_LIMIT)),
+    },
+    { additionalProperties: false }
+  ),
+  responses: {
+    200: {
+      description:
+        "The changes, the newest change id, whether more follow and whether changes after `since` were already dropped from the log.",
+      schema: Type.Object({
+        changes: Type.Array(CatalogChangeSchema),
+        latestId: Type.Integer(),
+        hasMore: Type.Boolean(),
+        truncated: Type.Boolean(),
+      }),
+    },
+  },
+});
+
+export const streamChangesContract = defineContract({
+  method: "get",
+  path: "/changes/stream",
+  summary: "Stream catalog changes (Server-Sent Events)",
+  description:
+    "Sends every change as an event whose id is the change id and whose data is the change as JSON. Reconnecting clients (`Last-Event-ID`) or a `since` parameter get the changes they missed first; a `truncated` event means some of them are no longer in the log.",
+  tags: ["Changes"],
+  scope: "catalog:read",
+  query: Type.Object(
+    { since: Since("Id of the last change seen, or an ISO 8601 timestamp.") },
+    { additionalProperties: false }
+  ),
+  responses: {
+    200: { description: "An open event stream.", contentType: "text/event-stream" },
+    400: problemResponse("Invalid `since`."),
+  },
+});
@@ -0,0 +1,48 @@
+import { Type } from "@sinclair/typebox";
+import {
+  APP_LOCATION_MAX_LENGTH,
+  APP_LOCATION_PATTERN,
+} from "../../../domain/valueObjects/AppLocation";
+import { ResponseContract } from "../openapi/routeContract";
+
+// Every error is answered with an RFC 7807 problem (see errorHandler)
+export const ProblemDetailsSchema = Type.Object(
+  {
+    type: Type.String({ examples: ["urn:app-store:problem:not-found"] }),
+    title: Type.String(),
+    status: Type.Integer(),
+    detail: Type.String(),
+    instance: Type.String(),
+    // Every problem found, for validation errors
+    errors: Type.Optional(Type.Array(Type.String())),
+  },
+  { $id: "ProblemDetails" }
+);
+
+export const problemResponse = (description: string): ResponseContract => ({
+  description,
+  schema: ProblemDetailsSchema,
+  contentType: "application/problem+json",
+});
+
+// JSON responses carry a strong ETag; see app.ts
+export const notModifiedResponse: ResponseContract = {
+  description: "Nothing changed since the response whose ETag was sent in `If-None-Match`.",
+};
+
+// Checked before anything looks the repository up, see AppLocation
+export const LocationParam = Type.String({
+  description: "The app's repository. Slashes must be URL-encoded.",
+  pattern: APP_LOCATION_PATTERN,
+  maxLength: APP_LOCATION_MAX_LENGTH,
+  examples: ["abdelrahmanelbadawy1%2Fmy-app"],
+});
+
+export const LocationParams = Type.Object({ location: LocationParam });
+
+export const TagQuery = (description: string) =>
+  Type.Object({ tag: Type.Optional(Type.String({ description })) }, { additionalProperties: false });
+
+// An integer limit on a listing, sent as a query parameter
+export const LimitParam = (maximum: number, defaultValue: number) =>
+  Type.Integer({ minimum: 1, maximum, default: defaultValue });
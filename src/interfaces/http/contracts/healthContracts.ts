@@ -0,0 +1,54 @@
+import { Type } from "@sinclair/typebox";
+import { defineContract } from "../openapi/routeContract";
+
+const HealthCheck = Type.Object({ ok: Type.Boolean(), detail: Type.Optional(Type.String()) });
+
+const Readiness = Type.Object(
+  {
+    status: Type.Union([Type.Literal("ready"), Type.Literal("not ready")]),
+    checks: Type.Object({ catalog: HealthCheck, registry: HealthCheck }),
+  },
+  { $id: "Readiness" }
+);
+
+export const livenessContract = defineContract({
+  method: "get",
+  path: "/healthz",
+  summary: "Liveness probe",
+  description: "Answers as long as the process is running.",
+  tags: ["Operations"],
+  responses: {
+    200: {
+      description: "The process is alive.",
+      schema: Type.Object({ status: Type.Literal("ok") }),
+    },
+  },
+});
+
+export const readinessContract = defineContract({
+  method: "get",
+  path: "/readyz",
+  summary: "Readiness probe",
+  description:
+    "Ready once the last catalog refresh succeeded and the registry answers. The registry check is cached for a few seconds.",
+  tags: ["Operations"],
+  responses: {
+    200: { description: "Ready to serve traffic.", schema: Readiness },
+    503: { description: "Not ready; `checks` says which check failed.", schema: Readiness },
+  },
+});
+
+export const metricsContract = defineContract({
+  method: "get",
+  path: "/metrics",
+  summary: "Prometheus metrics",
+  description:
+    "Request counts and latency per route, registry call latency and status per endpoint type, catalog size and the time of the last successful refresh.",
+  tags: ["Operations"],
+  responses: {
+    200: {
+      description: "Metrics in the Prometheus text format.",
+      contentType: "text/plain; version=0.0.4",
+    },
+  },
+});
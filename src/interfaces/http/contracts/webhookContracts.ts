@@ -0,0 +1,25 @@
+import { Type } from "@sinclair/typebox";
+import { defineContract } from "../openapi/routeContract";
+import { problemResponse } from "./common";
+
+export const registryWebhookContract = defineContract({
+  method: "post",
+  path: "/webhooks/registry",
+  summary: "Receive push/delete notifications from a registry",
+  description:
+    "Accepts Docker Hub webhooks and registry:2 notification envelopes. Requests must carry the shared secret as an `X-Hub-Signature-256` HMAC, an `Authorization: Bearer` header or a `token` query parameter.",
+  tags: ["Webhooks"],
+  // The payload formats are the registries'; the parser recognizes them
+  query: Type.Object({
+    token: Type.Optional(Type.String({ description: "The shared secret." })),
+  }),
+  responses: {
+    202: {
+      description: "The events were accepted and the affected apps are being refreshed.",
+      schema: Type.Object({ accepted: Type.Integer() }),
+    },
+    400: problemResponse("The payload is not a known webhook format."),
+    401: problemResponse("The shared secret did not match."),
+    503: problemResponse("No webhook secret is configured."),
+  },
+});
@@ -0,0 +1,117 @@
+import { authService, curationService } from "../../../container";
+import { NotFoundError, ValidationError } from "../../../shared/errors";
+import logger from "../../../shared/logger";
+import {
+  DEFAULT_AUDIT_LIMIT,
+  createApiKeyContract,
+  deleteCurationContract,
+  getAuditTrailContract,
+  getCurationContract,
+  listApiKeysContract,
+  listCurationsContract,
+  replaceCurationContract,
+  revokeApiKeyContract,
+} from "../contracts/adminContracts";
+import { principalOf } from "../middleware/auth";
+import { ContractRequest, ContractResponse } from "../openapi/routeContract";
+import { validateCurationBody } from "../validators/curationValidator";
+
+export const listCurationsController = async (
+  _req: ContractRequest<typeof listCurationsContract>,
+  res: ContractResponse<typeof listCurationsContract>
+): Promise<void> => {
+  res.status(200).json({ items: await curationService.listCurations() });
+};
+
+export const getCurationController = async (
+  req: ContractRequest<typeof getCurationContract>,
+  res: ContractResponse<typeof getCurationContract>
+): Promise<void> => {
+  const { location } = req.params;
+
+  const result = await curationService.getCuration(location);
+  if (!result) {
+    throw new NotFoundError(`No curation for app '${location}'.`);
+  }
+  res.status(200).json({ ...result.curation, audit: result.audit });
+};
+
+/**
+ * PUT replaces the whole curation (omitted fields fall back to defaults),
+ * PATCH only changes the given fields.
+ */
+const saveCuration =
+  (mode: "replace" | "update") =>
+  async (
+    req: ContractRequest<typeof replaceCurationContract>,
+    res: ContractResponse<typeof replaceCurationContract>
+  ): Promise<void> => {
+    const { location } = req.params;
+    const actor = principalOf(res).name;
+
+    const validation = validateCurationBody(req.body);
+    if (!validation.valid) {
+      throw new ValidationError("Invalid curation.", validation.errors);
+    }
+
+    const curation =
+      mode === "replace"
+        ? await curationService.replaceCuration(location, validation.patch, actor)
+        : await curationService.updateCuration(location, validation.patch, actor);
+    logger.info(`${actor} curated ${location}`);
+    res.status(200).json(curation);
+  };
+
+export const replaceCurationController = saveCuration("replace");
+export const updateCurationController = saveCuration("update");
+
+export const deleteCurationController = async (
+  req: ContractRequest<typeof deleteCurationContract>,
+  res: ContractResponse<typeof deleteCurationContract>
+): Promise<void> => {
+  const { location } = req.params;
+  const actor = principalOf(res).name;
+
+  const removed = await curationService.removeCuration(location, actor);
+  if (!removed) {
+    throw new NotFoundError(`No curation for app '${location}'.`);
+  }
+  logger.info(`${actor} removed the curation of ${location}`);
+  res.status(204).end();
+};
+
+export const getAuditTrailController = async (
+  req: ContractRequest<typeof getAuditTrailContract>,
+  res: ContractResponse<typeof getAuditTrailContract>
+): Promise<void> => {
+  const limit = req.query.limit ?? DEFAULT_AUDIT_LIMIT;
+  res.status(200).json({ items: await curationService.getAuditTrail(limit) });
+};
+
+export const listApiKeysController = async (
+  _req: ContractRequest<typeof listApiKeysContract>,
+  res: ContractResponse<typeof listApiKeysContract>
+): Promise<void> => {
+  res.status(200).json({ items: await authService.listApiKeys() });
+};
+
+export const createApiKeyController = async (
+  req: ContractRequest<typeof createApiKeyContract>,
+  res: ContractResponse<typeof createApiKeyContract>
+): Promise<void> => {
+  const { apiKey, key } = await authService.createApiKey(req.body, principalOf(res).name);
+  res.status(201).json({ ...apiKey, key });
+};
+
+export const revokeApiKeyController = async (
+  req: ContractRequest<typeof revokeApiKeyContract>,
+  res: ContractResponse<typeof revokeApiKeyContract>
+): Promise<void> => {
+  const { id } = req.params;
+
+  const revoked = await authService.revokeApiKey(id, principalOf(res).name);
+  if (!revoked) {
+    throw new NotFoundError(`No API key '${id}'.`);
+  }
+  res.status(204).end();
+};
@@ -1,24 +1,212 @@
-import { Request, Response } from "express";
-import { AppService } from "../../../application/services/appService";
-import { AppRepository } from "../../../infrastructure/repositories/appRepository";
-import { DockerRegistryClient } from "../../../infrastructure/registry/dockerRegistryClient";
+import {
+  AppQuery,
+  DEFAULT_APP_LIMIT,
+  decodeCursor,
+} from "../../../application/services/appQuery";
+import { appService } from "../../../container";
+import { App } from "../../../domain/models/App";
+import { formatPlatform } from "../../../domain/models/Platform";
+import { parseSemver } from "../../../domain/services/tagPolicy";
+import { CatalogCache } from "../../../infrastructure/cache/catalogCache";
+import { NotFoundError, ValidationError } from "../../../shared/errors";
+import {
+  AppDTO,
+  getAppContract,
+  getAppInstallContract,
+  getAppTagsContract,
+  getSupplyChainDocumentContract,
+  listAppsContract,
+} from "../contracts/appContracts";
+import { canReadPrivate } from "../middleware/auth";
+import { ContractRequest, ContractResponse } from "../openapi/routeContract";
 
-// Instantiate dependencies. In a real app, you would use a Dependency Injection container.
-const dockerClient = new DockerRegistryClient();
-const appRepository = new AppRepository(dockerClient);
-const appService = new AppService(appRepository);
+// Icons and screenshots are served through our image proxy
+const getMediaPath = (app: App) =>
+  `/api/apps/${encodeURIComponent(app.location.value)}`;
+
+// Catalog responses may be stored, but must be revalidated (If-None-Match)
+// before reuse, since the catalog changes without notice
+const CATALOG_CACHE_CONTROL = "no-cache";
+
+// Map domain objects to a simpler DTO for the response
+const toAppDTO = (app: App): AppDTO => ({
+  name: app.name,
+  location: app.location.value,
+  description: app.description,
+  pictureUrl: `${getMediaPath(app)}/icon`,
+  screenshots: app.screenshots.map(
+    (_, index) => `${getMediaPath(app)}/screenshots/${index}`
+  ),
+  tag: app.tag,
+  platforms: app.platforms.map(formatPlatform),
+  version: app.version,
+  vendor: app.vendor,
+  licenses: app.licenses,
+  sourceUrl: app.sourceUrl,
+  documentationUrl: app.documentationUrl,
+  homepage: app.homepage,
+  authors: app.authors,
+  created: app.created,
+  category: app.category,
+  source: app.source,
+  keywords: app.keywords,
+  minimumResources: app.minimumResources,
+  starCount: app.starCount,
+  pullCount: app.pullCount,
+  lastUpdated: app.lastUpdated,
+  private: app.private,
+  signature: app.signature,
+  warnings: app.warnings,
+});
+
+/**
+ * Fills in the defaults of a catalog search. The contract has checked every
+ * parameter; only the rules that span parameters are left.
+ */
+function toAppQuery(query: ContractRequest<typeof listAppsContract>["query"]): AppQuery {
+  if (query.page !== undefined && query.cursor !== undefined) {
+    throw new ValidationError("Invalid request.", ["Use either 'page' or 'cursor', not both."]);
+  }
+  if (query.cursor !== undefined && decodeCursor(query.cursor) === null) {
+    throw new ValidationError("Invalid request.", ["Query parameter 'cursor' is invalid."]);
+  }
+
+  const sort = query.sort ?? "name";
+  return {
+    search: query.search?.trim() || undefined,
+    category: query.category?.trim() || undefined,
+    vendor: query.vendor?.trim() || undefined,
+    architecture: query.architecture?.trim() || undefined,
+    featured: query.featured,
+    source: query.source?.trim() || undefined,
+    sort,
+    // Names read naturally A-Z, numbers and dates are most useful highest first
+    order: query.order ?? (sort === "name" ? "asc" : "desc"),
+    limit: query.limit ?? DEFAULT_APP_LIMIT,
+    page: query.page,
+    cursor: query.cursor || undefined,
+  };
+}
 
 export const getAllAppsController = async (
-  req: Request,
-  res: Response
+  req: ContractRequest<typeof listAppsContract>,
+  res: ContractResponse<typeof listAppsContract>
+): Promise<void> => {
+  // Only fails when no snapshot has ever been loaded
+  const { page, snapshot } = await appService.searchApps(
+    toAppQuery(req.query),
+    canReadPrivate(res)
+  );
+
+  // Report how old the served snapshot is
+  res.set("Age", String(CatalogCache.getAgeSeconds(snapshot)));
+  res.set("Last-Modified", snapshot.changedAt.toUTCString());
+  res.set("Cache-Control", CATALOG_CACHE_CONTROL);
+  res.status(200).json({
+    items: page.items.map(toAppDTO),
+    total: page.total,
+    limit: page.limit,
+    page: page.page,
+    nextCursor: page.nextCursor,
+    // Apps or catalog sources that could not be read from the registry
+    partial: snapshot.warnings.length > 0,
+    warnings: snapshot.warnings,
+  });
+};
+
+export const getAppDetailController = async (
+  req: ContractRequest<typeof getAppContract>,
+  res: ContractResponse<typeof getAppContract>
+): Promise<void> => {
+  const { location } = req.params;
+  const { tag } = req.query;
+
+  const app = await appService.getAppDetail(location, tag, canReadPrivate(res));
+  if (!app) {
+    throw new NotFoundError(
+      tag ? `App '${location}' with tag '${tag}' not found.` : `App '${location}' not found.`
+    );
+  }
+
+  res.set("Cache-Control", CATALOG_CACHE_CONTROL);
+  res.status(200).json({
+    ...toAppDTO(app),
+    tags: app.tags,
+    image: app.image && {
+      ...app.image,
+      platform: app.image.platform && formatPlatform(app.image.platform),
+    },
+    supplyChain: app.supplyChain,
+  });
+};
+
+export const getAppInstallController = async (
+  req: ContractRequest<typeof getAppInstallContract>,
+  res: ContractResponse<typeof getAppInstallContract>
 ): Promise<void> => {
-  const apps = await appService.getAllApps();
-  // Map domain objects to a simpler DTO for the response
-  const appDTOs = apps.map((app) => ({
-    name: app.name,
-    location: app.location.value,
-    description: app.description,
-    pictureUrl: app.pictureUrl,
-  }));
-  res.status(200).json(appDTOs);
+  const { location } = req.params;
+  const { tag } = req.query;
+
+  const plan = await appService.getInstallPlan(location, tag, canReadPrivate(res));
+  if (!plan) {
+    throw new NotFoundError(
+      tag
+        ? `App '${location}' with tag '${tag}' not found.`
+        : `App '${location}' not found or has no tags.`
+    );
+  }
+
+  res.set("Cache-Control", CATALOG_CACHE_CONTROL);
+  res.status(200).json(plan);
+};
+
+export const getSupplyChainDocumentController = async (
+  req: ContractRequest<typeof getSupplyChainDocumentContract>,
+  res: ContractResponse<typeof getSupplyChainDocumentContract>
+): Promise<void> => {
+  const { location, digest } = req.params;
+  const { tag } = req.query;
+
+  const result = await appService.getSupplyChainDocument(
+    location,
+    digest,
+    tag,
+    canReadPrivate(res)
+  );
+  if (!result) {
+    throw new NotFoundError(
+      `No SBOM or provenance document '${digest}' found for app '${location}'.`
+    );
+  }
+
+  res.status(200).json({ ...result.document, content: result.content });
+};
+
+export const getAppTagsController = async (
+  req: ContractRequest<typeof getAppTagsContract>,
+  res: ContractResponse<typeof getAppTagsContract>
+): Promise<void> => {
+  const { location } = req.params;
+
+  const tagList = await appService.getAppTags(location, canReadPrivate(res));
+  if (!tagList) {
+    throw new NotFoundError(`App '${location}' not found.`);
+  }
+
+  res.set("Cache-Control", CATALOG_CACHE_CONTROL);
+  res.status(200).json({
+    stableTag: tagList.stableTag ?? null,
+    tags: tagList.tags.map((tag) => {
+      const version = parseSemver(tag.name);
+      return {
+        name: tag.name,
+        digest: tag.digest,
+        size: tag.size,
+        lastPushed: tag.lastPushed,
+        platforms: tag.platforms.map(formatPlatform),
+        semver: version !== null,
+        prerelease: version !== null && version.prerelease.length > 0,
+      };
+    }),
+  });
 };
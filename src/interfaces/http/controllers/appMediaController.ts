@@ -0,0 +1,69 @@
+import { Request, Response } from "express";
+import { AppImage } from "../../../application/services/appMediaService";
+import { appMediaService } from "../../../container";
+import { AppError, NotFoundError, UpstreamError } from "../../../shared/errors";
+import { getAppIconContract, getAppScreenshotContract } from "../contracts/appContracts";
+import { canReadPrivate } from "../middleware/auth";
+import { ContractRequest, ContractResponse } from "../openapi/routeContract";
+
+// Clients may reuse an image for an hour before revalidating with its ETag;
+// images of private apps only in their own cache, not in shared ones
+const IMAGE_CACHE_CONTROL = "public, max-age=3600";
+const PRIVATE_IMAGE_CACHE_CONTROL = "private, max-age=3600";
+
+/**
+ * Sends an image with its ETag, answering conditional requests with 304.
+ */
+const sendImage = (req: Request<unknown>, res: Response, image: AppImage): void => {
+  res.set("ETag", image.etag);
+  res.set("Cache-Control", image.private ? PRIVATE_IMAGE_CACHE_CONTROL : IMAGE_CACHE_CONTROL);
+  res.set("X-Content-Type-Options", "nosniff");
+  if (image.contentType === "image/svg+xml") {
+    // SVGs may carry scripts; never let them run on our origin
+    res.set("Content-Security-Policy", "default-src 'none'; style-src 'unsafe-inline'; sandbox");
+  }
+
+  if (req.fresh) {
+    res.status(304).end();
+    return;
+  }
+
+  res.status(200).type(image.contentType).send(image.data);
+};
+
+export const getAppIconController = async (
+  req: ContractRequest<typeof getAppIconContract>,
+  res: ContractResponse<typeof getAppIconContract>
+): Promise<void> => {
+  const { location } = req.params;
+
+  // Broken icons fall back to an identicon, so only a missing catalog fails
+  const icon = await appMediaService.getIcon(location, canReadPrivate(res));
+  if (!icon) {
+    throw new NotFoundError(`App '${location}' not found.`);
+  }
+
+  sendImage(req, res, icon);
+};
+
+export const getAppScreenshotController = async (
+  req: ContractRequest<typeof getAppScreenshotContract>,
+  res: ContractResponse<typeof getAppScreenshotContract>
+): Promise<void> => {
+  const { location, index } = req.params;
+
+  let screenshot;
+  try {
+    screenshot = await appMediaService.getScreenshot(location, index, canReadPrivate(res));
+  } catch (error: any) {
+    if (error instanceof AppError) throw error;
+    // The image host failed or sent something that isn't a valid image
+    throw new UpstreamError(`Failed to load the screenshot: ${error.message}`, error);
+  }
+
+  if (!screenshot) {
+    throw new NotFoundError(`Screenshot ${index} of app '${location}' not found.`);
+  }
+
+  sendImage(req, res, screenshot);
+};
@@ -0,0 +1,30 @@
+import { catalogExportService } from "../../../container";
+import { CatalogCache } from "../../../infrastructure/cache/catalogCache";
+import { config } from "../../../shared/config";
+import { exportCatalogContract } from "../contracts/catalogContracts";
+import { canReadPrivate } from "../middleware/auth";
+import { ContractRequest, ContractResponse } from "../openapi/routeContract";
+
+export const exportCatalogController = async (
+  req: ContractRequest<typeof exportCatalogContract>,
+  res: ContractResponse<typeof exportCatalogContract>
+): Promise<void> => {
+  const { format } = req.query;
+
+  const { contentType, body, snapshot } = await catalogExportService.export(
+    format,
+    config.api.publicBaseUrl,
+    canReadPrivate(res)
+  );
+
+  res.set("Age", String(CatalogCache.getAgeSeconds(snapshot)));
+  res.set("Last-Modified", snapshot.changedAt.toUTCString());
+  // Stored copies must be revalidated, like the catalog itself
+  res.set("Cache-Control", "no-cache");
+  if (format === "csv") {
+    // Browsers save it instead of showing it
+    res.attachment("catalog.csv");
+  }
+  // The strong ETag and 304 answers come from Express
+  res.status(200).type(contentType).send(body);
+};
@@ -0,0 +1,104 @@
+import { ChangeCursor } from "../../../application/services/changeFeedService";
+import { changeFeedService } from "../../../container";
+import { CatalogChange } from "../../../domain/models/CatalogChange";
+import { ValidationError } from "../../../shared/errors";
+import {
+  DEFAULT_CHANGE_LIMIT,
+  listChangesContract,
+  streamChangesContract,
+} from "../contracts/changeContracts";
+import { canReadPrivate } from "../middleware/auth";
+import { ContractRequest, ContractResponse } from "../openapi/routeContract";
+// Proxies close connections that stay silent for too long
+const HEARTBEAT_INTERVAL_MS = 30_000;
+
+/**
+ * `since` is either the id of the last change a client saw or an ISO 8601
+ * timestamp.
+ */
+function parseSince(value: string | undefined): ChangeCursor | null {
+  if (value === undefined || value === "") return null;
+  if (/^\d+$/.test(value)) {
+    return { afterId: parseInt(value, 10) };
+  }
+  if (/^\d{4}-\d{2}-\d{2}/.test(value) && !isNaN(Date.parse(value))) {
+    return { after: new Date(value) };
+  }
+  throw new ValidationError("'since' must be a change id or an ISO 8601 timestamp.");
+}
+
+export const getChangesController = async (
+  req: ContractRequest<typeof listChangesContract>,
+  res: ContractResponse<typeof listChangesContract>
+): Promise<void> => {
+  const cursor = parseSince(req.query.since);
+  const limit = req.query.limit ?? DEFAULT_CHANGE_LIMIT;
+
+  res.status(200).json(await changeFeedService.getChanges(cursor, limit, canReadPrivate(res)));
+};
+
+/**
+ * Streams catalog changes as Server-Sent Events. A reconnecting EventSource
+ * sends the id of the last event it received as `Last-Event-ID`, and the
+ * changes it missed are replayed before the live ones.
+ */
+export const streamChangesController = async (
+  req: ContractRequest<typeof streamChangesContract>,
+  res: ContractResponse<typeof streamChangesContract>
+): Promise<void> => {
+  const cursor = parseSince(req.query.since ?? req.get("Last-Event-ID"));
+  const includePrivate = canReadPrivate(res);
+
+  res.status(200).set({
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+    // Keep nginx from buffering the stream
+    "X-Accel-Buffering": "no",
+  });
+  res.flushHeaders();
+
+  let lastSentId = 0;
+  const send = (changes: CatalogChange[]) => {
+    for (const change of changes) {
+      if (change.id <= lastSentId || (change.private && !includePrivate)) continue;
+      res.write(`id: ${change.id}\ndata: ${JSON.stringify(change)}\n\n`);
+      lastSentId = change.id;
+    }
+  };
+
+  // Subscribe before replaying so nothing recorded in between is lost;
+  // live changes wait until the replay is written
+  let buffered: CatalogChange[] | null = [];
+  const unsubscribe = changeFeedService.subscribe((changes) => {
+    if (buffered) {
+      buffered.push(...changes);
+    } else {
+      send(changes);
+    }
+  });
+  const heartbeat = setInterval(() => res.write(": keep-alive\n\n"), HEARTBEAT_INTERVAL_MS);
+  req.on("close", () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+  });
+
+  try {
+    if (cursor) {
+      const replay = await changeFeedService.getChanges(
+        cursor,
+        Number.MAX_SAFE_INTEGER,
+        includePrivate
+      );
+      if (replay.truncated) {
+        // The client missed changes that are gone from the log and should reload the catalog
+        res.write(`event: truncated\ndata: ${JSON.stringify({ latestId: replay.latestId })}\n\n`);
+      }
+      send(replay.changes);
+    }
+  } finally {
+    const pending = buffered;
+    buffered = null;
+    send(pending);
+  }
+};
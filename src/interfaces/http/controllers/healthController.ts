@@ -0,0 +1,38 @@
+import { healthService } from "../../../container";
+import logger from "../../../shared/logger";
+import metrics from "../../../shared/metrics";
+import {
+  livenessContract,
+  metricsContract,
+  readinessContract,
+} from "../contracts/healthContracts";
+import { ContractRequest, ContractResponse } from "../openapi/routeContract";
+
+export const livenessController = (
+  _req: ContractRequest<typeof livenessContract>,
+  res: ContractResponse<typeof livenessContract>
+): void => {
+  // The process answers, that's all liveness means
+  res.status(200).json({ status: "ok" });
+};
+
+export const readinessController = async (
+  _req: ContractRequest<typeof readinessContract>,
+  res: ContractResponse<typeof readinessContract>
+): Promise<void> => {
+  const readiness = await healthService.getReadiness();
+  if (!readiness.ready) {
+    logger.warn("Readiness check failed", { checks: readiness.checks });
+  }
+
+  res
+    .status(readiness.ready ? 200 : 503)
+    .json({ status: readiness.ready ? "ready" : "not ready", checks: readiness.checks });
+};
+
+export const metricsController = (
+  _req: ContractRequest<typeof metricsContract>,
+  res: ContractResponse<typeof metricsContract>
+): void => {
+  res.status(200).type("text/plain; version=0.0.4; charset=utf-8").send(metrics.render());
+};
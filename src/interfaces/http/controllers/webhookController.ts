@@ -0,0 +1,51 @@
+import { webhookService } from "../../../container";
+import { parseRegistryWebhook } from "../../../infrastructure/webhooks/registryWebhookParser";
+import { verifyWebhook } from "../../../infrastructure/webhooks/webhookSignature";
+import { config } from "../../../shared/config";
+import {
+  ServiceUnavailableError,
+  UnauthorizedError,
+  ValidationError,
+} from "../../../shared/errors";
+import logger from "../../../shared/logger";
+import { registryWebhookContract } from "../contracts/webhookContracts";
+import { ContractRequest, ContractResponse } from "../openapi/routeContract";
+
+// The JSON body parser in app.ts keeps the raw body for signature checks
+type RawBody = { rawBody?: Buffer };
+
+export const registryWebhookController = async (
+  req: ContractRequest<typeof registryWebhookContract>,
+  res: ContractResponse<typeof registryWebhookContract>
+): Promise<void> => {
+  if (!config.webhooks.secret) {
+    throw new ServiceUnavailableError("Webhooks are not configured.");
+  }
+
+  const verified = verifyWebhook(config.webhooks.secret, {
+    rawBody: (req as unknown as RawBody).rawBody,
+    signature: req.get("X-Hub-Signature-256"),
+    authorization: req.get("Authorization"),
+    token: req.query.token,
+  });
+  if (!verified) {
+    logger.warn(`Rejected registry webhook from ${req.ip}: invalid secret`);
+    throw new UnauthorizedError("Invalid webhook signature or secret.");
+  }
+
+  const events = parseRegistryWebhook(req.body);
+  if (!events) {
+    throw new ValidationError("Unrecognized webhook payload.");
+  }
+
+  logger.info(`Received ${events.length} registry event(s) via webhook`, {
+    events,
+  });
+
+  // Answer right away; registries don't wait long for webhook responses
+  webhookService.handleEvents(events).catch((error) => {
+    logger.error("Failed to handle registry webhook:", error);
+  });
+
+  res.status(202).json({ accepted: events.length });
+};
@@ -0,0 +1,105 @@
+import { NextFunction, Request, RequestHandler, Response } from "express";
+import { authService, rateLimiter } from "../../../container";
+import { Principal, Scope, hasScope } from "../../../domain/models/Principal";
+import { config } from "../../../shared/config";
+import { ForbiddenError, TooManyRequestsError, UnauthorizedError } from "../../../shared/errors";
+import logger from "../../../shared/logger";
+import { asyncHandler } from "./errorHandler";
+import { getRequestPath } from "./requestContext";
+
+/**
+ * Resolves who is calling (see AuthService) and keeps it as
+ * `res.locals.principal`. Requests without credentials are anonymous.
+ * Refused credentials count against the client's address, so keys and
+ * tokens can't be guessed at the rate of the caller's own limit.
+ */
+export const authenticate = asyncHandler(async (req, res, next) => {
+  const credentials = {
+    authorization: req.get("Authorization"),
+    apiKey: req.get("X-API-Key"),
+    actor: req.get("X-Admin-Actor"),
+    ip: req.ip || "unknown",
+  };
+  const failures = `failed-auth:${credentials.ip}`;
+  const policy = config.auth.failedAuthLimit;
+
+  if (credentials.authorization !== undefined || credentials.apiKey !== undefined) {
+    const decision = rateLimiter.peek(failures, policy);
+    if (!decision.allowed) {
+      logger.warn(`Not checking credentials from ${credentials.ip}: too many were refused`);
+      throw new TooManyRequestsError(
+        `Too many refused credentials. Retry in ${decision.retryAfterSeconds} second(s).`,
+        decision.retryAfterSeconds
+      );
+    }
+  }
+
+  try {
+    res.locals.principal = await authService.authenticate(credentials);
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      rateLimiter.take(failures, policy);
+    }
+    throw error;
+  }
+  next();
+});
+
+// Only valid after `authenticate`
+export const principalOf = (res: Response): Principal => res.locals.principal;
+
+// Whether the caller may see apps from private repositories
+export const canReadPrivate = (res: Response): boolean =>
+  hasScope(principalOf(res), "catalog:read-private");
+
+/**
+ * Takes a token from the caller's bucket and reports the state of the bucket
+ * in `RateLimit-*` headers (IETF draft "RateLimit header fields for HTTP").
+ * Callers with an empty bucket get a 429 with `Retry-After`.
+ */
+export const rateLimit = (_req: Request, res: Response, next: NextFunction): void => {
+  const principal = principalOf(res);
+  const policy = principal.rateLimit || config.auth.rateLimit;
+  const decision = rateLimiter.take(principal.id, policy);
+
+  res.set({
+    "RateLimit-Limit": String(decision.limit),
+    "RateLimit-Remaining": String(decision.remaining),
+    "RateLimit-Reset": String(decision.resetSeconds),
+    // The window is the time an empty bucket takes to fill up
+    "RateLimit-Policy": `${policy.capacity};w=${Math.ceil(policy.capacity / policy.refillPerSecond)}`,
+  });
+
+  if (!decision.allowed) {
+    logger.warn(`Rate limited ${principal.name} (${principal.id})`);
+    next(
+      new TooManyRequestsError(
+        `Rate limit exceeded. Retry in ${decision.retryAfterSeconds} second(s).`,
+        decision.retryAfterSeconds
+      )
+    );
+    return;
+  }
+  next();
+};
+
+/**
+ * Lets the request through if the caller has the scope. Anonymous callers
+ * are asked for credentials (401); known callers are refused (403).
+ */
+export const requireScope =
+  (scope: Scope): RequestHandler =>
+  (req, res, next) => {
+    const principal = principalOf(res);
+    if (hasScope(principal, scope)) {
+      next();
+      return;
+    }
+
+    if (principal.kind === "anonymous") {
+      next(new UnauthorizedError(`Credentials with the '${scope}' scope are required.`));
+      return;
+    }
+    logger.warn(`Refused ${req.method} ${getRequestPath(req)} to ${principal.name}: no '${scope}' scope`);
+    next(new ForbiddenError(`The '${scope}' scope is required.`));
+  };
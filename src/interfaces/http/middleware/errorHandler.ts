@@ -0,0 +1,115 @@
+import { NextFunction, Request, RequestHandler, Response } from "express";
+import {
+  AppError,
+  NotFoundError,
+  RegistryRateLimitedError,
+  TooManyRequestsError,
+  ValidationError,
+} from "../../../shared/errors";
+import logger from "../../../shared/logger";
+import { getRequestPath } from "./requestContext";
+
+// An RFC 7807 problem details document
+export interface ProblemDetails {
+  type: string;
+  title: string;
+  status: number;
+  detail: string;
+  instance: string;
+  [extension: string]: unknown;
+}
+
+// Problem types are identified by URN; there is no documentation site to link to
+const problemType = (type: string) => `urn:app-store:problem:${type}`;
+
+/**
+ * Passes rejected promises of async handlers on to the error middleware,
+ * which Express 4 doesn't do by itself.
+ */
+export const asyncHandler =
+  (
+    handler: (req: Request, res: Response, next: NextFunction) => Promise<void>
+  ): RequestHandler =>
+  (req, res, next) => {
+    handler(req, res, next).catch(next);
+  };
+
+/**
+ * Turns an error into problem details. Errors we don't know are reported as
+ * a generic 500 so internals don't leak to clients.
+ */
+export function toProblemDetails(error: any, instance: string): ProblemDetails {
+  if (error instanceof AppError) {
+    return {
+      type: problemType(error.type),
+      title: error.title,
+      status: error.status,
+      detail: error.message,
+      instance,
+      ...(error instanceof ValidationError && error.errors.length > 0
+        ? { errors: error.errors }
+        : {}),
+    };
+  }
+
+  // Errors raised by the body parser (malformed JSON, payload too large, ...)
+  if (error?.expose && error.status >= 400 && error.status < 500) {
+    return {
+      type: problemType(error.status === 400 ? "validation-failed" : "invalid-request"),
+      title: "Invalid Request",
+      status: error.status,
+      detail: error.message,
+      instance,
+    };
+  }
+
+  return {
+    type: "about:blank",
+    title: "Internal Server Error",
+    status: 500,
+    detail: "An unexpected error occurred.",
+    instance,
+  };
+}
+
+export const sendProblem = (res: Response, problem: ProblemDetails): void => {
+  res.status(problem.status).type("application/problem+json").json(problem);
+};
+
+/**
+ * The last middleware: reports every error as `application/problem+json`.
+ */
+export const errorHandler = (
+  error: any,
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  if (res.headersSent) {
+    next(error);
+    return;
+  }
+
+  const problem = toProblemDetails(error, req.originalUrl);
+  if (problem.status >= 500) {
+    logger.error(`${req.method} ${getRequestPath(req)} failed:`, {
+      error: error?.message,
+      cause: error?.cause?.message,
+      stack: problem.status === 500 ? error?.stack : undefined,
+    });
+  }
+
+  if (
+    (error instanceof RegistryRateLimitedError || error instanceof TooManyRequestsError) &&
+    error.retryAfterSeconds !== undefined
+  ) {
+    res.set("Retry-After", String(error.retryAfterSeconds));
+  }
+  sendProblem(res, problem);
+};
+
+export const notFoundHandler = (req: Request, res: Response): void => {
+  logger.warn(`404 - Not Found - ${getRequestPath(req)}`);
+  const error = new NotFoundError(`No route for ${req.method} ${req.path}.`);
+  sendProblem(res, toProblemDetails(error, req.originalUrl));
+};
@@ -0,0 +1,53 @@
+import { randomUUID } from "crypto";
+import { NextFunction, Request, Response } from "express";
+import { runWithContext } from "../../../shared/requestContext";
+import tracer, { parseTraceparent } from "../../../shared/tracing";
+
+// Incoming ids are reused only if they are safe to echo and log
+const REQUEST_ID_PATTERN = /^[\w.:-]{1,128}$/;
+
+// The path without the query string, which can carry secrets (the registry
+// webhook's `token`), for spans and log lines
+export const getRequestPath = (req: Request): string => `${req.baseUrl}${req.path}`;
+
+/**
+ * Gives every request an id (the caller's `X-Request-Id`, or a new one) and
+ * a server span, and runs the rest of the pipeline in that context so log
+ * lines and registry spans can be traced back to the request. A W3C
+ * `traceparent` header continues the caller's trace.
+ */
+export const requestContext = (req: Request, res: Response, next: NextFunction): void => {
+  const incomingId = req.get("X-Request-Id");
+  const requestId =
+    incomingId && REQUEST_ID_PATTERN.test(incomingId) ? incomingId : randomUUID();
+  res.set("X-Request-Id", requestId);
+
+  runWithContext({ requestId }, () => {
+    void tracer.startActiveSpan(
+      req.method,
+      {
+        kind: "server",
+        parent: parseTraceparent(req.get("traceparent")),
+        attributes: {
+          "http.method": req.method,
+          "http.target": getRequestPath(req),
+          "http.request_id": requestId,
+        },
+      },
+      (span) =>
+        new Promise<void>((resolve) => {
+          res.on("finish", () => {
+            // The route is only known once a router handled the request
+            const route = req.route ? `${req.baseUrl}${req.route.path}` : undefined;
+            if (route) span.setName(`${req.method} ${route}`);
+            span.setAttributes({ "http.route": route, "http.status_code": res.statusCode });
+            if (res.statusCode >= 500) span.setStatus("error");
+            resolve();
+          });
+          // The client went away before we answered
+          res.on("close", () => resolve());
+          next();
+        })
+    );
+  });
+};
@@ -0,0 +1,34 @@
+import { NextFunction, Request, Response } from "express";
+import metrics from "../../../shared/metrics";
+
+const httpRequests = metrics.counter(
+  "http_requests_total",
+  "HTTP requests by method, route and status.",
+  ["method", "route", "status"]
+);
+
+const httpRequestDuration = metrics.histogram(
+  "http_request_duration_seconds",
+  "Latency of HTTP requests by method, route and status.",
+  ["method", "route", "status"]
+);
+
+/**
+ * Counts and times every request. Requests are labeled with the route
+ * pattern (e.g. `/api/apps/:location`), never the raw URL, so app names
+ * don't create new series; requests no route matched share one label.
+ */
+export const requestMetrics = (req: Request, res: Response, next: NextFunction): void => {
+  const stopTimer = httpRequestDuration.startTimer();
+
+  res.on("finish", () => {
+    const labels = {
+      method: req.method,
+      route: req.route ? `${req.baseUrl}${req.route.path}` : "unmatched",
+      status: String(res.statusCode),
+    };
+    httpRequests.inc(labels);
+    stopTimer(labels);
+  });
+  next();
+};
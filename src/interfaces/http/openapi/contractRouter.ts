@@ -0,0 +1,54 @@
+import { RequestHandler, Router } from "express";
+import { config } from "../../../shared/config";
+import { authenticate, rateLimit, requireScope } from "../middleware/auth";
+import { asyncHandler } from "../middleware/errorHandler";
+import {
+  ContractHandler,
+  ContractRequest,
+  ContractResponse,
+  RouteContract,
+} from "./routeContract";
+import { validateRequest, validateResponses } from "./validation";
+
+/**
+ * An Express router whose routes are declared by contracts. Registering a
+ * route adds its authentication, rate limiting and request validation (and,
+ * in development, response validation); the contracts also make up the
+ * OpenAPI document, so documentation and behaviour cannot drift apart.
+ */
+export class ContractRouter {
+  public readonly router = Router();
+  public readonly basePath: string;
+  private contracts: RouteContract[] = [];
+
+  constructor(basePath = "") {
+    this.basePath = basePath;
+  }
+
+  public get routes(): readonly RouteContract[] {
+    return this.contracts;
+  }
+
+  // The contract alone decides the handler's types
+  public route<C extends RouteContract>(contract: C, handler: ContractHandler<NoInfer<C>>): void {
+    this.contracts.push(contract);
+
+    const middleware: RequestHandler[] = [
+      ...(contract.scope ? [authenticate, rateLimit, requireScope(contract.scope)] : []),
+      validateRequest(contract),
+    ];
+    if (config.api.validateResponses) {
+      middleware.push(validateResponses(contract));
+    }
+
+    this.router[contract.method](
+      `${this.basePath}${contract.path}`,
+      ...middleware,
+      // Express types params and query as strings; by now validateRequest has
+      // replaced them (and the body) with values of the contract's types
+      asyncHandler(async (req, res) =>
+        handler(req as ContractRequest<C>, res as ContractResponse<C>)
+      )
+    );
+  }
+}
@@ -0,0 +1,160 @@
+import { TObject, TSchema } from "@sinclair/typebox";
+import { Scope } from "../../../domain/models/Principal";
+import { config } from "../../../shared/config";
+import { problemResponse } from "../contracts/common";
+import { ContractRouter } from "./contractRouter";
+import { RouteContract } from "./routeContract";
+import { securitySchemes } from "./securitySchemes";
+
+type JsonObject = Record<string, any>;
+
+export interface OpenApiInfo {
+  title: string;
+  version: string;
+  description: string;
+}
+
+/**
+ * Turns a TypeBox schema into plain JSON Schema. Schemas with an `$id` are
+ * moved to `components.schemas` and referenced, so shared types like `App`
+ * show up once under their own name.
+ */
+function toJsonSchema(schema: unknown, components: JsonObject): any {
+  if (Array.isArray(schema)) {
+    return schema.map((item) => toJsonSchema(item, components));
+  }
+  if (typeof schema !== "object" || schema === null) {
+    return schema;
+  }
+
+  // Object.entries skips TypeBox's symbol keys, which aren't JSON Schema
+  const { $id, ...rest } = schema as JsonObject;
+  const converted = Object.fromEntries(
+    Object.entries(rest).map(([key, value]) => [key, toJsonSchema(value, components)])
+  );
+  if (typeof $id !== "string") {
+    return converted;
+  }
+  components[$id] = converted;
+  return { $ref: `#/components/schemas/${$id}` };
+}
+
+// Express writes path parameters as `:name`, OpenAPI as `{name}`
+const toOpenApiPath = (path: string) => path.replace(/:(\w+)/g, "{$1}");
+
+function toParameters(
+  schema: TObject | undefined,
+  location: "path" | "query",
+  components: JsonObject
+): JsonObject[] {
+  if (!schema) return [];
+
+  return Object.entries(schema.properties).map(([name, property]) => {
+    const { description, examples, ...parameterSchema } = toJsonSchema(property, components);
+    return {
+      name,
+      in: location,
+      required: location === "path" || (schema.required || []).includes(name),
+      ...(description ? { description } : {}),
+      schema: parameterSchema,
+      ...(examples ? { example: examples[0] } : {}),
+    };
+  });
+}
+
+function toContent(
+  contentType: string | string[],
+  schema: TSchema | undefined,
+  components: JsonObject
+) {
+  return Object.fromEntries(
+    [contentType]
+      .flat()
+      .map((type) => [type, schema ? { schema: toJsonSchema(schema, components) } : {}])
+  );
+}
+
+// Any scheme will do; `{}` marks routes anonymous callers may use as well
+const toSecurity = (scope: Scope) => [
+  ...Object.keys(securitySchemes).map((name) => ({ [name]: [scope] })),
+  ...(config.auth.anonymousScopes.includes(scope) ? [{}] : []),
+];
+
+function toOperation(contract: RouteContract, components: JsonObject): JsonObject {
+  const responses: RouteContract["responses"] = { ...contract.responses };
+  // Every route validates its input and enforces its scope, so these
+  // answers are possible even when the contract doesn't list them
+  const validatesInput = contract.params || contract.query || contract.body;
+  if (validatesInput && !responses[400]) {
+    responses[400] = problemResponse("The request is invalid.");
+  }
+  if (contract.scope) {
+    responses[401] ??= problemResponse("The credentials are missing or wrong.");
+    responses[403] ??= problemResponse(`The credentials lack the \`${contract.scope}\` scope.`);
+    responses[429] ??= problemResponse("The caller's rate limit is used up; see `Retry-After`.");
+  }
+
+  return {
+    summary: contract.summary,
+    ...(contract.description ? { description: contract.description } : {}),
+    tags: contract.tags,
+    ...(contract.scope ? { security: toSecurity(contract.scope) } : {}),
+    parameters: [
+      ...toParameters(contract.params, "path", components),
+      ...toParameters(contract.query, "query", components),
+    ],
+    ...(contract.body
+      ? {
+          requestBody: {
+            required: true,
+            content: toContent("application/json", contract.body, components),
+          },
+        }
+      : {}),
+    responses: Object.fromEntries(
+      Object.entries(responses).map(([status, response]) => [
+        status,
+        {
+          description: response.description,
+          ...(response.schema || response.contentType
+            ? {
+                content: toContent(
+                  response.contentType || "application/json",
+                  response.schema,
+                  components
+                ),
+              }
+            : {}),
+        },
+      ])
+    ),
+  };
+}
+
+/**
+ * Builds the OpenAPI 3.1 document from the contracts of the given routers.
+ */
+export function buildOpenApiDocument(info: OpenApiInfo, routers: ContractRouter[]): JsonObject {
+  const components: JsonObject = {};
+  const paths: JsonObject = {};
+
+  for (const router of routers) {
+    for (const contract of router.routes) {
+      const path = toOpenApiPath(`${router.basePath}${contract.path}`);
+      paths[path] = { ...paths[path], [contract.method]: toOperation(contract, components) };
+    }
+  }
+
+  return {
+    openapi: "3.1.0",
+    info,
+    servers: [{ url: "/" }],
+    paths,
+    components: {
+      schemas: Object.fromEntries(
+        Object.entries(components).sort(([a], [b]) => a.localeCompare(b))
+      ),
+      securitySchemes,
+    },
+  };
+}
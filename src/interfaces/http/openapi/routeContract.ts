@@ -0,0 +1,69 @@
+import { Static, TObject, TSchema } from "@sinclair/typebox";
+import { Request, Response } from "express";
+import { Scope } from "../../../domain/models/Principal";
+
+export type HttpMethod = "get" | "post" | "put" | "patch" | "delete";
+
+export interface ResponseContract {
+  description: string;
+  // JSON bodies are described (and checked) by a schema
+  schema?: TSchema;
+  // Defaults to `application/json`; other types are documented, not checked.
+  // Several when a parameter selects the format.
+  contentType?: string | string[];
+}
+
+/**
+ * Everything about a route that the OpenAPI document, request validation and
+ * the types of its handler are derived from.
+ */
+export interface RouteContract {
+  method: HttpMethod;
+  // Express-style path below the router's base path, e.g. `/apps/:location`
+  path: string;
+  summary: string;
+  description?: string;
+  tags: string[];
+  // Callers need this scope; routes without one are open to everyone and
+  // not rate limited (health checks, webhooks with their own secret)
+  scope?: Scope;
+  params?: TObject;
+  query?: TObject;
+  body?: TSchema;
+  responses: Record<number, ResponseContract>;
+}
+
+type StaticOr<T, Fallback> = T extends TSchema ? Static<T> : Fallback;
+
+// The union of every JSON body the route may answer with
+type ResponseBodies<C extends RouteContract> = {
+  [Status in keyof C["responses"]]: C["responses"][Status] extends { schema: infer S }
+    ? StaticOr<S, never>
+    : never;
+}[keyof C["responses"]];
+
+// Routes without JSON responses (images, streams) send whatever they like
+type ResponseBody<C extends RouteContract> = [ResponseBodies<C>] extends [never]
+  ? any
+  : ResponseBodies<C>;
+
+// The request after validation: params, query and body have the contract's types
+export type ContractRequest<C extends RouteContract> = Request<
+  StaticOr<C["params"], Record<string, string>>,
+  ResponseBody<C>,
+  StaticOr<C["body"], unknown>,
+  StaticOr<C["query"], Record<string, never>>
+>;
+
+export type ContractResponse<C extends RouteContract> = Response<ResponseBody<C>>;
+
+export type ContractHandler<C extends RouteContract> = (
+  req: ContractRequest<C>,
+  res: ContractResponse<C>
+) => Promise<void> | void;
+
+/**
+ * Declares a contract while keeping its exact type, so handlers typed with
+ * `ContractRequest<typeof contract>` see the schemas' static types.
+ */
+export const defineContract = <C extends RouteContract>(contract: C): C => contract;
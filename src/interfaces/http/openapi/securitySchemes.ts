@@ -0,0 +1,18 @@
+/**
+ * How the OpenAPI document describes the accepted credentials. Either one
+ * identifies the caller; a route's scope decides whether it may proceed.
+ */
+export const securitySchemes = {
+  apiKey: {
+    type: "apiKey",
+    in: "header",
+    name: "X-API-Key",
+    description: "An API key created through `/api/admin/api-keys`.",
+  },
+  bearerAuth: {
+    type: "http",
+    scheme: "bearer",
+    description:
+      "A JWT signed with `JWT_SECRET` or a key of `JWT_JWKS_PATH` (scopes in `scope` or `scp`), an API key, or the `ADMIN_API_TOKEN`. With the admin token, send `X-Admin-Actor` to name the editor in the audit trail.",
+  },
+};
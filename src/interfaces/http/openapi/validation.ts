@@ -0,0 +1,101 @@
+import { TSchema } from "@sinclair/typebox";
+import { TypeCheck, TypeCompiler, ValueErrorType } from "@sinclair/typebox/compiler";
+import { Value } from "@sinclair/typebox/value";
+import { RequestHandler } from "express";
+import { ValidationError } from "../../../shared/errors";
+import logger from "../../../shared/logger";
+import { getRequestPath } from "../middleware/requestContext";
+import { RouteContract } from "./routeContract";
+
+const JSON_CONTENT_TYPE = /(^|\/|\+)json$/;
+
+/**
+ * Describes why a value doesn't match its schema, one message per field,
+ * ordered by field. Paths like `/overrides/name` are shown as `overrides.name`.
+ */
+function describeErrors(check: TypeCheck<TSchema>, value: unknown, label: string): string[] {
+  const messages = new Map<string, string>();
+  for (const error of check.Errors(value)) {
+    const field = error.path.slice(1).replace(/\//g, ".");
+    if (messages.has(field)) continue;
+    // TypeBox messages read "Expected integer", which follows a colon here
+    const reason = error.message.charAt(0).toLowerCase() + error.message.slice(1);
+    const message =
+      error.type === ValueErrorType.ObjectAdditionalProperties
+        ? `Unknown ${label.toLowerCase()} '${field}'.`
+        : field
+          ? `${label} '${field}': ${reason}.`
+          : `${label}: ${reason}.`;
+    messages.set(field, message);
+  }
+  // TypeBox reports in schema order (declared properties before unknown
+  // ones); sorting by field makes the order predictable for clients
+  return [...messages]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([, message]) => message);
+}
+
+/**
+ * Validates path parameters, query and body against the route's contract
+ * and reports every problem at once. Path and query parameters are converted
+ * to the declared types (`?limit=5` becomes a number) before the handler
+ * sees them.
+ */
+export function validateRequest(contract: RouteContract): RequestHandler {
+  const parts = [
+    { key: "params" as const, schema: contract.params, label: "Path parameter", convert: true },
+    { key: "query" as const, schema: contract.query, label: "Query parameter", convert: true },
+    { key: "body" as const, schema: contract.body, label: "Body field", convert: false },
+  ].flatMap(({ schema, ...part }) =>
+    schema ? [{ ...part, schema, check: TypeCompiler.Compile(schema) }] : []
+  );
+
+  return (req, _res, next) => {
+    const errors: string[] = [];
+    for (const { key, schema, label, convert, check } of parts) {
+      const value = convert ? Value.Convert(schema, req[key] ?? {}) : req[key];
+      if (check.Check(value)) {
+        req[key] = value;
+      } else {
+        errors.push(...describeErrors(check, value, label));
+      }
+    }
+
+    next(errors.length > 0 ? new ValidationError("Invalid request.", errors) : undefined);
+  };
+}
+
+/**
+ * Checks JSON responses against the schema declared for their status code.
+ * A response that doesn't match is not sent; the handler fails with a 500
+ * instead, so contract drift shows up in development and tests.
+ */
+export function validateResponses(contract: RouteContract): RequestHandler {
+  const checks = new Map<number, TypeCheck<TSchema>>();
+  for (const [status, response] of Object.entries(contract.responses)) {
+    const contentTypes = [response.contentType || "application/json"].flat();
+    if (response.schema && contentTypes.every((type) => JSON_CONTENT_TYPE.test(type))) {
+      checks.set(Number(status), TypeCompiler.Compile(response.schema));
+    }
+  }
+
+  return (req, res, next) => {
+    const json = res.json.bind(res);
+    res.json = (body) => {
+      res.json = json;
+      const check = checks.get(res.statusCode);
+      // Check what is actually sent: no undefined fields, dates as strings
+      const sent = body === undefined ? body : JSON.parse(JSON.stringify(body));
+      if (check && !check.Check(sent)) {
+        const errors = describeErrors(check, sent, "Response field");
+        logger.error(
+          `Response ${res.statusCode} of ${req.method} ${getRequestPath(req)} does not match the API contract`,
+          { errors }
+        );
+        throw new Error(`Response does not match the API contract: ${errors.join(" ")}`);
+      }
+      return json(body);
+    };
+    next();
+  };
+}
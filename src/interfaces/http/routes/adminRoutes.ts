@@ -0,0 +1,37 @@
+import {
+  createApiKeyController,
+  deleteCurationController,
+  getAuditTrailController,
+  getCurationController,
+  listApiKeysController,
+  listCurationsController,
+  replaceCurationController,
+  revokeApiKeyController,
+  updateCurationController,
+} from "../controllers/adminController";
+import {
+  createApiKeyContract,
+  deleteCurationContract,
+  getAuditTrailContract,
+  getCurationContract,
+  listApiKeysContract,
+  listCurationsContract,
+  replaceCurationContract,
+  revokeApiKeyContract,
+  updateCurationContract,
+} from "../contracts/adminContracts";
+import { ContractRouter } from "../openapi/contractRouter";
+
+const routes = new ContractRouter("/api");
+
+routes.route(listCurationsContract, listCurationsController);
+routes.route(getCurationContract, getCurationController);
+routes.route(replaceCurationContract, replaceCurationController);
+routes.route(updateCurationContract, updateCurationController);
+routes.route(deleteCurationContract, deleteCurationController);
+routes.route(getAuditTrailContract, getAuditTrailController);
+routes.route(listApiKeysContract, listApiKeysController);
+routes.route(createApiKeyContract, createApiKeyController);
+routes.route(revokeApiKeyContract, revokeApiKeyController);
+
+export default routes;
@@ -1,38 +1,33 @@
-import { Router } from "express";
-import { getAllAppsController } from "../controllers/appController";
+import {
+  getAllAppsController,
+  getAppDetailController,
+  getAppInstallController,
+  getAppTagsController,
+  getSupplyChainDocumentController,
+} from "../controllers/appController";
+import {
+  getAppIconController,
+  getAppScreenshotController,
+} from "../controllers/appMediaController";
+import {
+  getAppContract,
+  getAppIconContract,
+  getAppInstallContract,
+  getAppScreenshotContract,
+  getAppTagsContract,
+  getSupplyChainDocumentContract,
+  listAppsContract,
+} from "../contracts/appContracts";
+import { ContractRouter } from "../openapi/contractRouter";
 
-const router = Router();
+const routes = new ContractRouter("/api");
 
-/**
- * @openapi
- * /api/apps:
- * get:
- * summary: Retrieve a list of all applications
- * description: Fetches all apps from the configured Docker registry.
- * tags: [Apps]
- * responses:
- * 200:
- * description: A list of applications.
- * content:
- * application/json:
- * schema:
- * type: array
- * items:
- * type: object
- * properties:
- * name:
- * type: string
- * example: My Awesome App
- * location:
- * type: string
- * example: my-awesome-app
- * description:
- * type: string
- * example: This is a fantastic application.
- * pictureUrl:
- * type: string
- * example: https://example.com/app.png
- */
-router.get("/apps", getAllAppsController);
+routes.route(listAppsContract, getAllAppsController);
+routes.route(getAppContract, getAppDetailController);
+routes.route(getAppTagsContract, getAppTagsController);
+routes.route(getAppInstallContract, getAppInstallController);
+routes.route(getSupplyChainDocumentContract, getSupplyChainDocumentController);
+routes.route(getAppIconContract, getAppIconController);
+routes.route(getAppScreenshotContract, getAppScreenshotController);
 
-export default router;
+export default routes;
@@ -0,0 +1,9 @@
+import { exportCatalogController } from "../controllers/catalogController";
+import { exportCatalogContract } from "../contracts/catalogContracts";
+import { ContractRouter } from "../openapi/contractRouter";
+
+const routes = new ContractRouter("/api");
+
+routes.route(exportCatalogContract, exportCatalogController);
+
+export default routes;
@@ -0,0 +1,13 @@
+import {
+  getChangesController,
+  streamChangesController,
+} from "../controllers/changeController";
+import { listChangesContract, streamChangesContract } from "../contracts/changeContracts";
+import { ContractRouter } from "../openapi/contractRouter";
+
+const routes = new ContractRouter("/api");
+
+routes.route(listChangesContract, getChangesController);
+routes.route(streamChangesContract, streamChangesController);
+
+export default routes;
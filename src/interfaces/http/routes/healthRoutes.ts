@@ -0,0 +1,20 @@
+import {
+  livenessController,
+  metricsController,
+  readinessController,
+} from "../controllers/healthController";
+import {
+  livenessContract,
+  metricsContract,
+  readinessContract,
+} from "../contracts/healthContracts";
+import { ContractRouter } from "../openapi/contractRouter";
+
+// Probes and metrics live outside /api, where Kubernetes and Prometheus expect them
+const routes = new ContractRouter();
+
+routes.route(livenessContract, livenessController);
+routes.route(readinessContract, readinessController);
+routes.route(metricsContract, metricsController);
+
+export default routes;
@@ -0,0 +1,9 @@
+import { registryWebhookController } from "../controllers/webhookController";
+import { registryWebhookContract } from "../contracts/webhookContracts";
+import { ContractRouter } from "../openapi/contractRouter";
+
+const routes = new ContractRouter("/api");
+
+routes.route(registryWebhookContract, registryWebhookController);
+
+export default routes;
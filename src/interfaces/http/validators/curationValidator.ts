@@ -0,0 +1,118 @@
+import {
+  LabelValidator,
+  isImageSource,
+  isSlug,
+  isUrl,
+  maxLength,
+} from "../../../domain/labels/labelValidators";
+import { CurationPatch } from "../../../domain/services/curation";
+
+const ALLOWED_FIELDS = ["hidden", "featured", "category", "sortWeight", "overrides"];
+const MAX_SORT_WEIGHT = 1000;
+const MAX_KEYWORDS = 20;
+
+// Overrides are validated like the labels they replace
+const OVERRIDE_VALIDATORS: Record<string, LabelValidator[]> = {
+  name: [maxLength(100)],
+  description: [maxLength(2000)],
+  pictureUrl: [isImageSource],
+  homepage: [isUrl],
+  documentationUrl: [isUrl],
+  vendor: [maxLength(100)],
+};
+
+export type CurationValidationResult =
+  | { valid: true; patch: CurationPatch }
+  | { valid: false; errors: string[] };
+
+function validateOverrides(raw: unknown, errors: string[]): CurationPatch["overrides"] {
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+    errors.push("'overrides' must be an object.");
+    return undefined;
+  }
+
+  const overrides: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(raw)) {
+    if (value === null) {
+      // null clears an override
+      if (key in OVERRIDE_VALIDATORS || key === "keywords") overrides[key] = null;
+      else errors.push(`Unknown override '${key}'.`);
+    } else if (key === "keywords") {
+      if (
+        !Array.isArray(value) ||
+        value.length > MAX_KEYWORDS ||
+        value.some((keyword) => typeof keyword !== "string" || isSlug(keyword) !== null)
+      ) {
+        errors.push(
+          `'overrides.keywords' must be a list of at most ${MAX_KEYWORDS} lowercase slugs.`
+        );
+      } else {
+        overrides.keywords = value;
+      }
+    } else if (!(key in OVERRIDE_VALIDATORS)) {
+      errors.push(`Unknown override '${key}'.`);
+    } else if (typeof value !== "string" || value.trim().length === 0) {
+      errors.push(`'overrides.${key}' must be a non-empty string or null.`);
+    } else {
+      const error = OVERRIDE_VALIDATORS[key]
+        .map((validator) => validator(value.trim()))
+        .find((message) => message !== null);
+      if (error) errors.push(`'overrides.${key}' ${error}.`);
+      else overrides[key] = value.trim();
+    }
+  }
+  return overrides as CurationPatch["overrides"];
+}
+
+/**
+ * Validates the body of `PUT`/`PATCH /api/admin/apps/:location`. Collects
+ * every problem instead of stopping at the first one.
+ */
+export function validateCurationBody(body: unknown): CurationValidationResult {
+  if (typeof body !== "object" || body === null || Array.isArray(body)) {
+    return { valid: false, errors: ["The request body must be a JSON object."] };
+  }
+
+  const raw = body as Record<string, unknown>;
+  const errors: string[] = [];
+  const patch: CurationPatch = {};
+
+  for (const key of Object.keys(raw)) {
+    if (!ALLOWED_FIELDS.includes(key)) errors.push(`Unknown field '${key}'.`);
+  }
+
+  for (const flag of ["hidden", "featured"] as const) {
+    if (raw[flag] === undefined) continue;
+    if (typeof raw[flag] !== "boolean") errors.push(`'${flag}' must be a boolean.`);
+    else patch[flag] = raw[flag] as boolean;
+  }
+
+  if (raw.category !== undefined) {
+    if (raw.category === null) {
+      patch.category = null;
+    } else if (typeof raw.category !== "string" || isSlug(raw.category) !== null) {
+      errors.push("'category' must be a lowercase slug (a-z, 0-9, -) or null.");
+    } else {
+      patch.category = raw.category;
+    }
+  }
+
+  if (raw.sortWeight !== undefined) {
+    if (
+      !Number.isInteger(raw.sortWeight) ||
+      Math.abs(raw.sortWeight as number) > MAX_SORT_WEIGHT
+    ) {
+      errors.push(
+        `'sortWeight' must be an integer between -${MAX_SORT_WEIGHT} and ${MAX_SORT_WEIGHT}.`
+      );
+    } else {
+      patch.sortWeight = raw.sortWeight as number;
+    }
+  }
+
+  if (raw.overrides !== undefined) {
+    patch.overrides = validateOverrides(raw.overrides, errors);
+  }
+
+  return errors.length > 0 ? { valid: false, errors } : { valid: true, patch };
+}
@@ -1,9 +1,15 @@
 import app from "./interfaces/http/app";
+import { catalogCache, changeFeedService } from "./container";
 import { config } from "./shared/config";
 import logger from "./shared/logger";
 
 const port = config.port;
 
+// Record catalog changes from the first snapshot on, then warm the catalog
+// cache and keep it fresh in the background
+changeFeedService.start();
+catalogCache.start();
+
 app.listen(port, () => {
   logger.info(`🚀 Server is running on http://localhost:${port}`);
   logger.info(
@@ -1,10 +1,158 @@
 import dotenv from "dotenv";
 dotenv.config();
 
+const port = process.env.PORT || "3000";
+
 export const config = {
-  port: process.env.PORT || "3000",
+  port,
   logLevel: process.env.LOG_LEVEL || "info",
+  api: {
+    // Check every JSON response against the API contract; a mismatch is a 500.
+    // On by default in development and tests, where drift should fail loudly
+    validateResponses: process.env.VALIDATE_RESPONSES
+      ? process.env.VALIDATE_RESPONSES === "true"
+      : ["development", "test"].includes(process.env.NODE_ENV || ""),
+    // Reverse proxies in front of the service whose X-Forwarded-For is trusted;
+    // anonymous callers are rate limited by the client address it gives
+    trustProxyHops: parseInt(process.env.TRUST_PROXY_HOPS || "0", 10),
+    // Where clients reach the API, for the links in catalog exports; never
+    // taken from the request, whose Host header the client chooses
+    publicBaseUrl: (process.env.PUBLIC_BASE_URL || `http://localhost:${port}`).replace(/\/+$/, ""),
+  },
   dockerRegistry: {
     url: process.env.DOCKER_REGISTRY_URL || "http://localhost:5000",
+    // Which registry backend to use: "dockerhub", "v2" or "offline"
+    backend: process.env.DOCKER_REGISTRY_BACKEND || "dockerhub",
+    // Platform to read labels from when an image is multi-platform
+    platform: process.env.DOCKER_PLATFORM || "linux/amd64",
+    // Optional credentials for the V2 backend (basic auth or token realm)
+    username: process.env.DOCKER_REGISTRY_USERNAME || "",
+    password: process.env.DOCKER_REGISTRY_PASSWORD || "",
+  },
+  dockerHub: {
+    // User or organization listed when CATALOG_SOURCES is not set
+    namespace: process.env.DOCKER_HUB_NAMESPACE || "abdelrahmanelbadawy1",
+    // Optional Docker Hub login; needed to see private repositories
+    username: process.env.DOCKER_HUB_USERNAME || "",
+    accessToken: process.env.DOCKER_HUB_ACCESS_TOKEN || "",
+  },
+  offline: {
+    // Comma-separated OCI image layouts, `docker save` tarballs or directories
+    // holding them, read by the "offline" backend
+    imagePaths: (process.env.OFFLINE_IMAGE_PATHS || "")
+      .split(",")
+      .map((imagePath) => imagePath.trim())
+      .filter((imagePath) => imagePath.length > 0),
+  },
+  registryRequests: {
+    // Outbound registry calls are queued beyond this many in flight
+    maxConcurrentRequests: parseInt(
+      process.env.REGISTRY_MAX_CONCURRENT_REQUESTS || "8",
+      10
+    ),
+    requestTimeoutMs: parseInt(process.env.REGISTRY_REQUEST_TIMEOUT_MS || "10000", 10),
+    // Retries on 429, 5xx and network errors, with exponential backoff
+    maxRetries: parseInt(process.env.REGISTRY_MAX_RETRIES || "3", 10),
+    retryBaseDelayMs: parseInt(process.env.REGISTRY_RETRY_BASE_DELAY_MS || "500", 10),
+    retryMaxDelayMs: parseInt(process.env.REGISTRY_RETRY_MAX_DELAY_MS || "30000", 10),
+  },
+  tags: {
+    // Stable tag policy: pre-releases are skipped unless enabled
+    includePrerelease: process.env.TAG_POLICY_INCLUDE_PRERELEASE === "true",
+    // Pin the catalog to a version channel, e.g. "2" or "2.4"
+    channel: process.env.TAG_POLICY_CHANNEL || "",
+  },
+  catalog: {
+    // JSON list of catalog sources (namespace, include, exclude, defaultCategory);
+    // defaults to DOCKER_HUB_NAMESPACE, or the whole registry for the V2 backend
+    sources: process.env.CATALOG_SOURCES || "",
+    // How often the cached catalog snapshot is refreshed in the background
+    refreshIntervalSeconds: parseInt(
+      process.env.CATALOG_REFRESH_INTERVAL_SECONDS || "300",
+      10
+    ),
+    // Where the manifest digest and labels of every app are remembered, so
+    // refreshes only read images whose digest changed
+    digestIndexDir: process.env.DIGEST_INDEX_DIR || "data/digests",
+  },
+  tracing: {
+    // Where spans go: "otlp" (a collector at OTEL_EXPORTER_OTLP_ENDPOINT), "console" or "none"
+    exporter: process.env.TRACING_EXPORTER || "none",
+    otlpEndpoint: process.env.OTEL_EXPORTER_OTLP_ENDPOINT || "http://localhost:4318",
+    serviceName: process.env.OTEL_SERVICE_NAME || "docker-app-store-service",
+  },
+  health: {
+    // How long /readyz reuses the result of pinging the registry
+    registryCheckTtlSeconds: parseInt(
+      process.env.HEALTH_REGISTRY_CHECK_TTL_SECONDS || "10",
+      10
+    ),
+  },
+  supplyChain: {
+    // Comma-separated paths of PEM public keys trusted to sign images (cosign)
+    trustedKeyPaths: (process.env.SIGNATURE_PUBLIC_KEYS || "")
+      .split(",")
+      .map((keyPath) => keyPath.trim())
+      .filter((keyPath) => keyPath.length > 0),
+  },
+  images: {
+    // Downloaded icons and screenshots are cached here and re-fetched after the TTL
+    cacheDir: process.env.IMAGE_CACHE_DIR || ".cache/images",
+    cacheTtlSeconds: parseInt(process.env.IMAGE_CACHE_TTL_SECONDS || "86400", 10),
+    maxBytes: parseInt(process.env.IMAGE_MAX_BYTES || "1048576", 10),
+    fetchTimeoutMs: parseInt(process.env.IMAGE_FETCH_TIMEOUT_MS || "5000", 10),
+  },
+  admin: {
+    // Bearer token with the admin scope, e.g. to create the first API keys;
+    // not accepted when empty
+    apiToken: process.env.ADMIN_API_TOKEN || "",
+  },
+  auth: {
+    // Directory for the API keys (only their hashes are stored)
+    directory: process.env.AUTH_DIR || "data/auth",
+    // Comma-separated scopes of requests without credentials; empty to
+    // require credentials for the whole API
+    anonymousScopes: (process.env.AUTH_ANONYMOUS_SCOPES ?? "catalog:read")
+      .split(",")
+      .map((scope) => scope.trim())
+      .filter((scope) => scope.length > 0),
+    jwt: {
+      // JWTs are accepted when a secret (HS256/384/512) or a JWKS file is set
+      secret: process.env.JWT_SECRET || "",
+      jwksPath: process.env.JWT_JWKS_PATH || "",
+      // Required `iss` and `aud` claims, when set
+      issuer: process.env.JWT_ISSUER || "",
+      audience: process.env.JWT_AUDIENCE || "",
+      // Tokens without an `exp` claim never expire, so they are refused
+      // unless this is set
+      allowMissingExpiry: process.env.JWT_ALLOW_MISSING_EXPIRY === "true",
+    },
+    // Token bucket per caller: bursts of up to `capacity` requests, refilled
+    // at `refillPerSecond`; anonymous callers are counted per IP address
+    rateLimit: {
+      capacity: parseInt(process.env.RATE_LIMIT_CAPACITY || "120", 10),
+      refillPerSecond: parseFloat(process.env.RATE_LIMIT_REFILL_PER_SECOND || "2"),
+    },
+    // Token bucket per IP address for requests with credentials that are
+    // refused; once it is empty, no credentials are checked for that address
+    failedAuthLimit: {
+      capacity: parseInt(process.env.AUTH_FAILURE_CAPACITY || "10", 10),
+      refillPerSecond: parseFloat(process.env.AUTH_FAILURE_REFILL_PER_SECOND || "0.1"),
+    },
+  },
+  curation: {
+    // Directory for the curation file and its audit trail
+    directory: process.env.CURATION_DIR || "data/curation",
+  },
+  changes: {
+    // Directory for the catalog change log
+    directory: process.env.CHANGE_LOG_DIR || "data/changes",
+    // Older changes are dropped once the log holds this many
+    maxEntries: parseInt(process.env.CHANGE_LOG_MAX_ENTRIES || "1000", 10),
+  },
+  webhooks: {
+    // Shared secret registries must present; webhooks are disabled when empty
+    secret: process.env.WEBHOOK_SECRET || "",
+    maxRecordedEvents: parseInt(process.env.WEBHOOK_MAX_RECORDED_EVENTS || "100", 10),
   },
 };
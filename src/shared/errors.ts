@@ -0,0 +1,101 @@
+/**
+ * Base class of the errors the API knows how to report. The HTTP error
+ * middleware turns them into RFC 7807 problem details; anything else
+ * becomes a generic 500.
+ */
+export abstract class AppError extends Error {
+  public abstract readonly status: number;
+  // Short, stable identifier of the kind of problem, e.g. "not-found"
+  public abstract readonly type: string;
+  public abstract readonly title: string;
+  public readonly cause?: unknown;
+
+  constructor(message: string, cause?: unknown) {
+    super(message);
+    this.name = new.target.name;
+    this.cause = cause;
+  }
+}
+
+export class NotFoundError extends AppError {
+  public readonly status = 404;
+  public readonly type = "not-found";
+  public readonly title = "Not Found";
+}
+
+export class ValidationError extends AppError {
+  public readonly status = 400;
+  public readonly type = "validation-failed";
+  public readonly title = "Invalid Request";
+  // Every problem found, not just the first one
+  public readonly errors: string[];
+
+  constructor(message: string, errors: string[] = []) {
+    super(message);
+    this.errors = errors;
+  }
+}
+
+export class UnauthorizedError extends AppError {
+  public readonly status = 401;
+  public readonly type = "unauthorized";
+  public readonly title = "Unauthorized";
+}
+
+// The caller is known, but lacks the scope the route needs
+export class ForbiddenError extends AppError {
+  public readonly status = 403;
+  public readonly type = "forbidden";
+  public readonly title = "Forbidden";
+}
+
+// The caller used up its rate limit
+export class TooManyRequestsError extends AppError {
+  public readonly status = 429;
+  public readonly type = "rate-limited";
+  public readonly title = "Too Many Requests";
+  public readonly retryAfterSeconds: number;
+
+  constructor(message: string, retryAfterSeconds: number) {
+    super(message);
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
+
+// A feature that is switched off by configuration
+export class ServiceUnavailableError extends AppError {
+  public readonly status = 503;
+  public readonly type = "service-unavailable";
+  public readonly title = "Service Unavailable";
+}
+
+// A service we depend on (a registry, an image host) failed
+export class UpstreamError extends AppError {
+  public readonly status: number = 502;
+  public readonly type: string = "upstream-failed";
+  public readonly title: string = "Upstream Request Failed";
+}
+
+export class RegistryUnavailableError extends UpstreamError {
+  public readonly type = "registry-unavailable";
+  public readonly title = "Registry Unavailable";
+}
+
+// The registry rejected our credentials (or has none for a private repository)
+export class RegistryAuthError extends UpstreamError {
+  public readonly type = "registry-auth-failed";
+  public readonly title = "Registry Authentication Failed";
+}
+
+export class RegistryRateLimitedError extends UpstreamError {
+  public readonly status = 503;
+  public readonly type = "registry-rate-limited";
+  public readonly title = "Registry Rate Limit Exceeded";
+  // When the registry said it will accept requests again, if it did
+  public readonly retryAfterSeconds?: number;
+
+  constructor(message: string, retryAfterSeconds?: number, cause?: unknown) {
+    super(message, cause);
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
@@ -1,9 +1,25 @@
 import winston from "winston";
 import { config } from "./config";
+import { getRequestContext } from "./requestContext";
 
+// Tags every line with the request, repository and span it was logged for,
+// so interleaved lines of concurrent work can be grouped again
+const contextFields = winston.format((info) => {
+  const context = getRequestContext();
+  // Fields passed explicitly (e.g. by the span exporter) take precedence
+  info.requestId ??= context?.requestId;
+  info.repository ??= context?.repository;
+  info.traceId ??= context?.span?.traceId;
+  info.spanId ??= context?.span?.spanId;
+  return info;
+});
+
+// Details go in a meta object, e.g. `{ error: error.message }`: without a
+// splat format, extra string arguments are not part of the line
 const logger = winston.createLogger({
   level: config.logLevel,
   format: winston.format.combine(
+    contextFields(),
     winston.format.timestamp(),
     winston.format.json()
   ),
@@ -0,0 +1,173 @@
+/**
+ * A small metrics registry rendering the Prometheus text exposition format
+ * (version 0.0.4). Counters, gauges and histograms are kept in memory per
+ * label combination; keep label values low-cardinality.
+ */
+
+type Labels = Record<string, string>;
+
+// Latency buckets in seconds, from fast cache hits to slow registry calls
+export const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+const escapeLabelValue = (value: string) =>
+  value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+
+function formatLabels(labels: Labels, extra?: Labels): string {
+  const entries = Object.entries({ ...labels, ...extra });
+  if (entries.length === 0) return "";
+  return `{${entries.map(([name, value]) => `${name}="${escapeLabelValue(value)}"`).join(",")}}`;
+}
+
+// Series are keyed by their labels in a stable order
+const toKey = (labelNames: string[], labels: Labels) =>
+  JSON.stringify(labelNames.map((name) => labels[name] ?? ""));
+
+abstract class Metric<T> {
+  public readonly name: string;
+  protected help: string;
+  protected labelNames: string[];
+  protected series = new Map<string, { labels: Labels; value: T }>();
+
+  constructor(name: string, help: string, labelNames: string[]) {
+    this.name = name;
+    this.help = help;
+    this.labelNames = labelNames;
+  }
+
+  public abstract render(): string;
+
+  protected header(type: string): string {
+    return `# HELP ${this.name} ${this.help}\n# TYPE ${this.name} ${type}\n`;
+  }
+
+  protected getSeries(labels: Labels, create: () => T): { labels: Labels; value: T } {
+    const key = toKey(this.labelNames, labels);
+    let entry = this.series.get(key);
+    if (!entry) {
+      const picked: Labels = {};
+      for (const name of this.labelNames) picked[name] = labels[name] ?? "";
+      entry = { labels: picked, value: create() };
+      this.series.set(key, entry);
+    }
+    return entry;
+  }
+}
+
+export class Counter extends Metric<number> {
+  public inc(labels: Labels = {}, amount = 1): void {
+    const entry = this.getSeries(labels, () => 0);
+    entry.value += amount;
+  }
+
+  public render(): string {
+    let text = this.header("counter");
+    for (const { labels, value } of this.series.values()) {
+      text += `${this.name}${formatLabels(labels)} ${value}\n`;
+    }
+    return text;
+  }
+}
+
+export class Gauge extends Metric<number> {
+  public set(value: number, labels: Labels = {}): void {
+    this.getSeries(labels, () => 0).value = value;
+  }
+
+  public render(): string {
+    let text = this.header("gauge");
+    for (const { labels, value } of this.series.values()) {
+      text += `${this.name}${formatLabels(labels)} ${value}\n`;
+    }
+    return text;
+  }
+}
+
+interface HistogramValue {
+  buckets: number[];
+  sum: number;
+  count: number;
+}
+
+export class Histogram extends Metric<HistogramValue> {
+  private bounds: number[];
+
+  constructor(name: string, help: string, labelNames: string[], bounds = DEFAULT_BUCKETS) {
+    super(name, help, labelNames);
+    this.bounds = bounds;
+  }
+
+  public observe(value: number, labels: Labels = {}): void {
+    const entry = this.getSeries(labels, () => ({
+      buckets: this.bounds.map(() => 0),
+      sum: 0,
+      count: 0,
+    }));
+    this.bounds.forEach((bound, index) => {
+      if (value <= bound) entry.value.buckets[index]++;
+    });
+    entry.value.sum += value;
+    entry.value.count++;
+  }
+
+  /**
+   * Starts a timer; calling the returned function observes the elapsed
+   * seconds with the given labels.
+   */
+  public startTimer(): (labels: Labels) => void {
+    const start = process.hrtime.bigint();
+    return (labels) => this.observe(Number(process.hrtime.bigint() - start) / 1e9, labels);
+  }
+
+  public render(): string {
+    let text = this.header("histogram");
+    for (const { labels, value } of this.series.values()) {
+      this.bounds.forEach((bound, index) => {
+        text += `${this.name}_bucket${formatLabels(labels, { le: String(bound) })} ${
+          value.buckets[index]
+        }\n`;
+      });
+      text += `${this.name}_bucket${formatLabels(labels, { le: "+Inf" })} ${value.count}\n`;
+      text += `${this.name}_sum${formatLabels(labels)} ${value.sum}\n`;
+      text += `${this.name}_count${formatLabels(labels)} ${value.count}\n`;
+    }
+    return text;
+  }
+}
+
+export class MetricsRegistry {
+  private metrics = new Map<string, Metric<unknown>>();
+
+  public counter(name: string, help: string, labelNames: string[] = []): Counter {
+    return this.register(new Counter(name, help, labelNames));
+  }
+
+  public gauge(name: string, help: string, labelNames: string[] = []): Gauge {
+    return this.register(new Gauge(name, help, labelNames));
+  }
+
+  public histogram(
+    name: string,
+    help: string,
+    labelNames: string[] = [],
+    buckets?: number[]
+  ): Histogram {
+    return this.register(new Histogram(name, help, labelNames, buckets));
+  }
+
+  public render(): string {
+    return [...this.metrics.values()].map((metric) => metric.render()).join("");
+  }
+
+  private register<T extends Metric<any>>(metric: T): T {
+    if (this.metrics.has(metric.name)) {
+      throw new Error(`Metric ${metric.name} is already registered.`);
+    }
+    this.metrics.set(metric.name, metric);
+    return metric;
+  }
+}
+
+// The process-wide registry served at /metrics
+const metrics = new MetricsRegistry();
+
+export default metrics;
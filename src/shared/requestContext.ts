@@ -0,0 +1,39 @@
+import { AsyncLocalStorage } from "async_hooks";
+
+// The span that is currently running, as far as log lines and child spans care
+export interface SpanContext {
+  traceId: string;
+  spanId: string;
+}
+
+/**
+ * What is known about the work being done right now: the incoming request,
+ * the repository a catalog worker is processing and the active span. It
+ * follows async calls, so concurrent requests never see each other's data.
+ */
+export interface RequestContext {
+  requestId?: string;
+  repository?: string;
+  span?: SpanContext;
+}
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+export function getRequestContext(): RequestContext | undefined {
+  return storage.getStore();
+}
+
+/**
+ * Runs a function with the current context extended by the given fields.
+ */
+export function runWithContext<T>(fields: RequestContext, task: () => T): T {
+  return storage.run({ ...storage.getStore(), ...fields }, task);
+}
+
+/**
+ * Runs a function outside of any context, for work that outlives the request
+ * that happened to start it.
+ */
+export function runWithoutContext<T>(task: () => T): T {
+  return storage.exit(task);
+}
@@ -0,0 +1,176 @@
+import { randomBytes } from "crypto";
+import logger from "./logger";
+import { SpanContext, getRequestContext, runWithContext } from "./requestContext";
+
+export type SpanKind = "internal" | "server" | "client";
+export type AttributeValue = string | number | boolean;
+
+// A finished span, shaped after the OpenTelemetry data model
+export interface SpanData {
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  name: string;
+  kind: SpanKind;
+  startTimeUnixNano: bigint;
+  endTimeUnixNano: bigint;
+  attributes: Record<string, AttributeValue>;
+  status: { code: "unset" | "ok" | "error"; message?: string };
+}
+
+// Where finished spans go (console, an OTLP collector, ...)
+export interface SpanExporter {
+  export(spans: SpanData[]): Promise<void>;
+}
+
+const newTraceId = () => randomBytes(16).toString("hex");
+const newSpanId = () => randomBytes(8).toString("hex");
+const nowUnixNano = () => BigInt(Date.now()) * 1_000_000n;
+
+/**
+ * A span in progress. Attributes can be added until it ends.
+ */
+export class Span {
+  public readonly context: SpanContext;
+  private data: Omit<SpanData, "endTimeUnixNano">;
+  private startHrTime = process.hrtime.bigint();
+  private onEnd: (span: SpanData) => void;
+  private ended = false;
+
+  constructor(
+    name: string,
+    kind: SpanKind,
+    parent: SpanContext | undefined,
+    onEnd: (span: SpanData) => void
+  ) {
+    this.context = { traceId: parent?.traceId || newTraceId(), spanId: newSpanId() };
+    this.data = {
+      ...this.context,
+      parentSpanId: parent?.spanId,
+      name,
+      kind,
+      startTimeUnixNano: nowUnixNano(),
+      attributes: {},
+      status: { code: "unset" },
+    };
+    this.onEnd = onEnd;
+  }
+
+  public setName(name: string): void {
+    this.data.name = name;
+  }
+
+  public setAttributes(attributes: Record<string, AttributeValue | undefined>): void {
+    for (const [key, value] of Object.entries(attributes)) {
+      if (value !== undefined) this.data.attributes[key] = value;
+    }
+  }
+
+  public setStatus(code: "ok" | "error", message?: string): void {
+    this.data.status = { code, message };
+  }
+
+  public end(): void {
+    if (this.ended) return;
+    this.ended = true;
+    const durationNano = process.hrtime.bigint() - this.startHrTime;
+    this.onEnd({ ...this.data, endTimeUnixNano: this.data.startTimeUnixNano + durationNano });
+  }
+}
+
+// Finished spans are exported in batches, not one request per span
+const MAX_BATCH_SIZE = 100;
+const FLUSH_INTERVAL_MS = 5000;
+
+/**
+ * Creates spans that nest along the async call chain: a span started while
+ * another one is active becomes its child. Without an exporter spans are
+ * still created (their ids end up in log lines) but never sent anywhere.
+ */
+export class Tracer {
+  private exporter: SpanExporter | null = null;
+  private pending: SpanData[] = [];
+  private timer: NodeJS.Timeout | null = null;
+
+  public setExporter(exporter: SpanExporter | null): void {
+    this.exporter = exporter;
+  }
+
+  /**
+   * Runs a function inside a new span that is active for everything it
+   * calls. The span ends when the function settles; a thrown error marks it
+   * as failed.
+   */
+  public async startActiveSpan<T>(
+    name: string,
+    options: {
+      kind?: SpanKind;
+      attributes?: Record<string, AttributeValue | undefined>;
+      // Continues a trace started by a caller (e.g. from a `traceparent` header)
+      parent?: SpanContext;
+    },
+    task: (span: Span) => Promise<T>
+  ): Promise<T> {
+    const parent = options.parent || getRequestContext()?.span;
+    const span = new Span(name, options.kind || "internal", parent, (data) =>
+      this.record(data)
+    );
+    if (options.attributes) span.setAttributes(options.attributes);
+
+    return runWithContext({ span: span.context }, async () => {
+      try {
+        return await task(span);
+      } catch (error: any) {
+        span.setStatus("error", error?.message);
+        throw error;
+      } finally {
+        span.end();
+      }
+    });
+  }
+
+  /**
+   * Exports the spans that are still buffered.
+   */
+  public async flush(): Promise<void> {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    const batch = this.pending.splice(0, this.pending.length);
+    if (batch.length === 0 || !this.exporter) return;
+
+    try {
+      await this.exporter.export(batch);
+    } catch (error: any) {
+      // Tracing must never break the service; losing a batch is acceptable
+      logger.warn(`Failed to export ${batch.length} span(s)`, { error: error.message });
+    }
+  }
+
+  private record(span: SpanData): void {
+    if (!this.exporter) return;
+
+    this.pending.push(span);
+    if (this.pending.length >= MAX_BATCH_SIZE) {
+      void this.flush();
+    } else if (!this.timer) {
+      this.timer = setTimeout(() => void this.flush(), FLUSH_INTERVAL_MS);
+      this.timer.unref();
+    }
+  }
+}
+
+/**
+ * Parses a W3C `traceparent` header (`00-<trace id>-<span id>-<flags>`).
+ */
+export function parseTraceparent(header: string | undefined): SpanContext | undefined {
+  const match = header?.trim().match(/^00-([0-9a-f]{32})-([0-9a-f]{16})-[0-9a-f]{2}$/);
+  if (!match || /^0+$/.test(match[1]) || /^0+$/.test(match[2])) return undefined;
+  return { traceId: match[1], spanId: match[2] };
+}
+
+// The process-wide tracer; exporters are configured at startup
+const tracer = new Tracer();
+
+export default tracer;
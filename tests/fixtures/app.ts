@@ -0,0 +1,26 @@
+import { App } from "../../src/domain/models/App";
+import { AppLocation } from "../../src/domain/valueObjects/AppLocation";
+import { IAppRepository } from "../../src/infrastructure/repositories/appRepository";
+
+// An app with just the required fields, named after its location
+export const makeApp = (location: string, overrides: Partial<App> = {}): App => ({
+  name: location,
+  location: AppLocation.create(location),
+  description: "",
+  platforms: [],
+  keywords: [],
+  screenshots: [],
+  warnings: [],
+  ...overrides,
+});
+
+// A repository of mocks; tests pass the methods they rely on
+export const makeRepository = (overrides: Partial<IAppRepository> = {}): IAppRepository => ({
+  findAll: jest.fn(),
+  findOne: jest.fn(),
+  findByLocation: jest.fn(),
+  findTags: jest.fn(),
+  findSupplyChainDocument: jest.fn(),
+  findImage: jest.fn(),
+  ...overrides,
+});
@@ -1,10 +1,123 @@
+import '../offlineFixtures';
 import request from 'supertest';
 import app from '../../../src/interfaces/http/app';
 
-// This is a placeholder. A real test would require mocking the Docker Registry.
 describe('GET /api/apps', () => {
-  it('should return 200 OK', async () => {
+  it('should list the apps of every image archive with their labels', async () => {
     const res = await request(app).get('/api/apps');
+
+    expect(res.statusCode).toEqual(200);
+    expect(res.body.partial).toBe(false);
+    expect(res.body.items).toEqual([
+      expect.objectContaining({
+        name: 'Notes',
+        location: 'notes-app',
+        description: 'A small Markdown notes app.',
+        tag: '1.0.0',
+        version: '1.0.0',
+        category: 'productivity',
+        keywords: ['notes', 'markdown'],
+        platforms: ['linux/amd64', 'linux/arm64'],
+      }),
+      expect.objectContaining({
+        name: 'Wiki',
+        location: 'acme/wiki',
+        tag: '2.3.1',
+        category: 'documentation',
+        platforms: ['linux/amd64'],
+      }),
+    ]);
+  });
+
+  it('should filter the catalog', async () => {
+    const res = await request(app).get('/api/apps?category=documentation');
+
+    expect(res.statusCode).toEqual(200);
+    expect(res.body.items.map((item: any) => item.location)).toEqual(['acme/wiki']);
+  });
+
+  it('should answer revalidations of an unchanged catalog with 304', async () => {
+    const first = await request(app).get('/api/apps');
+    expect(first.headers.etag).toMatch(/^"/);
+
+    const res = await request(app)
+      .get('/api/apps')
+      .set('If-None-Match', first.headers.etag)
+      .set('If-Modified-Since', first.headers['last-modified']);
+    expect(res.statusCode).toEqual(304);
+
+    const other = await request(app)
+      .get('/api/apps?category=documentation')
+      .set('If-None-Match', first.headers.etag);
+    expect(other.statusCode).toEqual(200);
+  });
+
+  it('should reject page and cursor together', async () => {
+    const res = await request(app).get('/api/apps?page=2&cursor=abc');
+
+    expect(res.statusCode).toEqual(400);
+    expect(res.body.errors).toEqual(["Use either 'page' or 'cursor', not both."]);
+  });
+
+  it('should sort by name and return 20 apps per page by default', async () => {
+    const res = await request(app).get('/api/apps');
+
+    expect(res.body.limit).toEqual(20);
+    expect(res.body.page).toEqual(1);
+    expect(res.body.items.map((item: any) => item.name)).toEqual(['Notes', 'Wiki']);
+  });
+
+  it('should reject query parameters that break the contract', async () => {
+    const res = await request(app).get('/api/apps?limit=many&colour=blue');
+
+    expect(res.statusCode).toEqual(400);
+    expect(res.body.errors).toEqual([
+      "Unknown query parameter 'colour'.",
+      "Query parameter 'limit': expected integer.",
+    ]);
+  });
+});
+
+describe('GET /api/apps/:location', () => {
+  it('should read the image of the configured platform', async () => {
+    const res = await request(app).get('/api/apps/notes-app');
+
+    expect(res.statusCode).toEqual(200);
+    expect(res.body.tags).toEqual(['1.0.0', 'latest']);
+    expect(res.body.image).toMatchObject({
+      tag: '1.0.0',
+      platform: 'linux/arm64',
+      exposedPorts: ['8080/tcp'],
+      env: { PORT: '8080' },
+    });
+  });
+
+  it('should answer 404 for unknown apps', async () => {
+    const res = await request(app).get('/api/apps/unknown-app');
+
+    expect(res.statusCode).toEqual(404);
+    expect(res.type).toEqual('application/problem+json');
+  });
+
+  it('should reject locations that are not repository names', async () => {
+    for (const path of ['', '/tags', '/install']) {
+      const res = await request(app).get(`/api/apps/acme%2F..%2Fnotes-app${path}`);
+
+      expect(res.statusCode).toEqual(400);
+      expect(res.body.errors).toEqual([
+        expect.stringMatching(/^Path parameter 'location': expected string to match/),
+      ]);
+    }
+  });
+});
+
+describe('GET /api/apps/:location/tags', () => {
+  it('should list the tags of a docker save archive with their digests', async () => {
+    const res = await request(app).get(`/api/apps/${encodeURIComponent('acme/wiki')}/tags`);
+
     expect(res.statusCode).toEqual(200);
+    expect(res.body.stableTag).toEqual('2.3.1');
+    expect(res.body.tags.map((tag: any) => tag.name)).toEqual(['2.3.1', 'latest']);
+    expect(res.body.tags[0].digest).toMatch(/^sha256:[a-f0-9]{64}$/);
   });
-});
\ No newline at end of file
+});
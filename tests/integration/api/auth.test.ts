@@ -0,0 +1,77 @@
+import '../offlineFixtures';
+import request from 'supertest';
+import app from '../../../src/interfaces/http/app';
+
+const ADMIN = { Authorization: 'Bearer test-admin-token', 'X-Admin-Actor': 'alice' };
+
+describe('API authentication', () => {
+  it('should let anonymous callers browse, with rate limit headers', async () => {
+    const res = await request(app).get('/api/apps');
+
+    expect(res.statusCode).toEqual(200);
+    expect(res.headers['ratelimit-limit']).toEqual('120');
+    expect(Number(res.headers['ratelimit-remaining'])).toBeLessThan(120);
+    expect(res.headers['ratelimit-policy']).toEqual('120;w=60');
+  });
+
+  it('should ask anonymous callers for credentials on admin routes', async () => {
+    const res = await request(app).get('/api/admin/apps');
+
+    expect(res.statusCode).toEqual(401);
+    expect(res.body.type).toEqual('urn:app-store:problem:unauthorized');
+  });
+
+  it('should gate routes by the scopes of API keys', async () => {
+    const created = await request(app)
+      .post('/api/admin/api-keys')
+      .set(ADMIN)
+      .send({ name: 'storefront', scopes: ['catalog:read'] });
+    expect(created.statusCode).toEqual(201);
+    expect(created.body).toMatchObject({ name: 'storefront', createdBy: 'alice' });
+
+    const key = created.body.key;
+    expect((await request(app).get('/api/apps').set('X-API-Key', key)).statusCode).toEqual(200);
+
+    const forbidden = await request(app).get('/api/admin/apps').set('X-API-Key', key);
+    expect(forbidden.statusCode).toEqual(403);
+    expect(forbidden.body.detail).toEqual("The 'admin' scope is required.");
+
+    const listed = await request(app).get('/api/admin/api-keys').set(ADMIN);
+    expect(JSON.stringify(listed.body)).not.toContain(key);
+
+    await request(app).delete(`/api/admin/api-keys/${created.body.id}`).set(ADMIN).expect(204);
+    expect((await request(app).get('/api/apps').set('X-API-Key', key)).statusCode).toEqual(401);
+  });
+
+  it('should answer 429 once a key has used up its rate limit', async () => {
+    const created = await request(app)
+      .post('/api/admin/api-keys')
+      .set(ADMIN)
+      .send({ name: 'crawler', scopes: ['catalog:read'], rateLimit: { capacity: 2, refillPerSecond: 0.1 } });
+    const auth = { Authorization: `Bearer ${created.body.key}` };
+
+    await request(app).get('/api/changes').set(auth).expect(200);
+    await request(app).get('/api/changes').set(auth).expect(200);
+    const limited = await request(app).get('/api/changes').set(auth);
+
+    expect(limited.statusCode).toEqual(429);
+    expect(limited.headers['retry-after']).toEqual('10');
+    expect(limited.headers['ratelimit-remaining']).toEqual('0');
+  });
+
+  it('should stop checking credentials from an address that keeps sending wrong ones', async () => {
+    const wrongKey = { 'X-API-Key': `asp_000000000000_${'x'.repeat(32)}` };
+    const statuses: number[] = [];
+    for (let attempt = 0; attempt < 11; attempt++) {
+      statuses.push((await request(app).get('/api/apps').set(wrongKey)).statusCode);
+    }
+    expect(statuses).toContain(401);
+    expect(statuses[statuses.length - 1]).toEqual(429);
+
+    // Not even valid credentials are checked now, but anonymous browsing goes on
+    const admin = await request(app).get('/api/admin/apps').set(ADMIN);
+    expect(admin.statusCode).toEqual(429);
+    expect(admin.headers['retry-after']).toEqual('10');
+    await request(app).get('/api/apps').expect(200);
+  });
+});
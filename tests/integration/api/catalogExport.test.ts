@@ -0,0 +1,72 @@
+import '../offlineFixtures';
+import request from 'supertest';
+import app from '../../../src/interfaces/http/app';
+
+describe('GET /api/catalog/export', () => {
+  it('should render Portainer app templates from the image config', async () => {
+    const res = await request(app).get('/api/catalog/export?format=portainer-v2');
+
+    expect(res.statusCode).toEqual(200);
+    expect(res.headers['content-type']).toMatch(/^application\/json/);
+    expect(res.body.version).toEqual('2');
+    const notes = res.body.templates.find((template: any) => template.title === 'Notes');
+    expect(notes).toMatchObject({
+      type: 1,
+      name: 'notes-app',
+      description: 'A small Markdown notes app.',
+      categories: ['productivity'],
+      logo: 'http://localhost:3000/api/apps/notes-app/icon',
+      image: expect.stringMatching(/notes-app:1\.0\.0$/),
+      maintainer: 'Acme',
+      ports: ['8080:8080/tcp'],
+      env: [{ name: 'PORT', label: 'PORT', default: '8080' }],
+    });
+  });
+
+  it('should number the templates of version 3 files', async () => {
+    const res = await request(app).get('/api/catalog/export?format=portainer-v3');
+
+    expect(res.statusCode).toEqual(200);
+    expect(res.body.version).toEqual('3');
+    expect(res.body.templates.map((template: any) => template.id)).toEqual([1, 2]);
+  });
+
+  it('should render CSV', async () => {
+    const res = await request(app).get('/api/catalog/export?format=csv');
+
+    expect(res.statusCode).toEqual(200);
+    expect(res.headers['content-type']).toEqual('text/csv; charset=utf-8');
+    expect(res.headers['content-disposition']).toEqual('attachment; filename="catalog.csv"');
+    const lines = res.text.trimEnd().split('\r\n');
+    expect(lines[0]).toMatch(/^location,name,version,tag,image,/);
+    expect(lines.slice(1).sort()).toEqual([
+      expect.stringMatching(/^acme\/wiki,Wiki,2\.3\.1,2\.3\.1,/),
+      expect.stringMatching(/^notes-app,Notes,1\.0\.0,1\.0\.0,/),
+    ]);
+  });
+
+  it('should render an Atom feed and answer revalidations with 304', async () => {
+    // Links point at PUBLIC_BASE_URL, whatever the Host header says
+    const res = await request(app)
+      .get('/api/catalog/export?format=atom')
+      .set('Host', 'attacker.example.com');
+
+    expect(res.statusCode).toEqual(200);
+    expect(res.headers['content-type']).toEqual('application/atom+xml; charset=utf-8');
+    expect(res.text).toContain('<id>http://localhost:3000/api/catalog/export?format=atom</id>');
+    expect(res.text).not.toContain('attacker.example.com');
+
+    const again = await request(app)
+      .get('/api/catalog/export?format=atom')
+      .set('Host', 'apps.example.com')
+      .set('If-None-Match', res.headers.etag);
+    expect(again.statusCode).toEqual(304);
+  });
+
+  it('should reject unknown formats', async () => {
+    const res = await request(app).get('/api/catalog/export?format=xml');
+
+    expect(res.statusCode).toEqual(400);
+    expect(res.body.errors).toEqual([expect.stringContaining("'format'")]);
+  });
+});
@@ -0,0 +1,20 @@
+import '../offlineFixtures';
+import request from 'supertest';
+import app from '../../../src/interfaces/http/app';
+
+describe('GET /api-docs/openapi.json', () => {
+  it('should describe every route with resolvable schemas', async () => {
+    const res = await request(app).get('/api-docs/openapi.json');
+
+    expect(res.statusCode).toEqual(200);
+    expect(res.body.openapi).toEqual('3.1.0');
+    expect(Object.keys(res.body.paths)).toEqual(
+      expect.arrayContaining(['/healthz', '/api/apps', '/api/apps/{location}', '/api/changes'])
+    );
+
+    const refs = JSON.stringify(res.body).match(/#\/components\/schemas\/\w+/g) || [];
+    for (const ref of new Set(refs)) {
+      expect(res.body.components.schemas).toHaveProperty(ref.split('/').pop()!);
+    }
+  });
+});
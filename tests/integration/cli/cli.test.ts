@@ -0,0 +1,94 @@
+import '../offlineFixtures';
+import { runCli } from '../../../src/interfaces/cli/cli';
+import { ExitCode } from '../../../src/interfaces/cli/output';
+
+// Runs a command and captures what it writes
+async function run(...argv: string[]) {
+  const out: string[] = [];
+  const err: string[] = [];
+  const code = await runCli(argv, {
+    out: (text) => out.push(text),
+    err: (text) => err.push(text),
+  });
+  return { code, stdout: out.join('\n'), stderr: err.join('\n') };
+}
+
+describe('app-store CLI', () => {
+  it('should list the catalog as a table', async () => {
+    const { code, stdout } = await run('list');
+
+    expect(code).toEqual(ExitCode.OK);
+    const [header, ...rows] = stdout.split('\n');
+    expect(header).toMatch(/^LOCATION\s+NAME\s+VERSION\s+TAG\s+CATEGORY\s+PLATFORMS$/);
+    expect(rows).toEqual([
+      expect.stringMatching(/^notes-app\s+Notes\s+1\.0\.0\s+1\.0\.0\s+productivity\s+linux\/amd64, linux\/arm64$/),
+      expect.stringMatching(/^acme\/wiki\s+Wiki\s+2\.3\.1\s+2\.3\.1\s+documentation\s+linux\/amd64$/),
+    ]);
+  });
+
+  it('should list the catalog as JSON', async () => {
+    const { code, stdout } = await run('list', '--category', 'documentation', '--json');
+
+    expect(code).toEqual(ExitCode.OK);
+    expect(JSON.parse(stdout)).toEqual({
+      items: [expect.objectContaining({ location: 'acme/wiki', platforms: ['linux/amd64'] })],
+      warnings: [],
+    });
+  });
+
+  it('should inspect an app', async () => {
+    const { code, stdout } = await run('inspect', 'notes-app');
+
+    expect(code).toEqual(ExitCode.OK);
+    expect(stdout).toMatch(/^Name:\s+Notes$/m);
+    expect(stdout).toMatch(/^Digest:\s+sha256:[0-9a-f]{64}$/m);
+  });
+
+  it('should list the tags of an app and mark the stable one', async () => {
+    const { code, stdout } = await run('tags', 'acme/wiki', '--json');
+
+    expect(code).toEqual(ExitCode.OK);
+    const tagList = JSON.parse(stdout);
+    expect(tagList.stableTag).toEqual('2.3.1');
+    expect(tagList.tags.map((tag: any) => tag.name)).toContain('2.3.1');
+  });
+
+  it('should diagnose an app', async () => {
+    const { code, stdout } = await run('diagnose', 'acme/wiki', '--json');
+
+    expect(code).toEqual(ExitCode.OK);
+    expect(JSON.parse(stdout)).toEqual({
+      location: 'acme/wiki',
+      ok: true,
+      checks: expect.arrayContaining([
+        expect.objectContaining({ name: 'registry-access', status: 'pass' }),
+        expect.objectContaining({ name: 'metadata', status: 'pass' }),
+      ]),
+    });
+  });
+
+  it('should fail the diagnosis of a repository the registry does not have', async () => {
+    const { code, stdout } = await run('diagnose', 'acme/missing');
+
+    expect(code).toEqual(ExitCode.PROBLEMS);
+    expect(stdout).toMatch(/^fail\s+registry-access\s+/m);
+  });
+
+  it('should export the catalog', async () => {
+    const { code, stdout } = await run('export');
+
+    expect(code).toEqual(ExitCode.OK);
+    const document = JSON.parse(stdout);
+    expect(document.apps.map((app: any) => app.location).sort()).toEqual(['acme/wiki', 'notes-app']);
+  });
+
+  it('should exit with distinct codes for unknown apps and bad usage', async () => {
+    expect((await run('inspect', 'acme/missing')).code).toEqual(ExitCode.NOT_FOUND);
+    expect((await run('inspect')).code).toEqual(ExitCode.USAGE);
+    expect((await run('list', '--colour', 'blue')).code).toEqual(ExitCode.USAGE);
+
+    const unknown = await run('install', 'acme/wiki');
+    expect(unknown.code).toEqual(ExitCode.USAGE);
+    expect(unknown.stderr).toMatch(/^app-store: unknown command 'install'/);
+  });
+});
@@ -0,0 +1,16 @@
+import { mkdtempSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+
+// Serves the catalog from the fixture images in tests/fixtures/images (an OCI
+// layout and a `docker save` tarball) instead of a registry. Import this
+// before anything that reads the config.
+process.env.DOCKER_REGISTRY_BACKEND = 'offline';
+process.env.OFFLINE_IMAGE_PATHS = path.join(__dirname, '../fixtures/images');
+process.env.CATALOG_SOURCES = '';
+process.env.DOCKER_PLATFORM = 'linux/arm64';
+// Every test file starts without a digest index
+process.env.DIGEST_INDEX_DIR = mkdtempSync(path.join(tmpdir(), 'digests-'));
+// ... and without API keys; admin requests use this token
+process.env.AUTH_DIR = mkdtempSync(path.join(tmpdir(), 'auth-'));
+process.env.ADMIN_API_TOKEN = 'test-admin-token';
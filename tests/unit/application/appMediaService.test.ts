@@ -0,0 +1,45 @@
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import { AppMediaService } from "../../../src/application/services/appMediaService";
+import { CatalogCache } from "../../../src/infrastructure/cache/catalogCache";
+import { ImageCache } from "../../../src/infrastructure/images/imageCache";
+import { makeApp, makeRepository } from "../../fixtures/app";
+
+const PNG = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 0]);
+
+describe("AppMediaService", () => {
+  let directory: string;
+  let service: AppMediaService;
+
+  beforeEach(() => {
+    directory = mkdtempSync(path.join(tmpdir(), "media-"));
+    const apps = [
+      makeApp("public-app", { screenshots: ["https://img.example.com/1.png"] }),
+      makeApp("private-app", { private: true, screenshots: ["https://img.example.com/2.png"] }),
+    ];
+    service = new AppMediaService(
+      new CatalogCache(
+        makeRepository({ findAll: jest.fn().mockResolvedValue({ apps, warnings: [] }) }),
+        60_000
+      ),
+      new ImageCache(directory, 60_000),
+      async () => ({ data: PNG, contentType: "image/png" }),
+      1024
+    );
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it("should tell which images belong to private apps", async () => {
+    expect(await service.getScreenshot("public-app", 0, false)).toMatchObject({
+      contentType: "image/png",
+      private: false,
+    });
+    expect(await service.getScreenshot("private-app", 0, false)).toBeNull();
+    expect(await service.getScreenshot("private-app", 0, true)).toMatchObject({ private: true });
+    expect(await service.getIcon("private-app", true)).toMatchObject({ private: true });
+  });
+});
@@ -0,0 +1,51 @@
+import { AppQuery, queryApps } from "../../../src/application/services/appQuery";
+import { makeApp } from "../../fixtures/app";
+
+const amd64 = [{ os: "linux", architecture: "amd64" }];
+
+const apps = [
+  makeApp("nginx", { category: "web", pullCount: 300, platforms: amd64 }),
+  makeApp("postgres", { category: "database", pullCount: 500, platforms: amd64 }),
+  makeApp("redis", {
+    category: "database",
+    description: "In-memory cache",
+    platforms: [{ os: "linux", architecture: "arm64" }],
+  }),
+];
+
+const baseQuery: AppQuery = { sort: "name", order: "asc", limit: 20 };
+
+describe("queryApps", () => {
+  it("should search over name and description", () => {
+    const page = queryApps(apps, { ...baseQuery, search: "CACHE" });
+    expect(page.items.map((app) => app.name)).toEqual(["redis"]);
+  });
+
+  it("should filter by category and architecture", () => {
+    const page = queryApps(apps, {
+      ...baseQuery,
+      category: "database",
+      architecture: "amd64",
+    });
+    expect(page.items.map((app) => app.name)).toEqual(["postgres"]);
+  });
+
+  it("should sort apps without a value last", () => {
+    const page = queryApps(apps, { ...baseQuery, sort: "pulls", order: "desc" });
+    expect(page.items.map((app) => app.name)).toEqual(["postgres", "nginx", "redis"]);
+  });
+
+  it("should paginate with cursors", () => {
+    const first = queryApps(apps, { ...baseQuery, limit: 2 });
+    expect(first.total).toBe(3);
+    expect(first.items).toHaveLength(2);
+
+    const second = queryApps(apps, {
+      ...baseQuery,
+      limit: 2,
+      cursor: first.nextCursor!,
+    });
+    expect(second.items.map((app) => app.name)).toEqual(["redis"]);
+    expect(second.nextCursor).toBeNull();
+  });
+});
@@ -0,0 +1,48 @@
+import { AppService } from "../../../src/application/services/appService";
+import { CatalogCache } from "../../../src/infrastructure/cache/catalogCache";
+import { makeApp, makeRepository } from "../../fixtures/app";
+
+describe("AppService", () => {
+  const tags = { tags: [] };
+
+  // The cached catalog only knows `listed-app`
+  const makeService = (findOne: jest.Mock) => {
+    const repository = makeRepository({
+      findAll: jest.fn().mockResolvedValue({ apps: [makeApp("listed-app")], warnings: [] }),
+      findOne,
+      findTags: jest.fn().mockResolvedValue(tags),
+    });
+    const service = new AppService(repository, new CatalogCache(repository, 60_000));
+    return { repository, service };
+  };
+
+  it("should show tags of public apps in the catalog", async () => {
+    const { repository, service } = makeService(jest.fn());
+
+    expect(await service.getAppTags("listed-app", false)).toBe(tags);
+    expect(repository.findOne).not.toHaveBeenCalled();
+  });
+
+  it("should look up apps the catalog doesn't know", async () => {
+    const { repository, service } = makeService(
+      jest.fn().mockResolvedValue(makeApp("new-app"))
+    );
+
+    expect(await service.getAppTags("new-app", false)).toBe(tags);
+    expect(repository.findTags).toHaveBeenCalledTimes(1);
+  });
+
+  it("should hide apps the catalog doesn't know unless they are public", async () => {
+    const privateApp = makeApp("secret-app", { private: true });
+    const { repository, service } = makeService(
+      jest.fn().mockResolvedValueOnce(privateApp).mockResolvedValueOnce(null)
+    );
+
+    expect(await service.getAppTags("secret-app", false)).toBeNull();
+    expect(await service.getInstallPlan("gone-app", undefined, false)).toBeNull();
+    expect(repository.findTags).not.toHaveBeenCalled();
+    expect(repository.findImage).not.toHaveBeenCalled();
+
+    expect(await service.getAppTags("secret-app", true)).toBe(tags);
+  });
+});
@@ -0,0 +1,91 @@
+import { createHmac } from "crypto";
+import { AuthService } from "../../../src/application/services/authService";
+import { ApiKey } from "../../../src/domain/models/ApiKey";
+import { IApiKeyStore } from "../../../src/infrastructure/auth/apiKeyStore";
+import { JwtVerifier } from "../../../src/infrastructure/auth/jwtVerifier";
+import { UnauthorizedError } from "../../../src/shared/errors";
+
+const API_KEY = `asp_0123456789ab_${"k".repeat(43)}`;
+
+const STORED_KEY: ApiKey = {
+  id: "0123456789ab",
+  name: "storefront",
+  scopes: ["catalog:read", "catalog:read-private"],
+  rateLimit: { capacity: 10, refillPerSecond: 1 },
+  createdAt: "2026-01-01T00:00:00Z",
+  createdBy: "alice",
+};
+
+const makeStore = (): IApiKeyStore => ({
+  getAll: jest.fn(),
+  authenticate: jest.fn(async (key: string) => (key === API_KEY ? STORED_KEY : null)),
+  create: jest.fn(),
+  revoke: jest.fn(),
+});
+
+// Valid for a minute
+const jwt = (claims: object) => {
+  const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString("base64url");
+  const exp = Math.floor(Date.now() / 1000) + 60;
+  const signingInput = `${encode({ alg: "HS256" })}.${encode({ exp, ...claims })}`;
+  return `${signingInput}.${createHmac("sha256", "s3cret").update(signingInput).digest("base64url")}`;
+};
+
+describe("AuthService", () => {
+  const service = new AuthService(makeStore(), new JwtVerifier({ secret: "s3cret" }), {
+    adminToken: "admin-token",
+    anonymousScopes: ["catalog:read"],
+  });
+
+  it("should treat requests without credentials as anonymous", async () => {
+    expect(await service.authenticate({ ip: "10.0.0.1" })).toEqual({
+      id: "ip:10.0.0.1",
+      name: "anonymous",
+      kind: "anonymous",
+      scopes: ["catalog:read"],
+    });
+  });
+
+  it("should accept API keys in either header", async () => {
+    const expected = { id: "key:0123456789ab", kind: "api-key", rateLimit: STORED_KEY.rateLimit };
+    expect(await service.authenticate({ apiKey: API_KEY, ip: "" })).toMatchObject(expected);
+    expect(
+      await service.authenticate({ authorization: `Bearer ${API_KEY}`, ip: "" })
+    ).toMatchObject(expected);
+  });
+
+  it("should take the scopes of a JWT from its claims", async () => {
+    const principal = await service.authenticate({
+      authorization: `Bearer ${jwt({ sub: "ci", scope: "admin unknown:scope" })}`,
+      ip: "",
+    });
+    expect(principal).toMatchObject({ id: "jwt:ci", name: "ci", kind: "jwt", scopes: ["admin"] });
+  });
+
+  it("should grant no scopes from scope claims of the wrong type", async () => {
+    for (const claims of [{ scope: ["admin"] }, { scope: 1 }, { scp: "admin" }]) {
+      const principal = await service.authenticate({
+        authorization: `Bearer ${jwt({ sub: "ci", ...claims })}`,
+        ip: "",
+      });
+      expect(principal).toMatchObject({ kind: "jwt", scopes: [] });
+    }
+  });
+
+  it("should name admin token users after X-Admin-Actor", async () => {
+    expect(
+      await service.authenticate({ authorization: "Bearer admin-token", actor: "bob", ip: "" })
+    ).toMatchObject({ kind: "admin-token", name: "bob", scopes: ["admin"] });
+  });
+
+  it("should reject wrong credentials instead of falling back to anonymous", async () => {
+    for (const credentials of [
+      { apiKey: "nope", ip: "" },
+      { authorization: "Bearer nope", ip: "" },
+      { authorization: "Basic YWRtaW46YWRtaW4=", ip: "" },
+      { authorization: `Bearer ${jwt({ scope: "admin" })}`, ip: "" },
+    ]) {
+      await expect(service.authenticate(credentials)).rejects.toThrow(UnauthorizedError);
+    }
+  });
+});
@@ -0,0 +1,77 @@
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import { ChangeFeedService } from "../../../src/application/services/changeFeedService";
+import { CatalogChange } from "../../../src/domain/models/CatalogChange";
+import { CatalogCache } from "../../../src/infrastructure/cache/catalogCache";
+import { FileChangeLog } from "../../../src/infrastructure/changes/changeLog";
+import { makeApp, makeRepository } from "../../fixtures/app";
+
+// Snapshots are recorded asynchronously after the refresh resolves
+const settle = () => new Promise((resolve) => setTimeout(resolve, 20));
+
+describe("ChangeFeedService", () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = mkdtempSync(path.join(tmpdir(), "changes-"));
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  const setUp = (findAll: jest.Mock, maxChanges = 100) => {
+    const cache = new CatalogCache(makeRepository({ findAll }), 60_000);
+    const feed = new ChangeFeedService(new FileChangeLog(directory, maxChanges), cache);
+    feed.start();
+    return { cache, feed };
+  };
+
+  it("should log changes between snapshots and notify subscribers", async () => {
+    const findAll = jest
+      .fn()
+      .mockResolvedValueOnce({ apps: [makeApp("app-a")], warnings: [] })
+      .mockResolvedValueOnce({ apps: [makeApp("app-a"), makeApp("app-b")], warnings: [] });
+    const { cache, feed } = setUp(findAll);
+    const received: CatalogChange[] = [];
+    feed.subscribe((changes) => received.push(...changes));
+
+    await cache.refresh();
+    await settle();
+    // The first snapshot is only the baseline
+    expect((await feed.getChanges(null, 10, true)).changes).toEqual([]);
+
+    await cache.refresh();
+    await settle();
+    const page = await feed.getChanges({ afterId: 0 }, 10, true);
+    expect(page.changes).toEqual([
+      expect.objectContaining({ id: 1, type: "app_added", location: "app-b" }),
+    ]);
+    expect(page.latestId).toBe(1);
+    expect(received).toEqual(page.changes);
+  });
+
+  it("should keep the log across restarts and flag trimmed changes", async () => {
+    const findAll = jest
+      .fn()
+      .mockResolvedValueOnce({ apps: [], warnings: [] })
+      .mockResolvedValueOnce({ apps: [makeApp("app-a"), makeApp("app-b")], warnings: [] })
+      .mockResolvedValueOnce({ apps: [], warnings: [] });
+    const { cache } = setUp(findAll, 3);
+    for (let i = 0; i < 3; i++) {
+      await cache.refresh();
+      await settle();
+    }
+
+    // Four changes were recorded, only the last three kept
+    const reloaded = setUp(jest.fn());
+    const page = await reloaded.feed.getChanges({ afterId: 0 }, 10, true);
+    expect(page.changes.map((change) => change.id)).toEqual([2, 3, 4]);
+    expect(page.truncated).toBe(true);
+
+    const resumed = await reloaded.feed.getChanges({ afterId: 2 }, 1, true);
+    expect(resumed).toMatchObject({ latestId: 4, hasMore: true, truncated: false });
+    expect(resumed.changes.map((change) => change.id)).toEqual([3]);
+  });
+});
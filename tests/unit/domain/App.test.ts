@@ -11,4 +11,11 @@ describe("AppLocation Value Object", () => {
       "App location cannot be empty."
     );
   });
+
+  it("should only accept repository names", () => {
+    expect(AppLocation.create("team/my_app.v2").value).toBe("team/my_app.v2");
+    for (const location of ["team/../other", "team//app", "./app", "team/", "Team/app"]) {
+      expect(() => AppLocation.create(location)).toThrow("is not a valid repository name");
+    }
+  });
 });
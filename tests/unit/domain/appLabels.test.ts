@@ -0,0 +1,74 @@
+import { parseAppLabels } from "../../../src/domain/labels/appLabels";
+import { parseMemoryMb } from "../../../src/domain/labels/labelValidators";
+
+describe("parseAppLabels", () => {
+  it("should map OCI annotations and app-store labels", () => {
+    const { metadata, warnings } = parseAppLabels({
+      "org.opencontainers.image.title": "My App",
+      "org.opencontainers.image.version": "1.2.3",
+      "org.opencontainers.image.licenses": "MIT OR Apache-2.0",
+      "org.opencontainers.image.source": "https://github.com/acme/my-app",
+      "org.opencontainers.image.created": "2024-05-01T12:00:00Z",
+      "com.app-store.category": "database",
+      "com.app-store.tags": "sql, storage",
+      "com.app-store.min-memory": "512Mi",
+    });
+
+    expect(warnings).toEqual([]);
+    expect(metadata).toMatchObject({
+      title: "My App",
+      version: "1.2.3",
+      licenses: "MIT OR Apache-2.0",
+      sourceUrl: "https://github.com/acme/my-app",
+      created: "2024-05-01T12:00:00Z",
+      category: "database",
+      keywords: ["sql", "storage"],
+      minimumResources: { memoryMb: 512 },
+    });
+  });
+
+  it("should collect warnings for invalid values instead of accepting them", () => {
+    const { metadata, warnings } = parseAppLabels({
+      "org.opencontainers.image.source": "not a url",
+      "com.app-store.category": "Web Servers",
+      "com.app-store.min-cpus": "-1",
+    });
+
+    expect(metadata.sourceUrl).toBeUndefined();
+    expect(metadata.category).toBeUndefined();
+    expect(metadata.minimumResources).toBeUndefined();
+    expect(warnings).toHaveLength(3);
+    expect(warnings[0]).toContain("org.opencontainers.image.source");
+  });
+
+  it("should prefer the app-store homepage over the OCI url", () => {
+    const { metadata } = parseAppLabels({
+      "org.opencontainers.image.url": "https://oci.example.com",
+      "com.app-store.homepage": "https://app.example.com",
+    });
+    expect(metadata.homepage).toBe("https://app.example.com");
+  });
+
+  it("should accept data URI icons and a list of screenshots", () => {
+    const { metadata, warnings } = parseAppLabels({
+      "com.app-store.picture-url": "data:image/png;base64,iVBORw0KGgo=",
+      "com.app-store.screenshots":
+        "https://example.com/1.png, https://example.com/2.png",
+    });
+
+    expect(warnings).toEqual([]);
+    expect(metadata.pictureUrl).toBe("data:image/png;base64,iVBORw0KGgo=");
+    expect(metadata.screenshots).toEqual([
+      "https://example.com/1.png",
+      "https://example.com/2.png",
+    ]);
+  });
+});
+
+describe("parseMemoryMb", () => {
+  it("should convert memory sizes to megabytes", () => {
+    expect(parseMemoryMb("2G")).toBe(2048);
+    expect(parseMemoryMb("256Mi")).toBe(256);
+    expect(parseMemoryMb("lots")).toBeNull();
+  });
+});
@@ -0,0 +1,76 @@
+import { App } from "../../../src/domain/models/App";
+import { diffCatalogs, toCatalogEntry } from "../../../src/domain/services/catalogDiff";
+import * as fixtures from "../../fixtures/app";
+
+const makeApp = (location: string, overrides: Partial<App> = {}) =>
+  toCatalogEntry(fixtures.makeApp(location, { source: "default", ...overrides }));
+
+describe("diffCatalogs", () => {
+  it("should report added and removed apps", () => {
+    const changes = diffCatalogs([makeApp("old-app")], [makeApp("new-app")]);
+
+    expect(changes).toEqual([
+      { type: "app_added", location: "new-app", name: "new-app", source: "default" },
+      { type: "app_removed", location: "old-app", name: "old-app", source: "default" },
+    ]);
+  });
+
+  it("should flag changes of private apps", () => {
+    const before = makeApp("secret-app", { private: true, tagDigests: {} });
+    const after = makeApp("secret-app", { private: true, tagDigests: { "1.0": "sha256:a" } });
+
+    expect(diffCatalogs([before], [after])).toEqual([
+      expect.objectContaining({ type: "tag_added", location: "secret-app", private: true }),
+    ]);
+  });
+
+  it("should report new tags and tags that moved to another digest", () => {
+    const before = makeApp("my-app", { tagDigests: { "1.0": "sha256:a", latest: "sha256:a" } });
+    const after = makeApp("my-app", {
+      tagDigests: { "1.0": "sha256:a", "1.1": "sha256:b", latest: "sha256:b" },
+    });
+
+    expect(diffCatalogs([before], [after])).toEqual([
+      expect.objectContaining({ type: "tag_added", tag: "1.1", digest: "sha256:b" }),
+      expect.objectContaining({
+        type: "tag_digest_changed",
+        tag: "latest",
+        digest: "sha256:b",
+        previousDigest: "sha256:a",
+      }),
+    ]);
+  });
+
+  it("should not compare tags that could not be read", () => {
+    const before = makeApp("my-app", { tagDigests: { latest: "sha256:a" } });
+    const after = makeApp("my-app");
+
+    expect(diffCatalogs([before], [after])).toEqual([]);
+    expect(diffCatalogs([after], [before])).toEqual([]);
+  });
+
+  it("should list changed metadata fields but ignore counters", () => {
+    const before = makeApp("my-app", { description: "Old", starCount: 1, keywords: ["a"] });
+    const after = makeApp("my-app", { description: "New", starCount: 2, keywords: ["a", "b"] });
+
+    expect(diffCatalogs([before], [after])).toEqual([
+      expect.objectContaining({
+        type: "metadata_changed",
+        fields: [
+          { field: "description", from: "Old", to: "New" },
+          { field: "keywords", from: ["a"], to: ["a", "b"] },
+        ],
+      }),
+    ]);
+  });
+
+  it("should not report apps as removed when they could not be read", () => {
+    const previous = [makeApp("broken-app"), makeApp("other-source-app", { source: "hub" })];
+
+    const changes = diffCatalogs(previous, [], [
+      { location: "broken-app", type: "registry-unavailable", reason: "timeout" },
+      { source: "hub", type: "registry-unavailable", reason: "timeout" },
+    ]);
+    expect(changes).toEqual([]);
+  });
+});
@@ -0,0 +1,117 @@
+import { App } from "../../../src/domain/models/App";
+import { ExportContext } from "../../../src/domain/models/CatalogExport";
+import {
+  toAtomFeed,
+  toCsv,
+  toPortainerTemplates,
+} from "../../../src/domain/services/catalogExport";
+import * as fixtures from "../../fixtures/app";
+
+const makeApp = (location: string, overrides: Partial<App> = {}): App =>
+  fixtures.makeApp(location, {
+    tag: "1.0.0",
+    platforms: [{ os: "linux", architecture: "amd64" }],
+    ...overrides,
+  });
+
+const context: ExportContext = {
+  baseUrl: "https://apps.example.com",
+  pullReference: (location) => `registry.example.com/${location}`,
+  changedAt: new Date("2024-05-01T00:00:00Z"),
+};
+
+describe("toPortainerTemplates", () => {
+  const app = makeApp("acme/wiki", {
+    name: "Wiki",
+    description: "A wiki.",
+    category: "documentation",
+    vendor: "Acme",
+    runtime: {
+      ports: [{ hostPort: 8080, containerPort: 80, protocol: "tcp" }],
+      volumes: ["/var/lib/wiki"],
+      env: [
+        { name: "WIKI_PORT", defaultValue: "80", required: false },
+        { name: "WIKI_SECRET", required: true },
+      ],
+    },
+  });
+
+  it("should render a container template from the labels and image config", () => {
+    expect(toPortainerTemplates([app], "2", context)).toEqual({
+      version: "2",
+      templates: [
+        {
+          type: 1,
+          title: "Wiki",
+          name: "wiki",
+          description: "A wiki.",
+          categories: ["documentation"],
+          platform: "linux",
+          logo: "https://apps.example.com/api/apps/acme%2Fwiki/icon",
+          image: "registry.example.com/acme/wiki:1.0.0",
+          maintainer: "Acme",
+          restart_policy: "unless-stopped",
+          ports: ["8080:80/tcp"],
+          volumes: [{ container: "/var/lib/wiki" }],
+          env: [
+            { name: "WIKI_PORT", label: "WIKI_PORT", default: "80" },
+            { name: "WIKI_SECRET", label: "WIKI_SECRET", description: "Required." },
+          ],
+        },
+      ],
+    });
+  });
+
+  it("should number version 3 templates and leave out apps without tags", () => {
+    const untagged = makeApp("acme/empty", { tag: undefined });
+    const file = toPortainerTemplates([untagged, app, makeApp("notes")], "3", context);
+
+    expect(file.version).toEqual("3");
+    expect(file.templates.map(({ id, title }) => ({ id, title }))).toEqual([
+      { id: 1, title: "Wiki" },
+      { id: 2, title: "notes" },
+    ]);
+    // Without a runtime config there is nothing to map
+    expect(file.templates[1]).toMatchObject({ ports: [], volumes: [], env: [] });
+  });
+});
+
+describe("toCsv", () => {
+  it("should quote fields and defuse spreadsheet formulas", () => {
+    const csv = toCsv(
+      [makeApp("my-app", { name: "=HYPERLINK(\"x\")", description: "Fast, small\nand \"nice\"" })],
+      context
+    );
+
+    expect(csv).toEqual(
+      "location,name,version,tag,image,category,vendor,licenses,platforms,homepage,last_updated,description\r\n" +
+        `my-app,"'=HYPERLINK(""x"")",,1.0.0,registry.example.com/my-app:1.0.0,,,,linux/amd64,,,"Fast, small\nand ""nice"""\r\n`
+    );
+  });
+});
+
+describe("toAtomFeed", () => {
+  it("should list dated apps, newest first, with escaped text", () => {
+    const feed = toAtomFeed(
+      [
+        makeApp("old-app", { lastUpdated: "2024-01-01T00:00:00Z" }),
+        makeApp("undated-app"),
+        makeApp("new-app", { name: "New <App>", version: "2.0", created: "2024-03-01T00:00:00Z" }),
+      ],
+      context
+    );
+
+    expect(feed).toContain("<updated>2024-03-01T00:00:00.000Z</updated>\n  <link rel=\"self\"");
+    expect(feed).not.toContain("undated-app");
+    expect(feed.indexOf("new-app")).toBeLessThan(feed.indexOf("old-app"));
+    expect(feed).toContain("<title>New &#60;App&#62; 2.0</title>");
+    expect(feed).toContain('<link href="https://apps.example.com/api/apps/new-app"/>');
+  });
+
+  it("should date an empty feed by the last catalog change", () => {
+    const feed = toAtomFeed([makeApp("undated-app")], context);
+
+    expect(feed).toContain("<updated>2024-05-01T00:00:00.000Z</updated>");
+    expect(feed).not.toContain("<entry>");
+  });
+});
@@ -0,0 +1,95 @@
+import { CatalogSource } from "../../../src/domain/models/CatalogSource";
+import {
+  compileRepositoryRule,
+  findCatalogSource,
+  matchesSource,
+  parseCatalogSources,
+} from "../../../src/domain/services/catalogSources";
+
+const source = (overrides: Partial<CatalogSource> = {}): CatalogSource => ({
+  id: "acme",
+  namespace: "acme",
+  include: [],
+  exclude: [],
+  ...overrides,
+});
+
+describe("compileRepositoryRule", () => {
+  it("keeps single wildcards within one path segment", () => {
+    const rule = compileRepositoryRule("web-*");
+    expect(rule.test("web-frontend")).toBe(true);
+    expect(rule.test("web-tools/cli")).toBe(false);
+    expect(compileRepositoryRule("**").test("web-tools/cli")).toBe(true);
+    expect(compileRepositoryRule("db-?").test("db-1")).toBe(true);
+  });
+
+  it("treats other characters literally", () => {
+    expect(compileRepositoryRule("app.v2").test("appxv2")).toBe(false);
+    expect(compileRepositoryRule("app.v2").test("app.v2")).toBe(true);
+  });
+
+  it("uses /pattern/flags rules as regular expressions", () => {
+    const rule = compileRepositoryRule("/^(api|web)-/i");
+    expect(rule.test("API-gateway")).toBe(true);
+    expect(rule.test("worker")).toBe(false);
+  });
+});
+
+describe("matchesSource", () => {
+  it("only matches repositories below the namespace", () => {
+    expect(matchesSource(source(), "acme/app")).toBe(true);
+    expect(matchesSource(source(), "acme-labs/app")).toBe(false);
+    expect(matchesSource(source({ namespace: "" }), "anything/at-all")).toBe(true);
+  });
+
+  it("applies includes to the relative name and lets excludes win", () => {
+    const filtered = source({ include: ["web-*", "api"], exclude: ["*-legacy"] });
+    expect(matchesSource(filtered, "acme/web-shop")).toBe(true);
+    expect(matchesSource(filtered, "acme/api")).toBe(true);
+    expect(matchesSource(filtered, "acme/worker")).toBe(false);
+    expect(matchesSource(filtered, "acme/web-legacy")).toBe(false);
+  });
+});
+
+describe("findCatalogSource", () => {
+  it("prefers the first configured source when sources overlap", () => {
+    const sources = [
+      source({ id: "tools", namespace: "acme/tools" }),
+      source({ id: "everything", namespace: "acme" }),
+    ];
+    expect(findCatalogSource(sources, "acme/tools/cli")?.id).toBe("tools");
+    expect(findCatalogSource(sources, "acme/web")?.id).toBe("everything");
+    expect(findCatalogSource(sources, "other/web")).toBeNull();
+  });
+});
+
+describe("parseCatalogSources", () => {
+  it("fills in ids and empty rule lists", () => {
+    expect(
+      parseCatalogSources('[{"namespace": "acme/", "defaultCategory": "tools"}]')
+    ).toEqual([
+      {
+        id: "acme",
+        namespace: "acme",
+        include: [],
+        exclude: [],
+        defaultCategory: "tools",
+      },
+    ]);
+  });
+
+  it("reports every problem at once", () => {
+    expect(() =>
+      parseCatalogSources(
+        '[{"id": "a", "include": "web-*"}, {"id": "a", "exclude": ["/(/"], "defaultCategory": "Web"}]'
+      )
+    ).toThrow(
+      /include must be a list[\s\S]*defaultCategory[\s\S]*invalid regular expression[\s\S]*unique: a/
+    );
+  });
+
+  it("rejects settings that are not a list", () => {
+    expect(() => parseCatalogSources("{}")).toThrow("non-empty JSON list");
+    expect(() => parseCatalogSources("not json")).toThrow("not valid JSON");
+  });
+});
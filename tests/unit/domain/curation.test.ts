@@ -0,0 +1,68 @@
+import { App } from "../../../src/domain/models/App";
+import { AppCuration } from "../../../src/domain/models/Curation";
+import { AppLocation } from "../../../src/domain/valueObjects/AppLocation";
+import {
+  DEFAULT_CURATION,
+  applyCuration,
+  diffCuration,
+  mergeCurationPatch,
+} from "../../../src/domain/services/curation";
+
+const app: App = {
+  name: "my-app",
+  location: AppLocation.create("acme/my-app"),
+  description: "From the labels",
+  category: "web",
+  platforms: [],
+  keywords: [],
+  screenshots: [],
+  warnings: [],
+};
+
+const curation: AppCuration = {
+  ...DEFAULT_CURATION,
+  location: "acme/my-app",
+  featured: true,
+  category: "database",
+  sortWeight: 10,
+  overrides: { description: "Curated description" },
+  updatedAt: "2024-05-01T12:00:00.000Z",
+  updatedBy: "alice",
+};
+
+describe("curation", () => {
+  it("should apply overrides, category, featured flag and weight", () => {
+    expect(applyCuration(app, curation)).toMatchObject({
+      name: "my-app",
+      description: "Curated description",
+      category: "database",
+      featured: true,
+      sortWeight: 10,
+    });
+    expect(applyCuration(app, undefined)).toBe(app);
+  });
+
+  it("should merge patches key by key and clear fields set to null", () => {
+    const merged = mergeCurationPatch(curation, {
+      hidden: true,
+      category: null,
+      overrides: { description: null, vendor: "Acme" },
+    });
+
+    expect(merged).toEqual({
+      hidden: true,
+      featured: true,
+      sortWeight: 10,
+      overrides: { vendor: "Acme" },
+    });
+  });
+
+  it("should list what changed between two curations", () => {
+    const after = mergeCurationPatch(curation, { featured: false, overrides: { vendor: "Acme" } });
+
+    expect(diffCuration(curation, after)).toEqual([
+      { field: "featured", from: true, to: false },
+      { field: "overrides.vendor", from: undefined, to: "Acme" },
+    ]);
+  });
+});
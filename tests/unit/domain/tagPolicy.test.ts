@@ -0,0 +1,53 @@
+import {
+  parseSemver,
+  selectStableTag,
+  sortTags,
+} from "../../../src/domain/services/tagPolicy";
+
+const tags = ["latest", "1.9.0", "2.0.0-rc.1", "1.10.2", "v1.10.0", "edge"];
+
+describe("parseSemver", () => {
+  it("should parse partial and prefixed versions", () => {
+    expect(parseSemver("v1.2")).toEqual({ major: 1, minor: 2, patch: 0, prerelease: [] });
+    expect(parseSemver("2.0.0-rc.1")?.prerelease).toEqual(["rc", "1"]);
+    expect(parseSemver("latest")).toBeNull();
+  });
+});
+
+describe("sortTags", () => {
+  it("should put semantic versions first, highest first", () => {
+    const sorted = sortTags(tags.map((name) => ({ name, platforms: [] })));
+    expect(sorted.map((tag) => tag.name)).toEqual([
+      "2.0.0-rc.1",
+      "1.10.2",
+      "v1.10.0",
+      "1.9.0",
+      "edge",
+      "latest",
+    ]);
+  });
+});
+
+describe("selectStableTag", () => {
+  it("should pick the highest release and skip pre-releases", () => {
+    expect(selectStableTag(tags, { includePrerelease: false })).toBe("1.10.2");
+  });
+
+  it("should include pre-releases when allowed", () => {
+    expect(selectStableTag(tags, { includePrerelease: true })).toBe("2.0.0-rc.1");
+  });
+
+  it("should respect a pinned channel", () => {
+    expect(
+      selectStableTag(tags, { includePrerelease: false, channel: "1.9" })
+    ).toBe("1.9.0");
+  });
+
+  it("should fall back to latest, then the first tag", () => {
+    expect(selectStableTag(["edge", "latest"], { includePrerelease: false })).toBe(
+      "latest"
+    );
+    expect(selectStableTag(["edge"], { includePrerelease: false })).toBe("edge");
+    expect(selectStableTag([], { includePrerelease: false })).toBeUndefined();
+  });
+});
@@ -0,0 +1,61 @@
+import { mkdtempSync, readFileSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import { FileApiKeyStore } from "../../../src/infrastructure/auth/apiKeyStore";
+import { TokenBucketRateLimiter } from "../../../src/infrastructure/auth/rateLimiter";
+
+describe("FileApiKeyStore", () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = mkdtempSync(path.join(tmpdir(), "auth-"));
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it("should authenticate created keys without storing their secret", async () => {
+    const store = new FileApiKeyStore(directory);
+    const { apiKey, key } = await store.create(
+      { name: "storefront", scopes: ["catalog:read"] },
+      "alice"
+    );
+
+    expect(readFileSync(path.join(directory, "api-keys.json"), "utf8")).not.toContain(
+      key.split("_").slice(2).join("_")
+    );
+
+    // A fresh instance reads what the first one wrote
+    const reloaded = new FileApiKeyStore(directory);
+    expect(await reloaded.authenticate(key)).toEqual(apiKey);
+    expect(await reloaded.authenticate(`${key.slice(0, -1)}x`)).toBeNull();
+    expect(await reloaded.getAll()).toEqual([apiKey]);
+  });
+
+  it("should stop accepting revoked keys", async () => {
+    const store = new FileApiKeyStore(directory);
+    const { apiKey, key } = await store.create({ name: "ci", scopes: ["admin"] }, "alice");
+
+    expect(await store.revoke(apiKey.id)).toBe(true);
+    expect(await store.authenticate(key)).toBeNull();
+    expect(await store.revoke(apiKey.id)).toBe(false);
+  });
+});
+
+describe("TokenBucketRateLimiter", () => {
+  const policy = { capacity: 2, refillPerSecond: 1 };
+
+  it("should allow bursts up to the capacity, then the refill rate", () => {
+    const limiter = new TokenBucketRateLimiter();
+
+    expect(limiter.take("a", policy, 0)).toMatchObject({ allowed: true, remaining: 1 });
+    expect(limiter.take("a", policy, 0)).toMatchObject({ allowed: true, remaining: 0, resetSeconds: 2 });
+    expect(limiter.take("a", policy, 0)).toMatchObject({ allowed: false, retryAfterSeconds: 1 });
+    // Other callers have their own bucket
+    expect(limiter.take("b", policy, 0)).toMatchObject({ allowed: true });
+
+    expect(limiter.take("a", policy, 1000)).toMatchObject({ allowed: true, remaining: 0 });
+    expect(limiter.take("a", policy, 5000)).toMatchObject({ allowed: true, remaining: 1 });
+  });
+});
@@ -0,0 +1,156 @@
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import { RegistryUnavailableError } from "../../../src/shared/errors";
+import { AppLocation } from "../../../src/domain/valueObjects/AppLocation";
+import { FileDigestIndex } from "../../../src/infrastructure/cache/digestIndex";
+import { IRegistryBackend } from "../../../src/infrastructure/registry/registryBackend";
+import { AppRepository } from "../../../src/infrastructure/repositories/appRepository";
+import { SupplyChainInspector } from "../../../src/infrastructure/supplyChain/supplyChainInspector";
+
+const CONFIG_DIGEST = "sha256:config";
+
+const makeClient = (tagDigests: Record<string, string>): IRegistryBackend =>
+  ({
+    listRepositories: jest.fn(async () => ["my-app"]),
+    getRepositoryInfo: jest.fn(async () => ({
+      name: "my-app",
+      has_tags: true,
+      available_tags: Object.keys(tagDigests),
+    })),
+    getManifestDigest: jest.fn(async (_repo: string, tag: string) => tagDigests[tag]),
+    getPlatformManifest: jest.fn(async () => ({
+      manifest: { config: { digest: CONFIG_DIGEST } },
+      digest: null,
+      platform: null,
+      platforms: [],
+      index: null,
+    })),
+    getConfig: jest.fn(async () => ({
+      os: "linux",
+      architecture: "amd64",
+      config: {
+        Labels: { "org.opencontainers.image.title": "My App" },
+        ExposedPorts: { "8080/tcp": {} },
+        Env: ["PORT=8080"],
+      },
+    })),
+  } as unknown as IRegistryBackend);
+
+describe("AppRepository", () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = mkdtempSync(path.join(tmpdir(), "digests-"));
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  const makeRepository = (client: IRegistryBackend) =>
+    new AppRepository(
+      client,
+      [{ id: "default", namespace: "", include: [], exclude: [] }],
+      { includePrerelease: false },
+      new SupplyChainInspector(client, []),
+      new FileDigestIndex(directory)
+    );
+
+  it("should only read images whose digest changed, across restarts", async () => {
+    const tagDigests = { "1.0.0": "sha256:first" };
+    const client = makeClient(tagDigests);
+
+    const first = await makeRepository(client).findAll();
+    // A restarted service reads the persisted index
+    const second = await makeRepository(client).findAll();
+
+    expect(second.apps).toEqual(first.apps);
+    expect(second.apps[0]).toMatchObject({
+      name: "My App",
+      tag: "1.0.0",
+      platforms: [{ os: "linux", architecture: "amd64" }],
+      runtime: {
+        ports: [{ hostPort: 8080, containerPort: 8080, protocol: "tcp" }],
+        volumes: [],
+        env: [{ name: "PORT", defaultValue: "8080", required: false }],
+      },
+    });
+    expect(client.getManifestDigest).toHaveBeenCalledTimes(2);
+    expect(client.getPlatformManifest).toHaveBeenCalledTimes(1);
+    expect(client.getConfig).toHaveBeenCalledTimes(1);
+
+    tagDigests["1.0.0"] = "sha256:second";
+    await makeRepository(client).findAll();
+    expect(client.getConfig).toHaveBeenCalledTimes(2);
+  });
+
+  it("should reuse the signature of an unchanged digest", async () => {
+    const client = makeClient({ "1.0.0": "sha256:first" });
+    const makeSigningRepository = () => {
+      const inspector = new SupplyChainInspector(client, []);
+      jest.spyOn(inspector, "checksSignatures", "get").mockReturnValue(true);
+      const verifySignature = jest
+        .spyOn(inspector, "verifySignature")
+        .mockResolvedValue({ status: "verified", keyId: "release" });
+      const repository = new AppRepository(
+        client,
+        [{ id: "default", namespace: "", include: [], exclude: [] }],
+        { includePrerelease: false },
+        inspector,
+        new FileDigestIndex(directory)
+      );
+      return { repository, verifySignature };
+    };
+
+    const first = makeSigningRepository();
+    await first.repository.findAll();
+    const second = makeSigningRepository();
+    const { apps } = await second.repository.findAll();
+
+    expect(apps[0].signature).toEqual({ status: "verified", keyId: "release" });
+    expect(first.verifySignature).toHaveBeenCalledTimes(1);
+    expect(second.verifySignature).not.toHaveBeenCalled();
+  });
+
+  it("should return supply chain documents that are not JSON as text", async () => {
+    const client = makeClient({ "1.0.0": "sha256:first" });
+    client.getBlob = jest.fn(async () => Buffer.from("SPDXVersion: SPDX-2.3\n"));
+    const repository = makeRepository(client);
+    const document = {
+      kind: "sbom" as const,
+      type: "https://spdx.dev/Document",
+      mediaType: "text/spdx",
+      digest: "sha256:sbom",
+      source: "referrers" as const,
+    };
+    jest.spyOn(repository, "findByLocation").mockResolvedValue({
+      supplyChain: { sboms: [document], provenance: [] },
+    } as any);
+
+    const result = await repository.findSupplyChainDocument(
+      AppLocation.create("my-app"),
+      "sha256:sbom"
+    );
+
+    expect(result).toEqual({ document, content: "SPDXVersion: SPDX-2.3\n" });
+  });
+
+  it("should report repositories the registry failed to describe as warnings", async () => {
+    const client = makeClient({ "1.0.0": "sha256:first" });
+    (client.getRepositoryInfo as jest.Mock).mockRejectedValue(
+      new RegistryUnavailableError("registry.example.com answered with status 503.")
+    );
+
+    const result = await makeRepository(client).findAll();
+
+    expect(result.apps).toEqual([]);
+    expect(result.warnings).toEqual([
+      {
+        location: "my-app",
+        type: "registry-unavailable",
+        reason: "registry.example.com answered with status 503.",
+      },
+    ]);
+  });
+});
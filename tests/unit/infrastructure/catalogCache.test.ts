@@ -0,0 +1,133 @@
+import { App } from "../../../src/domain/models/App";
+import { CatalogCache } from "../../../src/infrastructure/cache/catalogCache";
+import { getRequestContext, runWithContext } from "../../../src/shared/requestContext";
+import { makeApp, makeRepository } from "../../fixtures/app";
+
+const catalog = (...apps: App[]) => ({ apps, warnings: [] });
+
+describe("CatalogCache", () => {
+  it("should load the catalog on first access", async () => {
+    const repository = makeRepository({
+      findAll: jest.fn().mockResolvedValue(catalog(makeApp("my-app"))),
+    });
+    const cache = new CatalogCache(repository, 60_000);
+
+    const snapshot = await cache.getSnapshot();
+    expect(snapshot.apps.map((app) => app.location.value)).toEqual(["my-app"]);
+    expect(repository.findAll).toHaveBeenCalledTimes(1);
+  });
+
+  it("should keep serving the previous snapshot when a refresh fails", async () => {
+    const repository = makeRepository({
+      findAll: jest
+        .fn()
+        .mockResolvedValueOnce(catalog(makeApp("my-app")))
+        .mockRejectedValueOnce(new Error("registry down")),
+    });
+    const cache = new CatalogCache(repository, 60_000);
+
+    await cache.getSnapshot();
+    await expect(cache.refresh()).rejects.toThrow("registry down");
+
+    const snapshot = await cache.getSnapshot();
+    expect(snapshot.apps).toHaveLength(1);
+  });
+
+  it("should share a single in-flight refresh between callers", async () => {
+    const repository = makeRepository({ findAll: jest.fn().mockResolvedValue(catalog()) });
+    const cache = new CatalogCache(repository, 60_000);
+
+    await Promise.all([cache.refresh(), cache.refresh()]);
+    expect(repository.findAll).toHaveBeenCalledTimes(1);
+  });
+
+  it("should refresh outside the context of the request that triggered it", async () => {
+    const contexts: unknown[] = [];
+    const repository = makeRepository({
+      findAll: jest.fn().mockImplementation(async () => {
+        contexts.push(getRequestContext());
+        return catalog();
+      }),
+    });
+    const cache = new CatalogCache(repository, 60_000);
+
+    await runWithContext({ requestId: "req-1" }, () => cache.refresh());
+    // Only the span of the refresh itself
+    expect(contexts).toEqual([{ span: expect.any(Object) }]);
+  });
+
+  it("should keep the previous entry of apps that failed to load", async () => {
+    const warning = {
+      location: "flaky-app",
+      type: "registry-unavailable",
+      reason: "registry.example.com answered with status 503.",
+    };
+    const repository = makeRepository({
+      findAll: jest
+        .fn()
+        .mockResolvedValueOnce(catalog(makeApp("my-app"), makeApp("flaky-app")))
+        .mockResolvedValueOnce({ apps: [makeApp("my-app")], warnings: [warning] }),
+    });
+    const cache = new CatalogCache(repository, 60_000);
+
+    await cache.getSnapshot();
+    const snapshot = await cache.refresh();
+    expect(snapshot.apps.map((app) => app.location.value)).toEqual([
+      "my-app",
+      "flaky-app",
+    ]);
+    expect(snapshot.warnings).toEqual([warning]);
+  });
+
+  it("should keep the previous entries of a source that failed to list", async () => {
+    const warning = {
+      source: "partner",
+      type: "registry-unavailable",
+      reason: "registry.example.com answered with status 503.",
+    };
+    const repository = makeRepository({
+      findAll: jest
+        .fn()
+        .mockResolvedValueOnce(
+          catalog(
+            makeApp("my-app", { source: "default" }),
+            makeApp("partner/app", { source: "partner" }),
+            makeApp("other/app", { source: "other" })
+          )
+        )
+        .mockResolvedValueOnce({
+          apps: [makeApp("my-app", { source: "default" })],
+          warnings: [warning],
+        }),
+    });
+    const cache = new CatalogCache(repository, 60_000);
+
+    await cache.getSnapshot();
+    const snapshot = await cache.refresh();
+    expect(snapshot.apps.map((app) => app.location.value)).toEqual([
+      "my-app",
+      "partner/app",
+    ]);
+    expect(snapshot.warnings).toEqual([warning]);
+  });
+
+  it("should only move changedAt when the content changes", async () => {
+    const repository = makeRepository({
+      findAll: jest
+        .fn()
+        .mockResolvedValueOnce(catalog(makeApp("a-app"), makeApp("b-app")))
+        .mockResolvedValueOnce(catalog(makeApp("b-app"), makeApp("a-app")))
+        .mockResolvedValueOnce(catalog(makeApp("a-app"))),
+    });
+    const cache = new CatalogCache(repository, 60_000);
+
+    const first = await cache.refresh();
+    // The same apps in another order are the same catalog
+    const unchanged = await cache.refresh();
+    expect(unchanged.changedAt).toBe(first.changedAt);
+    expect(unchanged.refreshedAt).not.toBe(first.refreshedAt);
+
+    const changed = await cache.refresh();
+    expect(changed.changedAt).not.toBe(first.changedAt);
+  });
+});
@@ -0,0 +1,76 @@
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import { AppLocation } from "../../../src/domain/valueObjects/AppLocation";
+import { DEFAULT_CURATION } from "../../../src/domain/services/curation";
+import { FileCurationStore } from "../../../src/infrastructure/curation/curationStore";
+import { CuratedAppRepository } from "../../../src/infrastructure/repositories/curatedAppRepository";
+import { makeApp, makeRepository } from "../../fixtures/app";
+
+describe("FileCurationStore", () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = mkdtempSync(path.join(tmpdir(), "curation-"));
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it("should persist curations and record an audit trail", async () => {
+    const store = new FileCurationStore(directory);
+    await store.save("my-app", { ...DEFAULT_CURATION, featured: true }, "alice");
+    await store.save("my-app", { ...DEFAULT_CURATION, featured: true, sortWeight: 5 }, "bob");
+
+    // A fresh instance reads what the first one wrote
+    const reloaded = new FileCurationStore(directory);
+    expect(await reloaded.get("my-app")).toMatchObject({
+      featured: true,
+      sortWeight: 5,
+      updatedBy: "bob",
+    });
+
+    const audit = await reloaded.getAuditTrail("my-app");
+    expect(audit.map((entry) => [entry.action, entry.actor])).toEqual([
+      ["update", "bob"],
+      ["create", "alice"],
+    ]);
+    expect(audit[0].changes).toEqual([{ field: "sortWeight", from: 0, to: 5 }]);
+  });
+
+  it("should remove curations and report unknown ones", async () => {
+    const store = new FileCurationStore(directory);
+    await store.save("my-app", DEFAULT_CURATION, "alice");
+
+    expect(await store.remove("my-app", "alice")).toBe(true);
+    expect(await store.remove("my-app", "alice")).toBe(false);
+    expect(await store.get("my-app")).toBeNull();
+  });
+
+  it("should hide curated apps and apply overrides in the repository", async () => {
+    const store = new FileCurationStore(directory);
+    await store.save("internal", { ...DEFAULT_CURATION, hidden: true }, "alice");
+    await store.save(
+      "public",
+      { ...DEFAULT_CURATION, overrides: { description: "Curated" } },
+      "alice"
+    );
+
+    const inner = makeRepository({
+      findAll: jest.fn().mockResolvedValue({
+        apps: [makeApp("internal"), makeApp("public")],
+        warnings: [],
+      }),
+      findOne: jest.fn(async (location: AppLocation) => makeApp(location.value)),
+    });
+    const repository = new CuratedAppRepository(inner, store);
+
+    const { apps } = await repository.findAll();
+    expect(apps.map((app) => [app.location.value, app.description])).toEqual([
+      ["public", "Curated"],
+    ]);
+    expect(await repository.findOne(AppLocation.create("internal"))).toBeNull();
+    expect(inner.findOne).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,99 @@
+import { copyFileSync, cpSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import { gzipSync } from "zlib";
+import {
+  openImageArchives,
+  parseImageReference,
+} from "../../../src/infrastructure/offline/imageArchive";
+import { OfflineRegistryBackend } from "../../../src/infrastructure/offline/offlineRegistryBackend";
+
+const FIXTURES = path.join(__dirname, "../../fixtures/images");
+
+describe("parseImageReference", () => {
+  it("should split references and drop the registry host", () => {
+    expect(parseImageReference("docker.io/library/nginx:1.27", "x")).toEqual({
+      repo: "library/nginx",
+      tag: "1.27",
+    });
+    expect(parseImageReference("localhost:5000/acme/app", "x")).toEqual({
+      repo: "acme/app",
+      tag: "latest",
+    });
+    expect(parseImageReference("acme/wiki:2.3.1", "x")).toEqual({ repo: "acme/wiki", tag: "2.3.1" });
+  });
+
+  it("should treat bare names as tags of the fallback repository", () => {
+    expect(parseImageReference("1.0.0", "notes-app")).toEqual({ repo: "notes-app", tag: "1.0.0" });
+  });
+});
+
+describe("openImageArchives", () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = mkdtempSync(path.join(tmpdir(), "archives-"));
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it("should read every archive of a directory", async () => {
+    const archives = await openImageArchives(FIXTURES);
+
+    expect(archives.flatMap((archive) => archive.images)).toEqual([
+      expect.objectContaining({ repo: "notes-app", tag: "1.0.0" }),
+      expect.objectContaining({ repo: "notes-app", tag: "latest" }),
+      expect.objectContaining({ repo: "acme/wiki", tag: "2.3.1" }),
+      expect.objectContaining({ repo: "acme/wiki", tag: "latest" }),
+    ]);
+  });
+
+  it("should build manifests for compressed docker save archives", async () => {
+    const tarball = path.join(directory, "wiki.tar.gz");
+    writeFileSync(tarball, gzipSync(readFileSync(path.join(FIXTURES, "wiki.tar"))));
+
+    const [archive] = await openImageArchives(tarball);
+    const manifest = JSON.parse((await archive.readBlob(archive.images[0].digest))!.toString());
+    const config = JSON.parse((await archive.readBlob(manifest.config.digest))!.toString());
+
+    expect(config.config.Labels["org.opencontainers.image.title"]).toBe("Wiki");
+    expect(manifest.layers).toEqual([
+      expect.objectContaining({ digest: config.rootfs.diff_ids[0], size: 10240 }),
+    ]);
+  });
+
+  it("should fail for archives without an index or manifest", async () => {
+    const empty = path.join(directory, "empty.tar");
+    writeFileSync(empty, Buffer.alloc(1024));
+
+    await expect(openImageArchives(empty)).rejects.toThrow("neither an index.json nor a manifest.json");
+  });
+});
+
+describe("OfflineRegistryBackend", () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = mkdtempSync(path.join(tmpdir(), "archives-"));
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it("should read the archives again once they changed", async () => {
+    copyFileSync(path.join(FIXTURES, "wiki.tar"), path.join(directory, "wiki.tar"));
+    const backend = new OfflineRegistryBackend([directory]);
+    expect(await backend.listRepositories()).toEqual(["acme/wiki"]);
+
+    const layout = path.join(directory, "notes-app");
+    cpSync(path.join(FIXTURES, "notes-app"), layout, { recursive: true });
+    expect(await backend.listRepositories()).toEqual(["acme/wiki", "notes-app"]);
+
+    rmSync(path.join(directory, "wiki.tar"));
+    expect(await backend.listRepositories()).toEqual(["notes-app"]);
+    expect(await backend.checkRepositoryExists("acme/wiki")).toBe(false);
+  });
+});
@@ -0,0 +1,82 @@
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import { generateIdenticon } from "../../../src/infrastructure/images/identicon";
+import { ImageCache } from "../../../src/infrastructure/images/imageCache";
+import {
+  decodeDataUri,
+  sniffImageType,
+  validateImage,
+} from "../../../src/infrastructure/images/imageFetcher";
+
+const PNG = Buffer.from("89504e470d0a1a0a0000000d49484452", "hex");
+const SVG = Buffer.from('<svg xmlns="http://www.w3.org/2000/svg"></svg>');
+
+describe("image validation", () => {
+  it("should detect image formats from their content", () => {
+    expect(sniffImageType(PNG)).toBe("image/png");
+    expect(sniffImageType(SVG)).toBe("image/svg+xml");
+    expect(sniffImageType(Buffer.from("<html></html>"))).toBeNull();
+  });
+
+  it("should reject content that does not match its declared type", () => {
+    expect(() => validateImage(Buffer.from("<html></html>"), "image/png", 1024)).toThrow(
+      /does not match/
+    );
+    expect(() => validateImage(PNG, "text/html", 1024)).toThrow(/Unsupported/);
+    expect(() => validateImage(PNG, "image/png", 4)).toThrow(/larger than/);
+  });
+
+  it("should decode base64 and URL-encoded data URIs", () => {
+    expect(
+      decodeDataUri(`data:image/png;base64,${PNG.toString("base64")}`, 1024).data
+    ).toEqual(PNG);
+    expect(
+      decodeDataUri(`data:image/svg+xml,${encodeURIComponent(SVG.toString())}`, 1024)
+        .contentType
+    ).toBe("image/svg+xml");
+  });
+});
+
+describe("generateIdenticon", () => {
+  it("should be deterministic per seed", () => {
+    expect(generateIdenticon("my-app").data).toEqual(generateIdenticon("my-app").data);
+    expect(generateIdenticon("my-app").data).not.toEqual(
+      generateIdenticon("other-app").data
+    );
+    expect(sniffImageType(generateIdenticon("my-app").data)).toBe("image/svg+xml");
+  });
+});
+
+describe("ImageCache", () => {
+  let cacheDir: string;
+
+  beforeEach(() => {
+    cacheDir = mkdtempSync(path.join(tmpdir(), "image-cache-"));
+  });
+
+  afterEach(() => {
+    rmSync(cacheDir, { recursive: true, force: true });
+  });
+
+  it("should store images with an ETag and report them fresh within the TTL", async () => {
+    const cache = new ImageCache(cacheDir, 60_000);
+    const stored = await cache.put("https://example.com/icon.png", {
+      data: PNG,
+      contentType: "image/png",
+    });
+
+    const cached = await cache.get("https://example.com/icon.png");
+    expect(cached?.fresh).toBe(true);
+    expect(cached?.image.etag).toBe(stored.etag);
+    expect(cached?.image.data).toEqual(PNG);
+    expect(await cache.get("https://example.com/other.png")).toBeNull();
+  });
+
+  it("should keep expired entries around as stale", async () => {
+    const cache = new ImageCache(cacheDir, 0);
+    await cache.put("https://example.com/icon.png", { data: PNG, contentType: "image/png" });
+
+    expect((await cache.get("https://example.com/icon.png"))?.fresh).toBe(false);
+  });
+});
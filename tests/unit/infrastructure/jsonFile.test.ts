@@ -0,0 +1,55 @@
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import { JsonFile, JsonFileOptions } from "../../../src/infrastructure/storage/jsonFile";
+
+describe("JsonFile", () => {
+  let directory: string;
+
+  const makeFile = (options: Partial<JsonFileOptions<string[]>> = {}) =>
+    new JsonFile<string[]>({
+      directory,
+      fileName: "names.json",
+      description: "names",
+      empty: () => [],
+      fromJson: (names) => names,
+      toJson: (names) => names,
+      summarize: (names) => `${names.length} name(s)`,
+      ...options,
+    });
+
+  beforeEach(() => {
+    directory = mkdtempSync(path.join(tmpdir(), "json-file-"));
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it("should run queued writes one after the other", async () => {
+    const file = makeFile();
+    const append = (name: string) =>
+      file.enqueue(async () => file.write([...(await file.load()), name]));
+
+    await Promise.all([append("a"), append("b"), append("c")]);
+    expect(await makeFile().load()).toEqual(["a", "b", "c"]);
+  });
+
+  it("should keep writing after a failed write", async () => {
+    const file = makeFile();
+    const failed = file.enqueue(async () => {
+      throw new Error("disk full");
+    });
+    await expect(failed).rejects.toThrow("disk full");
+
+    await file.enqueue(() => file.write(["a"]));
+    expect(await makeFile().load()).toEqual(["a"]);
+  });
+
+  it("should only start over from a corrupt file if allowed to", async () => {
+    writeFileSync(path.join(directory, "names.json"), "{");
+
+    await expect(makeFile().load()).rejects.toThrow(SyntaxError);
+    expect(await makeFile({ ignoreUnreadable: true }).load()).toEqual([]);
+  });
+});
@@ -0,0 +1,88 @@
+import { createHmac, generateKeyPairSync, sign } from "crypto";
+import { JwtVerifier } from "../../../src/infrastructure/auth/jwtVerifier";
+
+const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString("base64url");
+
+const hs256 = (claims: object, secret: string, header: object = { alg: "HS256" }) => {
+  const signingInput = `${encode(header)}.${encode(claims)}`;
+  const signature = createHmac("sha256", secret).update(signingInput).digest("base64url");
+  return `${signingInput}.${signature}`;
+};
+
+const NOW = Date.parse("2026-01-01T00:00:00Z");
+const nowSeconds = NOW / 1000;
+
+describe("JwtVerifier", () => {
+  describe("with a secret", () => {
+    const verifier = new JwtVerifier({ secret: "s3cret", issuer: "https://idp", audience: "app-store" });
+    const claims = { sub: "alice", iss: "https://idp", aud: ["app-store"], exp: nowSeconds + 60 };
+
+    it("should return the claims of a valid token", () => {
+      expect(verifier.verify(hs256(claims, "s3cret"), NOW)).toMatchObject({ sub: "alice" });
+    });
+
+    it("should reject wrong signatures, unsigned tokens and expired tokens", () => {
+      expect(() => verifier.verify(hs256(claims, "other"), NOW)).toThrow("signature is invalid");
+      const unsigned = `${encode({ alg: "none" })}.${encode(claims)}.`;
+      expect(() => verifier.verify(unsigned, NOW)).toThrow("signature is invalid");
+      expect(() => verifier.verify(hs256(claims, "s3cret"), NOW + 120_000)).toThrow("expired");
+    });
+
+    it("should reject tokens without an expiry unless allowed", () => {
+      const { exp: _exp, ...forever } = claims;
+      expect(() => verifier.verify(hs256(forever, "s3cret"), NOW)).toThrow("has no expiry");
+
+      const lenient = new JwtVerifier({ secret: "s3cret", allowMissingExpiry: true });
+      expect(lenient.verify(hs256(forever, "s3cret"), NOW)).toMatchObject({ sub: "alice" });
+    });
+
+    it("should reject tokens whose claims are not an object", () => {
+      const signingInput = `${encode({ alg: "HS256" })}.${Buffer.from("null").toString("base64url")}`;
+      const signature = createHmac("sha256", "s3cret").update(signingInput).digest("base64url");
+      expect(() => verifier.verify(`${signingInput}.${signature}`, NOW)).toThrow("not a valid JWT");
+    });
+
+    it("should check the issuer and the audience", () => {
+      expect(() => verifier.verify(hs256({ ...claims, iss: "https://evil" }, "s3cret"), NOW)).toThrow(
+        "issued by someone else"
+      );
+      expect(() => verifier.verify(hs256({ ...claims, aud: "other" }, "s3cret"), NOW)).toThrow(
+        "another audience"
+      );
+    });
+  });
+
+  describe("with a JWKS", () => {
+    const { publicKey, privateKey } = generateKeyPairSync("ec", { namedCurve: "P-256" });
+    const verifier = new JwtVerifier({
+      keys: [{ ...publicKey.export({ format: "jwk" }), kid: "key-1" }],
+    });
+
+    const es256 = (claims: object, kid = "key-1") => {
+      const signingInput = `${encode({ alg: "ES256", kid })}.${encode(claims)}`;
+      const signature = sign("sha256", Buffer.from(signingInput), {
+        key: privateKey,
+        dsaEncoding: "ieee-p1363",
+      });
+      return `${signingInput}.${signature.toString("base64url")}`;
+    };
+
+    it("should verify tokens signed with a listed key", () => {
+      const exp = nowSeconds + 60;
+      expect(verifier.verify(es256({ sub: "ci", scope: "admin", exp }), NOW)).toMatchObject({
+        sub: "ci",
+        scope: "admin",
+      });
+      expect(() => verifier.verify(es256({ sub: "ci" }, "key-2"), NOW)).toThrow(
+        "signature is invalid"
+      );
+    });
+
+    it("should not accept HMAC tokens when no secret is configured", () => {
+      const jwk = JSON.stringify(publicKey.export({ format: "jwk" }));
+      expect(() => verifier.verify(hs256({ sub: "mallory" }, jwk), NOW)).toThrow(
+        "signature is invalid"
+      );
+    });
+  });
+});
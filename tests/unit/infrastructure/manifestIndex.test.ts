@@ -0,0 +1,55 @@
+import {
+  getPlatformDescriptors,
+  resolvePlatformManifest,
+} from "../../../src/infrastructure/registry/manifestIndex";
+
+const index = {
+  mediaType: "application/vnd.oci.image.index.v1+json",
+  manifests: [
+    { digest: "sha256:amd64", platform: { os: "linux", architecture: "amd64" } },
+    {
+      digest: "sha256:arm64",
+      platform: { os: "linux", architecture: "arm64", variant: "v8" },
+    },
+    {
+      digest: "sha256:attestation",
+      platform: { os: "unknown", architecture: "unknown" },
+      annotations: { "vnd.docker.reference.type": "attestation-manifest" },
+    },
+  ],
+};
+
+describe("manifestIndex", () => {
+  it("should ignore attestation manifests", () => {
+    const digests = getPlatformDescriptors(index).map((d) => d.digest);
+    expect(digests).toEqual(["sha256:amd64", "sha256:arm64"]);
+  });
+
+  it("should resolve an index to the preferred platform", async () => {
+    const getManifest = jest.fn(async (_repo: string, reference?: string) =>
+      reference === "latest" ? index : { config: { digest: reference } }
+    );
+
+    const resolved = await resolvePlatformManifest(getManifest, "my-app", "latest", {
+      os: "linux",
+      architecture: "arm64",
+    });
+
+    expect(resolved?.digest).toBe("sha256:arm64");
+    expect(resolved?.manifest.config.digest).toBe("sha256:arm64");
+    expect(resolved?.platforms).toHaveLength(2);
+  });
+
+  it("should return plain manifests unchanged", async () => {
+    const manifest = { config: { digest: "sha256:config" }, layers: [] };
+    const resolved = await resolvePlatformManifest(
+      async () => manifest,
+      "my-app",
+      "latest",
+      { os: "linux", architecture: "amd64" }
+    );
+
+    expect(resolved?.manifest).toBe(manifest);
+    expect(resolved?.platforms).toEqual([]);
+  });
+});
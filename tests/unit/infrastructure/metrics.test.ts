@@ -0,0 +1,66 @@
+import { classifyRegistryEndpoint } from "../../../src/infrastructure/registry/registryMetrics";
+import { MetricsRegistry } from "../../../src/shared/metrics";
+
+describe("MetricsRegistry", () => {
+  it("renders counters and gauges in the Prometheus text format", () => {
+    const registry = new MetricsRegistry();
+    const requests = registry.counter("requests_total", "Requests.", ["route"]);
+    registry.gauge("apps", "Apps.").set(3);
+
+    requests.inc({ route: "/api/apps" });
+    requests.inc({ route: "/api/apps" });
+    requests.inc({ route: 'say "hi"' });
+
+    expect(registry.render()).toBe(
+      [
+        "# HELP requests_total Requests.",
+        "# TYPE requests_total counter",
+        'requests_total{route="/api/apps"} 2',
+        'requests_total{route="say \\"hi\\""} 1',
+        "# HELP apps Apps.",
+        "# TYPE apps gauge",
+        "apps 3",
+        "",
+      ].join("\n")
+    );
+  });
+
+  it("renders cumulative histogram buckets", () => {
+    const registry = new MetricsRegistry();
+    const latency = registry.histogram("latency_seconds", "Latency.", ["endpoint"], [0.1, 1]);
+    latency.observe(0.05, { endpoint: "tags" });
+    latency.observe(0.5, { endpoint: "tags" });
+    latency.observe(5, { endpoint: "tags" });
+
+    const text = registry.render();
+    expect(text).toContain('latency_seconds_bucket{endpoint="tags",le="0.1"} 1');
+    expect(text).toContain('latency_seconds_bucket{endpoint="tags",le="1"} 2');
+    expect(text).toContain('latency_seconds_bucket{endpoint="tags",le="+Inf"} 3');
+    expect(text).toContain('latency_seconds_sum{endpoint="tags"} 5.55');
+    expect(text).toContain('latency_seconds_count{endpoint="tags"} 3');
+  });
+
+  it("refuses to register a metric twice", () => {
+    const registry = new MetricsRegistry();
+    registry.counter("requests_total", "Requests.");
+    expect(() => registry.counter("requests_total", "Again.")).toThrow("already registered");
+  });
+});
+
+describe("classifyRegistryEndpoint", () => {
+  it.each([
+    ["https://hub.docker.com/v2/repositories/acme/?page_size=100", "hub_listing"],
+    ["https://hub.docker.com/v2/repositories/acme/app/", "hub_repository"],
+    ["https://hub.docker.com/v2/repositories/acme/app/tags/?page_size=100", "tags"],
+    ["https://hub.docker.com/v2/users/login/", "auth"],
+    ["https://auth.docker.io/token?service=registry.docker.io&scope=x", "auth"],
+    ["https://registry-1.docker.io/v2/", "ping"],
+    ["https://registry.example.com/v2/_catalog?n=100", "catalog"],
+    ["https://registry.example.com/v2/team/app/tags/list", "tags"],
+    ["https://registry-1.docker.io/v2/acme/app/manifests/latest", "manifest"],
+    ["https://registry-1.docker.io/v2/acme/app/blobs/sha256:abc", "blob"],
+    ["https://registry-1.docker.io/v2/acme/app/referrers/sha256:abc", "referrers"],
+  ])("classifies %s as %s", (url, endpoint) => {
+    expect(classifyRegistryEndpoint(url)).toBe(endpoint);
+  });
+});
@@ -0,0 +1,76 @@
+import axios from "axios";
+import {
+  RegistryAuthenticator,
+  parseAuthChallenge,
+} from "../../../src/infrastructure/registry/registryAuth";
+
+jest.mock("axios");
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+const unauthorized = (header: string) =>
+  Object.assign(new Error("Unauthorized"), {
+    response: { status: 401, headers: { "www-authenticate": header } },
+  });
+
+describe("parseAuthChallenge", () => {
+  it("should parse a bearer challenge", () => {
+    expect(
+      parseAuthChallenge(
+        'Bearer realm="https://auth.docker.io/token",service="registry.docker.io",scope="repository:a/b:pull"'
+      )
+    ).toEqual({
+      scheme: "bearer",
+      realm: "https://auth.docker.io/token",
+      service: "registry.docker.io",
+    });
+  });
+
+  it("should ignore unsupported schemes", () => {
+    expect(parseAuthChallenge('Negotiate realm="x"')).toBeNull();
+    expect(parseAuthChallenge(undefined)).toBeNull();
+  });
+});
+
+describe("RegistryAuthenticator", () => {
+  beforeEach(() => jest.resetAllMocks());
+
+  it("should reuse a cached bearer token for the same scope", async () => {
+    mockedAxios.request.mockImplementation(async (requestConfig: any) => {
+      if (requestConfig.url === "https://auth.example.com/token") {
+        return { data: { token: "t1", expires_in: 300 } };
+      }
+      return { data: {} };
+    });
+    mockedAxios.request.mockRejectedValueOnce(
+      unauthorized('Bearer realm="https://auth.example.com/token",service="registry"')
+    );
+
+    const auth = new RegistryAuthenticator({ username: "me", password: "secret" });
+    const url = "https://registry.example.com/v2/app/manifests/latest";
+    await auth.request({ method: "GET", url }, "repository:app:pull");
+    await auth.request({ method: "GET", url }, "repository:app:pull");
+
+    // One token request, and the second call goes out authenticated right away
+    const urls = mockedAxios.request.mock.calls.map(([call]) => call.url);
+    expect(urls).toEqual([url, "https://auth.example.com/token", url, url]);
+    expect(mockedAxios.request.mock.calls[3][0].headers).toMatchObject({
+      Authorization: "Bearer t1",
+    });
+  });
+
+  it("should retry with basic credentials when the registry asks for them", async () => {
+    mockedAxios.request
+      .mockRejectedValueOnce(unauthorized('Basic realm="registry"'))
+      .mockResolvedValue({ data: {} });
+
+    const auth = new RegistryAuthenticator({ username: "me", password: "secret" });
+    await auth.request(
+      { method: "GET", url: "https://registry.example.com/v2/_catalog" },
+      "registry:catalog:*"
+    );
+
+    expect(mockedAxios.request.mock.calls[1][0].headers).toMatchObject({
+      Authorization: `Basic ${Buffer.from("me:secret").toString("base64")}`,
+    });
+  });
+});
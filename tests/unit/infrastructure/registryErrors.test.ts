@@ -0,0 +1,72 @@
+import { AxiosError, AxiosHeaders } from "axios";
+import { toRegistryError } from "../../../src/infrastructure/registry/registryErrors";
+import {
+  NotFoundError,
+  RegistryAuthError,
+  RegistryRateLimitedError,
+  RegistryUnavailableError,
+} from "../../../src/shared/errors";
+import { toProblemDetails } from "../../../src/interfaces/http/middleware/errorHandler";
+
+const URL = "https://registry.example.com/v2/app/manifests/latest";
+
+const httpError = (status: number, headers: Record<string, string> = {}) => {
+  const config = { url: URL, headers: new AxiosHeaders() };
+  return new AxiosError("Request failed", "ERR_BAD_RESPONSE", config, null, {
+    status,
+    statusText: "",
+    headers,
+    config,
+    data: {},
+  });
+};
+
+describe("toRegistryError", () => {
+  it("maps rejected credentials to an auth error", () => {
+    const error = toRegistryError(httpError(401));
+    expect(error).toBeInstanceOf(RegistryAuthError);
+    expect((error as RegistryAuthError).message).toContain("registry.example.com");
+  });
+
+  it("keeps the Retry-After of rate limited requests", () => {
+    const error = toRegistryError(httpError(429, { "retry-after": "30" }));
+    expect(error).toBeInstanceOf(RegistryRateLimitedError);
+    expect((error as RegistryRateLimitedError).retryAfterSeconds).toBe(30);
+  });
+
+  it("maps server and network failures to an unavailable registry", () => {
+    expect(toRegistryError(httpError(503))).toBeInstanceOf(RegistryUnavailableError);
+
+    const timeout = new AxiosError("timeout", "ECONNABORTED", {
+      url: URL,
+      headers: new AxiosHeaders(),
+    });
+    expect(toRegistryError(timeout)).toBeInstanceOf(RegistryUnavailableError);
+  });
+
+  it("leaves typed and non-HTTP errors alone", () => {
+    const notFound = new NotFoundError("gone");
+    const bug = new TypeError("undefined is not a function");
+    expect(toRegistryError(notFound)).toBe(notFound);
+    expect(toRegistryError(bug)).toBe(bug);
+  });
+});
+
+describe("toProblemDetails", () => {
+  it("describes typed errors", () => {
+    const problem = toProblemDetails(toRegistryError(httpError(502)), "/api/apps/app");
+    expect(problem).toEqual({
+      type: "urn:app-store:problem:registry-unavailable",
+      title: "Registry Unavailable",
+      status: 502,
+      detail: "registry.example.com answered with status 502.",
+      instance: "/api/apps/app",
+    });
+  });
+
+  it("hides the details of unexpected errors", () => {
+    const problem = toProblemDetails(new Error("secret internals"), "/api/apps");
+    expect(problem.status).toBe(500);
+    expect(problem.detail).not.toContain("secret");
+  });
+});
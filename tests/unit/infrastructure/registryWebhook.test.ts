@@ -0,0 +1,82 @@
+import crypto from "crypto";
+import { parseRegistryWebhook } from "../../../src/infrastructure/webhooks/registryWebhookParser";
+import { verifyWebhook } from "../../../src/infrastructure/webhooks/webhookSignature";
+
+describe("parseRegistryWebhook", () => {
+  it("should parse a Docker Hub webhook", () => {
+    const events = parseRegistryWebhook({
+      push_data: { pushed_at: 1700000000, tag: "1.0.0" },
+      repository: { repo_name: "acme/my-app" },
+    });
+
+    expect(events).toEqual([
+      expect.objectContaining({
+        source: "dockerhub",
+        action: "push",
+        repository: "acme/my-app",
+        tag: "1.0.0",
+      }),
+    ]);
+  });
+
+  it("should keep only manifest pushes and deletes from registry notifications", () => {
+    const events = parseRegistryWebhook({
+      events: [
+        {
+          action: "push",
+          target: {
+            mediaType: "application/vnd.oci.image.manifest.v1+json",
+            repository: "my-app",
+            tag: "latest",
+            digest: "sha256:abc",
+          },
+        },
+        {
+          action: "push",
+          target: {
+            mediaType: "application/octet-stream",
+            repository: "my-app",
+          },
+        },
+        { action: "pull", target: { repository: "my-app" } },
+        { action: "delete", target: { repository: "old-app", digest: "sha256:def" } },
+      ],
+    });
+
+    expect(events?.map((event) => `${event.action}:${event.repository}`)).toEqual([
+      "push:my-app",
+      "delete:old-app",
+    ]);
+  });
+
+  it("should reject unknown payloads", () => {
+    expect(parseRegistryWebhook({ hello: "world" })).toBeNull();
+  });
+});
+
+describe("verifyWebhook", () => {
+  const secret = "s3cret";
+  const rawBody = Buffer.from('{"events":[]}');
+
+  it("should accept a valid HMAC signature", () => {
+    const signature =
+      "sha256=" + crypto.createHmac("sha256", secret).update(rawBody).digest("hex");
+    expect(verifyWebhook(secret, { rawBody, signature })).toBe(true);
+  });
+
+  it("should reject a wrong signature even if a valid token is given", () => {
+    expect(
+      verifyWebhook(secret, { rawBody, signature: "sha256=00", token: secret })
+    ).toBe(false);
+  });
+
+  it("should accept a bearer secret or token", () => {
+    expect(verifyWebhook(secret, { authorization: `Bearer ${secret}` })).toBe(true);
+    expect(verifyWebhook(secret, { token: secret })).toBe(true);
+    expect(verifyWebhook(secret, { token: "nope" })).toBe(false);
+  });
+
+  it("should reject everything when no secret is configured", () => {
+    expect(verifyWebhook("", { token: "" })).toBe(false);
+  });
+});
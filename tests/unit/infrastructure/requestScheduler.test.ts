@@ -0,0 +1,95 @@
+import axios from "axios";
+import {
+  RequestScheduler,
+  parseRetryAfter,
+} from "../../../src/infrastructure/registry/requestScheduler";
+
+jest.mock("axios");
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+const httpError = (status: number, headers: Record<string, string> = {}) =>
+  Object.assign(new Error(`HTTP ${status}`), { response: { status, headers } });
+
+const options = {
+  maxConcurrentRequests: 2,
+  requestTimeoutMs: 1000,
+  maxRetries: 2,
+  retryBaseDelayMs: 1,
+  retryMaxDelayMs: 50,
+};
+const url = "https://registry.example.com/v2/_catalog";
+
+describe("RequestScheduler", () => {
+  beforeEach(() => jest.resetAllMocks());
+
+  it("should retry 429 and 5xx responses", async () => {
+    mockedAxios.request
+      .mockRejectedValueOnce(httpError(429, { "retry-after": "0" }))
+      .mockRejectedValueOnce(httpError(503))
+      .mockResolvedValueOnce({ data: "ok", headers: {} });
+
+    const response = await new RequestScheduler(options).request({ url });
+    expect(response.data).toBe("ok");
+    expect(mockedAxios.request).toHaveBeenCalledTimes(3);
+  });
+
+  it("should not retry client errors or non-idempotent requests", async () => {
+    mockedAxios.request.mockRejectedValue(httpError(404));
+    await expect(new RequestScheduler(options).request({ url })).rejects.toThrow(
+      "HTTP 404"
+    );
+
+    mockedAxios.request.mockRejectedValue(httpError(503));
+    await expect(
+      new RequestScheduler(options).request({ method: "POST", url })
+    ).rejects.toThrow("HTTP 503");
+    expect(mockedAxios.request).toHaveBeenCalledTimes(2);
+  });
+
+  it("should give up when Retry-After exceeds the maximum delay", async () => {
+    mockedAxios.request.mockRejectedValue(httpError(429, { "retry-after": "3600" }));
+    await expect(new RequestScheduler(options).request({ url })).rejects.toThrow(
+      "HTTP 429"
+    );
+    expect(mockedAxios.request).toHaveBeenCalledTimes(1);
+  });
+
+  it("should limit the number of concurrent requests", async () => {
+    let active = 0;
+    let maxActive = 0;
+    mockedAxios.request.mockImplementation(async () => {
+      active++;
+      maxActive = Math.max(maxActive, active);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      active--;
+      return { data: null, headers: {} } as any;
+    });
+
+    const scheduler = new RequestScheduler(options);
+    await Promise.all([1, 2, 3, 4, 5].map(() => scheduler.request({ url })));
+    expect(maxActive).toBe(2);
+  });
+
+  it("should track the rate limit state per host", async () => {
+    mockedAxios.request.mockResolvedValue({
+      data: null,
+      headers: { "ratelimit-limit": "100;w=21600", "ratelimit-remaining": "42;w=21600" },
+    });
+
+    const scheduler = new RequestScheduler(options);
+    await scheduler.request({ url });
+    expect(scheduler.getRateLimitState("registry.example.com")).toMatchObject({
+      limit: 100,
+      remaining: 42,
+    });
+  });
+});
+
+describe("parseRetryAfter", () => {
+  it("should parse seconds and HTTP dates", () => {
+    expect(parseRetryAfter("5")).toBe(5000);
+    const now = Date.parse("2024-01-01T00:00:00Z");
+    expect(parseRetryAfter("Mon, 01 Jan 2024 00:00:10 GMT", now)).toBe(10000);
+    expect(parseRetryAfter("soon")).toBeNull();
+  });
+});
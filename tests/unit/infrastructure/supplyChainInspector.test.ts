@@ -0,0 +1,142 @@
+import { createHash, generateKeyPairSync, sign } from "crypto";
+import { SupplyChainInspector } from "../../../src/infrastructure/supplyChain/supplyChainInspector";
+import { IRegistryBackend } from "../../../src/infrastructure/registry/registryBackend";
+
+const IMAGE_DIGEST = "sha256:image";
+
+const sha256 = (data: Buffer) =>
+  `sha256:${createHash("sha256").update(data).digest("hex")}`;
+
+const makeSignature = (imageDigest: string) => {
+  const { privateKey, publicKey } = generateKeyPairSync("ec", { namedCurve: "P-256" });
+  const payload = Buffer.from(
+    JSON.stringify({
+      critical: {
+        identity: { "docker-reference": "registry.example.com/my-app" },
+        image: { "docker-manifest-digest": imageDigest },
+        type: "cosign container image signature",
+      },
+      optional: null,
+    })
+  );
+  return {
+    publicKey,
+    payload,
+    layer: {
+      mediaType: "application/vnd.dev.cosign.simplesigning.v1+json",
+      digest: sha256(payload),
+      annotations: {
+        "dev.cosignproject.cosign/signature": sign("sha256", payload, privateKey).toString(
+          "base64"
+        ),
+      },
+    },
+  };
+};
+
+const makeClient = (
+  manifests: Record<string, any>,
+  blobs: Record<string, Buffer> = {},
+  referrers: any[] = []
+): IRegistryBackend =>
+  ({
+    findManifest: jest.fn(async (_repo: string, reference: string) => manifests[reference] ?? null),
+    getReferrers: jest.fn(async () => referrers),
+    getBlob: jest.fn(async (_repo: string, digest: string) => blobs[digest]),
+  } as unknown as IRegistryBackend);
+
+describe("SupplyChainInspector", () => {
+  it("should verify a cosign signature made with a trusted key", async () => {
+    const { publicKey, payload, layer } = makeSignature(IMAGE_DIGEST);
+    const client = makeClient(
+      { "sha256-image.sig": { layers: [layer] } },
+      { [layer.digest]: payload }
+    );
+    const inspector = new SupplyChainInspector(client, [{ id: "cosign", key: publicKey }]);
+
+    expect(await inspector.verifySignature("my-app", IMAGE_DIGEST)).toEqual({
+      status: "verified",
+      keyId: "cosign",
+    });
+  });
+
+  it("should not trust signatures of other keys or other images", async () => {
+    const other = makeSignature(IMAGE_DIGEST);
+    const { payload, layer } = makeSignature("sha256:other-image");
+    const client = makeClient(
+      { "sha256-image.sig": { layers: [layer] } },
+      { [layer.digest]: payload }
+    );
+    const inspector = new SupplyChainInspector(client, [
+      { id: "other", key: other.publicKey },
+    ]);
+
+    const result = await inspector.verifySignature("my-app", IMAGE_DIGEST);
+    expect(result.status).toBe("unverified");
+    expect(result.reason).toMatch(/different image/);
+  });
+
+  it("should report images without signatures as unsigned", async () => {
+    const inspector = new SupplyChainInspector(makeClient({}), []);
+
+    expect(await inspector.verifySignature("my-app", IMAGE_DIGEST)).toEqual({
+      status: "unsigned",
+    });
+  });
+
+  it("should find SBOMs among referrers and provenance in attestation manifests", async () => {
+    const client = makeClient(
+      {
+        "sha256:sbom-artifact": {
+          layers: [{ mediaType: "application/spdx+json", digest: "sha256:spdx", size: 42 }],
+        },
+        "sha256:attestation": {
+          layers: [
+            {
+              mediaType: "application/vnd.in-toto+json",
+              digest: "sha256:slsa",
+              annotations: { "in-toto.io/predicate-type": "https://slsa.dev/provenance/v0.2" },
+            },
+          ],
+        },
+      },
+      {},
+      [{ digest: "sha256:sbom-artifact", artifactType: "application/spdx+json" }]
+    );
+    const inspector = new SupplyChainInspector(client, []);
+
+    const details = await inspector.inspect("my-app", IMAGE_DIGEST, {
+      manifest: {},
+      digest: "sha256:amd64",
+      platform: { os: "linux", architecture: "amd64" },
+      platforms: [{ os: "linux", architecture: "amd64" }],
+      index: {
+        manifests: [
+          { digest: "sha256:amd64", platform: { os: "linux", architecture: "amd64" } },
+          {
+            digest: "sha256:attestation",
+            platform: { os: "unknown", architecture: "unknown" },
+            annotations: {
+              "vnd.docker.reference.type": "attestation-manifest",
+              "vnd.docker.reference.digest": "sha256:amd64",
+            },
+          },
+        ],
+      },
+    });
+
+    expect(details.sboms.map((document) => document.digest)).toEqual(["sha256:spdx"]);
+    expect(details.sboms[0].source).toBe("referrers");
+    expect(details.provenance).toEqual([
+      {
+        kind: "provenance",
+        type: "https://slsa.dev/provenance/v0.2",
+        mediaType: "application/vnd.in-toto+json",
+        digest: "sha256:slsa",
+        size: undefined,
+        source: "attestation",
+      },
+    ]);
+    expect(details.signature.status).toBe("unsigned");
+  });
+});
@@ -0,0 +1,79 @@
+import { getRequestContext, runWithContext } from "../../../src/shared/requestContext";
+import { SpanData, Tracer, parseTraceparent } from "../../../src/shared/tracing";
+
+const makeTracer = () => {
+  const exported: SpanData[] = [];
+  const tracer = new Tracer();
+  tracer.setExporter({
+    export: async (spans) => {
+      exported.push(...spans);
+    },
+  });
+  return { tracer, exported };
+};
+
+describe("Tracer", () => {
+  it("nests spans along the async call chain", async () => {
+    const { tracer, exported } = makeTracer();
+
+    await tracer.startActiveSpan("catalog.refresh", {}, async () => {
+      await Promise.all(
+        ["acme/a", "acme/b"].map((repo) =>
+          tracer.startActiveSpan("catalog.load_app", { attributes: { repo } }, async () => {
+            await new Promise((resolve) => setTimeout(resolve, 1));
+          })
+        )
+      );
+    });
+    await tracer.flush();
+
+    const root = exported.find((span) => span.name === "catalog.refresh")!;
+    const children = exported.filter((span) => span.name === "catalog.load_app");
+    expect(root.parentSpanId).toBeUndefined();
+    expect(children).toHaveLength(2);
+    for (const child of children) {
+      expect(child.traceId).toBe(root.traceId);
+      expect(child.parentSpanId).toBe(root.spanId);
+      expect(child.endTimeUnixNano >= child.startTimeUnixNano).toBe(true);
+    }
+  });
+
+  it("marks spans of failed work as errors", async () => {
+    const { tracer, exported } = makeTracer();
+
+    await expect(
+      tracer.startActiveSpan("registry GET manifest", { kind: "client" }, async () => {
+        throw new Error("timeout");
+      })
+    ).rejects.toThrow("timeout");
+    await tracer.flush();
+
+    expect(exported[0].status).toEqual({ code: "error", message: "timeout" });
+  });
+
+  it("continues a trace from a traceparent header", async () => {
+    const { tracer, exported } = makeTracer();
+    const parent = parseTraceparent(
+      "00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01"
+    );
+
+    await tracer.startActiveSpan("GET /api/apps", { kind: "server", parent }, async () => {});
+    await tracer.flush();
+
+    expect(exported[0].traceId).toBe("4bf92f3577b34da6a3ce929d0e0e4736");
+    expect(exported[0].parentSpanId).toBe("00f067aa0ba902b7");
+    expect(parseTraceparent("00-" + "0".repeat(32) + "-00f067aa0ba902b7-01")).toBeUndefined();
+    expect(parseTraceparent("garbage")).toBeUndefined();
+  });
+
+  it("keeps the request context inside spans", async () => {
+    const { tracer } = makeTracer();
+
+    await runWithContext({ requestId: "req-1" }, () =>
+      tracer.startActiveSpan("catalog.load_app", {}, async (span) => {
+        expect(getRequestContext()).toEqual({ requestId: "req-1", span: span.context });
+      })
+    );
+    expect(getRequestContext()).toBeUndefined();
+  });
+});
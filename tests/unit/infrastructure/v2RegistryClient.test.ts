@@ -0,0 +1,40 @@
+import axios from "axios";
+import { V2RegistryClient } from "../../../src/infrastructure/registry/v2RegistryClient";
+
+jest.mock("axios");
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+describe("V2RegistryClient", () => {
+  beforeEach(() => jest.resetAllMocks());
+
+  it("should read a bounded number of tag manifests at once", async () => {
+    const names = Array.from({ length: 20 }, (_, index) => `1.${index}`);
+    let running = 0;
+    let mostRunning = 0;
+    mockedAxios.request.mockImplementation(async (requestConfig: any) => {
+      if (requestConfig.url.includes("/tags/list")) {
+        return { data: { tags: names }, headers: {} };
+      }
+      running++;
+      mostRunning = Math.max(mostRunning, running);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      running--;
+      const tag = requestConfig.url.split("/").pop();
+      return { data: { layers: [] }, headers: { "docker-content-digest": `sha256:${tag}` } };
+    });
+
+    const client = new V2RegistryClient("https://registry.example.com", null, {
+      maxConcurrentRequests: 50,
+      requestTimeoutMs: 1000,
+      maxRetries: 0,
+      retryBaseDelayMs: 0,
+      retryMaxDelayMs: 0,
+    });
+    const tags = await client.listTags("acme/app");
+
+    expect(tags.map((tag) => tag.name)).toEqual(names);
+    expect(tags[3].digest).toBe("sha256:1.3");
+    expect(mostRunning).toBeGreaterThan(1);
+    expect(mostRunning).toBeLessThanOrEqual(4);
+  });
+});
@@ -0,0 +1,102 @@
+import { Type } from "@sinclair/typebox";
+import { Request, Response } from "express";
+import { ContractRouter } from "../../../src/interfaces/http/openapi/contractRouter";
+import { buildOpenApiDocument } from "../../../src/interfaces/http/openapi/openApiDocument";
+import { defineContract } from "../../../src/interfaces/http/openapi/routeContract";
+import {
+  validateRequest,
+  validateResponses,
+} from "../../../src/interfaces/http/openapi/validation";
+import { ValidationError } from "../../../src/shared/errors";
+
+const Item = Type.Object({ id: Type.Integer(), name: Type.String() }, { $id: "Item" });
+
+const getItemContract = defineContract({
+  method: "get",
+  path: "/items/:id",
+  summary: "Read an item",
+  tags: ["Items"],
+  params: Type.Object({ id: Type.Integer({ minimum: 1 }) }),
+  query: Type.Object(
+    { verbose: Type.Optional(Type.Boolean()) },
+    { additionalProperties: false }
+  ),
+  responses: { 200: { description: "The item.", schema: Item } },
+});
+
+const run = (contract: typeof getItemContract, req: Partial<Request>) => {
+  const next = jest.fn();
+  validateRequest(contract)(req as Request, {} as Response, next);
+  return next.mock.calls[0][0];
+};
+
+describe("validateRequest", () => {
+  it("should convert path and query parameters to the declared types", () => {
+    const req: Partial<Request> = { params: { id: "7" }, query: { verbose: "true" } };
+
+    expect(run(getItemContract, req)).toBeUndefined();
+    expect(req.params).toEqual({ id: 7 });
+    expect(req.query).toEqual({ verbose: true });
+  });
+
+  it("should report every problem at once", () => {
+    const error = run(getItemContract, { params: { id: "0" }, query: { sort: "name" } });
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error.errors).toEqual([
+      "Path parameter 'id': expected integer to be greater or equal to 1.",
+      "Unknown query parameter 'sort'.",
+    ]);
+  });
+});
+
+describe("validateResponses", () => {
+  const respond = (body: unknown) => {
+    const send = jest.fn();
+    const res = { statusCode: 200, json: send } as unknown as Response;
+    validateResponses(getItemContract)(
+      { method: "GET", baseUrl: "", path: "/items/1" } as Request,
+      res,
+      jest.fn()
+    );
+    res.json(body);
+    return send;
+  };
+
+  it("should send responses that match the contract", () => {
+    expect(respond({ id: 1, name: "One" })).toHaveBeenCalledWith({ id: 1, name: "One" });
+  });
+
+  it("should refuse to send responses that drifted from the contract", () => {
+    expect(() => respond({ id: "1", name: "One" })).toThrow(
+      "Response field 'id': expected integer."
+    );
+  });
+});
+
+describe("buildOpenApiDocument", () => {
+  it("should describe the routes of every router", () => {
+    const routes = new ContractRouter("/api");
+    routes.route(getItemContract, () => undefined);
+
+    const document = buildOpenApiDocument(
+      { title: "Test", version: "1.0.0", description: "" },
+      [routes]
+    );
+
+    const operation = document.paths["/api/items/{id}"].get;
+    expect(operation.parameters).toEqual([
+      { name: "id", in: "path", required: true, schema: { type: "integer", minimum: 1 } },
+      { name: "verbose", in: "query", required: false, schema: { type: "boolean" } },
+    ]);
+    expect(operation.responses[200].content["application/json"].schema).toEqual({
+      $ref: "#/components/schemas/Item",
+    });
+    // Invalid input is answered with a problem, whether listed or not
+    expect(operation.responses[400].content).toHaveProperty(["application/problem+json"]);
+    expect(document.components.schemas.Item).toMatchObject({
+      type: "object",
+      required: ["id", "name"],
+    });
+  });
+});